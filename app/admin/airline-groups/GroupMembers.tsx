@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface GroupMembersProps {
+  groupId: string;
+  members: Array<{ icao: string; name: string; country: string; parentGuarantee: boolean }>;
+  candidates: Array<{ icao: string; name: string; groupId: string | null }>;
+}
+
+export default function GroupMembers({ groupId, members, candidates }: GroupMembersProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [icao, setIcao] = useState('');
+  const [parentGuarantee, setParentGuarantee] = useState(false);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError('');
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update group');
+      }
+
+      router.refresh();
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to update group');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setMember = (memberIcao: string, guaranteed: boolean) =>
+    request(`/api/admin/airline-groups/${groupId}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ icao: memberIcao, parentGuarantee: guaranteed }),
+    });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await setMember(icao, parentGuarantee)) {
+      setIcao('');
+      setParentGuarantee(false);
+    }
+  };
+
+  const handleRemove = (memberIcao: string) =>
+    request(`/api/admin/airline-groups/${groupId}/members/${memberIcao}`, { method: 'DELETE' });
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No subsidiaries yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Airline</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Country</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Parent Guarantee</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {members.map(member => (
+              <tr key={member.icao}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                  {member.name} <span className="text-gray-500 dark:text-gray-400">({member.icao})</span>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300">{member.country}</td>
+                <td className="px-4 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={member.parentGuarantee}
+                    disabled={isSaving}
+                    onChange={(e) => setMember(member.icao, e.target.checked)}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => handleRemove(member.icao)}
+                    disabled={isSaving}
+                    className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 text-sm font-medium disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+        <select
+          required
+          value={icao}
+          onChange={(e) => setIcao(e.target.value)}
+          className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm sm:text-sm px-3 py-2 border"
+        >
+          <option value="">Add airline...</option>
+          {candidates.map(airline => (
+            <option key={airline.icao} value={airline.icao}>
+              {airline.name} ({airline.icao}){airline.groupId ? ' - moves from its current group' : ''}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={parentGuarantee}
+            onChange={(e) => setParentGuarantee(e.target.checked)}
+            className="rounded border-gray-300 dark:border-gray-600"
+          />
+          Parent guarantee
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving || !icao}
+          className="inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function NewAirlineGroupForm() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const [name, setName] = useState('');
+  const [ticker, setTicker] = useState('');
+  const [country, setCountry] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/admin/airline-groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, ticker, country }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create group');
+      }
+
+      setName('');
+      setTicker('');
+      setCountry('');
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create group');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-4">New Group</h3>
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end">
+          <div>
+            <label htmlFor="groupName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name *</label>
+            <input
+              type="text"
+              id="groupName"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Air France-KLM"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="groupTicker" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Parent Ticker
+            </label>
+            <input
+              type="text"
+              id="groupTicker"
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value.toUpperCase())}
+              placeholder="AF.PA"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="groupCountry" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Country</label>
+            <input
+              type="text"
+              id="groupCountry"
+              value={country}
+              onChange={(e) => setCountry(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Creating...' : 'Create Group'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import prisma from '@/lib/db';
+import { getAirlineGroups } from '@/lib/airline-groups';
+import NewAirlineGroupForm from './NewAirlineGroupForm';
+import GroupMembers from './GroupMembers';
+
+export const dynamic = 'force-dynamic';
+
+async function getGroupsAndAirlines() {
+  try {
+    const [groups, airlines] = await Promise.all([
+      getAirlineGroups(),
+      prisma.airline.findMany({
+        orderBy: { name: 'asc' },
+        select: { icao: true, name: true, groupId: true },
+      }),
+    ]);
+
+    return { groups, airlines };
+  } catch (error) {
+    console.error('Error fetching airline groups:', error);
+    return { groups: [], airlines: [] };
+  }
+}
+
+export default async function AirlineGroupsPage() {
+  const { groups, airlines } = await getGroupsAndAirlines();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          Airline Groups
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Subsidiaries of a group are treated as one obligor for concentration and credit limits.
+          Subsidiaries without their own financials inherit the parent&apos;s, with medium confidence
+          when the parent guarantees their obligations and low confidence otherwise.
+        </p>
+      </div>
+
+      <NewAirlineGroupForm />
+
+      {groups.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6 px-4 py-5 sm:p-6">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No groups defined. Every airline is treated as a standalone obligor.
+          </p>
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.id} className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-baseline justify-between mb-4">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">{group.name}</h3>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {group.ticker ? `Ticker ${group.ticker}` : 'No ticker'}
+                  {group.country && ` · ${group.country}`}
+                </div>
+              </div>
+              <GroupMembers
+                groupId={group.id}
+                members={group.airlines}
+                candidates={airlines.filter(a => a.groupId !== group.id)}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
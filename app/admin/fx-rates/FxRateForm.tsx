@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+const CSV_PLACEHOLDER = `date,base,quote,rate
+2026-10-16,EUR,USD,1.0842
+2026-10-16,GBP,USD,1.2715`;
+
+export default function FxRateForm() {
+  const router = useRouter();
+  const [mode, setMode] = useState<'manual' | 'csv'>('manual');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [rejected, setRejected] = useState<string[]>([]);
+
+  const [baseCurrency, setBaseCurrency] = useState('EUR');
+  const [quoteCurrency, setQuoteCurrency] = useState('USD');
+  const [rate, setRate] = useState('');
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [csv, setCsv] = useState('');
+
+  const submit = async (url: string, payload: Record<string, unknown>) => {
+    setError('');
+    setMessage('');
+    setRejected([]);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setRejected(data.errors || []);
+        throw new Error(data.error || 'Failed to save rates');
+      }
+
+      return data;
+    } catch (err: any) {
+      setError(err.message || 'Failed to save rates');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submit('/api/admin/fx-rates', { baseCurrency, quoteCurrency, rate: parseFloat(rate), asOf });
+
+    if (data) {
+      setMessage(`Saved ${data.rate.baseCurrency}/${data.rate.quoteCurrency} ${data.rate.rate}`);
+      setRate('');
+      router.refresh();
+    }
+  };
+
+  const handleCsvSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submit('/api/admin/fx-rates/import', { csv });
+
+    if (data) {
+      setMessage(`Imported ${data.imported} rate${data.imported !== 1 ? 's' : ''}`);
+      setRejected(data.errors);
+      if (data.errors.length === 0) setCsv('');
+      router.refresh();
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-sm font-medium rounded-md ${
+      active
+        ? 'bg-blue-600 text-white'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Add Rates</h3>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setMode('manual')} className={tabClass(mode === 'manual')}>
+              Manual
+            </button>
+            <button type="button" onClick={() => setMode('csv')} className={tabClass(mode === 'csv')}>
+              CSV Import
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-200 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        {rejected.length > 0 && (
+          <ul className="mb-4 text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+            {rejected.map(line => <li key={line}>{line}</li>)}
+          </ul>
+        )}
+
+        {mode === 'manual' ? (
+          <form onSubmit={handleManualSubmit} className="grid grid-cols-1 gap-4 sm:grid-cols-5 items-end">
+            <div>
+              <label htmlFor="baseCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Base *</label>
+              <input
+                type="text"
+                id="baseCurrency"
+                required
+                maxLength={3}
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="quoteCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quote *</label>
+              <input
+                type="text"
+                id="quoteCurrency"
+                required
+                maxLength={3}
+                value={quoteCurrency}
+                onChange={(e) => setQuoteCurrency(e.target.value.toUpperCase())}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="fxRate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Rate * <span className="text-xs text-gray-500">(quote per 1 base)</span>
+              </label>
+              <input
+                type="number"
+                id="fxRate"
+                required
+                min="0"
+                step="any"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="fxAsOf" className="block text-sm font-medium text-gray-700 dark:text-gray-300">As Of *</label>
+              <input
+                type="date"
+                id="fxAsOf"
+                required
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save Rate'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleCsvSubmit} className="space-y-3">
+            <textarea
+              rows={8}
+              required
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              placeholder={CSV_PLACEHOLDER}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              One rate per line with a date,base,quote,rate header. Existing rates for the same pair and date are replaced.
+            </p>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Importing...' : 'Import CSV'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
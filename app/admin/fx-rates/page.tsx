@@ -0,0 +1,92 @@
+import prisma from '@/lib/db';
+import { getFxRates } from '@/lib/fx-rates';
+import FxRateForm from './FxRateForm';
+
+export const dynamic = 'force-dynamic';
+
+async function getRates() {
+  try {
+    const [latest, history] = await Promise.all([
+      getFxRates(),
+      prisma.fxRate.findMany({
+        orderBy: [{ asOf: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+        take: 100,
+      }),
+    ]);
+
+    return { latest, history };
+  } catch (error) {
+    console.error('Error fetching FX rates:', error);
+    return { latest: [], history: [] };
+  }
+}
+
+export default async function FxRatesPage() {
+  const { latest, history } = await getRates();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          FX Rates
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Portfolios are consolidated into their reporting currency with the latest rate for each pair.
+          Missing pairs are crossed through USD.
+        </p>
+      </div>
+
+      <FxRateForm />
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-4">Current Rates</h3>
+          {latest.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No rates stored. Multi-currency portfolios show per-currency figures only until rates are added.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              {latest.map(rate => (
+                <div key={`${rate.baseCurrency}${rate.quoteCurrency}`} className="p-3 rounded-md bg-gray-50 dark:bg-gray-900">
+                  <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    {rate.baseCurrency}/{rate.quoteCurrency}
+                  </div>
+                  <div className="text-xl font-semibold text-gray-900 dark:text-white">{rate.rate.toFixed(4)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">as of {rate.asOf.toLocaleDateString()}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">As Of</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Pair</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Rate</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {history.map(rate => (
+                <tr key={rate.id}>
+                  <td className="px-6 py-3 text-sm text-gray-700 dark:text-gray-300">{rate.asOf.toLocaleDateString()}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 dark:text-white">
+                    {rate.baseCurrency}/{rate.quoteCurrency}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900 dark:text-white">{rate.rate.toFixed(4)}</td>
+                  <td className="px-6 py-3 text-xs text-gray-500 dark:text-gray-400 uppercase">{rate.source}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
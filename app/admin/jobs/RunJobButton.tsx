@@ -0,0 +1,38 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function RunJobButton({ jobKey, running }: { jobKey: string; running: boolean }) {
+  const router = useRouter();
+  const [isStarting, setIsStarting] = useState(false);
+
+  const handleRun = async () => {
+    setIsStarting(true);
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobKey}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start job');
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error('Error starting job:', error);
+      alert(error.message || 'Failed to start job. Please try again.');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleRun}
+      disabled={running || isStarting}
+      className="inline-flex justify-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+    >
+      {running ? 'Running...' : isStarting ? 'Starting...' : 'Run now'}
+    </button>
+  );
+}
@@ -0,0 +1,183 @@
+import Link from 'next/link';
+import { getJobsOverview } from '@/lib/jobs';
+import RunJobButton from './RunJobButton';
+
+export const dynamic = 'force-dynamic';
+
+async function getOverview() {
+  try {
+    return await getJobsOverview();
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return null;
+  }
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200',
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200',
+  partial: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[status] ?? STATUS_STYLES.failed}`}>
+      {status}
+    </span>
+  );
+}
+
+function formatDuration(startedAt: Date, finishedAt: Date | null): string {
+  if (!finishedAt) return '—';
+  const seconds = Math.round((finishedAt.getTime() - startedAt.getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default async function JobsPage() {
+  const overview = await getOverview();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          Background Jobs
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Scheduled with <code>npm run jobs:run</code> from cron (or <code>npm run jobs:run -- --watch</code> as a
+          long-running worker). Airline refreshes are spaced to stay within external provider rate limits.
+        </p>
+      </div>
+
+      {!overview ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+          Failed to load job status.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-baseline justify-between">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Snapshot Coverage</h3>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {overview.coverage.fresh} of {overview.coverage.heldAirlines} held airlines fresh
+                </span>
+              </div>
+              {overview.coverage.staleAirlines.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  Every airline with an exposure has a current snapshot from the active model.
+                </p>
+              ) : (
+                <>
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                    Stale or from a superseded model version - run the airline risk refresh before producing reports.
+                  </p>
+                  <ul className="mt-2 flex flex-wrap gap-2">
+                    {overview.coverage.staleAirlines.map(airline => (
+                      <li key={airline.icao}>
+                        <Link
+                          href={`/airlines/${airline.icao}`}
+                          title={airline.calculatedAt ? `Last calculated ${airline.calculatedAt.toLocaleString()}` : 'Never calculated'}
+                          className="inline-flex px-2 py-1 text-xs rounded bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200"
+                        >
+                          {airline.icao}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 mt-6 md:grid-cols-2">
+            {overview.jobs.map(job => (
+              <div key={job.key} className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+                <div className="px-4 py-5 sm:p-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">{job.name}</h3>
+                      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{job.description}</p>
+                    </div>
+                    <RunJobButton jobKey={job.key} running={job.lastRun?.status === 'running'} />
+                  </div>
+                  <dl className="mt-4 grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <dt className="text-gray-500 dark:text-gray-400">Every</dt>
+                    <dd className="text-gray-900 dark:text-white">{job.intervalHours}h</dd>
+                    <dt className="text-gray-500 dark:text-gray-400">Last run</dt>
+                    <dd className="text-gray-900 dark:text-white">
+                      {job.lastRun ? (
+                        <>
+                          {job.lastRun.startedAt.toLocaleString()} <StatusBadge status={job.lastRun.status} />
+                        </>
+                      ) : (
+                        'Never'
+                      )}
+                    </dd>
+                    <dt className="text-gray-500 dark:text-gray-400">Last success</dt>
+                    <dd className="text-gray-900 dark:text-white">{job.lastSuccess?.startedAt.toLocaleString() ?? 'Never'}</dd>
+                    <dt className="text-gray-500 dark:text-gray-400">Next due</dt>
+                    <dd className="text-gray-900 dark:text-white">{job.nextDueAt.toLocaleString()}</dd>
+                  </dl>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-4">Recent Runs</h3>
+              {overview.runs.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No runs yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Job</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Started</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Trigger</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Items</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Duration</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {overview.runs.map(run => (
+                        <tr key={run.id}>
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                            {overview.jobs.find(job => job.key === run.job)?.name ?? run.job}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">{run.startedAt.toLocaleString()}</td>
+                          <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">{run.trigger}</td>
+                          <td className="px-4 py-3 text-sm"><StatusBadge status={run.status} /></td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">
+                            {run.status === 'running' ? '—' : `${run.succeeded}/${run.total}`}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-500 dark:text-gray-400">
+                            {formatDuration(run.startedAt, run.finishedAt)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                            {run.message}
+                            {run.failures.length > 0 && (
+                              <ul className="text-red-600 dark:text-red-400">
+                                {run.failures.map(failure => (
+                                  <li key={failure.item}>{failure.item}: {failure.error}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
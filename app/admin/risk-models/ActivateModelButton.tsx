@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ActivateModelButtonProps {
+  versionId: string;
+  version: string;
+}
+
+export default function ActivateModelButton({ versionId, version }: ActivateModelButtonProps) {
+  const router = useRouter();
+  const [isActivating, setIsActivating] = useState(false);
+
+  const handleActivate = async () => {
+    if (!confirm(`Activate risk model ${version}? Airline scores will be recalculated with its parameters.`)) {
+      return;
+    }
+
+    setIsActivating(true);
+    try {
+      const response = await fetch(`/api/admin/risk-models/${versionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to activate model version');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error activating model version:', error);
+      alert('Failed to activate model version. Please try again.');
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleActivate}
+      disabled={isActivating}
+      className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 text-sm font-medium disabled:opacity-50"
+    >
+      {isActivating ? 'Activating...' : 'Activate'}
+    </button>
+  );
+}
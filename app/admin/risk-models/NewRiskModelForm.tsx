@@ -0,0 +1,473 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { ConcentrationSegment, RiskConfig, RiskDimensionKey, StrategicImportance } from '@/lib/risk-model';
+
+const SEGMENTS: Array<{ key: ConcentrationSegment; label: string }> = [
+  { key: 'country', label: 'Country' },
+  { key: 'region', label: 'Region' },
+  { key: 'subregion', label: 'Subregion' },
+  { key: 'jurisdictionBand', label: 'Jurisdiction band' },
+];
+
+const IMPORTANCE_LEVELS: Array<{ key: StrategicImportance; label: string }> = [
+  { key: 'high', label: 'High importance' },
+  { key: 'medium', label: 'Medium importance' },
+  { key: 'low', label: 'Low importance' },
+];
+
+interface NewRiskModelFormProps {
+  sources: Array<{ key: RiskDimensionKey; name: string }>;
+  initialConfig: RiskConfig; // New versions start from the active parameters
+}
+
+export default function NewRiskModelForm({ sources, initialConfig }: NewRiskModelFormProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const [version, setVersion] = useState('');
+  const [description, setDescription] = useState('');
+  const [enabled, setEnabled] = useState<Record<string, boolean>>(
+    Object.fromEntries(sources.map(s => [s.key, initialConfig.enabledSources.includes(s.key)]))
+  );
+  const [weights, setWeights] = useState<Record<string, string>>(
+    Object.fromEntries(
+      sources.map(s => [s.key, String(Math.round((initialConfig.weights[s.key] ?? 0) * 100))])
+    )
+  );
+  const [lowMax, setLowMax] = useState(String(initialConfig.bucketThresholds.lowMax));
+  const [mediumMax, setMediumMax] = useState(String(initialConfig.bucketThresholds.mediumMax));
+  const [diversifiedNames, setDiversifiedNames] = useState(String(initialConfig.concentrationModel.diversifiedNames));
+  const [maxPenalty, setMaxPenalty] = useState(String(initialConfig.concentrationModel.maxPenalty));
+  const [segmentRules, setSegmentRules] = useState(
+    Object.fromEntries(
+      SEGMENTS.map(segment => [
+        segment.key,
+        initialConfig.segmentConcentrationRules[segment.key].map(rule => ({
+          minConcentration: String(rule.minConcentration),
+          penalty: String(rule.penalty),
+        })),
+      ])
+    ) as Record<ConcentrationSegment, Array<{ minConcentration: string; penalty: string }>>
+  );
+  const [grades, setGrades] = useState(
+    initialConfig.ratingScale.map(grade => ({
+      grade: grade.grade,
+      maxScore: String(grade.maxScore),
+      pd: String(Math.round(grade.pd * 1000000) / 10000),
+    }))
+  );
+  const [controllingStake, setControllingStake] = useState(String(initialConfig.sovereignSupport.controllingStake));
+  const [supportFactors, setSupportFactors] = useState(
+    Object.fromEntries(
+      IMPORTANCE_LEVELS.map(level => [level.key, String(initialConfig.sovereignSupport.importanceFactors[level.key])])
+    ) as Record<StrategicImportance, string>
+  );
+  const [activate, setActivate] = useState(true);
+
+  const enabledKeys = sources.filter(s => enabled[s.key]).map(s => s.key);
+  const totalWeight = enabledKeys.reduce((sum, key) => sum + (parseFloat(weights[key]) || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/admin/risk-models', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          version,
+          description: description || null,
+          enabledSources: enabledKeys,
+          weights: Object.fromEntries(enabledKeys.map(key => [key, (parseFloat(weights[key]) || 0) / 100])),
+          lowMax: parseFloat(lowMax),
+          mediumMax: parseFloat(mediumMax),
+          concentrationModel: {
+            diversifiedNames: parseFloat(diversifiedNames),
+            maxPenalty: parseFloat(maxPenalty),
+          },
+          segmentConcentrationRules: Object.fromEntries(
+            SEGMENTS.map(segment => [
+              segment.key,
+              segmentRules[segment.key]
+                .map(rule => ({
+                  minConcentration: parseFloat(rule.minConcentration) || 0,
+                  penalty: parseFloat(rule.penalty) || 0,
+                }))
+                .sort((a, b) => a.minConcentration - b.minConcentration),
+            ])
+          ),
+          ratingScale: grades.map(grade => ({
+            grade: grade.grade.trim(),
+            maxScore: parseFloat(grade.maxScore),
+            pd: (parseFloat(grade.pd) || 0) / 100,
+          })),
+          sovereignSupport: {
+            controllingStake: parseFloat(controllingStake),
+            importanceFactors: Object.fromEntries(
+              IMPORTANCE_LEVELS.map(level => [level.key, parseFloat(supportFactors[level.key])])
+            ),
+          },
+          activate,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create model version');
+      }
+
+      setVersion('');
+      setDescription('');
+      setIsOpen(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create model version');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">New Model Version</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Starts from the active version&apos;s parameters
+            </p>
+          </div>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {isOpen ? 'Cancel' : 'Create Version'}
+          </button>
+        </div>
+
+        {isOpen && (
+          <form onSubmit={handleSubmit} className="mt-4 p-4 bg-gray-50 dark:bg-gray-900 rounded-md border border-gray-200 dark:border-gray-700 space-y-6">
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div>
+                <label htmlFor="modelVersion" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Version *
+                </label>
+                <input
+                  type="text"
+                  id="modelVersion"
+                  required
+                  value={version}
+                  onChange={(e) => setVersion(e.target.value)}
+                  placeholder="e.g., conservative-1"
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-3">
+                <label htmlFor="modelDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  id="modelDescription"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Rationale for the change"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Source Weights (%)</h4>
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-5">
+                {sources.map(source => (
+                  <div key={source.key}>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={enabled[source.key]}
+                        onChange={(e) => setEnabled({ ...enabled, [source.key]: e.target.checked })}
+                      />
+                      {source.name}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      disabled={!enabled[source.key]}
+                      value={weights[source.key]}
+                      onChange={(e) => setWeights({ ...weights, [source.key]: e.target.value })}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Total {totalWeight}% (must be 100%). Weights are normalized across the components available for each airline.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div>
+                <label htmlFor="lowMax" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Low Risk Max *
+                </label>
+                <input
+                  type="number"
+                  id="lowMax"
+                  required
+                  min="0"
+                  max="100"
+                  value={lowMax}
+                  onChange={(e) => setLowMax(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="mediumMax" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Medium Risk Max *
+                </label>
+                <input
+                  type="number"
+                  id="mediumMax"
+                  required
+                  min="0"
+                  max="100"
+                  value={mediumMax}
+                  onChange={(e) => setMediumMax(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Single-Name Concentration Penalty</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Measured on the HHI of obligor exposures (airline groups count as one name). No penalty at or above the
+                diversified number of effective names, rising linearly to the maximum when all exposure is with one obligor.
+              </p>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                <div>
+                  <label htmlFor="diversifiedNames" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Diversified Names *
+                  </label>
+                  <input
+                    type="number"
+                    id="diversifiedNames"
+                    required
+                    min="1.1"
+                    step="0.1"
+                    value={diversifiedNames}
+                    onChange={(e) => setDiversifiedNames(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxPenalty" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Max Penalty (points) *
+                  </label>
+                  <input
+                    type="number"
+                    id="maxPenalty"
+                    required
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={maxPenalty}
+                    onChange={(e) => setMaxPenalty(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Sovereign Support</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                A state-owned airline&apos;s standalone score moves toward its sovereign&apos;s score by the support factor for
+                its strategic importance, scaled down pro rata below the controlling stake. Never better than the sovereign.
+              </p>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                <div>
+                  <label htmlFor="controllingStake" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Controlling Stake (%) *
+                  </label>
+                  <input
+                    type="number"
+                    id="controllingStake"
+                    required
+                    min="1"
+                    max="100"
+                    step="1"
+                    value={controllingStake}
+                    onChange={(e) => setControllingStake(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                {IMPORTANCE_LEVELS.map(level => (
+                  <div key={level.key}>
+                    <label htmlFor={`support-${level.key}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {level.label} *
+                    </label>
+                    <input
+                      type="number"
+                      id={`support-${level.key}`}
+                      required
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={supportFactors[level.key]}
+                      onChange={(e) => setSupportFactors({ ...supportFactors, [level.key]: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Segment Concentration Penalties</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Thresholds are Herfindahl-Hirschman indices (0-1; 1 = all exposure in one group). Penalties add up across segments.
+              </p>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {SEGMENTS.map(segment => {
+                  const updateRules = (next: Array<{ minConcentration: string; penalty: string }>) =>
+                    setSegmentRules({ ...segmentRules, [segment.key]: next });
+
+                  return (
+                    <div key={segment.key} className="space-y-2">
+                      <div className="text-sm font-medium text-gray-700 dark:text-gray-300">{segment.label}</div>
+                      {segmentRules[segment.key].map((rule, index) => (
+                        <div key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <span>HHI &gt;</span>
+                          <input
+                            type="number"
+                            min="0.01"
+                            max="0.99"
+                            step="0.01"
+                            value={rule.minConcentration}
+                            onChange={(e) =>
+                              updateRules(segmentRules[segment.key].map((r, i) => (i === index ? { ...r, minConcentration: e.target.value } : r)))
+                            }
+                            className="w-20 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm px-2 py-1 border"
+                          />
+                          <span>adds</span>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={rule.penalty}
+                            onChange={(e) =>
+                              updateRules(segmentRules[segment.key].map((r, i) => (i === index ? { ...r, penalty: e.target.value } : r)))
+                            }
+                            className="w-20 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm px-2 py-1 border"
+                          />
+                          <span>points</span>
+                          <button
+                            type="button"
+                            onClick={() => updateRules(segmentRules[segment.key].filter((_, i) => i !== index))}
+                            className="text-red-600 dark:text-red-400 hover:text-red-900 text-xs"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => updateRules([...segmentRules[segment.key], { minConcentration: '', penalty: '' }])}
+                        className="text-blue-600 dark:text-blue-400 hover:text-blue-900 text-sm"
+                      >
+                        + Add rule
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">PD Calibration (Rating Scale)</h4>
+              <table className="text-sm text-gray-700 dark:text-gray-300">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400">
+                    <th className="pr-2 text-left font-medium">Grade</th>
+                    <th className="pr-2 text-left font-medium">Max Score</th>
+                    <th className="pr-2 text-left font-medium">1-year PD (%)</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {grades.map((grade, index) => (
+                    <tr key={index}>
+                      {(['grade', 'maxScore', 'pd'] as const).map(field => (
+                        <td key={field} className="pr-2 py-1">
+                          <input
+                            type={field === 'grade' ? 'text' : 'number'}
+                            step="any"
+                            value={grade[field]}
+                            onChange={(e) =>
+                              setGrades(grades.map((g, i) => (i === index ? { ...g, [field]: e.target.value } : g)))
+                            }
+                            className="w-24 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm px-2 py-1 border"
+                          />
+                        </td>
+                      ))}
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => setGrades(grades.filter((_, i) => i !== index))}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 text-xs"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                type="button"
+                onClick={() => setGrades([...grades, { grade: '', maxScore: '', pd: '' }])}
+                className="mt-2 text-blue-600 dark:text-blue-400 hover:text-blue-900 text-sm"
+              >
+                + Add grade
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={activate} onChange={(e) => setActivate(e.target.checked)} />
+                Activate immediately
+              </label>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Creating...' : 'Create Version'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
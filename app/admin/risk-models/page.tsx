@@ -0,0 +1,138 @@
+import prisma from '@/lib/db';
+import { DEFAULT_RISK_CONFIG, RiskConfig } from '@/lib/risk-model';
+import { getActiveRiskConfig, toRiskConfig } from '@/lib/risk-model-versions';
+import { enabledRiskSources } from '@/lib/sources/risk-sources';
+import NewRiskModelForm from './NewRiskModelForm';
+import ActivateModelButton from './ActivateModelButton';
+
+export const dynamic = 'force-dynamic';
+
+async function getRiskModels() {
+  try {
+    const versions = await prisma.riskModelVersion.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { versions };
+  } catch (error) {
+    console.error('Error fetching risk model versions:', error);
+    return { versions: [] };
+  }
+}
+
+function formatWeights(config: RiskConfig, sourceNames: Record<string, string>) {
+  return config.enabledSources
+    .map(key => `${sourceNames[key] || key} ${Math.round((config.weights[key] ?? 0) * 100)}%`)
+    .join(' • ');
+}
+
+export default async function RiskModelsPage() {
+  const { versions } = await getRiskModels();
+  const activeConfig = await getActiveRiskConfig();
+
+  const sources = enabledRiskSources.map(source => ({ key: source.key, name: source.name }));
+  const sourceNames = Object.fromEntries(sources.map(source => [source.key, source.name]));
+
+  const rows = [
+    ...versions.map(version => ({
+      id: version.id,
+      description: version.description,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+      isActive: version.isActive,
+      config: toRiskConfig(version),
+    })),
+    {
+      id: null,
+      description: 'Built-in default model',
+      createdBy: null,
+      createdAt: null,
+      isActive: !versions.some(version => version.isActive),
+      config: DEFAULT_RISK_CONFIG,
+    },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          Risk Model Versions
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Versions are immutable. Every airline risk snapshot records the version that produced it.
+          Active version: <span className="font-semibold">{activeConfig.modelVersion}</span>
+        </p>
+      </div>
+
+      <NewRiskModelForm sources={sources} initialConfig={activeConfig} />
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Version</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Weights</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Thresholds</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Concentration</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">PD Scale</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map(row => (
+              <tr key={row.config.modelVersion}>
+                <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                  <div className="font-semibold">{row.config.modelVersion}</div>
+                  {row.description && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{row.description}</div>
+                  )}
+                  {row.createdAt && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500">
+                      {row.createdAt.toLocaleDateString()}{row.createdBy && ` • ${row.createdBy}`}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-700 dark:text-gray-300">
+                  {formatWeights(row.config, sourceNames)}
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                  Low ≤ {row.config.bucketThresholds.lowMax} • Medium ≤ {row.config.bucketThresholds.mediumMax}
+                  <div className="text-gray-500 dark:text-gray-400">
+                    State support {row.config.sovereignSupport.importanceFactors.high} / {row.config.sovereignSupport.importanceFactors.medium} / {row.config.sovereignSupport.importanceFactors.low}
+                    {' '}from {row.config.sovereignSupport.controllingStake}%
+                  </div>
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-700 dark:text-gray-300">
+                  Names: 0 at ≥{row.config.concentrationModel.diversifiedNames} effective, up to +{row.config.concentrationModel.maxPenalty}
+                  {Object.entries(row.config.segmentConcentrationRules)
+                    .filter(([, rules]) => rules.length > 0)
+                    .map(([segment, rules]) => (
+                      <div key={segment} className="text-gray-500 dark:text-gray-400">
+                        {segment} HHI {rules.map(rule => `>${rule.minConcentration}: +${rule.penalty}`).join(' • ')}
+                      </div>
+                    ))}
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-700 dark:text-gray-300">
+                  {row.config.ratingScale
+                    .map(grade => `${grade.grade} ${(grade.pd * 100).toFixed(2)}%`)
+                    .join(' • ')}
+                </td>
+                <td className="px-6 py-4 text-right text-sm">
+                  {row.isActive ? (
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100">
+                      Active
+                    </span>
+                  ) : row.id ? (
+                    <ActivateModelButton versionId={row.id} version={row.config.modelVersion} />
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Used when no version is active</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import Link from 'next/link';
+import { formatMoney, formatPercent } from '@/lib/format';
+import type { ExposureRecovery, RecoveryProfile } from '@/lib/recovery';
+
+interface AircraftRecoveryProps {
+  profile: RecoveryProfile;
+  exposures: ExposureRecovery[];
+}
+
+export default function AircraftRecovery({ profile, exposures }: AircraftRecoveryProps) {
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 shadow sm:rounded-lg border border-transparent dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">Aircraft Recovery</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          How long and how costly it is to repossess, deregister and export aircraft in {profile.country} after a
+          default. Slower, costlier recoveries increase the collateral haircut used in LGD.
+          {profile.basis === 'default'
+            ? ' The country is not in the indicator dataset, so conservative defaults are assumed.'
+            : profile.asOf && ` Indicators as of ${new Date(profile.asOf).toLocaleDateString()}.`}
+        </p>
+
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+          <div>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Cape Town Convention</dt>
+            <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+              {profile.capeTownRatified === null ? 'Unknown' : profile.capeTownRatified ? 'Ratified' : 'Not ratified'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">IDERA</dt>
+            <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+              {profile.ideraAvailable ? 'Honoured' : 'Not available'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Time to Repossess</dt>
+            <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+              {profile.repossessionMonths} months
+              {profile.monthsToExport !== profile.repossessionMonths && (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{profile.monthsToExport} months to export</span>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Legal Cost</dt>
+            <dd className="mt-1 text-sm text-gray-900 dark:text-white">{formatPercent(profile.legalCostPct)} of asset value</dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Recovery Haircut</dt>
+            <dd className="mt-1 text-sm font-semibold text-gray-900 dark:text-white">{formatPercent(profile.haircut * 100, 0)}</dd>
+          </div>
+        </dl>
+
+        {exposures.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="py-2 text-left font-medium">Portfolio</th>
+                  <th className="py-2 text-right font-medium">Exposure</th>
+                  <th className="py-2 text-right font-medium">Asset Value</th>
+                  <th className="py-2 text-right font-medium">Security</th>
+                  <th className="py-2 text-right font-medium">LGD</th>
+                  <th className="py-2 text-right font-medium">Expected Loss</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {exposures.map(exposure => (
+                  <tr key={exposure.exposureId} className="text-gray-900 dark:text-gray-100">
+                    <td className="py-2">
+                      <Link href={`/portfolios/${exposure.portfolioId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {exposure.portfolioName}
+                      </Link>
+                    </td>
+                    <td className="py-2 text-right">{formatMoney(exposure.ead, exposure.currency)}</td>
+                    <td className="py-2 text-right">{formatMoney(exposure.assetValue, exposure.currency)}</td>
+                    <td className="py-2 text-right">{formatMoney(exposure.securityHeld, exposure.currency)}</td>
+                    <td className="py-2 text-right">
+                      {formatPercent(exposure.lgd * 100, 0)}
+                      {exposure.lgdBasis === 'unsecured' && (
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400" title="No appraised asset values recorded">
+                          (unsecured)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-semibold">{formatMoney(exposure.expectedLoss, exposure.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
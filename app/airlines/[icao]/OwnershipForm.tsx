@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface OwnershipFormProps {
+  icao: string;
+  ownership: {
+    stateOwnership: number | null;
+    strategicImportance: string | null;
+    sovereignRating: string | null;
+  };
+  importanceLevels: Array<{ key: string; label: string }>;
+  grades: string[];
+  support: {
+    standaloneScore: number;
+    sovereignScore: number;
+    sovereignBasis: 'rating' | 'countryRating' | 'jurisdiction';
+    supportFactor: number;
+    uplift: number;
+  } | null;
+}
+
+export default function OwnershipForm({ icao, ownership, importanceLevels, grades, support }: OwnershipFormProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const [stateOwnership, setStateOwnership] = useState(ownership.stateOwnership !== null ? String(ownership.stateOwnership) : '');
+  const [strategicImportance, setStrategicImportance] = useState(ownership.strategicImportance ?? 'high');
+  const [sovereignRating, setSovereignRating] = useState(ownership.sovereignRating ?? '');
+
+  const save = async (body: object) => {
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/airlines/${icao}/ownership`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update ownership');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update ownership');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({
+      stateOwnership: stateOwnership === '' ? null : parseFloat(stateOwnership),
+      strategicImportance,
+      sovereignRating: sovereignRating || null,
+    });
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6 border border-transparent dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-2">State Ownership</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          State-owned airlines are scored on their standalone profile, then moved toward their sovereign&apos;s credit
+          quality by the expected level of government support. Without a sovereign rating the country indicator
+          dataset&apos;s rating is used, then the jurisdiction score.
+        </p>
+
+        {support && (
+          <p className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+            Standalone {support.standaloneScore.toFixed(1)} • sovereign {support.sovereignScore.toFixed(1)}
+            {support.sovereignBasis === 'countryRating' && ' (country indicator rating)'}
+            {support.sovereignBasis === 'jurisdiction' && ' (jurisdiction score)'} • support factor{' '}
+            {Math.round(support.supportFactor * 100)}% •{' '}
+            <span className="font-semibold text-green-600 dark:text-green-400">−{support.uplift.toFixed(1)} pts</span>
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="stateOwnership" className={labelClass}>State ownership (%)</label>
+              <input
+                type="number"
+                id="stateOwnership"
+                min="0"
+                max="100"
+                step="0.1"
+                value={stateOwnership}
+                onChange={(e) => setStateOwnership(e.target.value)}
+                placeholder="None"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="strategicImportance" className={labelClass}>Strategic importance</label>
+              <select
+                id="strategicImportance"
+                value={strategicImportance}
+                onChange={(e) => setStrategicImportance(e.target.value)}
+                className={inputClass}
+              >
+                {importanceLevels.map(level => (
+                  <option key={level.key} value={level.key}>{level.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sovereignRating" className={labelClass}>Sovereign rating</label>
+              <select
+                id="sovereignRating"
+                value={sovereignRating}
+                onChange={(e) => setSovereignRating(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Use jurisdiction score</option>
+                {grades.map(grade => (
+                  <option key={grade} value={grade}>{grade}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            {ownership.stateOwnership !== null && (
+              <button
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => save({ stateOwnership: null })}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save & Recalculate'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface OverrideAuditEvent {
+  id: string;
+  action: string;
+  actor: string;
+  createdAt: string;
+}
+
+interface OverrideItem {
+  id: string;
+  target: string;
+  score: number;
+  modelScore: number | null;
+  reason: string;
+  analyst: string;
+  expiresAt: string;
+  attachmentName: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  revokeReason: string | null;
+  createdAt: string;
+  auditEvents: OverrideAuditEvent[];
+}
+
+interface RiskOverridesProps {
+  icao: string;
+  targets: Array<{ key: string; label: string }>;
+  overrides: OverrideItem[];
+}
+
+function getStatus(override: OverrideItem): { label: string; className: string } {
+  if (override.revokedAt) {
+    return { label: 'Revoked', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' };
+  }
+  if (new Date(override.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' };
+  }
+  return { label: 'Active', className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200' };
+}
+
+export default function RiskOverrides({ icao, targets, overrides }: RiskOverridesProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const labelFor = (target: string) => targets.find(t => t.key === target)?.label ?? target;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    const form = e.currentTarget;
+
+    try {
+      const response = await fetch(`/api/airlines/${icao}/overrides`, {
+        method: 'POST',
+        body: new FormData(form),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create override');
+      }
+
+      form.reset();
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create override');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (override: OverrideItem) => {
+    const reason = window.prompt(`Reason for revoking the ${labelFor(override.target)} override`);
+    if (!reason) return;
+    const analyst = window.prompt('Your name');
+    if (!analyst) return;
+
+    setError('');
+    setRevoking(override.id);
+
+    try {
+      const response = await fetch(`/api/airlines/${icao}/overrides/${override.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analyst, reason }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke override');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke override');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6 border border-transparent dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-2">Analyst Overrides</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Overrides replace a model score until they expire or are revoked, and apply to portfolio calculations.
+          Every override and revocation is kept in the audit trail.
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {overrides.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 mb-6">
+            {overrides.map(override => {
+              const status = getStatus(override);
+              return (
+                <li key={override.id} className="py-3 text-sm">
+                  <div className="flex justify-between gap-4">
+                    <div>
+                      <span className={`inline-flex px-2 py-0.5 mr-2 text-xs font-medium rounded ${status.className}`}>
+                        {status.label}
+                      </span>
+                      <span className="font-medium text-gray-900 dark:text-white">{labelFor(override.target)}</span>
+                      <span className="ml-2 text-gray-700 dark:text-gray-300">
+                        {override.score.toFixed(1)}
+                        {override.modelScore !== null && (
+                          <span className="text-gray-500 dark:text-gray-400"> (model {override.modelScore.toFixed(1)})</span>
+                        )}
+                      </span>
+                      <p className="mt-1 text-gray-600 dark:text-gray-400">{override.reason}</p>
+                      {override.attachmentName && (
+                        <a
+                          href={`/api/airlines/${icao}/overrides/${override.id}/attachment`}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          📎 {override.attachmentName}
+                        </a>
+                      )}
+                    </div>
+                    <div className="text-right whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
+                      <span className="block">Expires {new Date(override.expiresAt).toLocaleDateString()}</span>
+                      {status.label === 'Active' && (
+                        <button
+                          onClick={() => handleRevoke(override)}
+                          disabled={revoking === override.id}
+                          className="mt-1 text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                        >
+                          {revoking === override.id ? 'Revoking...' : 'Revoke'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <ul className="mt-2 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                    {override.auditEvents.map(event => (
+                      <li key={event.id}>
+                        {new Date(event.createdAt).toLocaleString()} • {event.action} by {event.actor}
+                        {event.action === 'revoked' && override.revokeReason && `: ${override.revokeReason}`}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label htmlFor="overrideTarget" className={labelClass}>Score *</label>
+              <select id="overrideTarget" name="target" required className={inputClass}>
+                {targets.map(target => (
+                  <option key={target.key} value={target.key}>{target.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="overrideScore" className={labelClass}>Override value *</label>
+              <input type="number" id="overrideScore" name="score" required min="0" max="100" step="0.1" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="overrideExpiry" className={labelClass}>Expires *</label>
+              <input type="date" id="overrideExpiry" name="expiresAt" required className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="overrideAnalyst" className={labelClass}>Analyst *</label>
+              <input type="text" id="overrideAnalyst" name="analyst" required className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="overrideReason" className={labelClass}>Reason *</label>
+            <textarea id="overrideReason" name="reason" required rows={2} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="overrideAttachment" className={labelClass}>Supporting document (max 5 MB)</label>
+            <input type="file" id="overrideAttachment" name="attachment" className="mt-1 block text-sm text-gray-700 dark:text-gray-300" />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Add Override'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { formatDelta, getDeltaColorClass } from '@/lib/format';
+import type { RiskDimensionKey } from '@/lib/risk-model';
+import type { ScoreChange, ScoreHistoryPoint } from '@/lib/airline-history';
+
+interface ScoreHistoryProps {
+  points: ScoreHistoryPoint[];
+  changes: ScoreChange[];
+}
+
+const COMPONENTS: Array<{ key: RiskDimensionKey; label: string; stroke: string }> = [
+  { key: 'jurisdiction', label: 'Jurisdiction', stroke: 'stroke-blue-400' },
+  { key: 'scale', label: 'Scale & Network', stroke: 'stroke-teal-400' },
+  { key: 'assetLiquidity', label: 'Asset Liquidity', stroke: 'stroke-amber-400' },
+  { key: 'financial', label: 'Financial', stroke: 'stroke-rose-400' },
+  { key: 'news', label: 'News & Events', stroke: 'stroke-gray-400' },
+  { key: 'activity', label: 'Operational Activity', stroke: 'stroke-violet-400' },
+];
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const MAX_CHANGES_SHOWN = 10;
+
+function componentLabel(key: RiskDimensionKey) {
+  return COMPONENTS.find(c => c.key === key)?.label ?? key;
+}
+
+export default function ScoreHistory({ points, changes }: ScoreHistoryProps) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const start = points[0].calculatedAt.getTime();
+  const span = Math.max(points[points.length - 1].calculatedAt.getTime() - start, 1);
+  const x = (point: ScoreHistoryPoint) =>
+    points.length === 1 ? WIDTH / 2 : ((point.calculatedAt.getTime() - start) / span) * WIDTH;
+  const y = (score: number) => HEIGHT - (score / 100) * HEIGHT;
+  const line = (values: Array<[ScoreHistoryPoint, number | undefined]>) =>
+    values
+      .filter((entry): entry is [ScoreHistoryPoint, number] => entry[1] !== undefined)
+      .map(([point, score]) => `${x(point).toFixed(1)},${y(score).toFixed(1)}`)
+      .join(' ');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6 border border-transparent dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">Score History</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Overall score and components for every stored assessment
+        </p>
+
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-40 bg-gray-50 dark:bg-gray-900 rounded"
+        >
+          {COMPONENTS.map(component => (
+            <polyline
+              key={component.key}
+              points={line(points.map(p => [p, p.components[component.key]]))}
+              fill="none"
+              className={component.stroke}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          <polyline
+            points={line(points.map(p => [p, p.overallScore]))}
+            fill="none"
+            className="stroke-purple-600 dark:stroke-purple-400"
+            strokeWidth={2.5}
+            vectorEffect="non-scaling-stroke"
+          />
+          {points.map((point, index) => (
+            <circle key={index} cx={x(point)} cy={y(point.overallScore)} r={2.5} className="fill-purple-600 dark:fill-purple-400">
+              <title>{`${point.calculatedAt.toLocaleDateString()}: ${point.overallScore} (model ${point.modelVersion})`}</title>
+            </circle>
+          ))}
+        </svg>
+
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{points[0].calculatedAt.toLocaleDateString()}</span>
+          <span>{points[points.length - 1].calculatedAt.toLocaleDateString()}</span>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs mt-2">
+          <span className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+            <svg width="16" height="4"><line x1="0" x2="16" y1="2" y2="2" className="stroke-purple-600" strokeWidth={3} /></svg>
+            Overall
+          </span>
+          {COMPONENTS.map(component => (
+            <span key={component.key} className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+              <svg width="16" height="4"><line x1="0" x2="16" y1="2" y2="2" className={component.stroke} strokeWidth={2} /></svg>
+              {component.label}
+            </span>
+          ))}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mt-6 mb-2">What Changed</h4>
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No score changes recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {changes.slice(-MAX_CHANGES_SHOWN).reverse().map((change, index) => (
+              <li key={index} className="py-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-500 dark:text-gray-400">{change.to.calculatedAt.toLocaleDateString()}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {change.from.overallScore} → {change.to.overallScore}
+                  </span>
+                  <span className={`font-semibold ${getDeltaColorClass(change.change)}`}>
+                    ({formatDelta(change.change)})
+                  </span>
+                  {change.modelVersionChanged && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200">
+                      Model {change.from.modelVersion} → {change.to.modelVersion}
+                    </span>
+                  )}
+                </div>
+                <ul className="mt-1 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                  {change.components.map(component => (
+                    <li key={component.key}>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">{componentLabel(component.key)}</span>{' '}
+                      <span className={getDeltaColorClass(component.contribution)}>
+                        {formatDelta(component.contribution)} pts
+                      </span>
+                      {component.fromScore !== null && component.toScore !== null ? (
+                        <> — score {component.fromScore.toFixed(1)} → {component.toScore.toFixed(1)}</>
+                      ) : component.toScore === null ? (
+                        <> — no longer available</>
+                      ) : (
+                        <> — newly available</>
+                      )}
+                      {component.weightEffect !== 0 && (
+                        <>, weight {Math.round(component.fromWeight * 100)}% → {Math.round(component.toWeight * 100)}%</>
+                      )}
+                      {component.inputChanges.length > 0 && (
+                        <span className="block ml-4 text-gray-500 dark:text-gray-400">
+                          {component.inputChanges
+                            .map(input => `${input.field}: ${input.from ?? '—'} → ${input.to ?? '—'}`)
+                            .join('; ')}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                  {change.supportEffect !== 0 && (
+                    <li>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Sovereign support</span>{' '}
+                      <span className={getDeltaColorClass(change.supportEffect)}>
+                        {formatDelta(change.supportEffect)} pts
+                      </span>
+                    </li>
+                  )}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
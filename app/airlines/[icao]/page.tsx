@@ -4,6 +4,18 @@ import { getAirlineByIcao } from '@/lib/sources/aviation';
 import { getCountryInfo } from '@/lib/sources/restCountries';
 import { getOrCalculateAirlineRisk } from '@/lib/risk-cache';
 import { RiskContext } from '@/lib/risk-aggregator';
+import { getAirlineRiskHistory } from '@/lib/airline-history';
+import { getOverrideHistory, OVERRIDE_TARGET_LABELS } from '@/lib/risk-overrides';
+import { STRATEGIC_IMPORTANCE_LABELS } from '@/lib/sovereign-support';
+import { getActiveRiskConfig } from '@/lib/risk-model-versions';
+import { getAirlineExposureRecoveries, getRecoveryProfile } from '@/lib/recovery';
+import { getAirlineUtilisation, RECENT_WINDOW_DAYS, BASELINE_WINDOW_DAYS } from '@/lib/airline-activity';
+import { formatPercentDelta, getDeltaColorClass } from '@/lib/format';
+import prisma from '@/lib/db';
+import ScoreHistory from './ScoreHistory';
+import RiskOverrides from './RiskOverrides';
+import OwnershipForm from './OwnershipForm';
+import AircraftRecovery from './AircraftRecovery';
 
 async function getAirlineRiskData(icao: string) {
   try {
@@ -26,12 +38,22 @@ async function getAirlineRiskData(icao: string) {
         active: airlineData.active,
         fleetSize: airlineData.fleetSize,
         ticker: airlineData.ticker,
+        ownership: airlineData.ownership,
       },
       countryInfo,
     };
     
     // Get or calculate risk (with caching)
     const riskResult = await getOrCalculateAirlineRisk(context);
+    const history = await getAirlineRiskHistory(airlineData.icao);
+    const dbAirline = await prisma.airline.findUnique({ where: { icao: airlineData.icao.toUpperCase() } });
+    const overrides = dbAirline ? await getOverrideHistory(dbAirline.id) : [];
+    const riskConfig = await getActiveRiskConfig();
+    const recovery = await getRecoveryProfile(airlineData.country);
+    const recoveryExposures = dbAirline
+      ? await getAirlineExposureRecoveries(dbAirline.id, riskResult.overallScore, recovery, riskConfig)
+      : [];
+    const utilisation = await getAirlineUtilisation(airlineData.icao);
     
     return {
       airline: {
@@ -53,8 +75,31 @@ async function getAirlineRiskData(icao: string) {
         calculatedAt: riskResult.calculatedAt,
         expiresAt: riskResult.expiresAt,
         metadata: riskResult.metadata,
+        overrides: riskResult.overrides,
       },
       context: riskResult.context,
+      history,
+      ownership: {
+        stateOwnership: dbAirline?.stateOwnership ?? null,
+        strategicImportance: dbAirline?.strategicImportance ?? null,
+        sovereignRating: dbAirline?.sovereignRating ?? null,
+      },
+      grades: riskConfig.ratingScale.map(grade => grade.grade),
+      recovery,
+      recoveryExposures,
+      activityTrend: utilisation?.trend ?? null,
+      overrides: overrides.map(override => ({
+        ...override,
+        expiresAt: override.expiresAt.toISOString(),
+        revokedAt: override.revokedAt?.toISOString() ?? null,
+        createdAt: override.createdAt.toISOString(),
+        auditEvents: override.auditEvents.map(event => ({
+          id: event.id,
+          action: event.action,
+          actor: event.actor,
+          createdAt: event.createdAt.toISOString(),
+        })),
+      })),
     };
   } catch (error) {
     console.error('Error fetching airline risk:', error);
@@ -88,7 +133,9 @@ export default async function AirlinePage({ params }: { params: { icao: string }
     notFound();
   }
 
-  const { airline, risk, context } = data;
+  const { airline, risk, context, history, ownership, grades, overrides, recovery, recoveryExposures, activityTrend } = data;
+  const indicators = risk.components.jurisdiction?.metadata?.indicatorsAsOf ? risk.components.jurisdiction.metadata : null;
+  const peerActivity = risk.components.activity?.score != null ? risk.components.activity.metadata : null;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -113,6 +160,7 @@ export default async function AirlinePage({ params }: { params: { icao: string }
               </div>
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                 {airline.icao} {airline.iata && `/ ${airline.iata}`} • {airline.country}
+                {context.airline.group && ` • ${context.airline.group.name} group`}
               </p>
             </div>
             <span
@@ -134,6 +182,9 @@ export default async function AirlinePage({ params }: { params: { icao: string }
               <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Overall Risk Score</h3>
               <div className="mt-2 max-w-xl text-sm text-gray-500 dark:text-gray-400">
                 <p>Last updated: {new Date(risk.calculatedAt).toLocaleString()}</p>
+                {risk.metadata?.modelVersion && (
+                  <p className="text-xs mt-1">Risk model version {risk.metadata.modelVersion}</p>
+                )}
                 <p className="text-xs mt-1 italic">Based on derived estimates and public data</p>
               </div>
             </div>
@@ -148,6 +199,16 @@ export default async function AirlinePage({ params }: { params: { icao: string }
               >
                 {risk.riskBucket} Risk
               </span>
+              {risk.metadata?.sovereignSupport && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Standalone {risk.metadata.sovereignSupport.standaloneScore} • sovereign support −{risk.metadata.sovereignSupport.uplift}
+                </p>
+              )}
+              {risk.overrides && (
+                <p className="mt-2 text-xs text-purple-700 dark:text-purple-300">
+                  Analyst override • model {risk.overrides.modelOverallScore} ({risk.overrides.modelRiskBucket})
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -202,6 +263,11 @@ export default async function AirlinePage({ params }: { params: { icao: string }
                         </span>
                       ) : (
                         <>
+                          {component.modelScore !== undefined && (
+                            <span className="text-xs text-purple-700 dark:text-purple-300">
+                              Override • model {component.modelScore === null ? 'n/a' : component.modelScore.toFixed(1)}
+                            </span>
+                          )}
                           <span className={`font-semibold ${getScoreColor(component.score)}`}>
                             {component.score.toFixed(1)}
                           </span>
@@ -250,6 +316,59 @@ export default async function AirlinePage({ params }: { params: { icao: string }
         </div>
       </div>
 
+      {/* Score History */}
+      <ScoreHistory points={history.points} changes={history.changes} />
+
+      {/* State Ownership */}
+      <OwnershipForm
+        icao={airline.icao}
+        ownership={ownership}
+        importanceLevels={Object.entries(STRATEGIC_IMPORTANCE_LABELS).map(([key, label]) => ({ key, label }))}
+        grades={grades}
+        support={risk.metadata?.sovereignSupport ?? null}
+      />
+
+      {/* Analyst Overrides */}
+      <RiskOverrides
+        icao={airline.icao}
+        targets={Object.entries(OVERRIDE_TARGET_LABELS).map(([key, label]) => ({ key, label }))}
+        overrides={overrides}
+      />
+
+      {/* News & Events */}
+      {risk.components.news?.metadata?.events?.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6 border border-transparent dark:border-gray-700">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-2">Recent Events</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Classified from the news feed. Impact decays over time.
+            </p>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {risk.components.news.metadata.events.map((event: any, index: number) => (
+                <li key={index} className="py-2 flex justify-between gap-4 text-sm">
+                  <div>
+                    <span className="inline-flex px-2 py-0.5 mr-2 text-xs font-medium rounded bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                      {event.label}
+                    </span>
+                    {event.url ? (
+                      <a href={event.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {event.title}
+                      </a>
+                    ) : (
+                      <span className="text-gray-900 dark:text-white">{event.title}</span>
+                    )}
+                  </div>
+                  <div className="text-right whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(event.publishedAt).toLocaleDateString()}
+                    <span className="block">+{event.decayedImpact} risk</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Detailed Metrics */}
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
         {/* Country Info */}
@@ -279,6 +398,45 @@ export default async function AirlinePage({ params }: { params: { icao: string }
                   <dd className="text-sm text-gray-900 dark:text-white">{context.countryInfo?.gini?.toFixed(1)}</dd>
                 </div>
               )}
+              {indicators && (
+                <>
+                  {indicators.sovereignRating && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Sovereign Rating</dt>
+                      <dd className="text-sm text-gray-900 dark:text-white">{indicators.sovereignRating}</dd>
+                    </div>
+                  )}
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Cape Town Convention</dt>
+                    <dd className="text-sm text-gray-900 dark:text-white">
+                      {indicators.capeTownRatified === undefined
+                        ? 'Unknown'
+                        : indicators.capeTownRatified ? 'Ratified' : 'Not ratified'}
+                      {indicators.repossessionScore != null && (
+                        <> • enforceability {indicators.repossessionScore}/100</>
+                      )}
+                    </dd>
+                  </div>
+                  {(indicators.gdpGrowth != null || indicators.inflation != null) && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">GDP Growth / Inflation</dt>
+                      <dd className="text-sm text-gray-900 dark:text-white">
+                        {indicators.gdpGrowth ?? '—'}% / {indicators.inflation ?? '—'}%
+                      </dd>
+                    </div>
+                  )}
+                  {indicators.fxReservesMonths != null && (
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">FX Reserves</dt>
+                      <dd className="text-sm text-gray-900 dark:text-white">{indicators.fxReservesMonths} months of imports</dd>
+                    </div>
+                  )}
+                  <p className={`text-xs ${indicators.stale ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    Indicators as of {new Date(indicators.indicatorsAsOf).toLocaleDateString()}
+                    {indicators.stale && ' (stale)'}
+                  </p>
+                </>
+              )}
             </dl>
           </div>
         </div>
@@ -308,6 +466,57 @@ export default async function AirlinePage({ params }: { params: { icao: string }
                   </dd>
                 </div>
               )}
+              <div>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Observed Flights / Day</dt>
+                <dd className="text-sm text-gray-900 dark:text-white">
+                  {activityTrend?.recentAverage != null
+                    ? `${activityTrend.recentAverage} (last ${RECENT_WINDOW_DAYS} days)`
+                    : 'No activity recorded'}
+                </dd>
+              </div>
+              {activityTrend?.change != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Utilisation Trend</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    <span className={`font-semibold ${getDeltaColorClass(activityTrend.change, true)}`}>
+                      {formatPercentDelta(activityTrend.change * 100)}
+                    </span>{' '}
+                    vs. prior {BASELINE_WINDOW_DAYS} days
+                    {activityTrend.status === 'falling' && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                        Falling
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              )}
+              {peerActivity?.utilisation != null && peerActivity.peerUtilisation != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Flights per Aircraft</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {peerActivity.utilisation} vs. peer median {peerActivity.peerUtilisation}
+                  </dd>
+                </div>
+              )}
+              {peerActivity?.change30 != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">30-Day Change vs. Peers</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    <span className={`font-semibold ${getDeltaColorClass(peerActivity.change30, true)}`}>
+                      {formatPercentDelta(peerActivity.change30 * 100)}
+                    </span>
+                    {peerActivity.peerChange30 != null && ` (peers ${formatPercentDelta(peerActivity.peerChange30 * 100)})`}
+                  </dd>
+                </div>
+              )}
+              {activityTrend?.activeFleetShare != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Active Fleet</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {Math.round(activityTrend.activeFleetShare * 100)}% of aircraft seen per day
+                  </dd>
+                </div>
+              )}
             </dl>
           </div>
         </div>
@@ -337,6 +546,22 @@ export default async function AirlinePage({ params }: { params: { icao: string }
                   </dd>
                 </div>
               )}
+              {risk.components.assetLiquidity?.metadata?.averageAge != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Average Age</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {risk.components.assetLiquidity.metadata.averageAge} years
+                  </dd>
+                </div>
+              )}
+              {risk.components.assetLiquidity?.metadata?.widebodyShare != null && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Widebody Share</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">
+                    {(risk.components.assetLiquidity.metadata.widebodyShare * 100).toFixed(0)}%
+                  </dd>
+                </div>
+              )}
             </dl>
           </div>
         </div>
@@ -353,6 +578,12 @@ export default async function AirlinePage({ params }: { params: { icao: string }
                     <dd className="text-sm font-mono text-gray-900 dark:text-white">{context.financialData.ticker}</dd>
                   </div>
                 )}
+                {context.financialData.inheritedFrom && (
+                  <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                    Parent financials from {context.financialData.inheritedFrom}
+                    {context.financialData.parentGuarantee ? ' (guaranteed by the parent)' : ' (no parent guarantee - low confidence)'}
+                  </div>
+                )}
                 {context.financialData.debtToEquity !== undefined && (
                   <div>
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Debt-to-Equity</dt>
@@ -420,6 +651,9 @@ export default async function AirlinePage({ params }: { params: { icao: string }
         </div>
       </div>
 
+      {/* Aircraft Recovery */}
+      <AircraftRecovery profile={recovery} exposures={recoveryExposures} />
+
       {/* Risk Score Legend */}
       <div className="mt-6 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
         <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Risk Score Guide</h4>
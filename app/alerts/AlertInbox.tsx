@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { DeliveryResult } from '@/lib/alert-channels';
+
+interface InboxAlert {
+  id: string;
+  severity: string;
+  title: string;
+  message: string;
+  airlineIcao: string | null;
+  readAt: string | null;
+  createdAt: string;
+  deliveries: DeliveryResult[];
+}
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200',
+};
+
+export default function AlertInbox({ alerts }: { alerts: InboxAlert[] }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const markRead = async (url: string, body: object, key: string) => {
+    setBusy(key);
+    try {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update alerts');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error updating alerts:', error);
+      alert('Failed to update alerts. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const unread = alerts.filter(a => !a.readAt).length;
+
+  if (alerts.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg px-4 py-5 sm:p-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">No alerts yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+            {unread} unread
+          </h3>
+          <button
+            onClick={() => markRead('/api/alerts', {}, 'all')}
+            disabled={unread === 0 || busy !== null}
+            className="text-sm font-medium text-blue-600 hover:text-blue-900 dark:text-blue-400 disabled:opacity-50"
+          >
+            Mark all read
+          </button>
+        </div>
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {alerts.map(item => (
+            <li key={item.id} className={`py-4 ${item.readAt ? 'opacity-60' : ''}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${SEVERITY_STYLES[item.severity] ?? SEVERITY_STYLES.info}`}>
+                      {item.severity}
+                    </span>
+                    <span className={`text-sm text-gray-900 dark:text-white ${item.readAt ? '' : 'font-semibold'}`}>
+                      {item.title}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{item.message}</p>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(item.createdAt).toLocaleString()}
+                    {item.airlineIcao && (
+                      <>
+                        {' · '}
+                        <a href={`/airlines/${item.airlineIcao}`} className="text-blue-600 hover:text-blue-900 dark:text-blue-400">
+                          {item.airlineIcao}
+                        </a>
+                      </>
+                    )}
+                    {item.deliveries.map(delivery => (
+                      <span
+                        key={delivery.channel}
+                        title={delivery.error}
+                        className={delivery.ok ? 'ml-2 text-green-600 dark:text-green-400' : 'ml-2 text-red-600 dark:text-red-400'}
+                      >
+                        {delivery.ok ? '✓' : '✗'} {delivery.channel.split(':')[0]}
+                      </span>
+                    ))}
+                  </p>
+                </div>
+                <button
+                  onClick={() => markRead(`/api/alerts/${item.id}`, { read: !item.readAt }, item.id)}
+                  disabled={busy !== null}
+                  className="shrink-0 text-sm text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white disabled:opacity-50"
+                >
+                  {item.readAt ? 'Mark unread' : 'Mark read'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
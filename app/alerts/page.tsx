@@ -0,0 +1,46 @@
+import Link from 'next/link';
+import { getAlerts } from '@/lib/watchlist';
+import AlertInbox from './AlertInbox';
+
+export const dynamic = 'force-dynamic';
+
+async function getInbox() {
+  try {
+    return await getAlerts();
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return [];
+  }
+}
+
+export default async function AlertsPage() {
+  const alerts = await getInbox();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          Alerts
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Raised by rules on the{' '}
+          <Link href="/watchlist" className="text-blue-600 hover:text-blue-900 dark:text-blue-400">watchlist</Link>.
+          Delivery status is shown for each email or webhook channel.
+        </p>
+      </div>
+
+      <AlertInbox
+        alerts={alerts.map(alert => ({
+          id: alert.id,
+          severity: alert.severity,
+          title: alert.title,
+          message: alert.message,
+          airlineIcao: alert.airlineIcao,
+          readAt: alert.readAt?.toISOString() ?? null,
+          createdAt: alert.createdAt.toISOString(),
+          deliveries: alert.deliveries,
+        }))}
+      />
+    </div>
+  );
+}
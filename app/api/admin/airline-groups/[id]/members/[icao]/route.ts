@@ -0,0 +1,34 @@
+// API route for removing an airline from a group
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { setAirlineGroup } from '@/lib/airline-groups';
+
+// DELETE /api/admin/airline-groups/[id]/members/[icao] - Make the airline standalone
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; icao: string } }
+) {
+  try {
+    const airline = await prisma.airline.findUnique({
+      where: { icao: params.icao.toUpperCase() },
+    });
+
+    if (!airline || airline.groupId !== params.id) {
+      return NextResponse.json(
+        { error: 'Airline is not a member of this group' },
+        { status: 404 }
+      );
+    }
+
+    await setAirlineGroup(airline.icao, null, false);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing airline from group:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove airline from group' },
+      { status: 500 }
+    );
+  }
+}
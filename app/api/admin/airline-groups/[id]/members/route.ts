@@ -0,0 +1,59 @@
+// API route for adding airlines to a group
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { setAirlineGroup } from '@/lib/airline-groups';
+
+// POST /api/admin/airline-groups/[id]/members - Add an airline (or update its guarantee flag)
+// Body: { icao, parentGuarantee }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const icao = String(body.icao || '').trim().toUpperCase();
+
+    if (!icao) {
+      return NextResponse.json(
+        { error: 'icao is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.parentGuarantee !== undefined && typeof body.parentGuarantee !== 'boolean') {
+      return NextResponse.json(
+        { error: 'parentGuarantee must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const group = await prisma.airlineGroup.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!group) {
+      return NextResponse.json(
+        { error: 'Airline group not found' },
+        { status: 404 }
+      );
+    }
+
+    const airline = await setAirlineGroup(icao, group.id, body.parentGuarantee ?? false);
+
+    if (!airline) {
+      return NextResponse.json(
+        { error: 'Airline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ airline }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding airline to group:', error);
+    return NextResponse.json(
+      { error: 'Failed to add airline to group' },
+      { status: 500 }
+    );
+  }
+}
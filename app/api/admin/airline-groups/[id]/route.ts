@@ -0,0 +1,95 @@
+// API routes for a single airline group
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { validateAirlineGroup } from '@/lib/airline-groups';
+
+// PUT /api/admin/airline-groups/[id] - Update a group's name, ticker or country
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const input = {
+      name: String(body.name || '').trim(),
+      ticker: body.ticker ? String(body.ticker).trim().toUpperCase() : null,
+      country: body.country ? String(body.country).trim() : null,
+    };
+
+    const validationError = validateAirlineGroup(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.airlineGroup.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Airline group not found' },
+        { status: 404 }
+      );
+    }
+
+    const group = await prisma.airlineGroup.update({
+      where: { id: params.id },
+      data: input,
+    });
+
+    return NextResponse.json({ group });
+  } catch (error: any) {
+    console.error('Error updating airline group:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A group with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update airline group' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/airline-groups/[id] - Delete a group (member airlines become standalone)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const existing = await prisma.airlineGroup.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Airline group not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.airline.updateMany({
+        where: { groupId: params.id },
+        data: { groupId: null, parentGuarantee: false },
+      }),
+      prisma.airlineGroup.delete({ where: { id: params.id } }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting airline group:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete airline group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// API routes for airline group management
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getAirlineGroups, validateAirlineGroup } from '@/lib/airline-groups';
+
+// GET /api/admin/airline-groups - All groups with their member airlines
+export async function GET() {
+  try {
+    const groups = await getAirlineGroups();
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error fetching airline groups:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/airline-groups - Create a group
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const input = {
+      name: String(body.name || '').trim(),
+      ticker: body.ticker ? String(body.ticker).trim().toUpperCase() : null,
+      country: body.country ? String(body.country).trim() : null,
+    };
+
+    const validationError = validateAirlineGroup(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const group = await prisma.airlineGroup.create({ data: input });
+
+    return NextResponse.json({ group }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating airline group:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A group with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create airline group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// POST /api/admin/fx-rates/import - Import daily rates from CSV (date,base,quote,rate)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseFxCsv, saveFxRates } from '@/lib/fx-rates';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.csv !== 'string' || !body.csv.trim()) {
+      return NextResponse.json(
+        { error: 'csv is required' },
+        { status: 400 }
+      );
+    }
+
+    const { rates, errors } = parseFxCsv(body.csv);
+
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rates found', errors },
+        { status: 400 }
+      );
+    }
+
+    const imported = await saveFxRates(rates, 'csv');
+
+    // Valid lines are stored even if others were rejected
+    return NextResponse.json({ imported, errors });
+  } catch (error) {
+    console.error('Error importing FX rates:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+// API routes for FX rate management
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getFxRates, saveFxRates, validateFxRate } from '@/lib/fx-rates';
+
+// GET /api/admin/fx-rates - Latest rate per currency pair (optionally ?asOf=YYYY-MM-DD) and recent history
+export async function GET(request: NextRequest) {
+  try {
+    const asOfParam = request.nextUrl.searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { error: 'asOf must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const latest = await getFxRates(asOf);
+    const history = await prisma.fxRate.findMany({
+      where: { asOf: { lte: asOf } },
+      orderBy: [{ asOf: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+      take: 200,
+    });
+
+    return NextResponse.json({ asOf, latest, history });
+  } catch (error) {
+    console.error('Error fetching FX rates:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/fx-rates - Enter a single rate (replaces any rate for the same pair and date)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const rate = {
+      baseCurrency: String(body.baseCurrency || '').trim().toUpperCase(),
+      quoteCurrency: String(body.quoteCurrency || '').trim().toUpperCase(),
+      rate: typeof body.rate === 'string' ? parseFloat(body.rate) : body.rate,
+      asOf: new Date(body.asOf),
+    };
+
+    const validationError = validateFxRate(rate);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await saveFxRates([rate], 'manual');
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving FX rate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+// API route for running a background job on demand
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, startJob } from '@/lib/jobs';
+
+// POST /api/admin/jobs/[job] - Start a run now; it continues after the response (202)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { job: string } }
+) {
+  try {
+    const job = getJob(params.job);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const started = await startJob(job, 'manual');
+
+    if (!started) {
+      return NextResponse.json(
+        { error: `${job.name} is already running` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ runId: started.runId }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting job:', error);
+    return NextResponse.json(
+      { error: 'Failed to start job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+// API route for background job status
+
+import { NextResponse } from 'next/server';
+import { getJobsOverview } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/jobs - Jobs with their last runs, recent run history and snapshot coverage of held airlines
+export async function GET() {
+  try {
+    const overview = await getJobsOverview();
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
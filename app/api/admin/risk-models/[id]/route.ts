@@ -0,0 +1,60 @@
+// API routes for a single risk model version
+// Versions are immutable once created - only activation can change
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+
+// PUT /api/admin/risk-models/[id] - Activate or deactivate a model version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { isActive } = body;
+
+    if (typeof isActive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isActive must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.riskModelVersion.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Model version not found' },
+        { status: 404 }
+      );
+    }
+
+    // Deactivating falls back to the built-in default model
+    const modelVersion = await prisma.$transaction(async (tx) => {
+      if (isActive) {
+        await tx.riskModelVersion.updateMany({
+          where: { isActive: true, id: { not: params.id } },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.riskModelVersion.update({
+        where: { id: params.id },
+        data: {
+          isActive,
+          activatedAt: isActive ? new Date() : existing.activatedAt,
+        },
+      });
+    });
+
+    return NextResponse.json({ version: modelVersion });
+  } catch (error) {
+    console.error('Error updating risk model version:', error);
+    return NextResponse.json(
+      { error: 'Failed to update risk model version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+// API routes for risk model version management
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { validateRiskModelVersion } from '@/lib/risk-model-versions';
+
+// GET /api/admin/risk-models - List all model versions
+export async function GET() {
+  try {
+    const versions = await prisma.riskModelVersion.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching risk model versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/risk-models - Create a new model version (optionally activating it)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      version,
+      description,
+      weights,
+      enabledSources,
+      concentrationModel,
+      segmentConcentrationRules,
+      ratingScale,
+      sovereignSupport,
+      lowMax,
+      mediumMax,
+      createdBy,
+      activate,
+    } = body;
+
+    const validationError = validateRiskModelVersion({
+      version,
+      description,
+      weights,
+      enabledSources,
+      concentrationModel,
+      segmentConcentrationRules,
+      ratingScale,
+      sovereignSupport,
+      lowMax,
+      mediumMax,
+    });
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Only store weights for enabled sources
+    const enabledWeights: Record<string, number> = {};
+    for (const key of enabledSources) {
+      enabledWeights[key] = weights[key];
+    }
+
+    const data = {
+      version: version.trim(),
+      description: description?.trim() || null,
+      weights: JSON.stringify(enabledWeights),
+      enabledSources: JSON.stringify(enabledSources),
+      concentrationModel: concentrationModel ? JSON.stringify(concentrationModel) : null,
+      segmentConcentrationRules: segmentConcentrationRules ? JSON.stringify(segmentConcentrationRules) : null,
+      ratingScale: JSON.stringify(ratingScale),
+      sovereignSupport: sovereignSupport ? JSON.stringify(sovereignSupport) : null,
+      lowMax,
+      mediumMax,
+      createdBy: createdBy || 'demo-user', // Default for MVP
+      isActive: Boolean(activate),
+      activatedAt: activate ? new Date() : null,
+    };
+
+    const modelVersion = activate
+      ? await prisma.$transaction(async (tx) => {
+          await tx.riskModelVersion.updateMany({
+            where: { isActive: true },
+            data: { isActive: false },
+          });
+          return tx.riskModelVersion.create({ data });
+        })
+      : await prisma.riskModelVersion.create({ data });
+
+    return NextResponse.json({ version: modelVersion }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating risk model version:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A model version with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create risk model version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// API route for airline flight activity (OpenSky ingestion)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAirlineUtilisation } from '@/lib/airline-activity';
+
+// GET /api/airlines/[icao]/activity - Daily observed flights and utilisation trend
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { icao: string } }
+) {
+  try {
+    const utilisation = await getAirlineUtilisation(params.icao);
+
+    if (!utilisation) {
+      return NextResponse.json(
+        { error: 'Airline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(utilisation);
+  } catch (error) {
+    console.error('Error fetching airline activity:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch activity' },
+      { status: 500 }
+    );
+  }
+}
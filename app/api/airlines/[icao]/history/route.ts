@@ -0,0 +1,33 @@
+// API route for airline risk score history
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAirlineRiskHistory } from '@/lib/airline-history';
+
+// GET /api/airlines/[icao]/history - Score time series with change attribution
+// Query: ?since=YYYY-MM-DD to limit the range
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { icao: string } }
+) {
+  try {
+    const sinceParam = request.nextUrl.searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid since date' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getAirlineRiskHistory(params.icao, since);
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error fetching airline risk history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// API route for an override's supporting attachment
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+
+// GET /api/airlines/[icao]/overrides/[id]/attachment - Download the attachment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { icao: string; id: string } }
+) {
+  try {
+    const override = await prisma.riskOverride.findFirst({
+      where: { id: params.id, airline: { icao: params.icao.toUpperCase() } },
+      select: { attachment: true, attachmentName: true, attachmentType: true },
+    });
+
+    if (!override?.attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(override.attachment), {
+      headers: {
+        'Content-Type': override.attachmentType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${(override.attachmentName || 'attachment').replace(/"/g, '')}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching override attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment' },
+      { status: 500 }
+    );
+  }
+}
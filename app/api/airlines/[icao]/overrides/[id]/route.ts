@@ -0,0 +1,53 @@
+// API route for a single analyst override - overrides are never edited, only revoked
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { revokeRiskOverride } from '@/lib/risk-overrides';
+
+// PUT /api/airlines/[icao]/overrides/[id] - Revoke an override
+// Body: { analyst, reason }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { icao: string; id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { analyst, reason } = body;
+
+    if (!analyst?.trim() || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'Analyst name and reason are required to revoke an override' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.riskOverride.findFirst({
+      where: { id: params.id, airline: { icao: params.icao.toUpperCase() } },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Override not found' },
+        { status: 404 }
+      );
+    }
+
+    const override = existing.revokedAt ? null : await revokeRiskOverride(params.id, analyst, reason);
+
+    if (!override) {
+      return NextResponse.json(
+        { error: 'Override is already revoked' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(override);
+  } catch (error) {
+    console.error('Error revoking risk override:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke override' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// API routes for analyst overrides of an airline's risk scores
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getLatestRiskSnapshot } from '@/lib/risk-snapshots';
+import {
+  createRiskOverride,
+  getOverrideHistory,
+  getSnapshotScore,
+  validateRiskOverride,
+  OverrideTarget,
+  RiskOverrideInput,
+} from '@/lib/risk-overrides';
+
+// GET /api/airlines/[icao]/overrides - All overrides (active, expired, revoked) with audit trail
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { icao: string } }
+) {
+  try {
+    const airline = await prisma.airline.findUnique({
+      where: { icao: params.icao.toUpperCase() },
+    });
+
+    if (!airline) {
+      return NextResponse.json(
+        { error: 'Airline not found' },
+        { status: 404 }
+      );
+    }
+
+    const overrides = await getOverrideHistory(airline.id);
+
+    return NextResponse.json(
+      overrides.map(override => ({
+        ...override,
+        auditEvents: override.auditEvents.map(event => ({ ...event, detail: JSON.parse(event.detail) })),
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching risk overrides:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch overrides' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/airlines/[icao]/overrides - Override a component or the overall score
+// Multipart form: target, score, reason, analyst, expiresAt, optional attachment file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { icao: string } }
+) {
+  try {
+    const form = await request.formData();
+    const file = form.get('attachment');
+    const attachment = file instanceof File && file.size > 0 ? file : null;
+
+    const input: RiskOverrideInput = {
+      target: String(form.get('target') ?? ''),
+      score: parseFloat(String(form.get('score') ?? '')),
+      reason: String(form.get('reason') ?? ''),
+      analyst: String(form.get('analyst') ?? ''),
+      expiresAt: new Date(String(form.get('expiresAt') ?? '')),
+    };
+
+    const validationError = validateRiskOverride(input, attachment);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const airline = await prisma.airline.findUnique({
+      where: { icao: params.icao.toUpperCase() },
+    });
+
+    if (!airline) {
+      return NextResponse.json(
+        { error: 'Airline not found' },
+        { status: 404 }
+      );
+    }
+
+    // Record the model score being overridden
+    const snapshot = await getLatestRiskSnapshot(airline.id);
+    const override = await createRiskOverride(
+      airline.id,
+      input,
+      getSnapshotScore(snapshot, input.target as OverrideTarget),
+      attachment
+        ? {
+            name: attachment.name,
+            type: attachment.type || 'application/octet-stream',
+            data: Buffer.from(await attachment.arrayBuffer()),
+          }
+        : null
+    );
+
+    return NextResponse.json(override, { status: 201 });
+  } catch (error) {
+    console.error('Error creating risk override:', error);
+    return NextResponse.json(
+      { error: 'Failed to create override' },
+      { status: 500 }
+    );
+  }
+}
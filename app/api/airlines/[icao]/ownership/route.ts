@@ -0,0 +1,53 @@
+// API route for an airline's state ownership (sovereign support)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAirlineRisk } from '@/lib/risk-cache';
+import { getActiveRiskConfig } from '@/lib/risk-model-versions';
+import { setAirlineOwnership, validateOwnership } from '@/lib/sovereign-support';
+
+// PUT /api/airlines/[icao]/ownership - Record or clear state ownership and recalculate risk
+// Body: { stateOwnership (null to clear), strategicImportance, sovereignRating }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { icao: string } }
+) {
+  try {
+    const body = await request.json();
+    const input = {
+      stateOwnership: body.stateOwnership ?? null,
+      strategicImportance: body.strategicImportance ?? null,
+      sovereignRating: body.sovereignRating ?? null,
+    };
+
+    const config = await getActiveRiskConfig();
+    const validationError = validateOwnership(input, config.ratingScale);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const airline = await setAirlineOwnership(params.icao, input);
+
+    if (!airline) {
+      return NextResponse.json(
+        { error: 'Airline not found' },
+        { status: 404 }
+      );
+    }
+
+    // The cached snapshot was scored with the old ownership
+    const risk = await getAirlineRisk(airline.icao, true);
+
+    return NextResponse.json({
+      airline,
+      risk: risk
+        ? { overallScore: risk.overallScore, riskBucket: risk.riskBucket, sovereignSupport: risk.metadata?.sovereignSupport ?? null }
+        : null,
+    });
+  } catch (error) {
+    console.error('Error updating airline ownership:', error);
+    return NextResponse.json(
+      { error: 'Failed to update ownership' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 // API route for airline risk data
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAirlineRisk } from '@/lib/risk-aggregator';
+import { getAirlineRisk } from '@/lib/risk-cache';
 import prisma from '@/lib/db';
 import { getAirlineByIcao } from '@/lib/sources/aviation';
 
@@ -37,6 +37,9 @@ export async function GET(
           country: airlineData.country,
           active: airlineData.active,
           fleetSize: airlineData.fleetSize,
+          stateOwnership: airlineData.ownership?.stateOwnership,
+          strategicImportance: airlineData.ownership?.strategicImportance,
+          sovereignRating: airlineData.ownership?.sovereignRating,
         },
       });
     }
@@ -68,6 +71,8 @@ export async function GET(
         breakdown: riskResult.breakdown,
         calculatedAt: riskResult.calculatedAt,
         expiresAt: riskResult.expiresAt,
+        sovereignSupport: riskResult.metadata?.sovereignSupport ?? null,
+        overrides: riskResult.overrides ?? null,
       },
       context: riskResult.context,
     });
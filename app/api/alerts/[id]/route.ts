@@ -0,0 +1,39 @@
+// API route for a single alert
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+
+// PUT /api/alerts/[id] - Mark an alert read ({ read: true }) or unread ({ read: false })
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const read = body.read !== false;
+
+    const existing = await prisma.alert.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    const alert = await prisma.alert.update({
+      where: { id: params.id },
+      data: { readAt: read ? existing.readAt ?? new Date() : null },
+    });
+
+    return NextResponse.json(alert);
+  } catch (error) {
+    console.error('Error updating alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert' },
+      { status: 500 }
+    );
+  }
+}
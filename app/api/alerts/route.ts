@@ -0,0 +1,38 @@
+// API routes for the alert inbox
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getAlerts } from '@/lib/watchlist';
+
+// GET /api/alerts - List alerts, newest first (?unread=true for unread only)
+export async function GET(request: NextRequest) {
+  try {
+    const unreadOnly = request.nextUrl.searchParams.get('unread') === 'true';
+    const alerts = await getAlerts({ unreadOnly });
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/alerts - Mark every unread alert as read
+export async function PUT() {
+  try {
+    const result = await prisma.alert.updateMany({
+      where: { readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: result.count });
+  } catch (error) {
+    console.error('Error marking alerts read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark alerts read' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+// API routes for individual aircraft operations
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { syncDerivedExposure } from '@/lib/lease-terms';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkDerivedExposureChange } from '@/lib/portfolio-risk';
+import { describeBlockedChange } from '@/lib/exposure-limits';
+
+/**
+ * Load an aircraft and verify it sits under the given portfolio exposure
+ */
+async function findAircraftInPortfolio(
+  portfolioId: string,
+  exposureId: string,
+  aircraftId: string
+) {
+  const aircraft = await prisma.aircraft.findUnique({
+    where: { id: aircraftId },
+    include: { exposure: true },
+  });
+
+  if (!aircraft || aircraft.exposureId !== exposureId || aircraft.exposure.portfolioId !== portfolioId) {
+    return null;
+  }
+
+  return aircraft;
+}
+
+// PUT /api/portfolios/[id]/exposures/[exposureId]/aircraft/[aircraftId] - Update aircraft
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string; aircraftId: string } }
+) {
+  try {
+    const body = await request.json();
+    const {
+      msn,
+      registration,
+      aircraftType,
+      variant,
+      engineType,
+      yearOfManufacture,
+      appraisedValue,
+      notes,
+    } = body;
+
+    // Validation
+    if (!msn || msn.toString().trim() === '') {
+      return NextResponse.json(
+        { error: 'MSN is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!aircraftType || aircraftType.trim() === '') {
+      return NextResponse.json(
+        { error: 'Aircraft type is required' },
+        { status: 400 }
+      );
+    }
+
+    const year = yearOfManufacture ? Number(yearOfManufacture) : null;
+    const value = appraisedValue ? Number(appraisedValue) : null;
+
+    if (year !== null && !Number.isInteger(year)) {
+      return NextResponse.json(
+        { error: 'Year of manufacture must be a whole number' },
+        { status: 400 }
+      );
+    }
+
+    const latestYear = new Date().getFullYear() + 1;
+    if (year !== null && (year < 1950 || year > latestYear)) {
+      return NextResponse.json(
+        { error: `Year of manufacture must be between 1950 and ${latestYear}` },
+        { status: 400 }
+      );
+    }
+
+    if (value !== null && isNaN(value)) {
+      return NextResponse.json(
+        { error: 'Appraised value must be a number' },
+        { status: 400 }
+      );
+    }
+
+    if (value !== null && value < 0) {
+      return NextResponse.json(
+        { error: 'Appraised value cannot be negative' },
+        { status: 400 }
+      );
+    }
+
+    const existingAircraft = await findAircraftInPortfolio(params.id, params.exposureId, params.aircraftId);
+
+    if (!existingAircraft) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, {
+        aircraft: aircraft => aircraft.map(a => (a.id === params.aircraftId ? { ...a, appraisedValue: value } : a)),
+      })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    const updatedAircraft = await prisma.aircraft.update({
+      where: { id: params.aircraftId },
+      data: {
+        msn: msn.toString().trim(),
+        registration: registration?.trim().toUpperCase() || null,
+        aircraftType: aircraftType.trim().toUpperCase(),
+        variant: variant?.trim() || null,
+        engineType: engineType?.trim() || null,
+        yearOfManufacture: year,
+        appraisedValue: value,
+        notes: notes || null,
+      },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json({ aircraft: updatedAircraft });
+  } catch (error: any) {
+    console.error('Error updating aircraft:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'An aircraft with this MSN is already on this exposure' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portfolios/[id]/exposures/[exposureId]/aircraft/[aircraftId] - Remove aircraft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string; aircraftId: string } }
+) {
+  try {
+    const existingAircraft = await findAircraftInPortfolio(params.id, params.exposureId, params.aircraftId);
+
+    if (!existingAircraft) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, { aircraft: aircraft => aircraft.filter(a => a.id !== params.aircraftId) })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    await prisma.aircraft.delete({
+      where: { id: params.aircraftId },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting aircraft:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
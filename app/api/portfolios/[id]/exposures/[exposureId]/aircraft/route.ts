@@ -0,0 +1,172 @@
+// API routes for the aircraft asset register of an exposure
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { syncDerivedExposure } from '@/lib/lease-terms';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkDerivedExposureChange } from '@/lib/portfolio-risk';
+import { describeBlockedChange } from '@/lib/exposure-limits';
+
+// GET /api/portfolios/[id]/exposures/[exposureId]/aircraft - List aircraft on lease
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string } }
+) {
+  try {
+    const exposure = await prisma.leaseExposure.findUnique({
+      where: { id: params.exposureId },
+    });
+
+    if (!exposure || exposure.portfolioId !== params.id) {
+      return NextResponse.json(
+        { error: 'Exposure not found' },
+        { status: 404 }
+      );
+    }
+
+    const aircraft = await prisma.aircraft.findMany({
+      where: { exposureId: params.exposureId },
+      orderBy: { msn: 'asc' },
+    });
+
+    return NextResponse.json({ aircraft });
+  } catch (error) {
+    console.error('Error fetching aircraft:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios/[id]/exposures/[exposureId]/aircraft - Add aircraft to exposure
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string } }
+) {
+  try {
+    const body = await request.json();
+    const {
+      msn,
+      registration,
+      aircraftType,
+      variant,
+      engineType,
+      yearOfManufacture,
+      appraisedValue,
+      notes,
+    } = body;
+
+    // Validation
+    if (!msn || msn.toString().trim() === '') {
+      return NextResponse.json(
+        { error: 'MSN is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!aircraftType || aircraftType.trim() === '') {
+      return NextResponse.json(
+        { error: 'Aircraft type is required' },
+        { status: 400 }
+      );
+    }
+
+    const year = yearOfManufacture ? Number(yearOfManufacture) : null;
+    const value = appraisedValue ? Number(appraisedValue) : null;
+
+    if (year !== null && !Number.isInteger(year)) {
+      return NextResponse.json(
+        { error: 'Year of manufacture must be a whole number' },
+        { status: 400 }
+      );
+    }
+
+    const latestYear = new Date().getFullYear() + 1;
+    if (year !== null && (year < 1950 || year > latestYear)) {
+      return NextResponse.json(
+        { error: `Year of manufacture must be between 1950 and ${latestYear}` },
+        { status: 400 }
+      );
+    }
+
+    if (value !== null && isNaN(value)) {
+      return NextResponse.json(
+        { error: 'Appraised value must be a number' },
+        { status: 400 }
+      );
+    }
+
+    if (value !== null && value < 0) {
+      return NextResponse.json(
+        { error: 'Appraised value cannot be negative' },
+        { status: 400 }
+      );
+    }
+
+    // Check if exposure exists and belongs to this portfolio
+    const exposure = await prisma.leaseExposure.findUnique({
+      where: { id: params.exposureId },
+    });
+
+    if (!exposure) {
+      return NextResponse.json(
+        { error: 'Exposure not found' },
+        { status: 404 }
+      );
+    }
+
+    if (exposure.portfolioId !== params.id) {
+      return NextResponse.json(
+        { error: 'Exposure does not belong to this portfolio' },
+        { status: 403 }
+      );
+    }
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, { aircraft: aircraft => [...aircraft, { appraisedValue: value }] })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    const aircraft = await prisma.aircraft.create({
+      data: {
+        exposureId: params.exposureId,
+        msn: msn.toString().trim(),
+        registration: registration?.trim().toUpperCase() || null,
+        aircraftType: aircraftType.trim().toUpperCase(),
+        variant: variant?.trim() || null,
+        engineType: engineType?.trim() || null,
+        yearOfManufacture: year,
+        appraisedValue: value,
+        notes: notes || null,
+      },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json({ aircraft }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating aircraft:', error);
+
+    // Handle unique constraint violation
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'An aircraft with this MSN is already on this exposure' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create aircraft',
+        details: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
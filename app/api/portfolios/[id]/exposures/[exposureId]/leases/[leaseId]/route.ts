@@ -0,0 +1,180 @@
+// API routes for individual lease contract operations
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { syncDerivedExposure } from '@/lib/lease-terms';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkDerivedExposureChange } from '@/lib/portfolio-risk';
+import { describeBlockedChange } from '@/lib/exposure-limits';
+
+/**
+ * Load a lease contract and verify it sits under the given portfolio exposure
+ */
+async function findLeaseInPortfolio(
+  portfolioId: string,
+  exposureId: string,
+  leaseId: string
+) {
+  const lease = await prisma.leaseContract.findUnique({
+    where: { id: leaseId },
+    include: {
+      exposure: {
+        include: { aircraft: true },
+      },
+    },
+  });
+
+  if (!lease || lease.exposureId !== exposureId || lease.exposure.portfolioId !== portfolioId) {
+    return null;
+  }
+
+  return lease;
+}
+
+// PUT /api/portfolios/[id]/exposures/[exposureId]/leases/[leaseId] - Update lease contract
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string; leaseId: string } }
+) {
+  try {
+    const body = await request.json();
+    const {
+      aircraftId,
+      startDate,
+      expiryDate,
+      monthlyRent,
+      rentCurrency,
+      securityDeposit,
+      letterOfCredit,
+      maintenanceReserveBalance,
+      extensionOptionMonths,
+      extensionOptionNotes,
+      notes,
+    } = body;
+
+    // Validation
+    const start = new Date(startDate);
+    const expiry = new Date(expiryDate);
+
+    if (!startDate || isNaN(start.getTime()) || !expiryDate || isNaN(expiry.getTime())) {
+      return NextResponse.json(
+        { error: 'Valid start and expiry dates are required' },
+        { status: 400 }
+      );
+    }
+
+    if (expiry <= start) {
+      return NextResponse.json(
+        { error: 'Expiry date must be after start date' },
+        { status: 400 }
+      );
+    }
+
+    if (!monthlyRent || monthlyRent <= 0) {
+      return NextResponse.json(
+        { error: 'Monthly rent must be greater than 0' },
+        { status: 400 }
+      );
+    }
+
+    const existingLease = await findLeaseInPortfolio(params.id, params.exposureId, params.leaseId);
+
+    if (!existingLease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      );
+    }
+
+    if (aircraftId && !existingLease.exposure.aircraft.some(a => a.id === aircraftId)) {
+      return NextResponse.json(
+        { error: 'Aircraft is not registered on this exposure' },
+        { status: 400 }
+      );
+    }
+
+    const terms = {
+      startDate: start,
+      expiryDate: expiry,
+      monthlyRent: parseFloat(monthlyRent.toString()),
+      rentCurrency: rentCurrency?.trim().toUpperCase() || existingLease.exposure.currency,
+      securityDeposit: securityDeposit ? parseFloat(securityDeposit.toString()) : null,
+      letterOfCredit: letterOfCredit ? parseFloat(letterOfCredit.toString()) : null,
+      maintenanceReserveBalance: maintenanceReserveBalance ? parseFloat(maintenanceReserveBalance.toString()) : null,
+      extensionOptionMonths: extensionOptionMonths ? parseInt(extensionOptionMonths.toString()) : null,
+      extensionOptionNotes: extensionOptionNotes || null,
+      notes: notes || null,
+    };
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, {
+        leases: leases => leases.map(lease => (lease.id === params.leaseId ? { ...lease, ...terms } : lease)),
+      })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    const updatedLease = await prisma.leaseContract.update({
+      where: { id: params.leaseId },
+      data: {
+        aircraftId: aircraftId || null,
+        ...terms,
+      },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json(updatedLease);
+  } catch (error) {
+    console.error('Error updating lease:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portfolios/[id]/exposures/[exposureId]/leases/[leaseId] - Remove lease contract
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string; leaseId: string } }
+) {
+  try {
+    const existingLease = await findLeaseInPortfolio(params.id, params.exposureId, params.leaseId);
+
+    if (!existingLease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      );
+    }
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, { leases: leases => leases.filter(lease => lease.id !== params.leaseId) })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    await prisma.leaseContract.delete({
+      where: { id: params.leaseId },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting lease:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
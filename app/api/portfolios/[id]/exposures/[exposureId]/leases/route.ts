@@ -0,0 +1,160 @@
+// API routes for lease contract terms of an exposure
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { syncDerivedExposure } from '@/lib/lease-terms';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkDerivedExposureChange } from '@/lib/portfolio-risk';
+import { describeBlockedChange } from '@/lib/exposure-limits';
+
+// GET /api/portfolios/[id]/exposures/[exposureId]/leases - List lease contracts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string } }
+) {
+  try {
+    const exposure = await prisma.leaseExposure.findUnique({
+      where: { id: params.exposureId },
+    });
+
+    if (!exposure || exposure.portfolioId !== params.id) {
+      return NextResponse.json(
+        { error: 'Exposure not found' },
+        { status: 404 }
+      );
+    }
+
+    const leases = await prisma.leaseContract.findMany({
+      where: { exposureId: params.exposureId },
+      include: { aircraft: true },
+      orderBy: { expiryDate: 'asc' },
+    });
+
+    return NextResponse.json({ leases });
+  } catch (error) {
+    console.error('Error fetching leases:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios/[id]/exposures/[exposureId]/leases - Add lease contract
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; exposureId: string } }
+) {
+  try {
+    const body = await request.json();
+    const {
+      aircraftId,
+      startDate,
+      expiryDate,
+      monthlyRent,
+      rentCurrency,
+      securityDeposit,
+      letterOfCredit,
+      maintenanceReserveBalance,
+      extensionOptionMonths,
+      extensionOptionNotes,
+      notes,
+    } = body;
+
+    // Validation
+    const start = new Date(startDate);
+    const expiry = new Date(expiryDate);
+
+    if (!startDate || isNaN(start.getTime()) || !expiryDate || isNaN(expiry.getTime())) {
+      return NextResponse.json(
+        { error: 'Valid start and expiry dates are required' },
+        { status: 400 }
+      );
+    }
+
+    if (expiry <= start) {
+      return NextResponse.json(
+        { error: 'Expiry date must be after start date' },
+        { status: 400 }
+      );
+    }
+
+    if (!monthlyRent || monthlyRent <= 0) {
+      return NextResponse.json(
+        { error: 'Monthly rent must be greater than 0' },
+        { status: 400 }
+      );
+    }
+
+    // Check if exposure exists and belongs to this portfolio
+    const exposure = await prisma.leaseExposure.findUnique({
+      where: { id: params.exposureId },
+      include: { aircraft: true },
+    });
+
+    if (!exposure) {
+      return NextResponse.json(
+        { error: 'Exposure not found' },
+        { status: 404 }
+      );
+    }
+
+    if (exposure.portfolioId !== params.id) {
+      return NextResponse.json(
+        { error: 'Exposure does not belong to this portfolio' },
+        { status: 403 }
+      );
+    }
+
+    if (aircraftId && !exposure.aircraft.some(a => a.id === aircraftId)) {
+      return NextResponse.json(
+        { error: 'Aircraft is not registered on this exposure' },
+        { status: 400 }
+      );
+    }
+
+    const terms = {
+      startDate: start,
+      expiryDate: expiry,
+      monthlyRent: parseFloat(monthlyRent.toString()),
+      rentCurrency: rentCurrency?.trim().toUpperCase() || exposure.currency,
+      securityDeposit: securityDeposit ? parseFloat(securityDeposit.toString()) : null,
+      letterOfCredit: letterOfCredit ? parseFloat(letterOfCredit.toString()) : null,
+      maintenanceReserveBalance: maintenanceReserveBalance ? parseFloat(maintenanceReserveBalance.toString()) : null,
+      extensionOptionMonths: extensionOptionMonths ? parseInt(extensionOptionMonths.toString()) : null,
+      extensionOptionNotes: extensionOptionNotes || null,
+      notes: notes || null,
+    };
+
+    // A derived exposure amount must stay within hard limits after the change
+    const blocked = describeBlockedChange(
+      await checkDerivedExposureChange(params.exposureId, { leases: leases => [...leases, terms] })
+    );
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
+    const lease = await prisma.leaseContract.create({
+      data: {
+        exposureId: params.exposureId,
+        aircraftId: aircraftId || null,
+        ...terms,
+      },
+    });
+
+    if (await syncDerivedExposure(params.exposureId)) {
+      await snapshotAfterExposureChange(params.id);
+    }
+
+    return NextResponse.json({ lease }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating lease:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create lease',
+        details: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { syncDerivedExposure } from '@/lib/lease-terms';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkDerivedExposureChange, checkProposedExposure } from '@/lib/portfolio-risk';
+import { describeBlockedChange } from '@/lib/exposure-limits';
 
 // PUT /api/portfolios/[id]/exposures/[exposureId] - Update exposure
 export async function PUT(
@@ -10,10 +14,11 @@ export async function PUT(
 ) {
   try {
     const body = await request.json();
-    const { exposureAmount, currency, numAircraft } = body;
+    const { exposureAmount, currency, numAircraft, exposureSource } = body;
+    const source = exposureSource === 'derived' ? 'derived' : 'manual';
 
-    // Validation
-    if (!exposureAmount || exposureAmount <= 0) {
+    // Validation - derived exposures are recomputed from lease terms
+    if (source === 'manual' && (!exposureAmount || exposureAmount <= 0)) {
       return NextResponse.json(
         { error: 'Exposure amount must be greater than 0' },
         { status: 400 }
@@ -46,16 +51,47 @@ export async function PUT(
       );
     }
 
+    // Changes must stay within hard limits - derived amounts are checked as recomputed from the lease terms
+    const limitCheck = source === 'manual'
+      ? await checkProposedExposure(params.id, {
+          airlineId: existingExposure.airlineId,
+          exposureAmount: parseFloat(exposureAmount.toString()),
+          currency: currency.trim().toUpperCase(),
+        })
+      : await checkDerivedExposureChange(params.exposureId, {
+          exposureSource: 'derived',
+          currency: currency.trim().toUpperCase(),
+        });
+
+    const blocked = describeBlockedChange(limitCheck);
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
     // Update exposure
     const updatedExposure = await prisma.leaseExposure.update({
       where: { id: params.exposureId },
       data: {
-        exposureAmount: parseFloat(exposureAmount.toString()),
+        exposureAmount: source === 'manual'
+          ? parseFloat(exposureAmount.toString())
+          : existingExposure.exposureAmount,
         currency: currency.trim().toUpperCase(),
         numAircraft: numAircraft ? parseInt(numAircraft.toString()) : null,
+        exposureSource: source,
       },
     });
 
+    if (source === 'derived') {
+      await syncDerivedExposure(params.exposureId);
+      await snapshotAfterExposureChange(params.id);
+      const derivedExposure = await prisma.leaseExposure.findUnique({
+        where: { id: params.exposureId },
+      });
+      return NextResponse.json(derivedExposure);
+    }
+
+    await snapshotAfterExposureChange(params.id);
+
     return NextResponse.json(updatedExposure);
   } catch (error) {
     console.error('Error updating exposure:', error);
@@ -96,6 +132,8 @@ export async function DELETE(
       where: { id: params.exposureId },
     });
 
+    await snapshotAfterExposureChange(params.id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting exposure:', error);
@@ -4,6 +4,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
 import { getAirlineByIcao } from '@/lib/sources/aviation';
 import { getOrCalculateAirlineRisk } from '@/lib/risk-cache';
+import { snapshotAfterExposureChange } from '@/lib/portfolio-history';
+import { checkProposedExposure } from '@/lib/portfolio-risk';
+import { describeBlockedChange, describeLimitBreach } from '@/lib/exposure-limits';
+import { getActiveRiskConfig } from '@/lib/risk-model-versions';
+import { activeOverridesInclude, applySnapshotOverrides } from '@/lib/risk-overrides';
 
 // POST /api/portfolios/[id]/exposures - Add exposure to portfolio
 export async function POST(
@@ -64,6 +69,9 @@ export async function POST(
           country: airlineData.country,
           active: airlineData.active,
           fleetSize: airlineData.fleetSize,
+          stateOwnership: airlineData.ownership?.stateOwnership,
+          strategicImportance: airlineData.ownership?.strategicImportance,
+          sovereignRating: airlineData.ownership?.sovereignRating,
         },
       });
       console.log('Created new airline:', airline.icao);
@@ -85,13 +93,28 @@ export async function POST(
       // Continue even if risk calculation fails
     }
     
+    const amount = parseFloat(exposureAmount.toString());
+    const exposureCurrency = currency || 'USD';
+
+    // Hard limits block the addition, soft limit breaches are returned as warnings
+    const limitCheck = await checkProposedExposure(params.id, {
+      airlineId: airline.id,
+      exposureAmount: amount,
+      currency: exposureCurrency,
+    });
+
+    const blocked = describeBlockedChange(limitCheck);
+    if (blocked) {
+      return NextResponse.json(blocked, { status: 409 });
+    }
+
     // Create exposure
     const exposure = await prisma.leaseExposure.create({
       data: {
         portfolioId: params.id,
         airlineId: airline.id,
-        exposureAmount: parseFloat(exposureAmount.toString()),
-        currency: currency || 'USD',
+        exposureAmount: amount,
+        currency: exposureCurrency,
         numAircraft: numAircraft ? parseInt(numAircraft.toString()) : null,
         notes: notes || null,
       },
@@ -101,7 +124,16 @@ export async function POST(
     });
     
     console.log('Exposure created successfully:', exposure.id);
-    return NextResponse.json({ exposure }, { status: 201 });
+    await snapshotAfterExposureChange(params.id);
+
+    return NextResponse.json(
+      {
+        exposure,
+        limitWarnings: limitCheck?.warnings.map(describeLimitBreach) ?? [],
+        limitsChecked: limitCheck?.checked ?? false,
+      },
+      { status: 201 }
+    );
   } catch (error: any) {
     console.error('Error creating exposure:', error);
     
@@ -138,11 +170,22 @@ export async function GET(
               orderBy: { calculatedAt: 'desc' },
               take: 1,
             },
+            riskOverrides: activeOverridesInclude(),
           },
         },
+        aircraft: {
+          orderBy: { msn: 'asc' },
+        },
       },
       orderBy: { exposureAmount: 'desc' },
     });
+
+    // Latest scores with analyst overrides applied
+    const config = await getActiveRiskConfig();
+    for (const exposure of exposures) {
+      const snapshot = applySnapshotOverrides(exposure.airline.riskSnapshots[0], exposure.airline.riskOverrides, config);
+      exposure.airline.riskSnapshots = snapshot ? [snapshot] : [];
+    }
     
     return NextResponse.json({ exposures });
   } catch (error) {
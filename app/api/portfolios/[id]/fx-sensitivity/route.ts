@@ -0,0 +1,28 @@
+// GET /api/portfolios/[id]/fx-sensitivity - Currency mismatch per exposure and FX move sensitivity
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFxSensitivity } from '@/lib/fx-sensitivity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await getFxSensitivity(params.id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error calculating FX sensitivity:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate FX sensitivity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// API routes for portfolio risk history
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getPortfolioRiskHistory, recordPortfolioRiskSnapshot } from '@/lib/portfolio-history';
+
+// GET /api/portfolios/[id]/history - Risk time series per currency
+// Query: ?since=YYYY-MM-DD to limit the range
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sinceParam = request.nextUrl.searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid since date' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPortfolioRiskHistory(params.id, since);
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Error fetching portfolio risk history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk history' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios/[id]/history - Record a snapshot of current risk
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const snapshots = await recordPortfolioRiskSnapshot(params.id, 'manual');
+
+    return NextResponse.json({ snapshots }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording portfolio risk snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to record risk snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+// API routes for a single exposure limit
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { toExposureLimit, validateExposureLimit } from '@/lib/exposure-limits';
+
+async function findLimit(portfolioId: string, limitId: string) {
+  const limit = await prisma.exposureLimit.findUnique({
+    where: { id: limitId },
+  });
+
+  return limit && limit.portfolioId === portfolioId ? limit : null;
+}
+
+// PUT /api/portfolios/[id]/limits/[limitId] - Update an exposure limit
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; limitId: string } }
+) {
+  try {
+    const existing = await findLimit(params.id, params.limitId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Exposure limit not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const merged = { ...toExposureLimit(existing), ...body };
+
+    const validationError = validateExposureLimit(merged);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const limit = await prisma.exposureLimit.update({
+      where: { id: params.limitId },
+      data: {
+        type: merged.type,
+        target: merged.type === 'score' ? null : merged.target?.trim() || null,
+        minScore: merged.type === 'score' ? merged.minScore : null,
+        maxShare: merged.maxShare,
+        hard: Boolean(merged.hard),
+      },
+    });
+
+    return NextResponse.json({ limit: toExposureLimit(limit) });
+  } catch (error) {
+    console.error('Error updating exposure limit:', error);
+    return NextResponse.json(
+      { error: 'Failed to update exposure limit' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portfolios/[id]/limits/[limitId] - Remove an exposure limit
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; limitId: string } }
+) {
+  try {
+    const limit = await findLimit(params.id, params.limitId);
+
+    if (!limit) {
+      return NextResponse.json(
+        { error: 'Exposure limit not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.exposureLimit.delete({
+      where: { id: params.limitId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting exposure limit:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete exposure limit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// API routes for portfolio exposure limits
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getExposureLimits, toExposureLimit, validateExposureLimit } from '@/lib/exposure-limits';
+
+// GET /api/portfolios/[id]/limits - List exposure limits
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const limits = await getExposureLimits(params.id);
+    return NextResponse.json({ limits });
+  } catch (error) {
+    console.error('Error fetching exposure limits:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch exposure limits' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios/[id]/limits - Add an exposure limit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { type, target, minScore, maxShare, hard = true } = body;
+
+    const validationError = validateExposureLimit({ type, target, minScore, maxShare, hard });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = await prisma.exposureLimit.create({
+      data: {
+        portfolioId: params.id,
+        type,
+        target: type === 'score' ? null : target?.trim() || null,
+        minScore: type === 'score' ? minScore : null,
+        maxShare,
+        hard: Boolean(hard),
+      },
+    });
+
+    return NextResponse.json({ limit: toExposureLimit(limit) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating exposure limit:', error);
+    return NextResponse.json(
+      { error: 'Failed to create exposure limit' },
+      { status: 500 }
+    );
+  }
+}
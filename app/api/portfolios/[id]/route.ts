@@ -3,6 +3,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
 import { calculatePortfolioRisk } from '@/lib/portfolio-risk';
+import { getActiveRiskConfig } from '@/lib/risk-model-versions';
+import { activeOverridesInclude, applySnapshotOverrides } from '@/lib/risk-overrides';
 
 // GET /api/portfolios/[id] - Get portfolio details with risk
 export async function GET(
@@ -21,6 +23,7 @@ export async function GET(
                   orderBy: { calculatedAt: 'desc' },
                   take: 1,
                 },
+                riskOverrides: activeOverridesInclude(),
               },
             },
           },
@@ -37,6 +40,13 @@ export async function GET(
     
     // Calculate portfolio-level risk
     const portfolioRisk = await calculatePortfolioRisk(params.id);
+
+    // Latest scores with analyst overrides applied
+    const config = await getActiveRiskConfig();
+    for (const exposure of portfolio.exposures) {
+      const snapshot = applySnapshotOverrides(exposure.airline.riskSnapshots[0], exposure.airline.riskOverrides, config);
+      exposure.airline.riskSnapshots = snapshot ? [snapshot] : [];
+    }
     
     return NextResponse.json({
       portfolio,
@@ -58,7 +68,7 @@ export async function PUT(
 ) {
   try {
     const body = await request.json();
-    const { name, description } = body;
+    const { name, description, reportingCurrency } = body;
 
     // Validation
     if (!name || name.trim() === '') {
@@ -68,6 +78,13 @@ export async function PUT(
       );
     }
 
+    if (reportingCurrency !== undefined && !/^[A-Z]{3}$/.test(reportingCurrency)) {
+      return NextResponse.json(
+        { error: 'Reporting currency must be a 3-letter ISO code' },
+        { status: 400 }
+      );
+    }
+
     // Check if portfolio exists
     const existingPortfolio = await prisma.portfolio.findUnique({
       where: { id: params.id },
@@ -86,6 +103,7 @@ export async function PUT(
       data: {
         name: name.trim(),
         description: description?.trim() || null,
+        ...(reportingCurrency && { reportingCurrency }),
       },
     });
 
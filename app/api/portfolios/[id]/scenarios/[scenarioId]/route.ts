@@ -0,0 +1,130 @@
+// API routes for a single saved stress scenario
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { runStressScenario, validateScenarioShocks } from '@/lib/stress-scenarios';
+
+async function findScenario(portfolioId: string, scenarioId: string) {
+  const scenario = await prisma.stressScenario.findUnique({
+    where: { id: scenarioId },
+  });
+
+  return scenario && scenario.portfolioId === portfolioId ? scenario : null;
+}
+
+// GET /api/portfolios/[id]/scenarios/[scenarioId] - Re-run a saved scenario against current data
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; scenarioId: string } }
+) {
+  try {
+    const scenario = await findScenario(params.id, params.scenarioId);
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const shocks = JSON.parse(scenario.shocks);
+    const run = await runStressScenario(params.id, scenario.currency, shocks);
+
+    return NextResponse.json({ ...scenario, shocks, ...run });
+  } catch (error) {
+    console.error('Error running scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/portfolios/[id]/scenarios/[scenarioId] - Update a saved scenario
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; scenarioId: string } }
+) {
+  try {
+    const body = await request.json();
+    const { name, description, currency, shocks } = body;
+
+    if (name !== undefined && name.trim() === '') {
+      return NextResponse.json(
+        { error: 'Scenario name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (shocks !== undefined) {
+      const validationError = validateScenarioShocks(shocks);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+    }
+
+    const existing = await findScenario(params.id, params.scenarioId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const scenario = await prisma.stressScenario.update({
+      where: { id: params.scenarioId },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(currency !== undefined && { currency }),
+        ...(shocks !== undefined && { shocks: JSON.stringify(shocks) }),
+      },
+    });
+
+    return NextResponse.json({ ...scenario, shocks: JSON.parse(scenario.shocks) });
+  } catch (error: any) {
+    console.error('Error updating scenario:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A scenario with this name already exists for this portfolio' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portfolios/[id]/scenarios/[scenarioId] - Delete a saved scenario
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; scenarioId: string } }
+) {
+  try {
+    const existing = await findScenario(params.id, params.scenarioId);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.stressScenario.delete({
+      where: { id: params.scenarioId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario' },
+      { status: 500 }
+    );
+  }
+}
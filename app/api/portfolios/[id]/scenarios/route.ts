@@ -0,0 +1,88 @@
+// API routes for saved stress scenarios
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { validateScenarioShocks } from '@/lib/stress-scenarios';
+
+// GET /api/portfolios/[id]/scenarios - List saved scenarios
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const scenarios = await prisma.stressScenario.findMany({
+      where: { portfolioId: params.id },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(
+      scenarios.map(scenario => ({ ...scenario, shocks: JSON.parse(scenario.shocks) }))
+    );
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scenarios' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios/[id]/scenarios - Save a named scenario
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { name, description, currency = 'USD', shocks } = body;
+
+    if (!name || name.trim() === '') {
+      return NextResponse.json(
+        { error: 'Scenario name is required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateScenarioShocks(shocks);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const scenario = await prisma.stressScenario.create({
+      data: {
+        portfolioId: params.id,
+        name: name.trim(),
+        description: description?.trim() || null,
+        currency,
+        shocks: JSON.stringify(shocks),
+      },
+    });
+
+    return NextResponse.json({ ...scenario, shocks }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving scenario:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A scenario with this name already exists for this portfolio' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save scenario' },
+      { status: 500 }
+    );
+  }
+}
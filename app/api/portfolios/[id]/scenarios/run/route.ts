@@ -0,0 +1,37 @@
+// API route for running unsaved stress scenarios
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runStressScenario, validateScenarioShocks } from '@/lib/stress-scenarios';
+
+// POST /api/portfolios/[id]/scenarios/run - Run shocks against current data without saving
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { currency = 'USD', shocks } = body;
+
+    const validationError = validateScenarioShocks(shocks);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const run = await runStressScenario(params.id, currency, shocks);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error running scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scenario' },
+      { status: 500 }
+    );
+  }
+}
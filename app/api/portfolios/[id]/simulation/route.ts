@@ -0,0 +1,76 @@
+// API route for Monte Carlo credit loss simulation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSimulationExposures } from '@/lib/portfolio-risk';
+import {
+  simulatePortfolioLosses,
+  validateSimulationCorrelations,
+  DEFAULT_TRIALS,
+  MAX_TRIALS,
+} from '@/lib/credit-simulation';
+
+// POST /api/portfolios/[id]/simulation - Simulate the credit loss distribution
+// Body: { currency?, trials?, seed?, correlations? } - same seed gives the same result
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { currency = 'USD', trials = DEFAULT_TRIALS, seed, correlations } = body;
+
+    if (!Number.isInteger(trials) || trials < 100 || trials > MAX_TRIALS) {
+      return NextResponse.json(
+        { error: `Trials must be a whole number between 100 and ${MAX_TRIALS}` },
+        { status: 400 }
+      );
+    }
+
+    if (seed !== undefined && seed !== null && (!Number.isInteger(seed) || seed < 0)) {
+      return NextResponse.json(
+        { error: 'Seed must be a non-negative whole number' },
+        { status: 400 }
+      );
+    }
+
+    if (correlations !== undefined && correlations !== null) {
+      const correlationError = validateSimulationCorrelations(correlations);
+      if (correlationError) {
+        return NextResponse.json(
+          { error: correlationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const exposures = await getSimulationExposures(params.id, currency);
+
+    if (!exposures) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    if (exposures.length === 0) {
+      return NextResponse.json(
+        { error: `No ${currency} exposures to simulate` },
+        { status: 400 }
+      );
+    }
+
+    const result = simulatePortfolioLosses(exposures, {
+      trials,
+      seed: seed ?? Math.floor(Math.random() * 2 ** 31),
+      correlations,
+    });
+
+    return NextResponse.json({ currency, simulation: result });
+  } catch (error) {
+    console.error('Error running credit loss simulation:', error);
+    return NextResponse.json(
+      { error: 'Failed to run simulation' },
+      { status: 500 }
+    );
+  }
+}
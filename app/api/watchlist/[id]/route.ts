@@ -0,0 +1,86 @@
+// API routes for a single watch
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { validateAlertRules } from '@/lib/watchlist';
+import { validateAlertChannels } from '@/lib/alert-channels';
+
+// PUT /api/watchlist/[id] - Update a watch's rules or channels
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const existing = await prisma.watch.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Watch not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { rules, channels } = body;
+
+    const validationError =
+      (rules !== undefined ? validateAlertRules(rules, existing.portfolioId ? 'portfolio' : 'airline') : null) ??
+      (channels !== undefined ? validateAlertChannels(channels) : null);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const watch = await prisma.watch.update({
+      where: { id: params.id },
+      data: {
+        ...(rules !== undefined && { rules: JSON.stringify(rules) }),
+        ...(channels !== undefined && { channels: JSON.stringify(channels) }),
+      },
+    });
+
+    return NextResponse.json({
+      ...watch,
+      rules: JSON.parse(watch.rules),
+      channels: JSON.parse(watch.channels),
+    });
+  } catch (error) {
+    console.error('Error updating watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watch' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/watchlist/[id] - Stop watching (its alerts are removed too)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const watch = await prisma.watch.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!watch) {
+      return NextResponse.json(
+        { error: 'Watch not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.watch.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watch' },
+      { status: 500 }
+    );
+  }
+}
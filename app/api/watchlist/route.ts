@@ -0,0 +1,92 @@
+// API routes for the watchlist
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getWatches, validateAlertRules } from '@/lib/watchlist';
+import { validateAlertChannels } from '@/lib/alert-channels';
+import { calculatePortfolioRisk } from '@/lib/portfolio-risk';
+import { breachedSliceChecks, limitBreachKey } from '@/lib/exposure-limits';
+
+// GET /api/watchlist - List watched airlines and portfolios with their rules
+export async function GET() {
+  try {
+    const watches = await getWatches();
+    return NextResponse.json({ watches });
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/watchlist - Watch an airline (icao) or a portfolio (portfolioId)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { icao, portfolioId, rules, channels = [] } = body;
+
+    if (!icao === !portfolioId) {
+      return NextResponse.json(
+        { error: 'Watch either an airline (icao) or a portfolio (portfolioId)' },
+        { status: 400 }
+      );
+    }
+
+    const validationError =
+      validateAlertRules(rules, portfolioId ? 'portfolio' : 'airline') ?? validateAlertChannels(channels);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    let airlineId: string | null = null;
+    let breachedLimits: string | null = null;
+
+    if (icao) {
+      const airline = await prisma.airline.findUnique({
+        where: { icao: icao.trim().toUpperCase() },
+      });
+
+      if (!airline) {
+        return NextResponse.json(
+          { error: `Airline with ICAO code '${icao.toUpperCase()}' not found` },
+          { status: 404 }
+        );
+      }
+      airlineId = airline.id;
+    } else {
+      const risk = await calculatePortfolioRisk(portfolioId);
+
+      if (!risk) {
+        return NextResponse.json(
+          { error: 'Portfolio not found' },
+          { status: 404 }
+        );
+      }
+
+      // Only limits breached after the watch is created raise alerts
+      breachedLimits = JSON.stringify(
+        (risk.limits ?? []).flatMap(breachedSliceChecks).map(limitBreachKey)
+      );
+    }
+
+    const watch = await prisma.watch.create({
+      data: {
+        airlineId,
+        portfolioId: portfolioId || null,
+        rules: JSON.stringify(rules),
+        channels: JSON.stringify(channels),
+        breachedLimits,
+      },
+    });
+
+    return NextResponse.json({ ...watch, rules, channels }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watch' },
+      { status: 500 }
+    );
+  }
+}
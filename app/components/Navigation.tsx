@@ -27,6 +27,42 @@ export default function Navigation() {
               >
                 Portfolios
               </Link>
+              <Link
+                href="/watchlist"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Watchlist
+              </Link>
+              <Link
+                href="/alerts"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Alerts
+              </Link>
+              <Link
+                href="/admin/risk-models"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Risk Models
+              </Link>
+              <Link
+                href="/admin/fx-rates"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                FX Rates
+              </Link>
+              <Link
+                href="/admin/airline-groups"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Groups
+              </Link>
+              <Link
+                href="/admin/jobs"
+                className="inline-flex items-center px-1 pt-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                Jobs
+              </Link>
             </div>
           </div>
           <div className="flex items-center">
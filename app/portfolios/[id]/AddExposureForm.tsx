@@ -102,6 +102,10 @@ export default function AddExposureForm({ portfolioId }: AddExposureFormProps) {
         throw new Error(data.error || 'Failed to add exposure');
       }
 
+      if (data.limitWarnings?.length > 0) {
+        alert(`Exposure added, but it breaches soft limits:\n${data.limitWarnings.join('\n')}`);
+      }
+
       // Reset form and close
       setFormData({
         icao: '',
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getCurrencySymbol } from '@/lib/display-utils';
+
+interface AircraftRow {
+  id: string;
+  msn: string;
+  registration: string | null;
+  aircraftType: string;
+  variant: string | null;
+  engineType: string | null;
+  yearOfManufacture: number | null;
+  appraisedValue: number | null;
+}
+
+interface AircraftRegisterProps {
+  portfolioId: string;
+  exposures: Array<{
+    id: string;
+    currency: string;
+    airline: {
+      icao: string;
+      name: string;
+    };
+    aircraft: AircraftRow[];
+  }>;
+}
+
+const EMPTY_FORM = {
+  exposureId: '',
+  msn: '',
+  registration: '',
+  aircraftType: '',
+  variant: '',
+  engineType: '',
+  yearOfManufacture: '',
+  appraisedValue: '',
+};
+
+export default function AircraftRegister({ portfolioId, exposures }: AircraftRegisterProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const rows = exposures.flatMap(exposure =>
+    exposure.aircraft.map(aircraft => ({ exposure, aircraft }))
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(
+        `/api/portfolios/${portfolioId}/exposures/${formData.exposureId}/aircraft`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            msn: formData.msn,
+            registration: formData.registration || null,
+            aircraftType: formData.aircraftType,
+            variant: formData.variant || null,
+            engineType: formData.engineType || null,
+            yearOfManufacture: formData.yearOfManufacture ? parseInt(formData.yearOfManufacture) : null,
+            appraisedValue: formData.appraisedValue ? parseFloat(formData.appraisedValue) : null,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add aircraft');
+      }
+
+      setFormData({ ...EMPTY_FORM, exposureId: formData.exposureId });
+      setIsOpen(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add aircraft');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (exposureId: string, aircraftId: string, msn: string) => {
+    if (!confirm(`Remove MSN ${msn} from the asset register?`)) return;
+
+    setDeletingId(aircraftId);
+    try {
+      const response = await fetch(
+        `/api/portfolios/${portfolioId}/exposures/${exposureId}/aircraft/${aircraftId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete aircraft');
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error('Error deleting aircraft:', error);
+      alert(error.message || 'Failed to delete aircraft. Please try again.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Aircraft Register</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Individual tails on lease, by lessee
+            </p>
+          </div>
+          {exposures.length > 0 && (
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {isOpen ? 'Cancel' : 'Add Aircraft'}
+            </button>
+          )}
+        </div>
+
+        {isOpen && (
+          <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-md border border-gray-200 dark:border-gray-700">
+            {error && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="aircraftExposure" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Lessee *
+                </label>
+                <select
+                  id="aircraftExposure"
+                  required
+                  value={formData.exposureId}
+                  onChange={(e) => setFormData({ ...formData, exposureId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Choose an exposure...</option>
+                  {exposures.map(exposure => (
+                    <option key={exposure.id} value={exposure.id}>
+                      {exposure.airline.name} ({exposure.airline.icao})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="msn" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  MSN *
+                </label>
+                <input
+                  type="text"
+                  id="msn"
+                  required
+                  value={formData.msn}
+                  onChange={(e) => setFormData({ ...formData, msn: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="registration" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Registration
+                </label>
+                <input
+                  type="text"
+                  id="registration"
+                  value={formData.registration}
+                  onChange={(e) => setFormData({ ...formData, registration: e.target.value })}
+                  placeholder="e.g., N123AA"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="aircraftType" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Type *
+                </label>
+                <input
+                  type="text"
+                  id="aircraftType"
+                  required
+                  value={formData.aircraftType}
+                  onChange={(e) => setFormData({ ...formData, aircraftType: e.target.value })}
+                  placeholder="e.g., A320"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="variant" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Variant
+                </label>
+                <input
+                  type="text"
+                  id="variant"
+                  value={formData.variant}
+                  onChange={(e) => setFormData({ ...formData, variant: e.target.value })}
+                  placeholder="e.g., 200N"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="engineType" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Engine Type
+                </label>
+                <input
+                  type="text"
+                  id="engineType"
+                  value={formData.engineType}
+                  onChange={(e) => setFormData({ ...formData, engineType: e.target.value })}
+                  placeholder="e.g., CFM LEAP-1A"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="yearOfManufacture" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Year of Manufacture
+                </label>
+                <input
+                  type="number"
+                  id="yearOfManufacture"
+                  min={1950}
+                  max={new Date().getFullYear() + 1}
+                  value={formData.yearOfManufacture}
+                  onChange={(e) => setFormData({ ...formData, yearOfManufacture: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="appraisedValue" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Appraised Value
+                </label>
+                <input
+                  type="number"
+                  id="appraisedValue"
+                  min="0"
+                  step="any"
+                  value={formData.appraisedValue}
+                  onChange={(e) => setFormData({ ...formData, appraisedValue: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Aircraft'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500 dark:text-gray-400">No aircraft registered yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lessee</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MSN</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Registration</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Engines</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">YoM</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Appraised Value</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map(({ exposure, aircraft }) => (
+                  <tr key={aircraft.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{exposure.airline.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{exposure.airline.icao}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">{aircraft.msn}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">{aircraft.registration || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {aircraft.aircraftType}{aircraft.variant ? `-${aircraft.variant}` : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">{aircraft.engineType || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">{aircraft.yearOfManufacture || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {aircraft.appraisedValue !== null
+                        ? `${getCurrencySymbol(exposure.currency)}${aircraft.appraisedValue.toLocaleString()}`
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleDelete(exposure.id, aircraft.id, aircraft.msn)}
+                        disabled={deletingId === aircraft.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        title="Remove aircraft"
+                      >
+                        {deletingId === aircraft.id ? 'Removing...' : 'Remove'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import Link from 'next/link';
+import { getCurrencySymbol, getRiskBucketColor, getScoreColor } from '@/lib/display-utils';
+import type { ConsolidatedRiskResult } from '@/lib/portfolio-risk';
+
+interface ConsolidatedRiskSummaryProps {
+  reportingCurrency: string;
+  consolidated: ConsolidatedRiskResult | null;
+  missingFxRates: string[];
+}
+
+export default function ConsolidatedRiskSummary({ reportingCurrency, consolidated, missingFxRates }: ConsolidatedRiskSummaryProps) {
+  const symbol = getCurrencySymbol(reportingCurrency);
+
+  if (!consolidated) {
+    return (
+      <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+        <strong>No consolidated total:</strong> missing FX rate{missingFxRates.length !== 1 ? 's' : ''} from{' '}
+        {missingFxRates.join(', ')} to {reportingCurrency}.{' '}
+        <Link href="/admin/fx-rates" className="underline hover:text-yellow-900 dark:hover:text-yellow-100">
+          Add rates
+        </Link>
+      </div>
+    );
+  }
+
+  const convertedRates = consolidated.fxRates.filter(fx => fx.asOf !== null);
+
+  return (
+    <div className="p-4 rounded-md border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20">
+      <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 mb-4 flex items-center">
+        <span className="bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-2 py-1 rounded text-sm mr-2">
+          Consolidated {reportingCurrency}
+        </span>
+        {symbol}{(consolidated.totalExposure / 1000000).toFixed(1)}M Total
+      </h4>
+
+      <div className="grid grid-cols-2 gap-5 sm:grid-cols-5">
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Base Risk</div>
+          <div className={`mt-1 text-2xl font-semibold ${getScoreColor(consolidated.baseRisk)}`}>{consolidated.baseRisk}</div>
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Adjusted Risk</div>
+          <div className={`mt-1 text-2xl font-semibold ${getScoreColor(consolidated.adjustedRisk)}`}>
+            {consolidated.adjustedRisk}
+            {consolidated.concentrationPenalty > 0 && (
+              <span className="text-sm text-red-500 ml-1">+{consolidated.concentrationPenalty}</span>
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Risk Bucket</div>
+          <div className="mt-1">
+            <span className={`px-3 py-1 inline-flex text-sm font-semibold rounded-full ${getRiskBucketColor(consolidated.riskBucket)}`}>
+              {consolidated.riskBucket}
+            </span>
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Largest Airline</div>
+          <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+            {(consolidated.maxConcentration * 100).toFixed(1)}%
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Expected Loss</div>
+          <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+            {symbol}{(consolidated.expectedLoss / 1000000).toFixed(2)}M
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">{(consolidated.expectedLossRate * 100).toFixed(2)}% of exposure</div>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-gray-600 dark:text-gray-400">
+        Converted at{' '}
+        {convertedRates
+          .map(fx => `${fx.currency}/${reportingCurrency} ${fx.rate.toFixed(4)} (${fx.asOf!.toLocaleDateString()})`)
+          .join(', ')}
+        . Concentration is measured across the combined book.
+      </p>
+    </div>
+  );
+}
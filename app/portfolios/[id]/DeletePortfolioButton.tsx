@@ -60,7 +60,7 @@ export default function DeletePortfolioButton({ portfolioId, portfolioName }: De
 
   return (
     <div className="inline-flex items-center gap-2">
-      <span className="text-sm text-gray-600">Delete "{portfolioName}"?</span>
+      <span className="text-sm text-gray-600">Delete &quot;{portfolioName}&quot;?</span>
       <button
         onClick={handleDelete}
         disabled={isDeleting}
@@ -10,6 +10,7 @@ interface EditExposureButtonProps {
     exposureAmount: number;
     currency: string;
     numAircraft: number | null;
+    exposureSource: string;
     airline: {
       icao: string;
       name: string;
@@ -56,6 +57,7 @@ interface EditExposureModalProps {
     exposureAmount: number;
     currency: string;
     numAircraft: number | null;
+    exposureSource: string;
     airline: {
       icao: string;
       name: string;
@@ -71,7 +73,9 @@ function EditExposureModal({ portfolioId, exposure, onClose }: EditExposureModal
     exposureAmount: exposure.exposureAmount.toString(),
     currency: exposure.currency,
     numAircraft: exposure.numAircraft?.toString() || '',
+    exposureSource: exposure.exposureSource || 'manual',
   });
+  const isDerived = formData.exposureSource === 'derived';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -86,6 +90,7 @@ function EditExposureModal({ portfolioId, exposure, onClose }: EditExposureModal
           exposureAmount: parseFloat(formData.exposureAmount.replace(/,/g, '')),
           currency: formData.currency,
           numAircraft: formData.numAircraft ? parseInt(formData.numAircraft) : null,
+          exposureSource: formData.exposureSource,
         }),
       });
 
@@ -117,14 +122,30 @@ function EditExposureModal({ portfolioId, exposure, onClose }: EditExposureModal
         )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="exposureSource" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Exposure Basis
+            </label>
+            <select
+              id="exposureSource"
+              value={formData.exposureSource}
+              onChange={(e) => setFormData({ ...formData, exposureSource: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border"
+            >
+              <option value="manual">Manual amount</option>
+              <option value="derived">Derived from lease terms (remaining rent + asset value)</option>
+            </select>
+          </div>
+
           <div>
             <label htmlFor="exposureAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Exposure Amount *
+              Exposure Amount {isDerived ? '(derived)' : '*'}
             </label>
             <input
               type="text"
               id="exposureAmount"
-              required
+              required={!isDerived}
+              disabled={isDerived}
               value={formData.exposureAmount ? Number(formData.exposureAmount).toLocaleString('en-US', { maximumFractionDigits: 2, useGrouping: true }) : ''}
               onChange={(e) => {
                 const value = e.target.value.replace(/,/g, '');
@@ -132,7 +153,7 @@ function EditExposureModal({ portfolioId, exposure, onClose }: EditExposureModal
                   setFormData({ ...formData, exposureAmount: value });
                 }
               }}
-              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border disabled:opacity-60"
             />
           </div>
 
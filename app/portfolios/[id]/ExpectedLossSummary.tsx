@@ -0,0 +1,106 @@
+import { formatMoney, formatPercent } from '@/lib/format';
+import type { CurrencyRiskResult } from '@/lib/portfolio-risk';
+
+interface ExpectedLossSummaryProps {
+  // Per currency (no FX conversion)
+  perCurrency: Record<string, CurrencyRiskResult>;
+  currencies: string[];
+}
+
+export default function ExpectedLossSummary({ perCurrency, currencies }: ExpectedLossSummaryProps) {
+  if (currencies.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">Expected Loss</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          1-year PD from the calibrated rating scale × LGD from asset value (less the lessee jurisdiction&apos;s recovery haircut)
+          vs. exposure × exposure at default
+        </p>
+
+        <div className="space-y-6">
+          {currencies.map(currency => {
+            const data = perCurrency[currency];
+
+            return (
+              <div key={currency}>
+                {currencies.length > 1 && (
+                  <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-sm font-semibold">
+                    {currency}
+                  </span>
+                )}
+
+                <div className="mt-3 grid grid-cols-1 gap-5 sm:grid-cols-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Expected Loss (1 year)</div>
+                    <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                      {formatMoney(data.expectedLoss, currency)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-gray-500 dark:text-gray-400" title="Expected loss as a share of total exposure">
+                      EL Rate
+                    </div>
+                    <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                      {formatPercent(data.expectedLossRate * 100, 2)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-gray-500 dark:text-gray-400" title="Exposure-weighted 1-year probability of default">
+                      Weighted PD
+                    </div>
+                    <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                      {formatPercent(data.weightedPd * 100, 2)}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-4 overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="py-2 text-left font-medium">Airline</th>
+                        <th className="py-2 text-left font-medium">Grade</th>
+                        <th className="py-2 text-right font-medium">PD</th>
+                        <th className="py-2 text-right font-medium">LGD</th>
+                        <th className="py-2 text-right font-medium">Exposure</th>
+                        <th className="py-2 text-right font-medium">Expected Loss</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {data.rows.map(row => (
+                        <tr key={row.airline.icao} className="text-gray-900 dark:text-gray-100">
+                          <td className="py-2">{row.airline.name}</td>
+                          <td className="py-2 font-mono">{row.ratingGrade}</td>
+                          <td className="py-2 text-right">{formatPercent(row.pd * 100, 2)}</td>
+                          <td
+                            className="py-2 text-right"
+                            title={row.recoveryHaircut !== undefined && row.lgdBasis === 'collateral'
+                              ? `Recovery haircut ${formatPercent(row.recoveryHaircut * 100, 0)} for ${row.airline.country}`
+                              : undefined}
+                          >
+                            {formatPercent(row.lgd * 100, 0)}
+                            {row.lgdBasis === 'unsecured' && (
+                              <span className="ml-1 text-xs text-gray-500 dark:text-gray-400" title="No appraised asset values recorded">
+                                (unsecured)
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">{formatMoney(row.exposure, currency)}</td>
+                          <td className="py-2 text-right font-semibold">{formatMoney(row.expectedLoss, currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getCurrencySymbol } from '@/lib/display-utils';
+import type { ExposureLimitType, LimitCheck } from '@/lib/exposure-limits';
+
+interface ExposureLimitsProps {
+  portfolioId: string;
+  currency: string; // Currency of exposure and headroom
+  limits: Array<{
+    id: string;
+    description: string;
+    maxShare: number;
+    hard: boolean;
+    check: LimitCheck | null; // null if the books can't be consolidated
+  }>;
+  missingFxRates: string[];
+}
+
+const LIMIT_TYPES: Array<{ type: ExposureLimitType; label: string; targetPlaceholder?: string }> = [
+  { type: 'airline', label: 'Airline', targetPlaceholder: 'ICAO, e.g. AFR (blank = each airline)' },
+  { type: 'group', label: 'Group', targetPlaceholder: 'e.g. Air France-KLM (blank = each group)' },
+  { type: 'country', label: 'Country', targetPlaceholder: 'e.g. France (blank = each country)' },
+  { type: 'region', label: 'Region', targetPlaceholder: 'e.g. Europe (blank = each region)' },
+  { type: 'riskBucket', label: 'Risk bucket' },
+  { type: 'score', label: 'Airlines scoring above' },
+];
+
+const STATUS_STYLES: Record<LimitCheck['status'], { label: string; className: string }> = {
+  ok: { label: 'Within', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  near: { label: 'Near', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  breach: { label: 'Breach', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+};
+
+const EMPTY_FORM = {
+  type: 'group' as ExposureLimitType,
+  target: '',
+  minScore: '70',
+  maxShare: '',
+  hard: true,
+};
+
+export default function ExposureLimits({ portfolioId, currency, limits, missingFxRates }: ExposureLimitsProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const symbol = getCurrencySymbol(currency);
+  const breaches = limits.filter(limit => limit.check?.status === 'breach');
+  const selectedType = LIMIT_TYPES.find(t => t.type === formData.type);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/limits`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: formData.type,
+          target: formData.type === 'riskBucket' ? formData.target || 'High' : formData.target || null,
+          minScore: formData.type === 'score' ? parseFloat(formData.minScore) : null,
+          maxShare: parseFloat(formData.maxShare) / 100,
+          hard: formData.hard,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add limit');
+      }
+
+      setFormData(EMPTY_FORM);
+      setIsOpen(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add limit');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (limitId: string, description: string) => {
+    if (!confirm(`Remove the limit on ${description}?`)) return;
+
+    setDeletingId(limitId);
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/limits/${limitId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete limit');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting limit:', error);
+      alert('Failed to delete limit. Please try again.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Exposure Limits</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Maximum shares of total exposure - hard limits block exposure changes that would breach them, soft limits only warn
+            </p>
+          </div>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {isOpen ? 'Cancel' : 'Add Limit'}
+          </button>
+        </div>
+
+        {breaches.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-300">
+            {breaches.length} limit{breaches.length === 1 ? ' is' : 's are'} breached:{' '}
+            {breaches.map(limit => limit.check?.name ?? limit.description).join(', ')}
+          </div>
+        )}
+
+        {missingFxRates.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-700 dark:text-yellow-300">
+            Limits can&apos;t be measured across currency books until FX rates are available for {missingFxRates.join(', ')}.
+          </div>
+        )}
+
+        {isOpen && (
+          <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-md border border-gray-200 dark:border-gray-700">
+            {error && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div>
+                <label htmlFor="limitType" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Limit on
+                </label>
+                <select
+                  id="limitType"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as ExposureLimitType, target: '' })}
+                  className={inputClass}
+                >
+                  {LIMIT_TYPES.map(t => (
+                    <option key={t.type} value={t.type}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                {formData.type === 'score' ? (
+                  <>
+                    <label htmlFor="limitMinScore" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Score above *
+                    </label>
+                    <input
+                      type="number"
+                      id="limitMinScore"
+                      required
+                      min="0"
+                      max="99"
+                      step="any"
+                      value={formData.minScore}
+                      onChange={(e) => setFormData({ ...formData, minScore: e.target.value })}
+                      className={inputClass}
+                    />
+                  </>
+                ) : formData.type === 'riskBucket' ? (
+                  <>
+                    <label htmlFor="limitBucket" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Bucket *
+                    </label>
+                    <select
+                      id="limitBucket"
+                      value={formData.target || 'High'}
+                      onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="High">High</option>
+                      <option value="Medium">Medium</option>
+                      <option value="Low">Low</option>
+                    </select>
+                  </>
+                ) : (
+                  <>
+                    <label htmlFor="limitTarget" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {selectedType?.label}
+                    </label>
+                    <input
+                      type="text"
+                      id="limitTarget"
+                      value={formData.target}
+                      onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                      placeholder={selectedType?.targetPlaceholder}
+                      className={inputClass}
+                    />
+                  </>
+                )}
+              </div>
+              <div>
+                <label htmlFor="limitMaxShare" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Max share (%) *
+                </label>
+                <input
+                  type="number"
+                  id="limitMaxShare"
+                  required
+                  min="0.1"
+                  max="99.9"
+                  step="any"
+                  value={formData.maxShare}
+                  onChange={(e) => setFormData({ ...formData, maxShare: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="mt-4 flex items-center justify-between">
+              <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.hard}
+                  onChange={(e) => setFormData({ ...formData, hard: e.target.checked })}
+                  className="mr-2 rounded border-gray-300"
+                />
+                Hard limit (block breaching exposure changes)
+              </label>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Limit'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {limits.length === 0 ? (
+          <div className="text-center py-6">
+            <p className="text-gray-500 dark:text-gray-400">No exposure limits set.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Limit</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Largest</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Share</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Max</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" title="Exposure that can still be added before the limit is reached">Headroom</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {limits.map(limit => (
+                  <tr key={limit.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                      {limit.description}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{limit.hard ? 'hard' : 'soft'}</span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">{limit.check?.name ?? '-'}</td>
+                    <td className="px-4 py-2 text-right text-sm font-semibold text-gray-900 dark:text-white">
+                      {limit.check ? `${(limit.check.share * 100).toFixed(1)}%` : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-500 dark:text-gray-400">
+                      {(limit.maxShare * 100).toFixed(1)}%
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-900 dark:text-white">
+                      {limit.check ? `${symbol}${(limit.check.headroom / 1000000).toFixed(1)}M` : '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {limit.check && (
+                        <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${STATUS_STYLES[limit.check.status].className}`}>
+                          {STATUS_STYLES[limit.check.status].label}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleDelete(limit.id, limit.description)}
+                        disabled={deletingId === limit.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        title="Remove limit"
+                      >
+                        {deletingId === limit.id ? 'Removing...' : 'Remove'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import Link from 'next/link';
+import { getCurrencySymbol, getRiskBucketColor } from '@/lib/display-utils';
+import { formatDelta, getDeltaColorClass } from '@/lib/format';
+import { FX_RISK_POINTS_PER_PCT } from '@/lib/fx-sensitivity';
+import type { CurrencyMismatch, FxScenarioResult, FxSensitivityResult } from '@/lib/fx-sensitivity';
+
+interface FxSensitivityProps {
+  mismatches: CurrencyMismatch[];
+  sensitivity: FxSensitivityResult | null;
+  missingFxRates: string[];
+}
+
+function formatMillions(symbol: string, amount: number) {
+  return `${amount < 0 ? '-' : ''}${symbol}${(Math.abs(amount) / 1000000).toFixed(1)}M`;
+}
+
+export default function FxSensitivity({ mismatches, sensitivity, missingFxRates }: FxSensitivityProps) {
+  const mismatched = mismatches.filter(m => m.mismatched);
+  const symbol = getCurrencySymbol(sensitivity?.reportingCurrency ?? 'USD');
+
+  const renderScenario = (scenario: FxScenarioResult) => (
+    <tr key={scenario.move}>
+      <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">
+        {scenario.move > 0 ? '+' : ''}{Math.round(scenario.move * 100)}%
+      </td>
+      <td className="px-4 py-2 text-right text-gray-900 dark:text-white">
+        {formatMillions(symbol, scenario.totalExposure)}
+        {scenario.exposureChange !== 0 && (
+          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+            ({scenario.exposureChange > 0 ? '+' : ''}{formatMillions(symbol, scenario.exposureChange)})
+          </span>
+        )}
+      </td>
+      <td className="px-4 py-2 text-right text-gray-900 dark:text-white">
+        {scenario.adjustedRisk}{' '}
+        <span className={`text-xs font-semibold ${getDeltaColorClass(scenario.riskChange)}`}>
+          ({formatDelta(scenario.riskChange)})
+        </span>
+      </td>
+      <td className="px-4 py-2">
+        <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${getRiskBucketColor(scenario.riskBucket)}`}>
+          {scenario.riskBucket}
+        </span>
+      </td>
+      <td className="px-4 py-2 text-right text-gray-900 dark:text-white">
+        {symbol}{(scenario.expectedLoss / 1000000).toFixed(2)}M
+      </td>
+      <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{scenario.stressedAirlines}</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">FX Sensitivity</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Lessees paying rent in a currency other than their revenue currency, and how the portfolio moves when the
+          reporting currency strengthens (+) or weakens (−) against all others
+        </p>
+
+        {mismatched.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            No currency mismatches: every lessee with a known revenue currency pays rent in it.
+          </p>
+        ) : (
+          <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+            <strong>{mismatched.length} of {mismatches.length} lessees</strong> pay rent from a different revenue currency
+            {sensitivity && (
+              <> ({formatMillions(symbol, sensitivity.mismatchedExposure)}, {(sensitivity.mismatchedShare * 100).toFixed(0)}% of exposure)</>
+            )}
+            : {mismatched.map(m => `${m.icao} ${m.leaseCurrency}/${m.revenueCurrency}`).join(', ')}
+          </div>
+        )}
+
+        {!sensitivity ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Sensitivity needs FX rates for {missingFxRates.join(', ')}.{' '}
+            <Link href="/admin/fx-rates" className="text-blue-600 dark:text-blue-400 hover:underline">Add rates</Link>
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{sensitivity.reportingCurrency} Move</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Exposure</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Adjusted Risk</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Bucket</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Expected Loss</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Airlines Stressed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sensitivity.scenarios.filter(s => s.move < 0).map(renderScenario)}
+                <tr className="bg-gray-50 dark:bg-gray-900 font-semibold">
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">Current</td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{formatMillions(symbol, sensitivity.base.totalExposure)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{sensitivity.base.adjustedRisk}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${getRiskBucketColor(sensitivity.base.riskBucket)}`}>
+                      {sensitivity.base.riskBucket}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{symbol}{(sensitivity.base.expectedLoss / 1000000).toFixed(2)}M</td>
+                  <td className="px-4 py-2" />
+                </tr>
+                {sensitivity.scenarios.filter(s => s.move > 0).map(renderScenario)}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Exposures in other currencies are revalued in {sensitivity.reportingCurrency}. A lessee&apos;s score rises {FX_RISK_POINTS_PER_PCT * 10} points
+              for every 10% increase in rent burden in its revenue currency; currencies other than {sensitivity.reportingCurrency} are
+              assumed to move together.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import { getCurrencySymbol, getScoreColor } from '@/lib/display-utils';
+import type { GroupExposure } from '@/lib/airline-groups';
+
+interface GroupExposureTableProps {
+  groups: GroupExposure[];
+  currency: string;
+}
+
+// Exposure and risk by airline group - only shown when the book has exposure to a group
+export default function GroupExposureTable({ groups, currency }: GroupExposureTableProps) {
+  const grouped = groups.filter(group => group.grouped);
+  if (grouped.length === 0) {
+    return null;
+  }
+
+  const symbol = getCurrencySymbol(currency);
+
+  return (
+    <div className="mb-3 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-baseline justify-between mb-2">
+        <div className="text-xs font-medium text-gray-700 dark:text-gray-300">Airline Groups</div>
+        <Link href="/admin/airline-groups" className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          Manage groups
+        </Link>
+      </div>
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 dark:text-gray-400">
+            <th className="py-1 text-left font-medium">Group</th>
+            <th className="py-1 text-right font-medium">Exposure</th>
+            <th className="py-1 text-right font-medium">Share</th>
+            <th className="py-1 text-right font-medium" title="Exposure-weighted airline score">Risk</th>
+            <th className="py-1 text-right font-medium" title="Highest score in the group">Worst</th>
+            <th className="py-1 text-right font-medium">Expected Loss</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {grouped.map(group => (
+            <tr key={group.name} className="align-top">
+              <td className="py-1.5 pr-2">
+                <div className="font-medium text-gray-900 dark:text-gray-100">{group.name}</div>
+                <div className="text-gray-500 dark:text-gray-400">
+                  {group.airlines.map(a => `${a.icao}${a.guaranteed ? ' (guaranteed)' : ''}`).join(', ')}
+                </div>
+              </td>
+              <td className="py-1.5 text-right text-gray-900 dark:text-gray-100">
+                {symbol}{(group.exposure / 1000000).toFixed(1)}M
+              </td>
+              <td className="py-1.5 text-right font-semibold text-gray-900 dark:text-gray-100">
+                {(group.share * 100).toFixed(1)}%
+              </td>
+              <td className={`py-1.5 text-right font-semibold ${getScoreColor(group.risk)}`}>{group.risk.toFixed(1)}</td>
+              <td className={`py-1.5 text-right ${getScoreColor(group.worstRisk)}`}>{group.worstRisk.toFixed(1)}</td>
+              <td className="py-1.5 text-right text-gray-900 dark:text-gray-100">
+                {symbol}{(group.expectedLoss / 1000000).toFixed(2)}M
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { getCurrencySymbol } from '@/lib/display-utils';
+import type { MaturityBucket } from '@/lib/lease-terms';
+
+interface LeaseMaturityLadderProps {
+  // Ladder per rent currency (no FX conversion)
+  ladders: Record<string, MaturityBucket[]>;
+}
+
+export default function LeaseMaturityLadder({ ladders }: LeaseMaturityLadderProps) {
+  const currencies = Object.keys(ladders).sort();
+
+  if (currencies.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">Lease Maturity Ladder</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Remaining contracted rent by time to lease expiry
+        </p>
+
+        <div className="space-y-6">
+          {currencies.map(currency => {
+            const ladder = ladders[currency];
+            const maxRent = Math.max(...ladder.map(bucket => bucket.remainingRent), 1);
+
+            return (
+              <div key={currency}>
+                {currencies.length > 1 && (
+                  <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-sm font-semibold">
+                    {currency}
+                  </span>
+                )}
+                <div className="mt-3 space-y-2">
+                  {ladder.map(bucket => (
+                    <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                      <div className="w-24 flex-shrink-0 text-gray-700 dark:text-gray-300">{bucket.label}</div>
+                      <div className="flex-1 bg-gray-100 dark:bg-gray-700 rounded h-5">
+                        <div
+                          className="h-5 rounded bg-blue-500 dark:bg-blue-400"
+                          style={{ width: `${(bucket.remainingRent / maxRent) * 100}%` }}
+                        ></div>
+                      </div>
+                      <div className="w-28 flex-shrink-0 text-right font-semibold text-gray-900 dark:text-white">
+                        {getCurrencySymbol(currency)}{(bucket.remainingRent / 1000000).toFixed(1)}M
+                      </div>
+                      <div className="w-20 flex-shrink-0 text-right text-xs text-gray-500 dark:text-gray-400">
+                        {bucket.numLeases} lease{bucket.numLeases !== 1 ? 's' : ''}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getCurrencySymbol } from '@/lib/display-utils';
+
+interface LeaseRow {
+  id: string;
+  aircraftMsn: string | null;
+  startDate: string;
+  expiryDate: string;
+  monthlyRent: number;
+  rentCurrency: string;
+  securityDeposit: number | null;
+  letterOfCredit: number | null;
+  maintenanceReserveBalance: number | null;
+  extensionOptionMonths: number | null;
+  remainingRent: number;
+}
+
+interface LeaseTermsProps {
+  portfolioId: string;
+  exposures: Array<{
+    id: string;
+    currency: string;
+    airline: {
+      icao: string;
+      name: string;
+    };
+    aircraft: Array<{ id: string; msn: string; aircraftType: string }>;
+    leases: LeaseRow[];
+  }>;
+}
+
+const EMPTY_FORM = {
+  exposureId: '',
+  aircraftId: '',
+  startDate: '',
+  expiryDate: '',
+  monthlyRent: '',
+  rentCurrency: '',
+  securityDeposit: '',
+  letterOfCredit: '',
+  maintenanceReserveBalance: '',
+  extensionOptionMonths: '',
+};
+
+function formatAmount(value: number | null, currency: string): string {
+  if (value === null || value === undefined) return '-';
+  return `${getCurrencySymbol(currency)}${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+export default function LeaseTerms({ portfolioId, exposures }: LeaseTermsProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const selectedExposure = exposures.find(e => e.id === formData.exposureId);
+  const rows = exposures
+    .flatMap(exposure => exposure.leases.map(lease => ({ exposure, lease })))
+    .sort((a, b) => new Date(a.lease.expiryDate).getTime() - new Date(b.lease.expiryDate).getTime());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(
+        `/api/portfolios/${portfolioId}/exposures/${formData.exposureId}/leases`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            aircraftId: formData.aircraftId || null,
+            startDate: formData.startDate,
+            expiryDate: formData.expiryDate,
+            monthlyRent: parseFloat(formData.monthlyRent),
+            rentCurrency: formData.rentCurrency || selectedExposure?.currency,
+            securityDeposit: formData.securityDeposit ? parseFloat(formData.securityDeposit) : null,
+            letterOfCredit: formData.letterOfCredit ? parseFloat(formData.letterOfCredit) : null,
+            maintenanceReserveBalance: formData.maintenanceReserveBalance
+              ? parseFloat(formData.maintenanceReserveBalance)
+              : null,
+            extensionOptionMonths: formData.extensionOptionMonths
+              ? parseInt(formData.extensionOptionMonths)
+              : null,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add lease');
+      }
+
+      setFormData(EMPTY_FORM);
+      setIsOpen(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add lease');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (exposureId: string, leaseId: string) => {
+    if (!confirm('Remove this lease contract?')) return;
+
+    setDeletingId(leaseId);
+    try {
+      const response = await fetch(
+        `/api/portfolios/${portfolioId}/exposures/${exposureId}/leases/${leaseId}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete lease');
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error('Error deleting lease:', error);
+      alert(error.message || 'Failed to delete lease. Please try again.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Lease Contracts</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Contract terms, security and reserves, sorted by expiry
+            </p>
+          </div>
+          {exposures.length > 0 && (
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {isOpen ? 'Cancel' : 'Add Lease'}
+            </button>
+          )}
+        </div>
+
+        {isOpen && (
+          <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-md border border-gray-200 dark:border-gray-700">
+            {error && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="leaseExposure" className={labelClass}>Lessee *</label>
+                <select
+                  id="leaseExposure"
+                  required
+                  value={formData.exposureId}
+                  onChange={(e) => setFormData({ ...formData, exposureId: e.target.value, aircraftId: '' })}
+                  className={inputClass}
+                >
+                  <option value="">Choose an exposure...</option>
+                  {exposures.map(exposure => (
+                    <option key={exposure.id} value={exposure.id}>
+                      {exposure.airline.name} ({exposure.airline.icao})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="leaseAircraft" className={labelClass}>Aircraft</label>
+                <select
+                  id="leaseAircraft"
+                  value={formData.aircraftId}
+                  onChange={(e) => setFormData({ ...formData, aircraftId: e.target.value })}
+                  className={inputClass}
+                  disabled={!selectedExposure || selectedExposure.aircraft.length === 0}
+                >
+                  <option value="">Not linked to a tail</option>
+                  {selectedExposure?.aircraft.map(aircraft => (
+                    <option key={aircraft.id} value={aircraft.id}>
+                      MSN {aircraft.msn} ({aircraft.aircraftType})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="startDate" className={labelClass}>Start Date *</label>
+                <input
+                  type="date"
+                  id="startDate"
+                  required
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="expiryDate" className={labelClass}>Expiry Date *</label>
+                <input
+                  type="date"
+                  id="expiryDate"
+                  required
+                  value={formData.expiryDate}
+                  onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="monthlyRent" className={labelClass}>Monthly Rent *</label>
+                <input
+                  type="number"
+                  id="monthlyRent"
+                  required
+                  min="0"
+                  step="any"
+                  value={formData.monthlyRent}
+                  onChange={(e) => setFormData({ ...formData, monthlyRent: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="rentCurrency" className={labelClass}>Rent Currency</label>
+                <select
+                  id="rentCurrency"
+                  value={formData.rentCurrency || selectedExposure?.currency || 'USD'}
+                  onChange={(e) => setFormData({ ...formData, rentCurrency: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="USD">USD</option>
+                  <option value="EUR">EUR</option>
+                  <option value="GBP">GBP</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="securityDeposit" className={labelClass}>Security Deposit</label>
+                <input
+                  type="number"
+                  id="securityDeposit"
+                  min="0"
+                  step="any"
+                  value={formData.securityDeposit}
+                  onChange={(e) => setFormData({ ...formData, securityDeposit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="letterOfCredit" className={labelClass}>Letters of Credit</label>
+                <input
+                  type="number"
+                  id="letterOfCredit"
+                  min="0"
+                  step="any"
+                  value={formData.letterOfCredit}
+                  onChange={(e) => setFormData({ ...formData, letterOfCredit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="maintenanceReserveBalance" className={labelClass}>MR Balance</label>
+                <input
+                  type="number"
+                  id="maintenanceReserveBalance"
+                  min="0"
+                  step="any"
+                  value={formData.maintenanceReserveBalance}
+                  onChange={(e) => setFormData({ ...formData, maintenanceReserveBalance: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="extensionOptionMonths" className={labelClass}>Extension Option (months)</label>
+                <input
+                  type="number"
+                  id="extensionOptionMonths"
+                  min="0"
+                  value={formData.extensionOptionMonths}
+                  onChange={(e) => setFormData({ ...formData, extensionOptionMonths: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Lease'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500 dark:text-gray-400">No lease contracts recorded yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lessee</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MSN</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Term</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monthly Rent</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Remaining Rent</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit / LC</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MR Balance</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Extension</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map(({ exposure, lease }) => (
+                  <tr key={lease.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{exposure.airline.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{exposure.airline.icao}</div>
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">{lease.aircraftMsn || '-'}</td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {new Date(lease.startDate).toLocaleDateString()} – {new Date(lease.expiryDate).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {formatAmount(lease.monthlyRent, lease.rentCurrency)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {formatAmount(lease.remainingRent, lease.rentCurrency)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {formatAmount(lease.securityDeposit, lease.rentCurrency)} / {formatAmount(lease.letterOfCredit, lease.rentCurrency)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {formatAmount(lease.maintenanceReserveBalance, lease.rentCurrency)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {lease.extensionOptionMonths ? `${lease.extensionOptionMonths} mo` : '-'}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleDelete(exposure.id, lease.id)}
+                        disabled={deletingId === lease.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        title="Remove lease"
+                      >
+                        {deletingId === lease.id ? 'Removing...' : 'Remove'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
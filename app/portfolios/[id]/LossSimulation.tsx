@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { formatMoney, formatPercent } from '@/lib/format';
+import type { SimulationResult } from '@/lib/credit-simulation';
+
+interface LossSimulationProps {
+  portfolioId: string;
+  currencies: string[];
+}
+
+export default function LossSimulation({ portfolioId, currencies }: LossSimulationProps) {
+  const [currency, setCurrency] = useState(currencies[0] || 'USD');
+  const [trials, setTrials] = useState('10000');
+  const [seed, setSeed] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [resultCurrency, setResultCurrency] = useState(currency);
+
+  const handleRun = async () => {
+    setError('');
+    setIsRunning(true);
+
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/simulation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currency,
+          trials: parseInt(trials, 10),
+          seed: seed === '' ? undefined : parseInt(seed, 10),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run simulation');
+      }
+
+      setResult(data.simulation);
+      setResultCurrency(data.currency);
+      setSeed(String(data.simulation.seed)); // Keep the seed so the run can be reproduced
+    } catch (err: any) {
+      setError(err.message || 'Failed to run simulation');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const maxCount = result ? Math.max(...result.histogram.map(bin => bin.count), 1) : 1;
+  const var99 = result?.tail.find(t => t.confidence === 0.99)?.valueAtRisk;
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-1">Credit Loss Simulation</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Monte Carlo defaults with correlation between lessees in the same region, country and group;
+          repossession haircuts widen in downturns. Re-use a seed to reproduce a run.
+        </p>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end">
+          {currencies.length > 1 && (
+            <div>
+              <label htmlFor="simulationCurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Currency
+              </label>
+              <select
+                id="simulationCurrency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className={inputClass}
+              >
+                {currencies.map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="simulationTrials" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Trials
+            </label>
+            <input
+              type="number"
+              id="simulationTrials"
+              min="100"
+              max="100000"
+              step="1000"
+              value={trials}
+              onChange={(e) => setTrials(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="simulationSeed" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Seed
+            </label>
+            <input
+              type="number"
+              id="simulationSeed"
+              min="0"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              placeholder="Random"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isRunning ? 'Running...' : 'Run Simulation'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-6 space-y-6">
+            <div className="grid grid-cols-1 gap-5 sm:grid-cols-4">
+              <div>
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Expected Loss</div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                  {formatMoney(result.expectedLoss, resultCurrency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400" title="Standard deviation of simulated losses">
+                  Unexpected Loss
+                </div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                  {formatMoney(result.unexpectedLoss, resultCurrency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Worst Trial</div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                  {formatMoney(result.maxLoss, resultCurrency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-medium text-gray-500 dark:text-gray-400">No-Default Trials</div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                  {formatPercent(result.zeroLossShare * 100, 1)}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                Loss Distribution ({result.trials.toLocaleString()} trials, seed {result.seed})
+              </h4>
+              <div className="flex items-end gap-px h-40 border-b border-gray-200 dark:border-gray-700">
+                {result.histogram.map((bin, index) => (
+                  <div
+                    key={index}
+                    className={`flex-1 ${var99 !== undefined && bin.from >= var99 ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                    title={`${formatMoney(bin.from, resultCurrency)} – ${formatMoney(bin.to, resultCurrency)}: ${bin.count} trials`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                <span>{formatMoney(0, resultCurrency)}</span>
+                <span>{formatMoney(result.maxLoss, resultCurrency)}</span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Red bars are beyond the 99% VaR</p>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="py-2 text-left font-medium">Confidence</th>
+                  <th className="py-2 text-right font-medium">Value at Risk</th>
+                  <th className="py-2 text-right font-medium">Expected Shortfall</th>
+                  <th className="py-2 text-right font-medium">VaR % of Exposure</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {result.tail.map(stat => (
+                  <tr key={stat.confidence} className="text-gray-900 dark:text-gray-100">
+                    <td className="py-2">{formatPercent(stat.confidence * 100, 1)}</td>
+                    <td className="py-2 text-right">{formatMoney(stat.valueAtRisk, resultCurrency)}</td>
+                    <td className="py-2 text-right font-semibold">{formatMoney(stat.expectedShortfall, resultCurrency)}</td>
+                    <td className="py-2 text-right">
+                      {formatPercent(result.totalExposure > 0 ? (stat.valueAtRisk / result.totalExposure) * 100 : 0, 2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
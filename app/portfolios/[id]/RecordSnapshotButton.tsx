@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface RecordSnapshotButtonProps {
+  portfolioId: string;
+}
+
+export default function RecordSnapshotButton({ portfolioId }: RecordSnapshotButtonProps) {
+  const router = useRouter();
+  const [isRecording, setIsRecording] = useState(false);
+
+  const handleRecord = async () => {
+    setIsRecording(true);
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/history`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to record snapshot');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error recording risk snapshot:', error);
+      alert('Failed to record risk snapshot. Please try again.');
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleRecord}
+      disabled={isRecording}
+      className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 text-sm font-medium disabled:opacity-50"
+    >
+      {isRecording ? 'Recording...' : 'Record snapshot now'}
+    </button>
+  );
+}
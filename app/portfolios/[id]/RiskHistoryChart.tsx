@@ -0,0 +1,114 @@
+import { getCurrencySymbol } from '@/lib/display-utils';
+import { formatDelta, getDeltaColorClass } from '@/lib/format';
+import { summarizeTrajectory } from '@/lib/portfolio-history';
+import type { RiskHistoryPoint } from '@/lib/portfolio-history';
+import RecordSnapshotButton from './RecordSnapshotButton';
+
+interface RiskHistoryChartProps {
+  portfolioId: string;
+  // Snapshots per currency, oldest first (no FX conversion)
+  history: Record<string, RiskHistoryPoint[]>;
+  bucketThresholds: {
+    lowMax: number;
+    mediumMax: number;
+  };
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+export default function RiskHistoryChart({ portfolioId, history, bucketThresholds }: RiskHistoryChartProps) {
+  const currencies = Object.keys(history).sort();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Risk History</h3>
+          <RecordSnapshotButton portfolioId={portfolioId} />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Portfolio risk recorded on every exposure change and by the scheduled snapshot
+        </p>
+
+        {currencies.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No history yet. A snapshot is recorded with the next exposure change.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {currencies.map(currency => {
+              const points = history[currency];
+              const trajectory = summarizeTrajectory(points);
+              const start = points[0].calculatedAt.getTime();
+              const span = Math.max(points[points.length - 1].calculatedAt.getTime() - start, 1);
+              const x = (point: RiskHistoryPoint) =>
+                points.length === 1 ? WIDTH / 2 : ((point.calculatedAt.getTime() - start) / span) * WIDTH;
+              const y = (score: number) => HEIGHT - (score / 100) * HEIGHT;
+              const line = (key: 'adjustedRisk' | 'baseRisk') =>
+                points.map(point => `${x(point).toFixed(1)},${y(point[key]).toFixed(1)}`).join(' ');
+              const latest = points[points.length - 1];
+
+              return (
+                <div key={currency}>
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    {currencies.length > 1 && (
+                      <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-sm font-semibold">
+                        {currency}
+                      </span>
+                    )}
+                    {trajectory && (
+                      <>
+                        <span className="text-gray-700 dark:text-gray-300">
+                          Quarter to date: {trajectory.startRisk} → {trajectory.latestRisk}{' '}
+                          <span className={`font-semibold ${getDeltaColorClass(trajectory.change)}`}>
+                            ({formatDelta(trajectory.change)})
+                          </span>
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          Range {trajectory.minRisk}–{trajectory.maxRisk}
+                        </span>
+                      </>
+                    )}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      Exposure {getCurrencySymbol(currency)}{(latest.totalExposure / 1000000).toFixed(1)}M
+                    </span>
+                  </div>
+
+                  <svg
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    preserveAspectRatio="none"
+                    className="mt-3 w-full h-40 bg-gray-50 dark:bg-gray-900 rounded"
+                  >
+                    {/* Bucket thresholds */}
+                    <line x1={0} x2={WIDTH} y1={y(bucketThresholds.lowMax)} y2={y(bucketThresholds.lowMax)} className="stroke-yellow-400" strokeDasharray="4 4" />
+                    <line x1={0} x2={WIDTH} y1={y(bucketThresholds.mediumMax)} y2={y(bucketThresholds.mediumMax)} className="stroke-red-400" strokeDasharray="4 4" />
+                    <polyline points={line('baseRisk')} fill="none" className="stroke-gray-400" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    <polyline points={line('adjustedRisk')} fill="none" className="stroke-purple-600 dark:stroke-purple-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                    {points.map((point, index) => (
+                      <circle key={index} cx={x(point)} cy={y(point.adjustedRisk)} r={2.5} className="fill-purple-600 dark:fill-purple-400">
+                        <title>
+                          {`${point.calculatedAt.toLocaleDateString()}: adjusted ${point.adjustedRisk}, base ${point.baseRisk} (${point.trigger.replace('_', ' ')}, model ${point.modelVersion})`}
+                        </title>
+                      </circle>
+                    ))}
+                  </svg>
+
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    <span>{points[0].calculatedAt.toLocaleDateString()}</span>
+                    <span className="flex gap-3">
+                      <span className="text-purple-600 dark:text-purple-400">— Adjusted risk</span>
+                      <span>— Base risk</span>
+                      <span>{points.length} snapshot{points.length !== 1 ? 's' : ''}</span>
+                    </span>
+                    <span>{latest.calculatedAt.toLocaleDateString()}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
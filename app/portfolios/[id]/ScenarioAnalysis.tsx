@@ -1,7 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { calculateScenarioRisk } from '@/lib/scenario-calculator';
+import { useRouter } from 'next/navigation';
+import type { ScenarioResult, ScenarioShock, ScenarioShockType } from '@/lib/scenario-calculator';
+import type { RiskDimensionKey } from '@/lib/risk-model';
 import { getCurrencySymbol } from '@/lib/display-utils';
 import { formatDelta, getDeltaColorClass } from '@/lib/format';
 
@@ -16,69 +18,190 @@ interface Exposure {
   riskBucket: string;
 }
 
+interface SavedScenario {
+  id: string;
+  name: string;
+  description: string | null;
+  shocks: ScenarioShock[];
+}
+
 interface ScenarioAnalysisProps {
+  portfolioId: string;
   exposures: Exposure[];
   currency: string;
-  currentMetrics: {
-    baseRisk: number;
-    adjustedRisk: number;
-    concentrationPenalty: number;
-    riskBucket: string;
-  };
+  savedScenarios: SavedScenario[];
+}
+
+// Editable form state for one shock - numeric fields are kept as strings while typing
+interface DraftShock {
+  type: ScenarioShockType;
+  airlineIcao: string;
+  country: string;
+  region: string;
+  component: RiskDimensionKey;
+  value: string;
+}
+
+const SHOCK_TYPES: Array<{ type: ScenarioShockType; label: string; valueLabel?: string }> = [
+  { type: 'setExposure', label: 'Change exposure', valueLabel: 'New exposure' },
+  { type: 'addAirline', label: 'Add airline', valueLabel: 'Exposure' },
+  { type: 'removeAirline', label: 'Remove airline' },
+  { type: 'overrideScore', label: 'Override airline score', valueLabel: 'Score (0-100)' },
+  { type: 'shiftCountry', label: 'Shift country', valueLabel: 'Points (+/-)' },
+  { type: 'shiftRegion', label: 'Shift region', valueLabel: 'Points (+/-)' },
+  { type: 'componentShock', label: 'Shock risk component', valueLabel: 'Points (+/-)' },
+];
+
+const COMPONENTS: Array<{ key: RiskDimensionKey; label: string }> = [
+  { key: 'jurisdiction', label: 'Jurisdiction' },
+  { key: 'scale', label: 'Scale & Network' },
+  { key: 'assetLiquidity', label: 'Asset Liquidity' },
+  { key: 'financial', label: 'Financial' },
+  { key: 'news', label: 'News & Events' },
+  { key: 'activity', label: 'Operational Activity' },
+];
+
+function emptyDraft(type: ScenarioShockType = 'setExposure'): DraftShock {
+  return { type, airlineIcao: '', country: '', region: '', component: 'financial', value: '' };
+}
+
+function toDraft(shock: ScenarioShock): DraftShock {
+  const draft = emptyDraft(shock.type);
+  switch (shock.type) {
+    case 'setExposure':
+    case 'addAirline':
+      return { ...draft, airlineIcao: shock.airlineIcao, value: String(shock.exposure) };
+    case 'removeAirline':
+      return { ...draft, airlineIcao: shock.airlineIcao };
+    case 'overrideScore':
+      return { ...draft, airlineIcao: shock.airlineIcao, value: String(shock.score) };
+    case 'shiftCountry':
+      return { ...draft, country: shock.country, value: String(shock.points) };
+    case 'shiftRegion':
+      return { ...draft, region: shock.region, value: String(shock.points) };
+    case 'componentShock':
+      return { ...draft, component: shock.component, value: String(shock.points) };
+  }
+}
+
+function toShock(draft: DraftShock): ScenarioShock {
+  const value = parseFloat(draft.value);
+  switch (draft.type) {
+    case 'setExposure':
+    case 'addAirline':
+      return { type: draft.type, airlineIcao: draft.airlineIcao.trim().toUpperCase(), exposure: value };
+    case 'removeAirline':
+      return { type: 'removeAirline', airlineIcao: draft.airlineIcao };
+    case 'overrideScore':
+      return { type: 'overrideScore', airlineIcao: draft.airlineIcao, score: value };
+    case 'shiftCountry':
+      return { type: 'shiftCountry', country: draft.country, points: value };
+    case 'shiftRegion':
+      return { type: 'shiftRegion', region: draft.region.trim(), points: value };
+    case 'componentShock':
+      return { type: 'componentShock', component: draft.component, points: value };
+  }
 }
 
 export default function ScenarioAnalysis({
+  portfolioId,
   exposures,
   currency,
-  currentMetrics,
+  savedScenarios,
 }: ScenarioAnalysisProps) {
+  const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedAirline, setSelectedAirline] = useState('');
-  const [newExposure, setNewExposure] = useState('');
-  const [simulatedResult, setSimulatedResult] = useState<any>(null);
+  const [drafts, setDrafts] = useState<DraftShock[]>([emptyDraft()]);
+  const [loadedScenario, setLoadedScenario] = useState<SavedScenario | null>(null);
+  const [scenarioName, setScenarioName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [run, setRun] = useState<{ current: ScenarioResult; scenario: ScenarioResult } | null>(null);
 
-  const handleSimulate = () => {
-    if (!selectedAirline || !newExposure) return;
+  const countries = Array.from(new Set(exposures.map(e => e.airlineCountry))).sort();
 
-    const exposureValue = parseFloat(newExposure);
-    if (isNaN(exposureValue) || exposureValue < 0) {
-      alert('Please enter a valid exposure amount');
-      return;
+  const updateDraft = (index: number, changes: Partial<DraftShock>) => {
+    setDrafts(drafts.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const request = async (url: string, init?: RequestInit) => {
+    setError('');
+    setIsBusy(true);
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Scenario request failed');
+      }
+
+      return data;
+    } catch (err: any) {
+      setError(err.message || 'Scenario request failed');
+      return null;
+    } finally {
+      setIsBusy(false);
     }
+  };
 
-    // Prepare exposure data
-    const exposureRows = exposures.map(e => ({
-      airlineIcao: e.airlineIcao,
-      airlineName: e.airlineName,
-      airlineCountry: e.airlineCountry,
-      exposure: e.exposureAmount,
-      risk: e.riskScore,
-      riskBucket: e.riskBucket,
-    }));
-
-    // Calculate scenario
-    const result = calculateScenarioRisk({
-      exposures: exposureRows,
-      currency,
-      modification: {
-        airlineIcao: selectedAirline,
-        newExposure: exposureValue,
-      },
+  const handleRun = async () => {
+    const data = await request(`/api/portfolios/${portfolioId}/scenarios/run`, {
+      method: 'POST',
+      body: JSON.stringify({ currency, shocks: drafts.map(toShock) }),
     });
+    if (data) setRun(data);
+  };
 
-    setSimulatedResult(result);
+  const handleSave = async () => {
+    const body = JSON.stringify({ name: scenarioName, currency, shocks: drafts.map(toShock) });
+    const data = loadedScenario && loadedScenario.name === scenarioName
+      ? await request(`/api/portfolios/${portfolioId}/scenarios/${loadedScenario.id}`, { method: 'PUT', body })
+      : await request(`/api/portfolios/${portfolioId}/scenarios`, { method: 'POST', body });
+
+    if (data) {
+      setLoadedScenario(data);
+      router.refresh();
+    }
   };
 
-  const handleClear = () => {
-    setSelectedAirline('');
-    setNewExposure('');
-    setSimulatedResult(null);
+  // Saved scenarios are re-run on the server against current exposures and scores
+  const handleRunSaved = async (scenario: SavedScenario) => {
+    handleLoad(scenario);
+    const data = await request(`/api/portfolios/${portfolioId}/scenarios/${scenario.id}`);
+    if (data) setRun(data);
+  };
+
+  const handleLoad = (scenario: SavedScenario) => {
+    setLoadedScenario(scenario);
+    setScenarioName(scenario.name);
+    setDrafts(scenario.shocks.map(toDraft));
+    setRun(null);
+  };
+
+  const handleDelete = async (scenario: SavedScenario) => {
+    if (!confirm(`Delete scenario "${scenario.name}"?`)) return;
+
+    const data = await request(`/api/portfolios/${portfolioId}/scenarios/${scenario.id}`, { method: 'DELETE' });
+    if (data) {
+      if (loadedScenario?.id === scenario.id) setLoadedScenario(null);
+      router.refresh();
+    }
   };
 
-  const selectedExposure = exposures.find(e => e.airlineIcao === selectedAirline);
+  const handleClear = () => {
+    setDrafts([emptyDraft()]);
+    setLoadedScenario(null);
+    setScenarioName('');
+    setRun(null);
+    setError('');
+  };
 
-  // Calculate current total exposure for comparison
-  const currentTotalExposure = exposures.reduce((sum, e) => sum + e.exposureAmount, 0);
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm px-3 py-2 border';
 
   return (
     <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg border border-transparent dark:border-gray-700">
@@ -102,7 +225,7 @@ export default function ScenarioAnalysis({
               />
             </svg>
             <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
-              What-if Scenario Analysis
+              Stress Scenarios
             </h3>
           </div>
           <svg
@@ -125,99 +248,227 @@ export default function ScenarioAnalysis({
         {isOpen && (
           <div className="mt-4 space-y-4">
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              Simulate changes to exposure amounts and see how portfolio risk would be affected.
-              Changes are temporary and not saved.
+              Combine shocks to exposures and airline scores, applied in order, and see how portfolio risk
+              would be affected. Saved scenarios re-run against the latest exposures and scores.
             </p>
 
-            {simulatedResult && (
-              <div className="p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-md flex items-center justify-between">
-                <div className="flex items-center">
-                  <svg className="h-5 w-5 text-purple-600 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                    <path
-                      fillRule="evenodd"
-                      d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                  <span className="text-sm font-medium text-purple-900 dark:text-purple-100">
-                    Scenario mode active (not saved)
-                  </span>
-                </div>
-                <button
-                  onClick={handleClear}
-                  className="text-sm text-purple-700 dark:text-purple-300 hover:text-purple-900 dark:hover:text-purple-100 font-medium"
-                >
-                  Clear scenario
-                </button>
+            {savedScenarios.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Saved Scenarios</h4>
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {savedScenarios.map(scenario => (
+                    <li key={scenario.id} className="py-2 flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-gray-900 dark:text-white">{scenario.name}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {scenario.shocks.length} shock{scenario.shocks.length === 1 ? '' : 's'}
+                          {scenario.description && ` • ${scenario.description}`}
+                        </span>
+                      </div>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleRunSaved(scenario)}
+                          disabled={isBusy}
+                          className="text-purple-600 dark:text-purple-400 hover:text-purple-900 font-medium disabled:opacity-50"
+                        >
+                          Run
+                        </button>
+                        <button
+                          onClick={() => handleLoad(scenario)}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-900"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(scenario)}
+                          disabled={isBusy}
+                          className="text-red-600 dark:text-red-400 hover:text-red-900 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
 
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-              <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  Select Airline
-                </label>
-                <select
-                  value={selectedAirline}
-                  onChange={(e) => setSelectedAirline(e.target.value)}
-                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm px-3 py-2 border"
-                >
-                  <option value="">Choose an airline...</option>
-                  {exposures.map((exp) => (
-                    <option key={exp.airlineIcao} value={exp.airlineIcao}>
-                      {exp.airlineName} ({exp.airlineIcao})
-                    </option>
-                  ))}
-                </select>
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+                {error}
               </div>
+            )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  New Exposure Amount
-                </label>
-                <div className="mt-1 relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <span className="text-gray-500 dark:text-gray-400 sm:text-sm">{getCurrencySymbol(currency)}</span>
+            <div className="space-y-3">
+              {drafts.map((draft, index) => {
+                const shockType = SHOCK_TYPES.find(t => t.type === draft.type)!;
+
+                return (
+                  <div key={index} className="grid grid-cols-1 gap-3 sm:grid-cols-4 items-end p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Shock {index + 1}</label>
+                      <select
+                        value={draft.type}
+                        onChange={(e) => updateDraft(index, { ...emptyDraft(e.target.value as ScenarioShockType) })}
+                        className={inputClass}
+                      >
+                        {SHOCK_TYPES.map(t => (
+                          <option key={t.type} value={t.type}>{t.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      {draft.type === 'addAirline' && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">ICAO Code</label>
+                          <input
+                            type="text"
+                            value={draft.airlineIcao}
+                            onChange={(e) => updateDraft(index, { airlineIcao: e.target.value.toUpperCase() })}
+                            placeholder="e.g., DLH"
+                            maxLength={4}
+                            className={inputClass}
+                          />
+                        </>
+                      )}
+                      {['setExposure', 'removeAirline', 'overrideScore'].includes(draft.type) && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Airline</label>
+                          <select
+                            value={draft.airlineIcao}
+                            onChange={(e) => updateDraft(index, { airlineIcao: e.target.value })}
+                            className={inputClass}
+                          >
+                            <option value="">Choose an airline...</option>
+                            {exposures.map((exp) => (
+                              <option key={exp.airlineIcao} value={exp.airlineIcao}>
+                                {exp.airlineName} ({exp.airlineIcao})
+                              </option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      {draft.type === 'shiftCountry' && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Country</label>
+                          <select
+                            value={draft.country}
+                            onChange={(e) => updateDraft(index, { country: e.target.value })}
+                            className={inputClass}
+                          >
+                            <option value="">Choose a country...</option>
+                            {countries.map(country => (
+                              <option key={country} value={country}>{country}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      {draft.type === 'shiftRegion' && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Region</label>
+                          <input
+                            type="text"
+                            value={draft.region}
+                            onChange={(e) => updateDraft(index, { region: e.target.value })}
+                            placeholder="e.g., Europe"
+                            className={inputClass}
+                          />
+                        </>
+                      )}
+                      {draft.type === 'componentShock' && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Component</label>
+                          <select
+                            value={draft.component}
+                            onChange={(e) => updateDraft(index, { component: e.target.value as RiskDimensionKey })}
+                            className={inputClass}
+                          >
+                            {COMPONENTS.map(c => (
+                              <option key={c.key} value={c.key}>{c.label}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                    </div>
+
+                    <div>
+                      {shockType.valueLabel && (
+                        <>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                            {shockType.valueLabel}
+                            {(draft.type === 'setExposure' || draft.type === 'addAirline') && ` (${getCurrencySymbol(currency)})`}
+                          </label>
+                          <input
+                            type="number"
+                            step="any"
+                            value={draft.value}
+                            onChange={(e) => updateDraft(index, { value: e.target.value })}
+                            className={inputClass}
+                          />
+                        </>
+                      )}
+                    </div>
+
+                    <div>
+                      <button
+                        onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                        disabled={drafts.length === 1}
+                        className="text-red-600 dark:text-red-400 hover:text-red-900 text-xs disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
                   </div>
-                  <input
-                    type="text"
-                    value={newExposure ? Number(newExposure).toLocaleString('en-US') : ''}
-                    onChange={(e) => {
-                      const value = e.target.value.replace(/,/g, '');
-                      if (value === '' || /^\d*\.?\d*$/.test(value)) {
-                        setNewExposure(value);
-                      }
-                    }}
-                    placeholder="0"
-                    className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm pl-8 py-2 border"
+                );
+              })}
+              <button
+                onClick={() => setDrafts([...drafts, emptyDraft()])}
+                className="text-purple-600 dark:text-purple-400 hover:text-purple-900 text-sm"
+              >
+                + Add shock
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleRun}
+                disabled={isBusy}
+                className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M13 10V3L4 14h7v7l9-11h-7z"
                   />
-                </div>
-                {selectedExposure && (
-                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                    Current: {getCurrencySymbol(currency)}
-                    {selectedExposure.exposureAmount.toLocaleString()}
-                  </p>
-                )}
-              </div>
+                </svg>
+                Run Scenario
+              </button>
+              <input
+                type="text"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder="Scenario name"
+                className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm px-3 py-2 border"
+              />
+              <button
+                onClick={handleSave}
+                disabled={isBusy || !scenarioName.trim()}
+                className="inline-flex items-center px-4 py-2 border border-purple-300 dark:border-purple-700 text-sm font-medium rounded-md text-purple-700 dark:text-purple-300 hover:bg-purple-50 dark:hover:bg-purple-900/20 disabled:opacity-50"
+              >
+                {loadedScenario && loadedScenario.name === scenarioName ? 'Update Scenario' : 'Save Scenario'}
+              </button>
+              <button
+                onClick={handleClear}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                Clear
+              </button>
             </div>
 
-            <button
-              onClick={handleSimulate}
-              disabled={!selectedAirline || !newExposure}
-              className="w-full sm:w-auto inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M13 10V3L4 14h7v7l9-11h-7z"
-                />
-              </svg>
-              Run Simulation
-            </button>
-
-            {simulatedResult && (
+            {run && (
               <div className="mt-6 space-y-4">
                 <div className="border-t dark:border-gray-700 pt-4">
                   <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3 flex items-center">
@@ -227,148 +478,84 @@ export default function ScenarioAnalysis({
                     Scenario Comparison
                   </h4>
 
-                  {/* Comparison Grid */}
-                  <div className="grid grid-cols-1 gap-3">
-                    {/* Total Exposure */}
-                    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
-                      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Total Exposure</div>
-                      <div className="flex items-baseline gap-2 flex-wrap">
-                        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                          {getCurrencySymbol(currency)}{(currentTotalExposure / 1000000).toFixed(2)}M
-                        </span>
-                        <span className="text-gray-400">→</span>
-                        <span className="text-sm font-semibold text-gray-900">
-                          {getCurrencySymbol(currency)}{(simulatedResult.totalExposure / 1000000).toFixed(2)}M
-                        </span>
-                        <span
-                          className={`text-xs font-medium ${getDeltaColorClass(
-                            simulatedResult.totalExposure - currentTotalExposure,
-                            true
-                          )}`}
-                        >
-                          ({formatDelta(simulatedResult.totalExposure - currentTotalExposure)})
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Base Risk */}
-                    <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
-                      <div className="text-xs font-medium text-gray-500 mb-1">
-                        Base Risk (Weighted Average)
-                      </div>
-                      <div className="flex items-baseline gap-2 flex-wrap">
-                        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                          {currentMetrics.baseRisk}
-                        </span>
-                        <span className="text-gray-400 dark:text-gray-500">→</span>
-                        <span className="text-sm font-semibold text-gray-900 dark:text-white">
-                          {simulatedResult.baseRisk}
-                        </span>
-                        <span
-                          className={`text-xs font-medium ${getDeltaColorClass(
-                            simulatedResult.baseRisk - currentMetrics.baseRisk
-                          )}`}
-                        >
-                          ({formatDelta(simulatedResult.baseRisk - currentMetrics.baseRisk)})
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Concentration */}
-                    <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
-                      <div className="text-xs font-medium text-gray-500 mb-1">
-                        Max Concentration
-                      </div>
-                      <div className="flex items-baseline gap-2 flex-wrap">
-                        <span className="text-sm font-semibold text-gray-700">
-                          {(currentMetrics.concentrationPenalty > 0 ? 
-                            (simulatedResult.maxConcentration * 100).toFixed(1) : 
-                            '0.0')}%
-                        </span>
-                        <span className="text-gray-400">→</span>
-                        <span className="text-sm font-semibold text-gray-900">
-                          {(simulatedResult.maxConcentration * 100).toFixed(1)}%
-                        </span>
-                        <span
-                          className={`text-xs font-medium ${getDeltaColorClass(
-                            (simulatedResult.maxConcentration * 100) - 
-                            (currentMetrics.concentrationPenalty > 0 ? 
-                              (simulatedResult.maxConcentration * 100) : 0)
-                          )}`}
-                        >
-                          ({formatDelta(
-                            (simulatedResult.maxConcentration * 100) - 
-                            (currentMetrics.concentrationPenalty > 0 ? 
-                              (simulatedResult.maxConcentration * 100) : 0)
-                          )}%)
-                        </span>
-                      </div>
+                  {run.scenario.warnings.length > 0 && (
+                    <div className="mb-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+                      <div className="font-medium mb-1">Some shocks were skipped:</div>
+                      <ul className="list-disc list-inside">
+                        {run.scenario.warnings.map((warning, i) => (
+                          <li key={i}>{warning}</li>
+                        ))}
+                      </ul>
                     </div>
+                  )}
 
-                    {/* Concentration Penalty */}
-                    <div className="bg-gray-50 p-3 rounded-lg border border-gray-200">
-                      <div className="text-xs font-medium text-gray-500 mb-1">
-                        Concentration Penalty
-                      </div>
-                      <div className="flex items-baseline gap-2 flex-wrap">
-                        <span className="text-sm font-semibold text-gray-700">
-                          +{currentMetrics.concentrationPenalty}
-                        </span>
-                        <span className="text-gray-400">→</span>
-                        <span className="text-sm font-semibold text-gray-900">
-                          +{simulatedResult.concentrationPenalty}
-                        </span>
-                        <span
-                          className={`text-xs font-medium ${getDeltaColorClass(
-                            simulatedResult.concentrationPenalty - currentMetrics.concentrationPenalty
-                          )}`}
-                        >
-                          ({formatDelta(
-                            simulatedResult.concentrationPenalty - currentMetrics.concentrationPenalty
-                          )})
-                        </span>
-                      </div>
-                    </div>
+                  <div className="grid grid-cols-1 gap-3">
+                    <ComparisonRow
+                      label="Total Exposure"
+                      current={`${getCurrencySymbol(currency)}${(run.current.totalExposure / 1000000).toFixed(2)}M`}
+                      scenario={`${getCurrencySymbol(currency)}${(run.scenario.totalExposure / 1000000).toFixed(2)}M`}
+                      delta={run.scenario.totalExposure - run.current.totalExposure}
+                      invertColors
+                    />
+                    <ComparisonRow
+                      label="Base Risk (Weighted Average)"
+                      current={String(run.current.baseRisk)}
+                      scenario={String(run.scenario.baseRisk)}
+                      delta={run.scenario.baseRisk - run.current.baseRisk}
+                    />
+                    <ComparisonRow
+                      label="Max Concentration"
+                      current={`${(run.current.maxConcentration * 100).toFixed(1)}%`}
+                      scenario={`${(run.scenario.maxConcentration * 100).toFixed(1)}%`}
+                      delta={(run.scenario.maxConcentration - run.current.maxConcentration) * 100}
+                      suffix="%"
+                    />
+                    <ComparisonRow
+                      label="Concentration Penalty"
+                      current={`+${run.current.concentrationPenalty}`}
+                      scenario={`+${run.scenario.concentrationPenalty}`}
+                      delta={run.scenario.concentrationPenalty - run.current.concentrationPenalty}
+                    />
 
                     {/* Adjusted Risk */}
-                    <div className="bg-purple-50 p-3 rounded-lg border border-purple-200">
-                      <div className="text-xs font-medium text-purple-700 mb-1">
+                    <div className="bg-purple-50 dark:bg-purple-900/20 p-3 rounded-lg border border-purple-200 dark:border-purple-800">
+                      <div className="text-xs font-medium text-purple-700 dark:text-purple-300 mb-1">
                         Adjusted Risk (Final)
                       </div>
                       <div className="flex items-baseline gap-2 flex-wrap">
-                        <span className="text-base font-bold text-purple-800">
-                          {currentMetrics.adjustedRisk}
+                        <span className="text-base font-bold text-purple-800 dark:text-purple-200">
+                          {run.current.adjustedRisk}
                         </span>
                         <span className="text-purple-400">→</span>
-                        <span className="text-base font-bold text-purple-900">
-                          {simulatedResult.adjustedRisk}
+                        <span className="text-base font-bold text-purple-900 dark:text-purple-100">
+                          {run.scenario.adjustedRisk}
                         </span>
                         <span
                           className={`text-sm font-bold ${getDeltaColorClass(
-                            simulatedResult.adjustedRisk - currentMetrics.adjustedRisk
+                            run.scenario.adjustedRisk - run.current.adjustedRisk
                           )}`}
                         >
-                          ({formatDelta(simulatedResult.adjustedRisk - currentMetrics.adjustedRisk)})
+                          ({formatDelta(run.scenario.adjustedRisk - run.current.adjustedRisk)})
                         </span>
                       </div>
                     </div>
 
                     {/* Risk Bucket */}
-                    <div className="bg-blue-50 p-3 rounded-lg border border-blue-200">
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
                       <div className="flex items-center justify-between">
                         <div>
-                          <div className="text-xs font-medium text-blue-700 mb-1">Risk Bucket</div>
+                          <div className="text-xs font-medium text-blue-700 dark:text-blue-300 mb-1">Risk Bucket</div>
                           <div className="flex items-center gap-2">
-                            <span className="text-sm font-semibold text-blue-900">
-                              {currentMetrics.riskBucket}
+                            <span className="text-sm font-semibold text-blue-900 dark:text-blue-100">
+                              {run.current.riskBucket}
                             </span>
                             <span className="text-blue-400">→</span>
-                            <span className="text-sm font-semibold text-blue-900">
-                              {simulatedResult.riskBucket}
+                            <span className="text-sm font-semibold text-blue-900 dark:text-blue-100">
+                              {run.scenario.riskBucket}
                             </span>
                           </div>
                         </div>
-                        {currentMetrics.riskBucket !== simulatedResult.riskBucket && (
+                        {run.current.riskBucket !== run.scenario.riskBucket && (
                           <span className="px-2 py-1 text-xs font-bold text-orange-700 bg-orange-100 rounded">
                             CHANGED
                           </span>
@@ -377,6 +564,45 @@ export default function ScenarioAnalysis({
                     </div>
                   </div>
                 </div>
+
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Stressed Exposures</h4>
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead>
+                      <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="py-2 text-left font-medium">Airline</th>
+                        <th className="py-2 text-right font-medium">Exposure</th>
+                        <th className="py-2 text-right font-medium">Share</th>
+                        <th className="py-2 text-right font-medium">Score</th>
+                        <th className="py-2 text-right font-medium">Bucket</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {run.scenario.topExposures.map(row => {
+                        const before = run.current.topExposures.find(e => e.airlineIcao === row.airlineIcao);
+
+                        return (
+                          <tr key={row.airlineIcao} className="text-gray-900 dark:text-gray-100">
+                            <td className="py-2">{row.airlineName}</td>
+                            <td className="py-2 text-right">
+                              {getCurrencySymbol(currency)}{row.exposure.toLocaleString()}
+                            </td>
+                            <td className="py-2 text-right">{row.exposureShare.toFixed(1)}%</td>
+                            <td className="py-2 text-right">
+                              {row.risk}
+                              {before && before.risk !== row.risk && (
+                                <span className={`ml-1 text-xs ${getDeltaColorClass(row.risk - before.risk)}`}>
+                                  ({formatDelta(row.risk - before.risk)})
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 text-right">{row.riskBucket}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
             )}
           </div>
@@ -385,3 +611,33 @@ export default function ScenarioAnalysis({
     </div>
   );
 }
+
+function ComparisonRow({
+  label,
+  current,
+  scenario,
+  delta,
+  suffix = '',
+  invertColors = false,
+}: {
+  label: string;
+  current: string;
+  scenario: string;
+  delta: number;
+  suffix?: string;
+  invertColors?: boolean;
+}) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      <div className="flex items-baseline gap-2 flex-wrap">
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">{current}</span>
+        <span className="text-gray-400">→</span>
+        <span className="text-sm font-semibold text-gray-900 dark:text-white">{scenario}</span>
+        <span className={`text-xs font-medium ${getDeltaColorClass(delta, invertColors)}`}>
+          ({formatDelta(delta)}{suffix})
+        </span>
+      </div>
+    </div>
+  );
+}
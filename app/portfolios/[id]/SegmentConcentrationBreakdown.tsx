@@ -0,0 +1,58 @@
+import { CONCENTRATION_SEGMENT_LABELS } from '@/lib/concentration';
+import type { SegmentConcentration } from '@/lib/concentration';
+
+interface SegmentConcentrationBreakdownProps {
+  segments: SegmentConcentration[];
+}
+
+const MAX_GROUPS_SHOWN = 3;
+
+// HHI above 0.25 is conventionally "highly concentrated"
+function getHhiColor(hhi: number) {
+  if (hhi > 0.5) return 'text-red-600 dark:text-red-400';
+  if (hhi > 0.25) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-green-600 dark:text-green-400';
+}
+
+export default function SegmentConcentrationBreakdown({ segments }: SegmentConcentrationBreakdownProps) {
+  if (segments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-3">
+      {segments.map(segment => (
+        <div key={segment.segment} className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-baseline justify-between">
+            <div className="text-xs font-medium text-gray-700 dark:text-gray-300">{CONCENTRATION_SEGMENT_LABELS[segment.segment]}</div>
+            {segment.penalty > 0 && <span className="text-xs font-semibold text-red-500">+{segment.penalty}</span>}
+          </div>
+          <div className={`mt-1 text-lg font-semibold ${getHhiColor(segment.hhi)}`} title="Herfindahl-Hirschman index: 1 = all exposure in one group">
+            HHI {segment.hhi.toFixed(2)}
+          </div>
+          <div className="mt-2 space-y-1">
+            {segment.groups.slice(0, MAX_GROUPS_SHOWN).map(group => (
+              <div key={group.name}>
+                <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                  <span className="truncate">{group.name}</span>
+                  <span>{(group.share * 100).toFixed(0)}%</span>
+                </div>
+                <div className="h-1 bg-gray-200 dark:bg-gray-700 rounded">
+                  <div className="h-1 bg-blue-500 rounded" style={{ width: `${group.share * 100}%` }} />
+                </div>
+              </div>
+            ))}
+            {segment.groups.length > MAX_GROUPS_SHOWN && (
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                +{segment.groups.length - MAX_GROUPS_SHOWN} more
+              </div>
+            )}
+            {segment.unknownExposure > 0 && (
+              <div className="text-xs text-gray-400 dark:text-gray-500">Some exposure has no {CONCENTRATION_SEGMENT_LABELS[segment.segment].toLowerCase()} data</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -9,9 +9,12 @@ interface EditFormProps {
     id: string;
     name: string;
     description: string | null;
+    reportingCurrency: string;
   };
 }
 
+const REPORTING_CURRENCIES = ['USD', 'EUR', 'GBP'];
+
 export default function EditForm({ portfolio }: EditFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -19,6 +22,7 @@ export default function EditForm({ portfolio }: EditFormProps) {
   const [formData, setFormData] = useState({
     name: portfolio.name,
     description: portfolio.description || '',
+    reportingCurrency: portfolio.reportingCurrency,
   });
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -33,6 +37,7 @@ export default function EditForm({ portfolio }: EditFormProps) {
         body: JSON.stringify({
           name: formData.name,
           description: formData.description || null,
+          reportingCurrency: formData.reportingCurrency,
         }),
       });
 
@@ -88,6 +93,25 @@ export default function EditForm({ portfolio }: EditFormProps) {
         />
       </div>
 
+      <div>
+        <label htmlFor="reportingCurrency" className="block text-sm font-medium text-gray-700">
+          Reporting Currency
+        </label>
+        <select
+          id="reportingCurrency"
+          value={formData.reportingCurrency}
+          onChange={(e) => setFormData({ ...formData, reportingCurrency: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border"
+        >
+          {Array.from(new Set([...REPORTING_CURRENCIES, formData.reportingCurrency])).map(currency => (
+            <option key={currency}>{currency}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Exposures in other currencies are converted with the latest FX rates for consolidated totals
+        </p>
+      </div>
+
       <div className="flex items-center gap-3">
         <button
           type="submit"
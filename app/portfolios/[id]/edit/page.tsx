@@ -16,7 +16,7 @@ export default async function EditPortfolioPage({ params }: { params: { id: stri
       <div className="mb-6">
         <h1 className="text-3xl font-bold text-gray-900">Edit Portfolio</h1>
         <p className="mt-2 text-sm text-gray-600">
-          Update the name and description for this portfolio.
+          Update the name, description and reporting currency for this portfolio.
         </p>
       </div>
 
@@ -2,6 +2,14 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import prisma from '@/lib/db';
 import { calculatePortfolioRisk } from '@/lib/portfolio-risk';
+import { getFxSensitivity } from '@/lib/fx-sensitivity';
+import { CONCENTRATION_SEGMENT_LABELS } from '@/lib/concentration';
+import type { SegmentConcentration } from '@/lib/concentration';
+import type { GroupExposure } from '@/lib/airline-groups';
+import { describeExposureLimit, toExposureLimit } from '@/lib/exposure-limits';
+import { getPortfolioRiskHistory } from '@/lib/portfolio-history';
+import { getActiveRiskConfig } from '@/lib/risk-model-versions';
+import { activeOverridesInclude, applySnapshotOverrides } from '@/lib/risk-overrides';
 import { getCurrencySymbol, getRiskBucketColor, getScoreColor } from '@/lib/display-utils';
 import DeletePortfolioButton from './DeletePortfolioButton';
 import AddExposureForm from './AddExposureForm';
@@ -11,7 +19,20 @@ import DeleteExposureButton from './DeleteExposureButton';
 import ScenarioAnalysis from './ScenarioAnalysis';
 import ConcentrationInsights from './ConcentrationInsights';
 import ExportControls from './ExportControls';
+import AircraftRegister from './AircraftRegister';
+import LeaseTerms from './LeaseTerms';
+import LeaseMaturityLadder from './LeaseMaturityLadder';
+import ExpectedLossSummary from './ExpectedLossSummary';
+import LossSimulation from './LossSimulation';
+import RiskHistoryChart from './RiskHistoryChart';
+import ConsolidatedRiskSummary from './ConsolidatedRiskSummary';
+import FxSensitivity from './FxSensitivity';
+import SegmentConcentrationBreakdown from './SegmentConcentrationBreakdown';
+import GroupExposureTable from './GroupExposureTable';
+import ExposureLimits from './ExposureLimits';
 import { getOrCalculateAirlineRisk } from '@/lib/risk-cache';
+import { buildMaturityLadder, getRemainingRent } from '@/lib/lease-terms';
+import type { LeaseTerms as LeaseTermsInput, MaturityBucket } from '@/lib/lease-terms';
 
 async function getPortfolio(id: string) {
   try {
@@ -68,10 +89,23 @@ async function getPortfolio(id: string) {
                   orderBy: { calculatedAt: 'desc' },
                   take: 1,
                 },
+                riskOverrides: activeOverridesInclude(),
               },
             },
+            aircraft: {
+              orderBy: { msn: 'asc' },
+            },
+            leases: {
+              orderBy: { expiryDate: 'asc' },
+            },
           },
         },
+        scenarios: {
+          orderBy: { name: 'asc' },
+        },
+        limits: {
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -81,10 +115,38 @@ async function getPortfolio(id: string) {
     
     // Calculate portfolio-level risk
     const portfolioRisk = await calculatePortfolioRisk(id);
+    const riskConfig = await getActiveRiskConfig();
+
+    // Show scores with analyst overrides applied, as the portfolio calculation uses them
+    for (const exposure of updatedPortfolio.exposures) {
+      const snapshot = applySnapshotOverrides(exposure.airline.riskSnapshots[0], exposure.airline.riskOverrides, riskConfig);
+      exposure.airline.riskSnapshots = snapshot ? [snapshot] : [];
+    }
+    const riskHistory = await getPortfolioRiskHistory(id);
+    const fxSensitivity = await getFxSensitivity(id, portfolioRisk);
+
+    // Build lease maturity ladder per rent currency
+    const leasesByCurrency: Record<string, LeaseTermsInput[]> = {};
+    for (const exposure of updatedPortfolio.exposures) {
+      for (const lease of exposure.leases) {
+        if (!leasesByCurrency[lease.rentCurrency]) {
+          leasesByCurrency[lease.rentCurrency] = [];
+        }
+        leasesByCurrency[lease.rentCurrency].push(lease);
+      }
+    }
+    const maturityLadders: Record<string, MaturityBucket[]> = {};
+    for (const [currency, leases] of Object.entries(leasesByCurrency)) {
+      maturityLadders[currency] = buildMaturityLadder(leases);
+    }
     
     return {
       portfolio: updatedPortfolio,
       risk: portfolioRisk,
+      riskConfig,
+      riskHistory,
+      fxSensitivity,
+      maturityLadders,
     };
   } catch (error) {
     console.error('Error fetching portfolio:', error);
@@ -92,6 +154,50 @@ async function getPortfolio(id: string) {
   }
 }
 
+// Saved stress scenarios for one currency book, with shocks parsed
+function getSavedScenarios(
+  scenarios: Array<{ id: string; name: string; description: string | null; currency: string; shocks: string }>,
+  currency: string
+) {
+  return scenarios
+    .filter(scenario => scenario.currency === currency)
+    .map(scenario => ({
+      id: scenario.id,
+      name: scenario.name,
+      description: scenario.description,
+      shocks: JSON.parse(scenario.shocks),
+    }));
+}
+
+// Explain each part of the concentration penalty
+function getPenaltyReasons(result: {
+  singleNamePenalty: number;
+  maxConcentration: number;
+  effectiveNames: number;
+  segmentConcentration: SegmentConcentration[];
+  groups: GroupExposure[];
+}) {
+  const reasons: string[] = [];
+
+  if (result.singleNamePenalty > 0) {
+    const largest = result.groups[0];
+    reasons.push(
+      `+${result.singleNamePenalty} for ${result.effectiveNames.toFixed(1)} effective names ` +
+        `(largest ${(result.maxConcentration * 100).toFixed(1)}% with ${largest?.grouped ? `the ${largest.name} group` : largest?.name ?? 'one airline'})`
+    );
+  }
+
+  for (const segment of result.segmentConcentration.filter(s => s.penalty > 0)) {
+    const largest = segment.groups[0];
+    reasons.push(
+      `+${segment.penalty} for ${CONCENTRATION_SEGMENT_LABELS[segment.segment].toLowerCase()} concentration (HHI ${segment.hhi.toFixed(2)}` +
+        (largest ? `, ${(largest.share * 100).toFixed(0)}% in ${largest.name})` : ')')
+    );
+  }
+
+  return reasons;
+}
+
 export default async function PortfolioDetailPage({ params }: { params: { id: string } }) {
   const data = await getPortfolio(params.id);
 
@@ -99,7 +205,8 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
     notFound();
   }
 
-  const { portfolio, risk } = data;
+  const { portfolio, risk, riskConfig, riskHistory, fxSensitivity, maturityLadders } = data;
+  const mismatchByIcao = new Map((fxSensitivity?.mismatches ?? []).map(m => [m.icao, m]));
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -133,6 +240,12 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
             {/* Multi-currency summary */}
             {risk.currencies.length > 1 ? (
               <div className="space-y-8">
+                <ConsolidatedRiskSummary
+                  reportingCurrency={risk.reportingCurrency}
+                  consolidated={risk.consolidated}
+                  missingFxRates={risk.missingFxRates}
+                />
+
                 {risk.currencies.map((currency) => {
                   const currencyData = risk.perCurrency[currency];
                   return (
@@ -189,11 +302,11 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                           <li><strong>Base Risk (Weighted Average)</strong> represents the exposure-weighted average of individual airline risk scores.</li>
                           <li><strong>Adjusted Risk (Concentration Applied)</strong> is the base risk {currencyData.concentrationPenalty > 0 ? `plus a +${currencyData.concentrationPenalty} concentration penalty` : 'with no concentration adjustment applied'}.</li>
                           {currencyData.concentrationPenalty > 0 ? (
-                            <li className="text-yellow-700 dark:text-yellow-400"><strong>Concentration penalty applied:</strong> {(currencyData.maxConcentration * 100).toFixed(1)}% of exposure is held with a single airline.</li>
+                            <li className="text-yellow-700 dark:text-yellow-400"><strong>Concentration penalty applied:</strong> {getPenaltyReasons(currencyData).join('; ')}.</li>
                           ) : (
-                            <li className="text-green-700 dark:text-green-400"><strong>No concentration penalty applied.</strong> Exposure is diversified across airlines.</li>
+                            <li className="text-green-700 dark:text-green-400"><strong>No concentration penalty applied.</strong> Exposure is diversified across airlines, countries and regions.</li>
                           )}
-                          <li className="text-gray-600 dark:text-gray-400 italic mt-2"><strong>Note:</strong> Exposure is grouped by currency. FX conversion is not applied.</li>
+                          <li className="text-gray-600 dark:text-gray-400 italic mt-2"><strong>Note:</strong> Figures for this currency book are not FX converted.</li>
                         </ul>
                       </div>
 
@@ -236,11 +349,14 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                         <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Top Exposures & Concentration</h5>
                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
                           <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg col-span-1 border border-blue-200 dark:border-blue-800">
-                            <div className="text-xs font-medium text-blue-900 dark:text-blue-300">Largest Exposure</div>
+                            <div className="text-xs font-medium text-blue-900 dark:text-blue-300">Largest Obligor</div>
                             <div className="mt-1 text-xl font-semibold text-blue-900 dark:text-blue-200">
                               {(currencyData.maxConcentration * 100).toFixed(1)}%
                             </div>
-                            <div className="text-xs text-blue-700 dark:text-blue-400">{currencyData.rows[0]?.airline.name || 'N/A'}</div>
+                            <div className="text-xs text-blue-700 dark:text-blue-400">{currencyData.groups[0]?.name || 'N/A'}</div>
+                            <div className="text-xs text-blue-600 dark:text-blue-400" title="1 / HHI of obligor exposures">
+                              {currencyData.effectiveNames.toFixed(1)} effective names
+                            </div>
                           </div>
                           <div className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg col-span-2 border border-gray-200 dark:border-gray-700">
                             <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Top 3 Airlines</div>
@@ -268,6 +384,9 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                           </div>
                         </div>
 
+                        <SegmentConcentrationBreakdown segments={currencyData.segmentConcentration} />
+                        <GroupExposureTable groups={currencyData.groups} currency={currency} />
+
                         {currencyData.maxConcentration > 0.5 && (
                           <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
                             <div className="flex">
@@ -276,7 +395,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                               </svg>
                               <div className="text-xs">
                                 <span className="font-medium text-yellow-900 dark:text-yellow-300">High concentration: </span>
-                                <span className="text-yellow-700 dark:text-yellow-400">{(currencyData.maxConcentration * 100).toFixed(1)}% allocated to one airline. Consider diversifying.</span>
+                                <span className="text-yellow-700 dark:text-yellow-400">{(currencyData.maxConcentration * 100).toFixed(1)}% allocated to one obligor. Consider diversifying.</span>
                               </div>
                             </div>
                           </div>
@@ -287,7 +406,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                 })}
 
                 <div className="text-xs text-gray-500 dark:text-gray-400 italic mt-4 p-3 bg-gray-50 dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700">
-                  <strong>Note:</strong> Exposure is shown by currency. FX conversion is not applied in this MVP.
+                  <strong>Note:</strong> Currency books above are shown in their own currency. Only the consolidated view applies FX conversion.
                 </div>
               </div>
             ) : (
@@ -347,9 +466,9 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                     <li><strong>Base Risk (Weighted Average)</strong> represents the exposure-weighted average of individual airline risk scores.</li>
                     <li><strong>Adjusted Risk (Concentration Applied)</strong> is the base risk {risk.concentrationPenalty > 0 ? `plus a +${risk.concentrationPenalty} concentration penalty` : 'with no concentration adjustment applied'}.</li>
                     {risk.concentrationPenalty > 0 ? (
-                      <li className="text-yellow-700 dark:text-yellow-400"><strong>Concentration penalty applied:</strong> {(risk.maxConcentration * 100).toFixed(1)}% of exposure is held with a single airline.</li>
+                      <li className="text-yellow-700 dark:text-yellow-400"><strong>Concentration penalty applied:</strong> {getPenaltyReasons(risk).join('; ')}.</li>
                     ) : (
-                      <li className="text-green-700 dark:text-green-400"><strong>No concentration penalty applied.</strong> Exposure is diversified across airlines.</li>
+                      <li className="text-green-700 dark:text-green-400"><strong>No concentration penalty applied.</strong> Exposure is diversified across airlines, countries and regions.</li>
                     )}
                   </ul>
                 </div>
@@ -392,11 +511,14 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                   <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Top Exposures & Concentration</h4>
                   <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
                     <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg col-span-1 border border-transparent dark:border-blue-800">
-                      <div className="text-xs font-medium text-blue-900 dark:text-blue-100">Largest Exposure</div>
+                      <div className="text-xs font-medium text-blue-900 dark:text-blue-100">Largest Obligor</div>
                       <div className="mt-1 text-xl font-semibold text-blue-900 dark:text-blue-100">
                         {(risk.maxConcentration * 100).toFixed(1)}%
                       </div>
-                      <div className="text-xs text-blue-700 dark:text-blue-300">{risk.topExposures[0]?.airline.name || 'N/A'}</div>
+                      <div className="text-xs text-blue-700 dark:text-blue-300">{risk.groups[0]?.name || 'N/A'}</div>
+                      <div className="text-xs text-blue-600 dark:text-blue-300" title="1 / HHI of obligor exposures">
+                        {risk.effectiveNames.toFixed(1)} effective names
+                      </div>
                     </div>
                     <div className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg col-span-2 border border-transparent dark:border-gray-700">
                       <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Top 3 Airlines</div>
@@ -424,6 +546,9 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                     </div>
                   </div>
 
+                  <SegmentConcentrationBreakdown segments={risk.segmentConcentration} />
+                  <GroupExposureTable groups={risk.groups} currency={risk.currency} />
+
                   {risk.maxConcentration > 0.5 && (
                     <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
                       <div className="flex">
@@ -432,7 +557,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                         </svg>
                         <div className="text-xs">
                           <span className="font-medium text-yellow-900 dark:text-yellow-100">High concentration: </span>
-                          <span className="text-yellow-700 dark:text-yellow-300">{(risk.maxConcentration * 100).toFixed(1)}% allocated to one airline. Consider diversifying.</span>
+                          <span className="text-yellow-700 dark:text-yellow-300">{(risk.maxConcentration * 100).toFixed(1)}% allocated to one obligor. Consider diversifying.</span>
                         </div>
                       </div>
                     </div>
@@ -444,6 +569,53 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
         </div>
       )}
 
+      {/* Exposure Limits */}
+      {risk && (
+        <ExposureLimits
+          portfolioId={portfolio.id}
+          currency={risk.currency}
+          limits={portfolio.limits.map(limit => ({
+            id: limit.id,
+            description: describeExposureLimit(toExposureLimit(limit)),
+            maxShare: limit.maxShare,
+            hard: limit.hard,
+            check: risk.limits?.find(check => check.limit.id === limit.id) ?? null,
+          }))}
+          missingFxRates={risk.limits ? [] : risk.missingFxRates}
+        />
+      )}
+
+      {/* Risk History */}
+      {portfolio.exposures.length > 0 && (
+        <RiskHistoryChart
+          portfolioId={portfolio.id}
+          history={riskHistory}
+          bucketThresholds={riskConfig.bucketThresholds}
+        />
+      )}
+
+      {/* Expected Loss */}
+      {risk && portfolio.exposures.length > 0 && (
+        <ExpectedLossSummary perCurrency={risk.perCurrency} currencies={risk.currencies} />
+      )}
+
+      {/* FX Sensitivity */}
+      {fxSensitivity && portfolio.exposures.length > 0 && (
+        <FxSensitivity
+          mismatches={fxSensitivity.mismatches}
+          sensitivity={fxSensitivity.sensitivity}
+          missingFxRates={fxSensitivity.missingFxRates}
+        />
+      )}
+
+      {/* Credit Loss Simulation */}
+      {risk && portfolio.exposures.length > 0 && (
+        <LossSimulation portfolioId={portfolio.id} currencies={risk.currencies} />
+      )}
+
+      {/* Lease Maturity Ladder */}
+      <LeaseMaturityLadder ladders={maturityLadders} />
+
       {/* Empty state for portfolios without exposures */}
       {portfolio.exposures.length === 0 && <EmptyState />}
 
@@ -452,6 +624,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
         <div className="mb-6">
           {risk.currencies.length === 1 ? (
             <ScenarioAnalysis
+              portfolioId={portfolio.id}
               exposures={portfolio.exposures.map((exp: any) => ({
                 id: exp.id,
                 airlineIcao: exp.airline.icao,
@@ -463,12 +636,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                 riskBucket: exp.airline.riskSnapshots?.[0]?.riskBucket || 'Medium',
               }))}
               currency={risk.currency}
-              currentMetrics={{
-                baseRisk: risk.baseRisk,
-                adjustedRisk: risk.adjustedRisk,
-                concentrationPenalty: risk.concentrationPenalty,
-                riskBucket: risk.riskBucket,
-              }}
+              savedScenarios={getSavedScenarios(portfolio.scenarios, risk.currency)}
             />
           ) : (
             <div className="space-y-4">
@@ -476,10 +644,10 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                 <svg className="h-5 w-5 mr-2 text-purple-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
                 </svg>
-                What-if Scenario Analysis
+                Stress Scenarios
               </h3>
               <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                Select a currency to run what-if scenarios and test exposure changes.
+                Select a currency to run stress scenarios against that book.
               </p>
               <div className="grid grid-cols-1 gap-4">
                 {risk.currencies.map((currency) => {
@@ -501,6 +669,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                       </summary>
                       <div className="px-4 pb-4">
                         <ScenarioAnalysis
+                          portfolioId={portfolio.id}
                           exposures={currencyExposures.map((exp: any) => ({
                             id: exp.id,
                             airlineIcao: exp.airline.icao,
@@ -512,12 +681,7 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                             riskBucket: exp.airline.riskSnapshots?.[0]?.riskBucket || 'Medium',
                           }))}
                           currency={currency}
-                          currentMetrics={{
-                            baseRisk: currencyData.baseRisk,
-                            adjustedRisk: currencyData.adjustedRisk,
-                            concentrationPenalty: currencyData.concentrationPenalty,
-                            riskBucket: currencyData.riskBucket,
-                          }}
+                          savedScenarios={getSavedScenarios(portfolio.scenarios, currency)}
                         />
                       </div>
                     </details>
@@ -599,10 +763,24 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                           <div className="text-sm font-medium text-gray-900 dark:text-white">
                             {getCurrencySymbol(exposure.currency)}{exposure.exposureAmount.toLocaleString()}
                           </div>
-                          <div className="text-xs text-gray-500 dark:text-gray-400">{exposure.currency}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {exposure.currency}
+                            {exposure.exposureSource === 'derived' && ' • derived from lease terms'}
+                          </div>
+                          {mismatchByIcao.get(exposure.airline.icao)?.mismatched && (
+                            <span
+                              className="mt-1 inline-flex px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200"
+                              title={`Revenue currency from ${mismatchByIcao.get(exposure.airline.icao)!.revenueCurrencySource === 'financials' ? 'reported financials' : 'country of operation'}`}
+                            >
+                              FX mismatch: {mismatchByIcao.get(exposure.airline.icao)!.revenueCurrency} revenue
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                          {exposure.numAircraft || '-'}
+                          {exposure.aircraft.length > 0 ? exposure.aircraft.length : exposure.numAircraft || '-'}
+                          {exposure.aircraft.length > 0 && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">registered</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {latestSnapshot ? (
@@ -612,6 +790,11 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                               )}`}
                             >
                               {latestSnapshot.overallScore}
+                              {latestSnapshot.modelOverallScore !== undefined && (
+                                <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                                  Override (model {latestSnapshot.modelOverallScore})
+                                </span>
+                              )}
                             </span>
                           ) : (
                             <span className="text-sm text-gray-500 dark:text-gray-400">N/A</span>
@@ -653,6 +836,51 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
         </div>
       </div>
 
+      {/* Aircraft Register */}
+      {portfolio.exposures.length > 0 && (
+        <AircraftRegister
+          portfolioId={portfolio.id}
+          exposures={portfolio.exposures.map((exp: any) => ({
+            id: exp.id,
+            currency: exp.currency,
+            airline: {
+              icao: exp.airline.icao,
+              name: exp.airline.name,
+            },
+            aircraft: exp.aircraft,
+          }))}
+        />
+      )}
+
+      {/* Lease Contracts */}
+      {portfolio.exposures.length > 0 && (
+        <LeaseTerms
+          portfolioId={portfolio.id}
+          exposures={portfolio.exposures.map((exp: any) => ({
+            id: exp.id,
+            currency: exp.currency,
+            airline: {
+              icao: exp.airline.icao,
+              name: exp.airline.name,
+            },
+            aircraft: exp.aircraft.map((a: any) => ({ id: a.id, msn: a.msn, aircraftType: a.aircraftType })),
+            leases: exp.leases.map((lease: any) => ({
+              id: lease.id,
+              aircraftMsn: exp.aircraft.find((a: any) => a.id === lease.aircraftId)?.msn ?? null,
+              startDate: lease.startDate.toISOString(),
+              expiryDate: lease.expiryDate.toISOString(),
+              monthlyRent: lease.monthlyRent,
+              rentCurrency: lease.rentCurrency,
+              securityDeposit: lease.securityDeposit,
+              letterOfCredit: lease.letterOfCredit,
+              maintenanceReserveBalance: lease.maintenanceReserveBalance,
+              extensionOptionMonths: lease.extensionOptionMonths,
+              remainingRent: getRemainingRent(lease),
+            })),
+          }))}
+        />
+      )}
+
       {/* How Portfolio Risk is Calculated - Collapsible Section */}
       <details className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
         <summary className="px-4 py-5 sm:p-6 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
@@ -674,23 +902,41 @@ export default async function PortfolioDetailPage({ params }: { params: { id: st
                 <strong>Portfolio Base Risk (Weighted Average)</strong> is calculated as a weighted average based on exposure size. Airlines with larger exposures have proportionally greater impact on the portfolio score.
               </li>
               <li>
-                <strong>Concentration Penalties</strong> are applied when a large share of exposure is allocated to a single airline:
+                <strong>Single-Name Concentration Penalty</strong> rises continuously with the HHI of obligor exposures (an airline group counts as one obligor, since credit limits are set at group level). The effective number of names is 1 / HHI:
                 <ul className="mt-1 ml-4 text-xs">
-                  <li>+5 points if a single airline represents &gt;50% of portfolio exposure</li>
-                  <li>+10 points if a single airline represents &gt;70% of portfolio exposure</li>
+                  <li>No penalty with {riskConfig.concentrationModel.diversifiedNames} or more effective names (HHI ≤ {(1 / riskConfig.concentrationModel.diversifiedNames).toFixed(2)})</li>
+                  <li>Rising linearly with HHI to +{riskConfig.concentrationModel.maxPenalty} points when all exposure is with one obligor</li>
                 </ul>
               </li>
               <li>
-                <strong>Multi-Currency Risk Calculation</strong>: Risk is calculated separately per currency. Each currency group (USD, EUR, GBP, etc.) is analyzed independently. FX conversion is intentionally excluded in this MVP.
+                <strong>Segment Concentration Penalties</strong> are added when exposure clusters by country, region or jurisdiction risk band, measured by the Herfindahl-Hirschman index (HHI, sum of squared exposure shares; 1 = everything in one group):
+                <ul className="mt-1 ml-4 text-xs">
+                  {(Object.keys(riskConfig.segmentConcentrationRules) as Array<keyof typeof riskConfig.segmentConcentrationRules>).flatMap(segment =>
+                    riskConfig.segmentConcentrationRules[segment].map(rule => (
+                      <li key={`${segment}-${rule.minConcentration}`}>
+                        +{rule.penalty} points if {CONCENTRATION_SEGMENT_LABELS[segment].toLowerCase()} HHI &gt; {rule.minConcentration}
+                      </li>
+                    ))
+                  )}
+                </ul>
+              </li>
+              <li>
+                <strong>Multi-Currency Risk Calculation</strong>: Risk is calculated separately per currency. Each currency group (USD, EUR, GBP, etc.) is analyzed independently, then consolidated into the portfolio&apos;s reporting currency ({portfolio.reportingCurrency}) with the latest FX rates.
               </li>
               <li>
                 <strong>Risk Buckets</strong> categorize adjusted risk scores:
                 <ul className="mt-1 ml-4 text-xs">
-                  <li><span className="text-green-700 font-medium">Low</span>: &lt; 40</li>
-                  <li><span className="text-yellow-700 font-medium">Medium</span>: 40-69</li>
-                  <li><span className="text-red-700 font-medium">High</span>: ≥ 70</li>
+                  <li><span className="text-green-700 font-medium">Low</span>: &lt; {riskConfig.bucketThresholds.lowMax}</li>
+                  <li><span className="text-yellow-700 font-medium">Medium</span>: {riskConfig.bucketThresholds.lowMax}-{riskConfig.bucketThresholds.mediumMax - 1}</li>
+                  <li><span className="text-red-700 font-medium">High</span>: ≥ {riskConfig.bucketThresholds.mediumMax}</li>
                 </ul>
               </li>
+              <li>
+                <strong>Expected Loss</strong> = PD × LGD × exposure. PD comes from mapping each airline score to an internal rating grade. LGD compares appraised aircraft value (less a recovery haircut that grows with the time and legal cost of repossessing in the lessee&apos;s jurisdiction) and security held against the exposure, and uses an unsecured LGD when no aircraft values are recorded.
+              </li>
+              <li>
+                <strong>Risk Model Version</strong>: {riskConfig.modelVersion}. Weights, thresholds and concentration rules are versioned and recorded with every score.
+              </li>
             </ul>
             <p className="text-xs text-gray-500 italic mt-4 mb-0">
               <strong>Important:</strong> This tool provides high-level risk assessment for portfolio monitoring and is not intended for valuation, credit decisioning, or regulatory reporting purposes.
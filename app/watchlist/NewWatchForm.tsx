@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { AlertRule } from '@/lib/watchlist';
+import type { AlertChannelConfig } from '@/lib/alert-channels';
+
+interface NewWatchFormProps {
+  airlines: Array<{ icao: string; name: string }>;
+  portfolios: Array<{ id: string; name: string }>;
+}
+
+export default function NewWatchForm({ airlines, portfolios }: NewWatchFormProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const [target, setTarget] = useState<'airline' | 'portfolio'>('airline');
+  const [icao, setIcao] = useState('');
+  const [portfolioId, setPortfolioId] = useState('');
+  const [bucketChange, setBucketChange] = useState(true);
+  const [worseningOnly, setWorseningOnly] = useState(false);
+  const [scoreMove, setScoreMove] = useState(true);
+  const [points, setPoints] = useState('10');
+  const [confidenceDrop, setConfidenceDrop] = useState(false);
+  const [limitBreach, setLimitBreach] = useState(true);
+  const [email, setEmail] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    const rules: AlertRule[] = [];
+    if (bucketChange) rules.push({ type: 'bucketChange', worseningOnly });
+    if (scoreMove) rules.push({ type: 'scoreMove', points: parseFloat(points) });
+    if (confidenceDrop) rules.push({ type: 'confidenceDrop' });
+    if (limitBreach && target === 'portfolio') rules.push({ type: 'limitBreach' });
+
+    const channels: AlertChannelConfig[] = [];
+    const recipients = email.split(',').map(address => address.trim()).filter(Boolean);
+    if (recipients.length > 0) channels.push({ type: 'email', to: recipients });
+    if (webhookUrl.trim()) channels.push({ type: 'webhook', url: webhookUrl.trim() });
+
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(target === 'airline' ? { icao } : { portfolioId }),
+          rules,
+          channels,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create watch');
+      }
+
+      setIcao('');
+      setPortfolioId('');
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create watch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm px-3 py-2 border';
+  const checkboxLabelClass = 'inline-flex items-center text-sm text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-4">New Watch</h3>
+
+        {error && (
+          <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="watchTarget" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Watch</label>
+              <select
+                id="watchTarget"
+                value={target}
+                onChange={(e) => setTarget(e.target.value as 'airline' | 'portfolio')}
+                className={inputClass}
+              >
+                <option value="airline">Airline</option>
+                <option value="portfolio">Portfolio</option>
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              {target === 'airline' ? (
+                <>
+                  <label htmlFor="watchAirline" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Airline *</label>
+                  <select
+                    id="watchAirline"
+                    required
+                    value={icao}
+                    onChange={(e) => setIcao(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Choose an airline...</option>
+                    {airlines.map(airline => (
+                      <option key={airline.icao} value={airline.icao}>{airline.name} ({airline.icao})</option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <>
+                  <label htmlFor="watchPortfolio" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Portfolio *</label>
+                  <select
+                    id="watchPortfolio"
+                    required
+                    value={portfolioId}
+                    onChange={(e) => setPortfolioId(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a portfolio...</option>
+                    {portfolios.map(portfolio => (
+                      <option key={portfolio.id} value={portfolio.id}>{portfolio.name}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Alert when</legend>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <div className="flex items-center gap-4">
+                <label className={checkboxLabelClass}>
+                  <input type="checkbox" checked={bucketChange} onChange={(e) => setBucketChange(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                  Risk bucket changes
+                </label>
+                {bucketChange && (
+                  <label className={checkboxLabelClass}>
+                    <input type="checkbox" checked={worseningOnly} onChange={(e) => setWorseningOnly(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                    downgrades only
+                  </label>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <label className={checkboxLabelClass}>
+                  <input type="checkbox" checked={scoreMove} onChange={(e) => setScoreMove(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                  Score moves by more than
+                </label>
+                <input
+                  type="number"
+                  min="0.1"
+                  max="100"
+                  step="any"
+                  value={points}
+                  disabled={!scoreMove}
+                  onChange={(e) => setPoints(e.target.value)}
+                  className="w-20 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm px-2 py-1 border"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">points</span>
+              </div>
+              <label className={checkboxLabelClass}>
+                <input type="checkbox" checked={confidenceDrop} onChange={(e) => setConfidenceDrop(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                A component&apos;s confidence drops
+              </label>
+              {target === 'portfolio' && (
+                <label className={checkboxLabelClass}>
+                  <input type="checkbox" checked={limitBreach} onChange={(e) => setLimitBreach(e.target.checked)} className="mr-2 rounded border-gray-300" />
+                  An exposure limit is breached
+                </label>
+              )}
+            </div>
+          </fieldset>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="watchEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Email (comma-separated)
+              </label>
+              <input
+                type="text"
+                id="watchEmail"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="credit@example.com"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="watchWebhook" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Webhook URL</label>
+              <input
+                type="url"
+                id="watchWebhook"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                placeholder="https://hooks.example.com/risk"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Alerts always go to the in-app inbox.</p>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Creating...' : 'Create Watch'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
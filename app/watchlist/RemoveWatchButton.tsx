@@ -0,0 +1,39 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function RemoveWatchButton({ watchId, label }: { watchId: string; label: string }) {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    if (!confirm(`Stop watching ${label}? Its alerts will be removed from the inbox.`)) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/watchlist/${watchId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete watch');
+      }
+
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting watch:', error);
+      alert('Failed to remove watch. Please try again.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleDelete}
+      disabled={isDeleting}
+      className="text-sm font-medium text-red-600 hover:text-red-900 disabled:opacity-50"
+    >
+      {isDeleting ? 'Removing...' : 'Remove'}
+    </button>
+  );
+}
@@ -0,0 +1,120 @@
+import Link from 'next/link';
+import prisma from '@/lib/db';
+import { describeAlertRule, getWatches } from '@/lib/watchlist';
+import NewWatchForm from './NewWatchForm';
+import RemoveWatchButton from './RemoveWatchButton';
+
+export const dynamic = 'force-dynamic';
+
+async function getWatchlistData() {
+  try {
+    const [watches, airlines, portfolios] = await Promise.all([
+      getWatches(),
+      prisma.airline.findMany({
+        orderBy: { name: 'asc' },
+        select: { icao: true, name: true },
+      }),
+      prisma.portfolio.findMany({
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return { watches, airlines, portfolios };
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    return { watches: [], airlines: [], portfolios: [] };
+  }
+}
+
+export default async function WatchlistPage() {
+  const { watches, airlines, portfolios } = await getWatchlistData();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold leading-7 text-gray-900 dark:text-white sm:text-3xl">
+          Watchlist
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Rules are checked whenever a new risk snapshot is saved for a watched airline, or for any
+          airline held in a watched portfolio. Alerts land in the{' '}
+          <Link href="/alerts" className="text-blue-600 hover:text-blue-900 dark:text-blue-400">inbox</Link>{' '}
+          and are sent to any email or webhook channels on the watch.
+        </p>
+      </div>
+
+      <NewWatchForm airlines={airlines} portfolios={portfolios} />
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg mt-6">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white mb-4">Watches</h3>
+
+          {watches.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Nothing watched yet. Add an airline or portfolio above.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Watching</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Rules</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Channels</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Alerts</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {watches.map(watch => {
+                    const label = watch.airline
+                      ? `${watch.airline.name} (${watch.airline.icao})`
+                      : watch.portfolio?.name ?? 'Unknown';
+
+                    return (
+                      <tr key={watch.id}>
+                        <td className="px-4 py-3 text-sm">
+                          {watch.airline ? (
+                            <Link href={`/airlines/${watch.airline.icao}`} className="text-blue-600 hover:text-blue-900 dark:text-blue-400">
+                              {label}
+                            </Link>
+                          ) : watch.portfolio ? (
+                            <Link href={`/portfolios/${watch.portfolio.id}`} className="text-blue-600 hover:text-blue-900 dark:text-blue-400">
+                              {label}
+                            </Link>
+                          ) : (
+                            label
+                          )}
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {watch.airline ? 'Airline' : 'Portfolio'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                          {watch.rules.map(describeAlertRule).join(', ')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                          {watch.channels.length === 0
+                            ? 'Inbox only'
+                            : watch.channels
+                                .map(channel => (channel.type === 'email' ? channel.to.join(', ') : channel.url))
+                                .join(' · ')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white">
+                          {watch._count.alerts}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <RemoveWatchButton watchId={watch.id} label={label} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/lib'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Next.js compiles the app with its own settings, so tests get CommonJS output
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { isolatedModules: true, tsconfig: { module: 'commonjs', esModuleInterop: true } }],
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+};
+
+module.exports = jestConfig;
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the operational activity risk source
+ *
+ * Test cases:
+ * 1. Sampled days are summarised into 30/90-day utilisation, trends and coverage
+ * 2. Sparsely sampled windows don't produce a trend
+ * 3. Flying in line with peers scores neutral, even when the whole industry is falling
+ * 4. A sudden drop against peers with low utilisation scores high
+ * 5. Confidence follows coverage; without enough peers trends are scored on their own
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { ActivitySummary, DailyActivity, MIN_SAMPLES_PER_DAY, summariseActivity } from '../airline-activity';
+import { scoreOperationalActivity } from '../sources/activity';
+
+const AS_OF = new Date('2026-07-01T12:00:00Z');
+const AIRLINE = { id: 'airline-1', icao: 'EXA', fleetSize: 40 };
+
+// One sampled day, `daysAgo` days before AS_OF's day
+function day(daysAgo: number, flights: number, samples: number = 48): DailyActivity {
+  return {
+    date: new Date(Date.UTC(2026, 6, 1) - daysAgo * 24 * 60 * 60 * 1000),
+    flights,
+    aircraft: Math.round(flights / 2),
+    samples,
+  };
+}
+
+function days(from: number, to: number, flights: number, samples?: number): DailyActivity[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => day(from + i, flights, samples));
+}
+
+function peer(icao: string, utilisation: number, change30: number, change90: number): ActivitySummary {
+  return { airlineId: icao, icao, utilisation, change30, change90, coverage: 1 };
+}
+
+const industryDown = [peer('AAA', 4, -0.2, -0.05), peer('BBB', 4, -0.2, -0.05), peer('CCC', 4, -0.2, -0.05)];
+
+describe('Operational activity risk', () => {
+  test('summarises 30/90-day windows', () => {
+    const summary = summariseActivity(
+      AIRLINE,
+      [...days(1, 30, 80), ...days(31, 180, 100), day(0, 10, 20)],
+      AS_OF
+    );
+
+    expect(summary.utilisation).toBe(2); // 80 flights a day over 40 aircraft
+    expect(summary.change30).toBe(-0.2);
+    expect(summary.change90).toBe(-0.067);
+    expect(summary.coverage).toBe(1);
+  });
+
+  test('needs sampled windows for a trend', () => {
+    const summary = summariseActivity(
+      AIRLINE,
+      [...days(1, 20, 80), ...days(31, 60, 100, MIN_SAMPLES_PER_DAY - 1)],
+      AS_OF
+    );
+
+    expect(summary.utilisation).toBe(2);
+    expect(summary.change30).toBeNull();
+    expect(summary.change90).toBeNull();
+    expect(summary.coverage).toBe(0.22);
+  });
+
+  test('scores flying in line with peers as neutral', () => {
+    const result = scoreOperationalActivity({ utilisation: 4, change30: -0.2, change90: -0.05, coverage: 1 }, industryDown);
+
+    expect(result.score).toBe(50);
+    expect(result.confidence).toBe('HIGH');
+    expect(result.peerUtilisation).toBe(4);
+    expect(result.peerChange30).toBe(-0.2);
+  });
+
+  test('scores a sudden drop against peers as high risk', () => {
+    const result = scoreOperationalActivity({ utilisation: 2, change30: -0.5, change90: -0.2, coverage: 1 }, industryDown);
+
+    expect(result.parts.utilisation).toBe(100); // Half the peer rate
+    expect(result.parts.trend30).toBe(100);     // 30 points worse than peers
+    expect(result.parts.trend90).toBe(75);
+    expect(result.score).toBe(92.5);
+  });
+
+  test('ties confidence to coverage and peer data', () => {
+    const airline = { utilisation: 4, change30: -0.2, change90: -0.05, coverage: 0.6 };
+
+    expect(scoreOperationalActivity(airline, industryDown).confidence).toBe('MEDIUM');
+    expect(scoreOperationalActivity({ ...airline, coverage: 0.3 }, industryDown).confidence).toBe('LOW');
+
+    const alone = scoreOperationalActivity({ ...airline, change90: null, coverage: 1 }, industryDown.slice(0, 2));
+    expect(alone.parts.utilisation).toBeNull();
+    expect(alone.score).toBe(83.3); // A 20% fall with no peer benchmark
+    expect(alone.confidence).toBe('MEDIUM');
+
+    const empty = scoreOperationalActivity({ utilisation: null, change30: null, change90: null, coverage: 0 }, []);
+    expect(empty.score).toBeNull();
+    expect(empty.confidence).toBe('LOW');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for flight activity ingestion and utilisation trends
+ *
+ * Test cases:
+ * 1. Airline callsigns are matched to operator ICAO designators
+ * 2. Snapshots are grouped by UTC day, merging callsigns and counting distinct sample times
+ * 3. Capture files are read as JSON Lines or a JSON array
+ * 4. Falling utilisation is detected against the baseline window
+ * 5. Under-sampled days and short histories don't produce a trend
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseAirlineCallsign, readCaptureFile, StateSnapshot } from '../sources/opensky';
+import {
+  aggregateSnapshots,
+  computeUtilisationTrend,
+  DailyActivity,
+  MIN_SAMPLES_PER_DAY,
+} from '../airline-activity';
+
+const AS_OF = new Date('2026-03-01T12:00:00Z');
+
+// 2026-02-01 00:00 UTC plus hours
+const at = (hours: number) => Date.UTC(2026, 1, 1) / 1000 + hours * 3600;
+
+function snapshot(time: number, states: Array<[string, string | null]>): StateSnapshot {
+  return { time, states: states.map(([icao24, callsign]) => [icao24, callsign, 'United Kingdom']) };
+}
+
+// One fully sampled day, `daysAgo` days before AS_OF's day
+function day(daysAgo: number, flights: number, samples: number = 48): DailyActivity {
+  return {
+    date: new Date(Date.UTC(2026, 2, 1) - daysAgo * 24 * 60 * 60 * 1000),
+    flights,
+    aircraft: Math.round(flights / 4),
+    samples,
+  };
+}
+
+describe('Airline activity', () => {
+  test('matches airline callsigns', () => {
+    expect(parseAirlineCallsign('BAW123A ')).toBe('BAW');
+    expect(parseAirlineCallsign('ryr4711')).toBe('RYR');
+    expect(parseAirlineCallsign('GABCD')).toBeNull();
+    expect(parseAirlineCallsign('N123AB')).toBeNull();
+    expect(parseAirlineCallsign(null)).toBeNull();
+  });
+
+  test('groups snapshots by UTC day', () => {
+    const days = aggregateSnapshots(
+      [
+        snapshot(at(1), [['4005c1', 'BAW123 '], ['3c6444', 'DLH400'], ['a1b2c3', 'N123AB']]),
+        snapshot(at(2), [['4005c1', 'BAW123'], ['4005c2', 'BAW456']]),
+        snapshot(at(2), [['4005c1', 'BAW123']]), // Same snapshot replayed
+        snapshot(at(25), [['4005c2', 'BAW789']]),
+      ],
+      new Set(['BAW'])
+    );
+
+    expect(days.size).toBe(2);
+    const first = days.get(Date.UTC(2026, 1, 1))!;
+    expect(first.times.size).toBe(2);
+    expect(Array.from(first.observations.get('BAW')!.callsigns).sort()).toEqual(['BAW123', 'BAW456']);
+    expect(first.observations.get('BAW')!.icao24s.size).toBe(2);
+    expect(first.observations.has('DLH')).toBe(false);
+
+    const second = days.get(Date.UTC(2026, 1, 2))!;
+    expect(second.observations.get('BAW')!.callsigns.size).toBe(1);
+  });
+
+  test('reads capture files', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'opensky-'));
+    const lines = path.join(dir, 'capture.jsonl');
+    const array = path.join(dir, 'capture.json');
+
+    writeFileSync(lines, [
+      JSON.stringify({ time: at(1), states: [['4005c1', 'BAW123']] }),
+      JSON.stringify({ time: at(2), states: null }),
+      JSON.stringify({ states: [] }),
+    ].join('\n') + '\n');
+    writeFileSync(array, JSON.stringify([{ time: at(1), states: [] }]));
+
+    const snapshots = await readCaptureFile(lines);
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[1].states).toEqual([]);
+    expect(await readCaptureFile(array)).toHaveLength(1);
+  });
+
+  test('detects falling utilisation', () => {
+    const baseline = Array.from({ length: 28 }, (_, i) => day(8 + i, 400));
+    const recent = Array.from({ length: 7 }, (_, i) => day(1 + i, 300));
+    const today = day(0, 50, 20); // Partial day - not in either window
+
+    const trend = computeUtilisationTrend([...baseline, ...recent, today], 400, AS_OF);
+
+    expect(trend.status).toBe('falling');
+    expect(trend.recentAverage).toBe(300);
+    expect(trend.baselineAverage).toBe(400);
+    expect(trend.change).toBe(-0.25);
+    expect(trend.recentDays).toBe(7);
+    expect(trend.activeFleetShare).toBe(0.19); // 75 aircraft a day of 400
+
+    const stable = computeUtilisationTrend([...baseline, ...recent.map(d => ({ ...d, flights: 380 }))], 400, AS_OF);
+    expect(stable.status).toBe('stable');
+  });
+
+  test('needs sufficiently sampled history', () => {
+    const baseline = Array.from({ length: 28 }, (_, i) => day(8 + i, 400));
+    const underSampled = Array.from({ length: 7 }, (_, i) => day(1 + i, 100, MIN_SAMPLES_PER_DAY - 1));
+
+    const trend = computeUtilisationTrend([...baseline, ...underSampled], 400, AS_OF);
+    expect(trend.status).toBe('insufficient');
+    expect(trend.recentDays).toBe(0);
+    expect(trend.change).toBeNull();
+
+    const short = computeUtilisationTrend([day(1, 300), day(2, 300), day(3, 300)], null, AS_OF);
+    expect(short.status).toBe('insufficient');
+    expect(short.recentAverage).toBe(300);
+    expect(short.activeFleetShare).toBeNull();
+    expect(short.lastObserved).toEqual(new Date(Date.UTC(2026, 1, 28)));
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for airline groups
+ *
+ * Test cases:
+ * 1. Subsidiaries of a group are aggregated as one obligor
+ * 2. Single-name concentration is measured at group level
+ * 3. Subsidiaries without a ticker inherit the parent's financials with reduced confidence
+ * 4. Group names and tickers are validated
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { aggregateByGroup, toGroupContext, validateAirlineGroup } from '../airline-groups';
+import { summarizeRiskRows, CurrencyRiskResult } from '../portfolio-risk';
+import { DEFAULT_RISK_CONFIG, RiskContext } from '../risk-model';
+import { financialRiskSource } from '../sources/financial';
+
+function row(
+  icao: string,
+  exposure: number,
+  risk: number,
+  group: { name: string; guaranteed: boolean } | null = null
+): CurrencyRiskResult['rows'][number] {
+  return {
+    airline: { icao, name: icao, country: `${icao} Land` },
+    exposure,
+    risk,
+    riskBucket: 'Low',
+    group,
+    ratingGrade: 'BBB-',
+    pd: 0.0035,
+    lgd: 0.45,
+    expectedLoss: exposure * 0.0035 * 0.45,
+    lgdBasis: 'unsecured',
+  };
+}
+
+function context(icao: string, group?: RiskContext['airline']['group']): RiskContext {
+  return {
+    airline: { icao, name: icao, country: 'France', active: true, group },
+  };
+}
+
+describe('Airline groups', () => {
+  test('aggregates subsidiaries as one obligor', () => {
+    const afklm = { name: 'Air France-KLM', guaranteed: false };
+    const groups = aggregateByGroup([
+      row('AFR', 300, 40, afklm),
+      row('KLM', 100, 60, { ...afklm, guaranteed: true }),
+      row('DLH', 200, 30),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({
+      name: 'Air France-KLM',
+      grouped: true,
+      exposure: 400,
+      share: 0.667,
+      guaranteedExposure: 100,
+      risk: 45,
+      worstRisk: 60,
+    });
+    expect(groups[0].airlines.map(a => a.icao)).toEqual(['AFR', 'KLM']);
+    expect(groups[1]).toMatchObject({ name: 'DLH', grouped: false, exposure: 200, share: 0.333 });
+  });
+
+  test('measures single-name concentration at group level', () => {
+    const iag = { name: 'International Airlines Group', guaranteed: false };
+    const rows = [row('BAW', 300, 40, iag), row('IBE', 300, 40, iag), row('DLH', 400, 40)];
+
+    const standalone = summarizeRiskRows(rows.map(r => ({ ...r, group: null })), DEFAULT_RISK_CONFIG);
+    const grouped = summarizeRiskRows(rows, DEFAULT_RISK_CONFIG);
+
+    expect(standalone.maxConcentration).toBe(0.4);
+    expect(standalone.effectiveNames).toBe(2.9);
+    expect(standalone.singleNamePenalty).toBe(2.1);
+    expect(grouped.maxConcentration).toBe(0.6);
+    expect(grouped.effectiveNames).toBe(1.9);
+    expect(grouped.singleNamePenalty).toBe(4.8);
+    expect(grouped.groups[0].name).toBe('International Airlines Group');
+  });
+
+  test('inherits parent financials with reduced confidence', async () => {
+    const parent = { name: 'Air France-KLM', ticker: 'AF.PA' };
+
+    const own = await financialRiskSource.calculate(context('AFR'));
+    const guaranteed = await financialRiskSource.calculate(context('HOP', { ...parent, guaranteed: true }));
+    const unguaranteed = await financialRiskSource.calculate(context('HOP', { ...parent, guaranteed: false }));
+    const noGroup = await financialRiskSource.calculate(context('HOP'));
+
+    expect(guaranteed.score).toBe(own.score);
+    expect(guaranteed.confidence).toBe('MEDIUM');
+    expect(guaranteed.metadata).toMatchObject({ ticker: 'AF.PA', inheritedFrom: 'Air France-KLM', parentGuarantee: true });
+    expect(unguaranteed.confidence).toBe('LOW');
+    expect(own.metadata?.inheritedFrom).toBeUndefined();
+    expect(noGroup.score).toBeNull();
+
+    expect(toGroupContext({ parentGuarantee: true, group: { name: 'IAG', ticker: null } }))
+      .toEqual({ name: 'IAG', ticker: undefined, guaranteed: true });
+    expect(toGroupContext({ parentGuarantee: false, group: null })).toBeUndefined();
+  });
+
+  test('validates group input', () => {
+    expect(validateAirlineGroup({ name: 'Air France-KLM', ticker: 'AF.PA' })).toBeNull();
+    expect(validateAirlineGroup({ name: '  ' })).toBe('Group name is required');
+    expect(validateAirlineGroup({ name: 'IAG', ticker: 'iag l' })).toMatch(/Ticker/);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for airline score history and change attribution
+ *
+ * Test cases:
+ * 1. Effective weights are normalized over available components
+ * 2. Component contributions add up to the overall change
+ * 3. Model version changes show up as weight effects
+ * 4. Changed metadata inputs are listed, volatile fields ignored
+ * 5. Unchanged recalculations are skipped
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  getEffectiveWeights,
+  attributeScoreChange,
+  buildScoreChanges,
+  diffComponentInputs,
+  ScoreSnapshot,
+} from '../airline-history';
+import { DEFAULT_RISK_CONFIG, RiskConfig } from '../risk-model';
+
+function snapshot(overrides: Partial<ScoreSnapshot>): ScoreSnapshot {
+  return {
+    calculatedAt: new Date('2026-01-01T00:00:00Z'),
+    overallScore: 0,
+    riskBucket: 'Low',
+    dataVersion: '2.0',
+    jurisdictionScore: 20,
+    scaleScore: 30,
+    assetLiquidityScore: 40,
+    financialScore: 50,
+    newsScore: null,
+    activityScore: null,
+    componentMetadata: null,
+    ...overrides,
+  };
+}
+
+// Overall score as the aggregator computes it
+function withOverall(s: ScoreSnapshot, config: RiskConfig = DEFAULT_RISK_CONFIG): ScoreSnapshot {
+  const weights = getEffectiveWeights(s, config);
+  const overall = Object.entries(weights).reduce(
+    (sum, [key, weight]) => sum + (weight ?? 0) * (s[`${key}Score` as keyof ScoreSnapshot] as number),
+    0
+  );
+  return { ...s, overallScore: Math.round(overall * 10) / 10 };
+}
+
+describe('Airline Score History', () => {
+  it('should normalize weights over available components', () => {
+    const weights = getEffectiveWeights(snapshot({}), DEFAULT_RISK_CONFIG);
+    const withNews = getEffectiveWeights(snapshot({ newsScore: 80 }), DEFAULT_RISK_CONFIG);
+
+    expect(weights.news).toBeUndefined();
+    expect(weights.financial).toBeCloseTo(0.3 / 0.8, 6);
+    expect(withNews.financial).toBeCloseTo(0.3 / 0.9, 6);
+  });
+
+  it('should attribute the change to the component that moved', () => {
+    const before = withOverall(snapshot({}));
+    const after = withOverall(snapshot({
+      financialScore: 65,
+      componentMetadata: JSON.stringify({ financial: { debtToEquity: 2.4, lastUpdated: '2026-02-01' } }),
+    }));
+
+    const change = attributeScoreChange(before, after, DEFAULT_RISK_CONFIG, DEFAULT_RISK_CONFIG);
+    const total = change.components.reduce((sum, c) => sum + c.contribution, 0);
+
+    expect(change.components).toHaveLength(1);
+    expect(change.components[0].key).toBe('financial');
+    expect(change.components[0].weightEffect).toBe(0);
+    expect(total).toBeCloseTo(change.change, 0);
+    expect(change.components[0].inputChanges).toEqual([{ field: 'debtToEquity', from: null, to: 2.4 }]);
+    expect(change.modelVersionChanged).toBe(false);
+  });
+
+  it('should show model version changes as weight effects', () => {
+    const newModel: RiskConfig = {
+      ...DEFAULT_RISK_CONFIG,
+      modelVersion: '2.1',
+      weights: { jurisdiction: 0.1, scale: 0.1, assetLiquidity: 0.1, financial: 0.7 },
+      enabledSources: ['jurisdiction', 'scale', 'assetLiquidity', 'financial'],
+    };
+    const before = withOverall(snapshot({}));
+    const after = withOverall(snapshot({ dataVersion: '2.1' }), newModel);
+
+    const change = attributeScoreChange(before, after, DEFAULT_RISK_CONFIG, newModel);
+
+    expect(change.modelVersionChanged).toBe(true);
+    expect(change.change).toBeGreaterThan(0);
+    expect(change.components.every(c => c.scoreEffect === 0)).toBe(true);
+    expect(change.components[0].key).toBe('financial');
+  });
+
+  it('should diff scalar inputs and count lists', () => {
+    const changes = diffComponentInputs(
+      { events: [1, 2], region: 'Europe', calculatedAt: 'a', ratios: { x: 1 } },
+      { events: [1, 2, 3], region: 'Europe', calculatedAt: 'b', ratios: { x: 2 } }
+    );
+
+    expect(changes).toEqual([{ field: 'events (count)', from: 2, to: 3 }]);
+  });
+
+  it('should skip recalculations that changed nothing', () => {
+    const a = withOverall(snapshot({}));
+    const b = { ...a, calculatedAt: new Date('2026-01-02T00:00:00Z') };
+    const c = withOverall(snapshot({ calculatedAt: new Date('2026-01-03T00:00:00Z'), jurisdictionScore: 60 }));
+
+    const changes = buildScoreChanges([a, b, c], {});
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].components[0].key).toBe('jurisdiction');
+  });
+});
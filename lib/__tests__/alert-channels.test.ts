@@ -0,0 +1,174 @@
+/**
+ * Unit tests for alert delivery channels
+ *
+ * Test cases:
+ * 1. Email alerts are sent over SMTP (to a local sink); credentials are never sent without TLS
+ * 2. Webhook alerts are POSTed as JSON; internal hosts are refused unless allowed
+ * 3. A failing channel is recorded without stopping the others
+ * 4. Channel settings are validated, including internal webhook addresses
+ *
+ * Run with: npm test or npx jest
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ReceivedMail, sendMail, startSmtpSink } from '../smtp';
+import {
+  createEmailChannel,
+  createWebhookChannel,
+  deliverAlert,
+  isInternalAddress,
+  validateAlertChannels,
+  AlertMessage,
+} from '../alert-channels';
+
+// Test webhooks listen on loopback, which is internal
+const LOCAL_HOSTS = ['127.0.0.1'];
+
+const alert: AlertMessage = {
+  id: 'alert-1',
+  rule: 'bucketChange',
+  severity: 'critical',
+  title: 'Air France moved to High risk',
+  message: 'Air France (AFR) moved from Medium to High risk\n.leading dot',
+  airlineIcao: 'AFR',
+  portfolioId: null,
+  createdAt: new Date('2026-03-01T12:00:00Z'),
+};
+
+async function startWebhook(status: number) {
+  const bodies: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      bodies.push(JSON.parse(body));
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+    bodies,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('Alert channels', () => {
+  test('sends email over SMTP', async () => {
+    const received: ReceivedMail[] = [];
+    const sink = await startSmtpSink(0, mail => received.push(mail));
+
+    try {
+      const channel = createEmailChannel(['risk@example.com', 'cro@example.com'], {
+        host: '127.0.0.1',
+        port: sink.port,
+        from: 'alerts@example.com',
+      });
+      const results = await deliverAlert(alert, [channel]);
+
+      expect(results).toEqual([{ channel: 'email:risk@example.com,cro@example.com', ok: true }]);
+      expect(received).toHaveLength(1);
+      expect(received[0].from).toBe('alerts@example.com');
+      expect(received[0].to).toEqual(['risk@example.com', 'cro@example.com']);
+      expect(received[0].data).toContain('Subject: [CRITICAL] Air France moved to High risk');
+      expect(received[0].data).toContain('\r\n.leading dot');
+    } finally {
+      await sink.close();
+    }
+  });
+
+  test('refuses to authenticate without TLS', async () => {
+    const received: ReceivedMail[] = [];
+    const sink = await startSmtpSink(0, mail => received.push(mail));
+
+    try {
+      // The sink offers AUTH but no STARTTLS
+      await expect(sendMail(
+        { host: '127.0.0.1', port: sink.port, user: 'alerts', password: 'secret', from: 'alerts@example.com' },
+        { to: ['risk@example.com'], subject: 'Test', text: 'Test' }
+      )).rejects.toThrow(/refusing to send credentials unencrypted/);
+      expect(received).toHaveLength(0);
+    } finally {
+      await sink.close();
+    }
+  });
+
+  test('posts webhooks as JSON', async () => {
+    const webhook = await startWebhook(204);
+
+    try {
+      const results = await deliverAlert(alert, [createWebhookChannel(webhook.url, LOCAL_HOSTS)]);
+
+      expect(results[0].ok).toBe(true);
+      expect(webhook.bodies[0]).toMatchObject({
+        id: 'alert-1',
+        severity: 'critical',
+        airlineIcao: 'AFR',
+        createdAt: '2026-03-01T12:00:00.000Z',
+      });
+    } finally {
+      await webhook.close();
+    }
+  });
+
+  test('refuses webhooks to internal hosts', async () => {
+    const webhook = await startWebhook(204);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const results = await deliverAlert(alert, [
+        { type: 'webhook', url: webhook.url },
+        createWebhookChannel(webhook.url.replace('127.0.0.1', 'localhost'), []),
+      ]);
+
+      expect(results.map(result => result.ok)).toEqual([false, false]);
+      expect(results[0].error).toBe('Webhook host 127.0.0.1 is internal');
+      expect(results[1].error).toBe('Webhook host localhost is internal');
+      expect(webhook.bodies).toHaveLength(0);
+    } finally {
+      consoleError.mockRestore();
+      await webhook.close();
+    }
+
+    expect(['10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:7f00:1'].every(isInternalAddress)).toBe(true);
+    expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111'].some(isInternalAddress)).toBe(false);
+  });
+
+  test('records failing channels without stopping the others', async () => {
+    const failing = await startWebhook(500);
+    const working = await startWebhook(200);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const results = await deliverAlert(alert, [
+        createEmailChannel(['risk@example.com'], null),
+        createWebhookChannel(failing.url, LOCAL_HOSTS),
+        createWebhookChannel(working.url, LOCAL_HOSTS),
+      ]);
+
+      expect(results.map(result => result.ok)).toEqual([false, false, true]);
+      expect(results[0].error).toMatch(/SMTP is not configured/);
+      expect(results[1].error).toBe('Webhook responded 500');
+      expect(working.bodies).toHaveLength(1);
+    } finally {
+      consoleError.mockRestore();
+      await failing.close();
+      await working.close();
+    }
+  });
+
+  test('validates channel settings', () => {
+    expect(validateAlertChannels([])).toBeNull();
+    expect(validateAlertChannels([{ type: 'email', to: ['risk@example.com'] }, { type: 'webhook', url: 'https://hooks.example.com/x' }])).toBeNull();
+    expect(validateAlertChannels({})).toMatch(/list/);
+    expect(validateAlertChannels([{ type: 'email', to: [] }])).toMatch(/recipient/);
+    expect(validateAlertChannels([{ type: 'email', to: ['not-an-address'] }])).toMatch(/valid addresses/);
+    expect(validateAlertChannels([{ type: 'webhook', url: 'ftp://x' }])).toMatch(/http/);
+    expect(validateAlertChannels([{ type: 'webhook', url: 'http://169.254.169.254/latest/meta-data' }])).toMatch(/internal/);
+    expect(validateAlertChannels([{ type: 'webhook', url: 'http://localhost:3000/hook' }])).toMatch(/internal/);
+    expect(validateAlertChannels([{ type: 'webhook', url: 'http://[::ffff:10.0.0.1]/hook' }])).toMatch(/internal/);
+    expect(validateAlertChannels([{ type: 'sms' }])).toMatch(/Unknown channel/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for fleet asset liquidity scoring
+ *
+ * Test cases:
+ * 1. A mixed fleet blends type mix, fleet age and out-of-production share
+ * 2. Types missing from the reference table are scored as tier 3 and reported as unknown
+ * 3. An empty fleet has no score
+ * 4. Aircraft types match by designator, marketing name or alias, ignoring case and spacing
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { computeFleetLiquidityRisk } from '../sources/risk-sources';
+import { findAircraftType } from '../sources/aircraftTypes';
+
+describe('Fleet asset liquidity', () => {
+  test('scores a mixed fleet', () => {
+    const result = computeFleetLiquidityRisk([
+      { designator: 'A20N', count: 10, averageAge: 5 },
+      { designator: 'B744', count: 10, averageAge: 25 },
+    ]);
+
+    // A320neo 24.8 and 747-400 88.75 type risk; 15 years average age; the 747s are out of production
+    expect(result.typeMixRisk).toBe(56.8);
+    expect(result.averageAge).toBe(15);
+    expect(result.ageRisk).toBe(50);
+    expect(result.outOfProductionRisk).toBe(50);
+    expect(result.widebodyShare).toBe(0.5);
+    expect(result.unknownShare).toBe(0);
+    expect(result.score).toBe(53.4);
+  });
+
+  test('treats unknown types as tier 3', () => {
+    const result = computeFleetLiquidityRisk([
+      { designator: 'ZZZZ', count: 10, averageAge: 10 },
+      { designator: 'A20N', count: 10, averageAge: 10 },
+    ]);
+
+    expect(result.unknownShare).toBe(0.5);
+    expect(result.typeMixRisk).toBe(42.4);
+    expect(result.widebodyShare).toBe(0);
+
+    const allUnknown = computeFleetLiquidityRisk([{ designator: 'ZZZZ', count: 5, averageAge: 5 }]);
+    expect(allUnknown.typeMixRisk).toBe(60);
+    expect(allUnknown.unknownShare).toBe(1);
+  });
+
+  test('returns no score for an empty fleet', () => {
+    const result = computeFleetLiquidityRisk([]);
+
+    expect(result.score).toBeNull();
+    expect(result.typeMixRisk).toBeNull();
+    expect(result.averageAge).toBeNull();
+    expect(result.unknownShare).toBe(0);
+  });
+
+  test('matches type name variants', () => {
+    expect(findAircraftType('A20N')?.designator).toBe('A20N');
+    expect(findAircraftType('a320neo')?.designator).toBe('A20N');
+    expect(findAircraftType(' A320-200N ')?.designator).toBe('A20N');
+    expect(findAircraftType('737  MAX  8')?.designator).toBe('B38M');
+    expect(findAircraftType('b777')?.designator).toBe('B77W');
+    expect(findAircraftType('Q400')?.designator).toBe('DH8D');
+    expect(findAircraftType('ATR72-600')?.designator).toBe('AT76');
+    expect(findAircraftType('a320 neo')?.designator).toBe('A20N');
+    expect(findAircraftType('E170')).toBeUndefined();
+    expect(findAircraftType('B797')).toBeUndefined();
+    expect(findAircraftType('')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for segment concentration
+ *
+ * Test cases:
+ * 1. HHI is the sum of squared shares
+ * 2. Ten airlines in one country are penalized as concentrated
+ * 3. Airlines with unknown segment values count as their own group
+ * 4. Segment penalties add up and flow into portfolio adjusted risk
+ * 5. Portfolio and scenario calculators apply the same concentration penalty
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { analyzeSegmentConcentration, calculateHhi } from '../concentration';
+import { summarizeRiskRows, CurrencyRiskResult } from '../portfolio-risk';
+import { calculateScenarioRisk } from '../scenario-calculator';
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
+
+function row(icao: string, country: string, exposure: number, region: string | null = null): CurrencyRiskResult['rows'][number] {
+  return {
+    airline: { icao, name: icao, country },
+    exposure,
+    risk: 40,
+    riskBucket: 'Low',
+    segments: { region, subregion: null, jurisdictionBand: null },
+    ratingGrade: 'BBB-',
+    pd: 0.0035,
+    lgd: 0.45,
+    expectedLoss: exposure * 0.0035 * 0.45,
+    lgdBasis: 'unsecured',
+  };
+}
+
+describe('Segment concentration', () => {
+  test('calculates HHI from exposures', () => {
+    expect(calculateHhi([100])).toBe(1);
+    expect(calculateHhi([50, 50])).toBe(0.5);
+    expect(calculateHhi([25, 25, 25, 25])).toBe(0.25);
+    expect(calculateHhi([])).toBe(0);
+  });
+
+  test('penalizes ten airlines in one country', () => {
+    const rows = Array.from({ length: 10 }, (_, i) => row(`A${i}`, 'Ireland', 1000000, 'Europe'));
+    const { segments, penalty } = analyzeSegmentConcentration(rows, DEFAULT_RISK_CONFIG.segmentConcentrationRules);
+    const country = segments.find(s => s.segment === 'country')!;
+    const region = segments.find(s => s.segment === 'region')!;
+
+    expect(country.hhi).toBe(1);
+    expect(country.penalty).toBe(6);
+    expect(country.groups).toEqual([{ name: 'Ireland', exposure: 10000000, share: 1, airlines: 10 }]);
+    expect(region.penalty).toBe(4);
+    expect(penalty).toBe(10);
+  });
+
+  test('treats unknown segment values as separate groups', () => {
+    const rows = [row('A', 'France', 100), row('B', 'Spain', 100), row('C', 'Italy', 100), row('D', 'Chile', 100)];
+    const region = analyzeSegmentConcentration(rows, DEFAULT_RISK_CONFIG.segmentConcentrationRules)
+      .segments.find(s => s.segment === 'region')!;
+
+    expect(region.hhi).toBe(0.25);
+    expect(region.groups).toEqual([]);
+    expect(region.unknownExposure).toBe(400);
+    expect(region.penalty).toBe(0);
+  });
+
+  test('adds segment penalties to portfolio adjusted risk', () => {
+    // Evenly spread over ten airlines: no single-name penalty
+    const diversified = Array.from({ length: 10 }, (_, i) => row(`A${i}`, `Country ${i}`, 1000000, 'Europe'));
+    const oneCountry = Array.from({ length: 10 }, (_, i) => row(`A${i}`, 'Ireland', 1000000, 'Europe'));
+
+    const spread = summarizeRiskRows(diversified, DEFAULT_RISK_CONFIG);
+    const concentrated = summarizeRiskRows(oneCountry, DEFAULT_RISK_CONFIG);
+
+    expect(spread.singleNamePenalty).toBe(0);
+    expect(spread.concentrationPenalty).toBe(4); // Region only
+    expect(concentrated.singleNamePenalty).toBe(0);
+    expect(concentrated.concentrationPenalty).toBe(10);
+    expect(concentrated.adjustedRisk).toBe(50);
+    expect(concentrated.riskBucket).toBe('Medium');
+  });
+
+  test('applies the same penalty in the portfolio and scenario calculators', () => {
+    const rows = [
+      row('AFR', 'France', 3000000, 'Europe'),
+      row('KLM', 'Netherlands', 2500000, 'Europe'),
+      row('DLH', 'Germany', 1200000, 'Europe'),
+      row('UAL', 'United States', 800000, 'Americas'),
+    ];
+    rows[0].group = { name: 'Air France-KLM', guaranteed: false };
+    rows[1].group = { name: 'Air France-KLM', guaranteed: true };
+
+    const portfolio = summarizeRiskRows(rows, DEFAULT_RISK_CONFIG);
+    const scenario = calculateScenarioRisk({
+      currency: 'USD',
+      exposures: rows.map(r => ({
+        airlineIcao: r.airline.icao,
+        airlineName: r.airline.name,
+        airlineCountry: r.airline.country,
+        airlineRegion: r.segments?.region ?? undefined,
+        airlineGroup: r.group?.name,
+        exposure: r.exposure,
+        risk: r.risk,
+        riskBucket: r.riskBucket,
+      })),
+    });
+
+    expect(scenario.singleNamePenalty).toBe(portfolio.singleNamePenalty);
+    expect(scenario.concentrationPenalty).toBe(portfolio.concentrationPenalty);
+    expect(scenario.effectiveNames).toBe(portfolio.effectiveNames);
+    expect(scenario.adjustedRisk).toBe(portfolio.adjustedRisk);
+    expect(portfolio.singleNamePenalty).toBeGreaterThan(0);
+  });
+});
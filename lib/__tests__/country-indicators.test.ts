@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the country indicator dataset and jurisdiction risk
+ *
+ * Test cases:
+ * 1. Indicator files are parsed, dropping entries without a country or as-of date, and loaded once per path
+ * 2. Countries are matched by name or alias
+ * 3. Cape Town ratification drives the recovery part of the score
+ * 4. Missing parts are reweighted and old indicators are flagged stale
+ * 5. Jurisdiction risk uses the dataset, falling back to the regional proxy
+ * 6. Agency ratings map onto the internal rating scale
+ *
+ * Run with: npm test or npx jest
+ */
+
+import path from 'path';
+import {
+  CountryIndicators,
+  findCountryIndicators,
+  agencyRatingToGrade,
+  loadCountryIndicators,
+  parseCountryIndicators,
+  scoreCountryIndicators,
+} from '../sources/countryIndicators';
+import { jurisdictionRiskSource } from '../sources/risk-sources';
+import { DEFAULT_RISK_CONFIG, RiskContext } from '../risk-model';
+
+const DATASET_PATH = path.resolve(__dirname, '../../data/country-indicators.json');
+const AS_OF = new Date('2026-07-01T00:00:00Z');
+
+const ratified: CountryIndicators = {
+  country: 'Exampleland',
+  asOf: '2026-06-30',
+  sovereignRating: 'A',
+  gdpGrowth: 2,
+  inflation: 3,
+  fxReservesMonths: 12,
+  capeTownRatified: true,
+  repossessionScore: 80,
+};
+
+function context(country: string, countryInfo?: RiskContext['countryInfo']): RiskContext {
+  return {
+    airline: { icao: 'EXA', name: 'Example Airways', country, active: true },
+    countryInfo,
+  };
+}
+
+describe('Country indicators', () => {
+  test('parses the indicator file', async () => {
+    const parsed = parseCountryIndicators({
+      countries: [
+        { country: 'Exampleland', asOf: '2026-06-30', sovereignRating: 'bbb+', capeTownRatified: 'yes', gdpGrowth: 'n/a' },
+        { country: 'Nowhere' },
+        { asOf: '2026-06-30' },
+      ],
+    });
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].sovereignRating).toBe('BBB+');
+    expect(parsed[0].capeTownRatified).toBeUndefined();
+    expect(parsed[0].gdpGrowth).toBeUndefined();
+
+    const dataset = await loadCountryIndicators(DATASET_PATH);
+    expect(dataset?.length).toBeGreaterThan(0);
+    expect(await loadCountryIndicators(DATASET_PATH)).toBe(dataset);
+
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(await loadCountryIndicators('data/missing.json')).toBeNull();
+      expect(await loadCountryIndicators('data/missing.json')).toBeNull();
+      expect(consoleWarn).toHaveBeenCalledTimes(1);
+    } finally {
+      consoleWarn.mockRestore();
+    }
+  });
+
+  test('matches countries by name or alias', async () => {
+    const dataset = (await loadCountryIndicators(DATASET_PATH))!;
+
+    expect(findCountryIndicators(dataset, 'united arab emirates')?.country).toBe('United Arab Emirates');
+    expect(findCountryIndicators(dataset, 'UAE')?.country).toBe('United Arab Emirates');
+    expect(findCountryIndicators(dataset, 'Atlantis')).toBeUndefined();
+  });
+
+  test('Cape Town ratification drives recovery risk', () => {
+    // Sovereign A = 18; macro (50 + 0 + 0) / 3; recovery (100 - 80) x 0.5
+    const score = scoreCountryIndicators(ratified, AS_OF)!;
+    expect(score.parts).toEqual({ sovereign: 18, macro: 16.7, recovery: 10 });
+    expect(score.score).toBe(14.5);
+
+    // Without Cape Town the same country adds 50 to recovery risk
+    const unratified = scoreCountryIndicators({ ...ratified, capeTownRatified: false }, AS_OF)!;
+    expect(unratified.parts.recovery).toBe(60);
+    expect(unratified.score).toBe(34.5);
+  });
+
+  test('reweights missing parts and flags stale indicators', () => {
+    const ratingOnly = scoreCountryIndicators({ country: 'Exampleland', asOf: '2026-06-30', sovereignRating: 'BB' }, AS_OF)!;
+    expect(ratingOnly.score).toBe(52);
+    expect(ratingOnly.parts).toEqual({ sovereign: 52, macro: null, recovery: null });
+
+    expect(scoreCountryIndicators({ country: 'Exampleland', asOf: '2026-06-30' }, AS_OF)).toBeNull();
+
+    const old = scoreCountryIndicators({ ...ratified, asOf: '2024-06-30' }, AS_OF)!;
+    expect(old.ageDays).toBe(731);
+    expect(old.stale).toBe(true);
+    expect(scoreCountryIndicators(ratified, AS_OF)!.stale).toBe(false);
+  });
+
+  test('jurisdiction risk uses the dataset with a regional fallback', async () => {
+    const previousPath = process.env.COUNTRY_INDICATORS_PATH;
+    process.env.COUNTRY_INDICATORS_PATH = DATASET_PATH;
+
+    try {
+      const covered = await jurisdictionRiskSource.calculate(context('Ireland', { region: 'Europe' }));
+      expect(covered.metadata?.capeTownRatified).toBe(true);
+      expect(covered.metadata?.indicatorsAsOf).toBeDefined();
+      expect(covered.metadata?.recoveryScore).toBe(4);
+
+      const notRatified = await jurisdictionRiskSource.calculate(context('France', { region: 'Europe' }));
+      expect(notRatified.metadata?.capeTownRatified).toBe(false);
+      expect(notRatified.score!).toBeGreaterThan(covered.score!);
+
+      // Not in the dataset - regional proxy
+      const proxy = await jurisdictionRiskSource.calculate(context('Atlantis', { region: 'Europe' }));
+      expect(proxy.score).toBe(25);
+      expect(proxy.confidence).toBe('MEDIUM');
+      expect(proxy.metadata?.indicatorsAsOf).toBeUndefined();
+    } finally {
+      if (previousPath === undefined) {
+        delete process.env.COUNTRY_INDICATORS_PATH;
+      } else {
+        process.env.COUNTRY_INDICATORS_PATH = previousPath;
+      }
+    }
+  });
+
+  test('maps agency ratings onto the internal scale', () => {
+    const scale = DEFAULT_RISK_CONFIG.ratingScale;
+
+    expect(agencyRatingToGrade('AAA', scale)).toBe('AA');
+    expect(agencyRatingToGrade('A+', scale)).toBe('A');
+    expect(agencyRatingToGrade('bbb', scale)).toBe('BBB-'); // 32
+    expect(agencyRatingToGrade('B', scale)).toBe('B');      // 72
+    expect(agencyRatingToGrade('D', scale)).toBe('CC');
+    expect(agencyRatingToGrade('Aa2', scale)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for Monte Carlo credit loss simulation
+ *
+ * Test cases:
+ * 1. Inverse normal CDF matches known quantiles
+ * 2. The same seed reproduces the same result
+ * 3. Simulated expected loss is close to PD x LGD x EAD
+ * 4. Expected shortfall is at least VaR at each confidence level
+ * 5. Shared factors widen the tail for concentrated portfolios
+ * 6. Correlation overrides are validated merged with the defaults
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  inverseNormalCdf,
+  simulatePortfolioLosses,
+  validateSimulationCorrelations,
+  SimulationExposure,
+} from '../credit-simulation';
+import { UNSECURED_LGD } from '../expected-loss';
+
+function makeExposures(count: number, country: (i: number) => string): SimulationExposure[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `exp-${i}`,
+    airlineIcao: `A${i}`,
+    airlineName: `Airline ${i}`,
+    country: country(i),
+    exposure: 1000000,
+    pd: 0.05,
+    assetValue: 0, // Unsecured LGD keeps the expected loss independent of the haircut
+    securityHeld: 0,
+  }));
+}
+
+describe('Credit Loss Simulation', () => {
+  it('should invert the standard normal CDF', () => {
+    expect(inverseNormalCdf(0.5)).toBeCloseTo(0, 6);
+    expect(inverseNormalCdf(0.975)).toBeCloseTo(1.959964, 5);
+    expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326348, 5);
+    expect(inverseNormalCdf(0)).toBe(-Infinity);
+  });
+
+  it('should reproduce results for the same seed', () => {
+    const exposures = makeExposures(5, () => 'Germany');
+    const first = simulatePortfolioLosses(exposures, { trials: 2000, seed: 42 });
+    const second = simulatePortfolioLosses(exposures, { trials: 2000, seed: 42 });
+    const other = simulatePortfolioLosses(exposures, { trials: 2000, seed: 43 });
+
+    expect(second).toEqual(first);
+    expect(other.expectedLoss).not.toBe(first.expectedLoss);
+  });
+
+  it('should converge to the analytic expected loss', () => {
+    const exposures = makeExposures(10, i => `Country ${i}`);
+    // Without downturn stress the unsecured LGD stays at its base level
+    const result = simulatePortfolioLosses(exposures, { trials: 20000, seed: 7, haircutStress: 0 });
+    const analytic = 10 * 0.05 * UNSECURED_LGD * 1000000;
+
+    expect(result.expectedLoss).toBeGreaterThan(analytic * 0.9);
+    expect(result.expectedLoss).toBeLessThan(analytic * 1.1);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(20000);
+  });
+
+  it('should report expected shortfall at or above VaR', () => {
+    const result = simulatePortfolioLosses(makeExposures(8, () => 'Brazil'), { trials: 5000, seed: 1 });
+
+    for (const stat of result.tail) {
+      expect(stat.expectedShortfall).toBeGreaterThanOrEqual(stat.valueAtRisk);
+    }
+    expect(result.tail[2].valueAtRisk).toBeGreaterThanOrEqual(result.tail[0].valueAtRisk);
+  });
+
+  it('should widen the tail when lessees share a country', () => {
+    const concentrated = simulatePortfolioLosses(makeExposures(10, () => 'Brazil'), { trials: 10000, seed: 3 });
+    const diversified = simulatePortfolioLosses(makeExposures(10, i => `Country ${i}`), { trials: 10000, seed: 3 });
+
+    expect(concentrated.unexpectedLoss).toBeGreaterThan(diversified.unexpectedLoss);
+  });
+
+  it('should validate correlation overrides merged with the defaults', () => {
+    expect(validateSimulationCorrelations({ country: 0.3 })).toBeNull();
+    expect(validateSimulationCorrelations({})).toBeNull();
+
+    // 0.7 alone is under 1, but the default global, region and group loadings take it to 1
+    expect(validateSimulationCorrelations({ country: 0.7 })).toMatch(/sum to less than 1/);
+    expect(validateSimulationCorrelations({ sector: 0.1 })).toMatch(/Unknown correlation factor: sector/);
+    expect(validateSimulationCorrelations({ global: -0.1 })).toMatch(/non-negative/);
+    expect(validateSimulationCorrelations({ global: '0.1' })).toMatch(/non-negative/);
+    expect(validateSimulationCorrelations([0.1])).toMatch(/object/);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for PD calibration and expected loss
+ *
+ * Test cases:
+ * 1. Scores map to rating grades on the master scale
+ * 2. Collateralised LGD reflects asset value, haircut and security
+ * 3. LGD is floored when collateral exceeds exposure
+ * 4. Exposures without asset values use the unsecured LGD, adjusted for the jurisdiction haircut
+ * 5. Expected loss = PD x LGD x EAD
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  scoreToRating,
+  estimateLgd,
+  calculateExpectedLoss,
+  ASSET_RECOVERY_HAIRCUT,
+  LGD_FLOOR,
+  UNSECURED_LGD,
+} from '../expected-loss';
+
+describe('Expected Loss', () => {
+  it('should map scores to rating grades', () => {
+    expect(scoreToRating(5).grade).toBe('AA');
+    expect(scoreToRating(40).grade).toBe('BBB-');
+    expect(scoreToRating(40.1).grade).toBe('BB');
+    expect(scoreToRating(100).grade).toBe('CC');
+    expect(scoreToRating(55, [{ grade: 'X', maxScore: 50, pd: 0.01 }]).grade).toBe('X');
+  });
+
+  it('should derive LGD from collateral value vs. exposure', () => {
+    // Recovery = 50M x (1 - haircut) + 1M security
+    const { lgd, recoveryValue, basis } = estimateLgd(60000000, 50000000, 1000000);
+    const expectedRecovery = 50000000 * (1 - ASSET_RECOVERY_HAIRCUT) + 1000000;
+
+    expect(basis).toBe('collateral');
+    expect(recoveryValue).toBe(expectedRecovery);
+    expect(lgd).toBeCloseTo(1 - expectedRecovery / 60000000, 6);
+  });
+
+  it('should floor LGD when fully collateralised', () => {
+    expect(estimateLgd(10000000, 50000000).lgd).toBe(LGD_FLOOR);
+  });
+
+  it('should use unsecured LGD without asset values', () => {
+    const { lgd, basis } = estimateLgd(10000000, 0);
+    expect(basis).toBe('unsecured');
+    expect(lgd).toBe(UNSECURED_LGD);
+
+    // A slower jurisdiction (haircut 30% vs. the 20% base) loses 10 points more
+    expect(estimateLgd(10000000, 0, 0, 0.30).lgd).toBeCloseTo(0.55);
+    expect(estimateLgd(10000000, 0, 0, 0.10).lgd).toBeCloseTo(0.35);
+    // Security held still caps the loss
+    expect(estimateLgd(10000000, 0, 6000000, 0.30).lgd).toBeCloseTo(0.4);
+  });
+
+  it('should calculate expected loss as PD x LGD x EAD', () => {
+    const estimate = calculateExpectedLoss(65, 10000000, 0);
+
+    expect(estimate.ratingGrade).toBe('B+');
+    expect(estimate.pd).toBe(0.03);
+    expect(estimate.expectedLoss).toBe(0.03 * UNSECURED_LGD * 10000000);
+  });
+});
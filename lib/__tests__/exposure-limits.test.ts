@@ -0,0 +1,167 @@
+/**
+ * Unit tests for exposure limits
+ *
+ * Test cases:
+ * 1. Limits are measured on their largest airline, group, country or region, with headroom
+ * 2. Targeted, risk bucket and score limits only count matching exposure
+ * 3. Changes that breach or worsen a breach are reported - hard limits as breaches, soft as warnings,
+ *    and hard breaches or unmeasurable hard limits block the change
+ * 4. Limits without a target are checked on every slice, not just the largest
+ * 5. Limit input is validated
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  compareLimitChecks,
+  describeBlockedChange,
+  describeExposureLimit,
+  describeLimitBreach,
+  evaluateExposureLimits,
+  validateExposureLimit,
+  ExposureLimit,
+} from '../exposure-limits';
+
+type Row = Parameters<typeof evaluateExposureLimits>[0][number];
+
+function row(
+  icao: string,
+  country: string,
+  region: string,
+  exposure: number,
+  risk: number,
+  group: string | null = null
+): Row {
+  return {
+    airline: { icao, name: icao, country },
+    exposure,
+    risk,
+    riskBucket: risk <= 40 ? 'Low' : risk <= 70 ? 'Medium' : 'High',
+    segments: { region },
+    group: group ? { name: group, guaranteed: false } : null,
+  };
+}
+
+function limit(id: string, fields: Partial<ExposureLimit> & Pick<ExposureLimit, 'type' | 'maxShare'>): ExposureLimit {
+  return { id, target: null, minScore: null, hard: true, ...fields };
+}
+
+const rows = [
+  row('AFR', 'France', 'Europe', 300, 40, 'Air France-KLM'),
+  row('KLM', 'Netherlands', 'Europe', 100, 75, 'Air France-KLM'),
+  row('DLH', 'Germany', 'Europe', 200, 30),
+  row('UAL', 'United States', 'Americas', 350, 55),
+];
+
+describe('Exposure limits', () => {
+  test('measures the largest slice with headroom', () => {
+    const [group, airline, region] = evaluateExposureLimits(rows, [
+      limit('group', { type: 'group', maxShare: 0.4 }),
+      limit('airline', { type: 'airline', maxShare: 0.5 }),
+      limit('region', { type: 'region', maxShare: 0.9 }),
+    ]);
+
+    expect(group).toMatchObject({ name: 'Air France-KLM', exposure: 400, share: 0.421, headroom: 0, status: 'breach' });
+    // (350 + 250) / (950 + 250) = 50%
+    expect(airline).toMatchObject({ name: 'UAL', share: 0.368, headroom: 250, status: 'ok' });
+    expect(region).toMatchObject({ name: 'Europe', share: 0.632, status: 'ok' });
+  });
+
+  test('counts only matching exposure for targeted, bucket and score limits', () => {
+    const [country, missing, bucket, score] = evaluateExposureLimits(rows, [
+      limit('france', { type: 'country', target: 'france', maxShare: 0.35 }),
+      limit('spain', { type: 'country', target: 'Spain', maxShare: 0.2 }),
+      limit('high', { type: 'riskBucket', target: 'High', maxShare: 0.2 }),
+      limit('score', { type: 'score', minScore: 50, maxShare: 0.3, hard: false }),
+    ]);
+
+    expect(country).toMatchObject({ name: 'France', share: 0.316, utilization: 0.902, headroom: 50, status: 'near' });
+    expect(missing).toMatchObject({ name: 'Spain', exposure: 0, share: 0, status: 'ok' });
+    expect(bucket).toMatchObject({ name: 'High', exposure: 100, share: 0.105, status: 'ok' });
+    expect(score).toMatchObject({ exposure: 450, share: 0.474, status: 'breach' });
+    expect(describeExposureLimit(score.limit)).toBe('Airlines scoring above 50');
+    expect(describeExposureLimit(country.limit)).toBe('Country: france');
+  });
+
+  test('reports breaches caused by a change', () => {
+    const book = [
+      row('AFR', 'France', 'Europe', 300, 40),
+      row('DLH', 'Germany', 'Europe', 300, 30),
+      row('UAL', 'United States', 'Americas', 200, 55),
+    ];
+    const limits = [
+      limit('airline', { type: 'airline', maxShare: 0.5 }),
+      limit('us', { type: 'country', target: 'United States', maxShare: 0.4, hard: false }),
+      limit('tight', { type: 'airline', maxShare: 0.3 }),
+    ];
+    const before = evaluateExposureLimits(book, limits);
+    expect(before[2].status).toBe('breach');
+
+    // Soft country limit breached, the existing airline breach is diluted back within its limit
+    const small = compareLimitChecks(
+      before,
+      evaluateExposureLimits([...book, row('AAL', 'United States', 'Americas', 250, 60)], limits)
+    );
+    expect(small.breaches).toHaveLength(0);
+    expect(small.warnings.map(check => check.limit.id)).toEqual(['us']);
+
+    // Hard airline limit breached and the existing breach made worse
+    const large = compareLimitChecks(
+      before,
+      evaluateExposureLimits([...book, row('AAL', 'United States', 'Americas', 1000, 60)], limits)
+    );
+    expect(large.breaches.map(check => check.limit.id)).toEqual(['airline', 'tight']);
+    expect(describeLimitBreach(large.breaches[0])).toBe('AAL at 55.6% of exposure (hard limit 50.0%)');
+
+    expect(compareLimitChecks(before, null)).toEqual({
+      checked: false,
+      breaches: [],
+      warnings: [],
+      uncheckedHardLimits: [],
+      missingFxRates: [],
+    });
+
+    // Hard breaches and hard limits that can't be measured block the change, soft breaches don't
+    expect(describeBlockedChange(small)).toBeNull();
+    expect(describeBlockedChange(large)?.error).toMatch(/^Exposure would breach hard limits: AAL at 55.6%/);
+    expect(describeBlockedChange({
+      ...compareLimitChecks(before, null),
+      uncheckedHardLimits: [limits[0]],
+      missingFxRates: ['GBP/USD'],
+    })).toEqual({ error: "Hard limits can't be checked without FX rates for: GBP/USD", missingFxRates: ['GBP/USD'] });
+  });
+
+  test('checks every slice of a limit without a target', () => {
+    const book = [
+      row('AFR', 'France', 'Europe', 500, 40),
+      row('DLH', 'Germany', 'Europe', 200, 30),
+      row('UAL', 'United States', 'Americas', 300, 55),
+    ];
+    const limits = [limit('airline', { type: 'airline', maxShare: 0.35 })];
+    const before = evaluateExposureLimits(book, limits);
+    expect(before[0]).toMatchObject({ key: 'AFR', name: 'AFR', share: 0.5, status: 'breach' });
+
+    // AFR stays the largest and is diluted, but UAL is pushed over the limit
+    const after = evaluateExposureLimits([...book, row('UAL', 'United States', 'Americas', 150, 55)], limits);
+    expect(after[0]).toMatchObject({ name: 'AFR', share: 0.435 });
+    expect(after[0].breachedSlices.map(slice => slice.key)).toEqual(['AFR', 'UAL']);
+
+    const change = compareLimitChecks(before, after);
+    expect(change.breaches).toHaveLength(1);
+    expect(change.breaches[0]).toMatchObject({ key: 'UAL', name: 'UAL', exposure: 450, share: 0.391, status: 'breach' });
+    expect(describeLimitBreach(change.breaches[0])).toBe('UAL at 39.1% of exposure (hard limit 35.0%)');
+
+    // A breached slice is reported again only when it gets worse
+    const worse = compareLimitChecks(after, evaluateExposureLimits([...book, row('UAL', 'United States', 'Americas', 200, 55)], limits));
+    expect(worse.breaches.map(check => check.key)).toEqual(['UAL']);
+  });
+
+  test('validates limit input', () => {
+    expect(validateExposureLimit({ type: 'group', maxShare: 0.25 })).toBeNull();
+    expect(validateExposureLimit({ type: 'score', minScore: 70, maxShare: 0.1 })).toBeNull();
+    expect(validateExposureLimit({ type: 'fleet' as any, maxShare: 0.25 })).toMatch(/Limit type/);
+    expect(validateExposureLimit({ type: 'country', maxShare: 1 })).toMatch(/Maximum share/);
+    expect(validateExposureLimit({ type: 'riskBucket', target: 'Severe', maxShare: 0.2 })).toMatch(/bucket/);
+    expect(validateExposureLimit({ type: 'score', maxShare: 0.2 })).toMatch(/minimum score/);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for FX rates and reporting-currency consolidation
+ *
+ * Test cases:
+ * 1. Direct, inverse and USD cross rates are resolved
+ * 2. The most recent quote wins, whether direct or inverse
+ * 3. Missing pairs resolve to null
+ * 4. CSV import accepts any column order and reports invalid lines
+ * 5. Currency books are consolidated into the reporting currency
+ * 6. Consolidation is withheld when a rate is missing
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { findFxRate, parseFxCsv, FxRateInput } from '../fx-rates';
+import { consolidateCurrencyResults, summarizeRiskRows, CurrencyRiskResult } from '../portfolio-risk';
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
+
+const RATES: FxRateInput[] = [
+  { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.2, asOf: new Date('2026-10-15') },
+  { baseCurrency: 'GBP', quoteCurrency: 'USD', rate: 1.25, asOf: new Date('2026-10-12') },
+];
+
+function row(icao: string, exposure: number, risk: number, riskBucket: string): CurrencyRiskResult['rows'][number] {
+  return {
+    airline: { icao, name: icao, country: `${icao} Land` },
+    exposure,
+    risk,
+    riskBucket,
+    ratingGrade: 'BB',
+    pd: 0.01,
+    lgd: 0.45,
+    expectedLoss: exposure * 0.01 * 0.45,
+    lgdBasis: 'unsecured',
+  };
+}
+
+describe('FX rates', () => {
+  test('resolves direct, inverse and cross rates', () => {
+    expect(findFxRate('EUR', 'USD', RATES)?.rate).toBe(1.2);
+    expect(findFxRate('USD', 'EUR', RATES)?.rate).toBeCloseTo(1 / 1.2, 10);
+    expect(findFxRate('USD', 'USD', RATES)).toEqual({ rate: 1, asOf: null });
+
+    // GBP -> EUR via USD, dated by the older leg
+    const cross = findFxRate('GBP', 'EUR', RATES);
+    expect(cross?.rate).toBeCloseTo(1.25 / 1.2, 10);
+    expect(cross?.asOf).toEqual(new Date('2026-10-12'));
+  });
+
+  test('uses the most recent quote in either direction', () => {
+    const rates: FxRateInput[] = [
+      { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.1, asOf: new Date('2026-01-05') },
+      { baseCurrency: 'USD', quoteCurrency: 'EUR', rate: 0.8, asOf: new Date('2026-10-15') },
+    ];
+
+    const eurUsd = findFxRate('EUR', 'USD', rates);
+    expect(eurUsd?.rate).toBeCloseTo(1.25, 10);
+    expect(eurUsd?.asOf).toEqual(new Date('2026-10-15'));
+
+    const newerDirect = findFxRate('EUR', 'USD', [...rates, { ...rates[0], rate: 1.3, asOf: new Date('2026-10-16') }]);
+    expect(newerDirect?.rate).toBe(1.3);
+  });
+
+  test('returns null for unknown pairs', () => {
+    expect(findFxRate('JPY', 'USD', RATES)).toBeNull();
+    expect(findFxRate('JPY', 'EUR', RATES)).toBeNull();
+  });
+
+  test('parses CSV with any column order and reports bad lines', () => {
+    const { rates, errors } = parseFxCsv([
+      'Rate,Base,Quote,Date',
+      '1.0842,eur,USD,2026-10-16',
+      '',
+      '-1,GBP,USD,2026-10-16',
+      '1.5,USD,USD,2026-10-16',
+    ].join('\n'));
+
+    expect(rates).toEqual([
+      { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.0842, asOf: new Date('2026-10-16') },
+    ]);
+    expect(errors).toEqual([
+      'Line 4: Rate must be a positive number',
+      'Line 5: Base and quote currency must differ',
+    ]);
+
+    expect(parseFxCsv('date,base,rate\n2026-10-16,EUR,1.1').errors).toEqual([
+      'CSV header must include date, base, quote and rate columns',
+    ]);
+  });
+});
+
+describe('Reporting currency consolidation', () => {
+  const perCurrency = {
+    USD: summarizeRiskRows([row('AAA', 600000, 30, 'Low')], DEFAULT_RISK_CONFIG),
+    EUR: summarizeRiskRows([row('BBB', 400000, 60, 'High')], DEFAULT_RISK_CONFIG),
+  };
+
+  test('consolidates all books into the reporting currency', () => {
+    const { consolidated, missingFxRates } = consolidateCurrencyResults(perCurrency, 'USD', RATES, DEFAULT_RISK_CONFIG);
+
+    expect(missingFxRates).toEqual([]);
+    expect(consolidated).not.toBeNull();
+    expect(consolidated!.reportingCurrency).toBe('USD');
+    expect(consolidated!.totalExposure).toBe(1080000);
+    expect(consolidated!.buckets).toEqual({ low: 600000, medium: 0, high: 480000 });
+    expect(consolidated!.baseRisk).toBe(43.3);          // (600k x 30 + 480k x 60) / 1.08M
+    expect(consolidated!.maxConcentration).toBe(0.556); // Measured on the combined book
+    expect(consolidated!.singleNamePenalty).toBe(4.6);   // Name HHI 0.506
+    expect(consolidated!.concentrationPenalty).toBe(7.6); // Plus country HHI 0.506
+    expect(consolidated!.adjustedRisk).toBe(50.9);
+    expect(consolidated!.riskBucket).toBe('Medium');
+    expect(consolidated!.expectedLoss).toBeCloseTo(1080000 * 0.01 * 0.45, 2);
+    expect(consolidated!.rows.map(r => r.airline.icao)).toEqual(['AAA', 'BBB']);
+    expect(consolidated!.fxRates).toEqual([
+      { currency: 'EUR', rate: 1.2, asOf: new Date('2026-10-15') },
+      { currency: 'USD', rate: 1, asOf: null },
+    ]);
+  });
+
+  test('withholds the consolidated view when a rate is missing', () => {
+    const { consolidated, missingFxRates } = consolidateCurrencyResults(perCurrency, 'JPY', RATES, DEFAULT_RISK_CONFIG);
+
+    expect(consolidated).toBeNull();
+    expect(missingFxRates).toEqual(['EUR', 'USD']);
+  });
+});
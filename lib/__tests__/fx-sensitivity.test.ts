@@ -0,0 +1,73 @@
+/**
+ * Unit tests for FX mismatch sensitivity
+ *
+ * Test cases:
+ * 1. Revenue currency is read from the financial component metadata
+ * 2. Rent burden moves only for mismatches involving the reporting currency
+ * 3. Sensitivity revalues foreign exposures and stresses mismatched lessees
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { calculateFxSensitivity, getRentBurdenChange, getRevenueCurrency, SensitivityRow } from '../fx-sensitivity';
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
+
+function row(icao: string, exposure: number, risk: number, leaseCurrency: string, revenueCurrency: string | null): SensitivityRow {
+  return {
+    airline: { icao, name: icao, country: 'Testland' },
+    exposure,
+    risk,
+    riskBucket: risk <= 40 ? 'Low' : 'Medium',
+    ratingGrade: 'BB',
+    pd: 0.01,
+    lgd: 0.45,
+    expectedLoss: exposure * 0.01 * 0.45,
+    lgdBasis: 'unsecured',
+    leaseCurrency,
+    revenueCurrency,
+  };
+}
+
+describe('FX sensitivity', () => {
+  test('reads the revenue currency from financial metadata', () => {
+    expect(getRevenueCurrency(JSON.stringify({ financial: { currency: 'eur', ticker: 'LHA.DE' } }))).toBe('EUR');
+    expect(getRevenueCurrency(JSON.stringify({ financial: { reason: 'Not publicly traded' } }))).toBeNull();
+    expect(getRevenueCurrency('not json')).toBeNull();
+    expect(getRevenueCurrency(null)).toBeNull();
+  });
+
+  test('moves rent burden only for mismatches against the reporting currency', () => {
+    // USD rent from EUR revenue: a 20% stronger USD costs 20% more
+    expect(getRentBurdenChange('USD', 'EUR', 'USD', 0.2)).toBeCloseTo(0.2, 10);
+    // EUR rent from USD revenue gets cheaper
+    expect(getRentBurdenChange('EUR', 'USD', 'USD', 0.2)).toBeCloseTo(1 / 1.2 - 1, 10);
+    expect(getRentBurdenChange('USD', 'USD', 'USD', 0.2)).toBe(0);
+    expect(getRentBurdenChange('EUR', 'GBP', 'USD', 0.2)).toBe(0);
+    expect(getRentBurdenChange('USD', null, 'USD', 0.2)).toBe(0);
+  });
+
+  test('revalues foreign exposures and stresses mismatched lessees', () => {
+    const rows = [
+      row('AAA', 1000000, 50, 'USD', 'EUR'), // Mismatched
+      row('BBB', 500000, 30, 'EUR', 'EUR'),  // Matched, converted into USD
+    ];
+
+    const result = calculateFxSensitivity(rows, 'USD', DEFAULT_RISK_CONFIG, [-0.2, 0.2]);
+    const [weaker, stronger] = result.scenarios;
+
+    expect(result.mismatchedExposure).toBe(1000000);
+    expect(result.mismatchedShare).toBe(0.667);
+
+    // USD 20% stronger: EUR book is worth less, AAA scores 6 points worse
+    expect(stronger.totalExposure).toBe(1416666.67);
+    expect(stronger.exposureChange).toBe(-83333.33);
+    expect(stronger.stressedAirlines).toBe(1);
+    expect(stronger.baseRisk).toBe(Math.round(((1000000 * 56 + 416666.67 * 30) / 1416666.67) * 10) / 10);
+    expect(stronger.riskChange).toBeGreaterThan(0);
+
+    // USD 20% weaker: EUR book is worth more, AAA scores 6 points better
+    expect(weaker.totalExposure).toBe(1625000);
+    expect(weaker.baseRisk).toBe(Math.round(((1000000 * 44 + 625000 * 30) / 1625000) * 10) / 10);
+    expect(weaker.riskChange).toBeLessThan(0);
+  });
+});
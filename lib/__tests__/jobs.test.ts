@@ -0,0 +1,55 @@
+/**
+ * Unit tests for background jobs
+ *
+ * Test cases:
+ * 1. Airline refreshes are spaced for the strictest configured provider
+ * 2. Items are processed in order, failures retried once then recorded
+ * 3. Jobs are due once their interval has elapsed
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { getAirlineRefreshSpacingMs, isJobDue, runThrottled, toJobStatus, ProviderRateLimit } from '../jobs';
+
+function provider(requestsPerMinute: number, requestsPerAirline: number, configured = true): ProviderRateLimit {
+  return { provider: 'test', requestsPerMinute, requestsPerAirline, configured: () => configured };
+}
+
+describe('Background jobs', () => {
+  test('spaces airline refreshes for the strictest configured provider', () => {
+    expect(getAirlineRefreshSpacingMs([provider(60, 1), provider(5, 2)])).toBe(24000);
+    expect(getAirlineRefreshSpacingMs([provider(60, 1), provider(5, 2, false)])).toBe(1000);
+    expect(getAirlineRefreshSpacingMs([])).toBe(0);
+  });
+
+  test('retries failed items once and records failures', async () => {
+    const waits: number[] = [];
+    const calls: string[] = [];
+    let flaky = 0;
+
+    const result = await runThrottled(
+      ['AFR', 'DLH', 'XXX'],
+      async icao => {
+        calls.push(icao);
+        if (icao === 'DLH' && flaky++ === 0) throw new Error('HTTP 429');
+        if (icao === 'XXX') throw new Error('Airline not found');
+      },
+      { spacingMs: 500, wait: async ms => { waits.push(ms); } }
+    );
+
+    expect(calls).toEqual(['AFR', 'DLH', 'DLH', 'XXX', 'XXX']);
+    expect(waits).toEqual([500, 2000, 500, 2000]);
+    expect(result).toEqual({ total: 3, succeeded: 2, failures: [{ item: 'XXX', error: 'Airline not found' }] });
+    expect(toJobStatus(result)).toBe('partial');
+    expect(toJobStatus({ total: 1, succeeded: 0, failures: result.failures })).toBe('failed');
+    expect(toJobStatus({ total: 0, succeeded: 0, failures: [] })).toBe('succeeded');
+  });
+
+  test('is due once the interval has elapsed', () => {
+    const now = new Date('2026-03-31T06:00:00Z');
+
+    expect(isJobDue(null, 24, now)).toBe(true);
+    expect(isJobDue(new Date('2026-03-30T06:00:00Z'), 24, now)).toBe(true);
+    expect(isJobDue(new Date('2026-03-30T07:00:00Z'), 24, now)).toBe(false);
+  });
+});
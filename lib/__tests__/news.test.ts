@@ -0,0 +1,127 @@
+/**
+ * Unit tests for news event classification
+ *
+ * Test cases:
+ * 1. Articles are classified into event types by keyword
+ * 2. Event impact decays with the type's half-life
+ * 3. Articles without credit-relevant events are ignored
+ * 4. Keywords with everyday meanings (FAA, "by default", ground staff) are not events
+ * 5. Airline matching uses ICAO tags, falling back to name
+ * 6. RSS items are parsed into articles
+ * 7. News only counts towards the overall score when it raises it
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { classifyNewsEvents, mentionsAirline } from '../sources/news';
+import { parseRss, NewsArticle } from '../sources/newsFeed';
+import { DEFAULT_RISK_CONFIG, RiskDimensionKey, getBlendWeights } from '../risk-model';
+
+const AS_OF = new Date('2025-01-01T00:00:00Z');
+
+function overallScore(scores: Partial<Record<RiskDimensionKey, number | null>>): number {
+  const weights = getBlendWeights(scores, DEFAULT_RISK_CONFIG);
+  return (Object.keys(weights) as RiskDimensionKey[]).reduce(
+    (sum, key) => sum + (scores[key] as number) * (weights[key] as number),
+    0
+  );
+}
+
+function article(overrides: Partial<NewsArticle>): NewsArticle {
+  return {
+    id: 'test',
+    title: 'Example Airways reports quarterly results',
+    publishedAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('News Risk Source', () => {
+  it('should classify articles into event types', () => {
+    const events = classifyNewsEvents(
+      [
+        article({ title: 'Example Airways files for Chapter 11 protection' }),
+        article({ title: 'Cabin crew announce strike over pay' }),
+        article({ title: 'Regulator grounds fleet after audit' }),
+      ],
+      AS_OF
+    );
+
+    expect(events.map(e => e.type)).toEqual(['restructuring', 'grounding', 'strike']);
+    expect(events[0].decayedImpact).toBe(40);
+  });
+
+  it('should decay impact by half-life', () => {
+    // Restructuring half-life is 180 days
+    const [event] = classifyNewsEvents(
+      [article({ title: 'Example Airways enters administration', publishedAt: '2024-07-05T00:00:00Z' })],
+      AS_OF
+    );
+
+    expect(event.ageDays).toBe(180);
+    expect(event.decayedImpact).toBe(20);
+  });
+
+  it('should ignore articles without credit-relevant events', () => {
+    const events = classifyNewsEvents([article({})], AS_OF);
+    expect(events).toHaveLength(0);
+  });
+
+  it('should not classify everyday uses of event keywords', () => {
+    const events = classifyNewsEvents(
+      [
+        article({ title: 'Federal Aviation Administration approves new Example Airways routes' }),
+        article({ title: 'Example Airways app now offers seat selection by default' }),
+        article({ title: 'Example Airways ground staff stage one-day walkout' }),
+      ],
+      AS_OF
+    );
+
+    expect(events.map(e => e.type)).toEqual(['strike']);
+
+    const tightened = classifyNewsEvents(
+      [
+        article({ title: 'Example Airways placed into administration' }),
+        article({ title: 'Example Airways defaulted on its bond coupon' }),
+        article({ title: 'Example Airways grounds its A220 fleet' }),
+      ],
+      AS_OF
+    );
+
+    expect(tightened.map(e => e.type)).toEqual(['paymentDefault', 'restructuring', 'grounding']);
+  });
+
+  it('should match airlines by ICAO tag or name', () => {
+    expect(mentionsAirline(article({ airlines: ['EXA'] }), 'exa', 'Example Airways')).toBe(true);
+    expect(mentionsAirline(article({ airlines: ['OTH'] }), 'EXA', 'Example Airways')).toBe(false);
+    expect(mentionsAirline(article({}), 'EXA', 'Example Airways')).toBe(true);
+  });
+
+  it('should parse RSS items', () => {
+    const xml = `<rss><channel>
+      <item><title><![CDATA[Airline &amp; union agree deal]]></title><link>https://example.com/a</link><pubDate>Tue, 10 Dec 2024 08:00:00 GMT</pubDate></item>
+      <item><title>Missing date</title></item>
+    </channel></rss>`;
+
+    const articles = parseRss(xml, 'test');
+    expect(articles).toHaveLength(1);
+    expect(articles[0].title).toBe('Airline & union agree deal');
+    expect(articles[0].id).toBe('https://example.com/a');
+  });
+
+  it('should only let news raise the overall score', () => {
+    const highRisk = { jurisdiction: 85, scale: 80, assetLiquidity: 75, financial: 90, activity: 80 };
+    const base = overallScore(highRisk);
+
+    // A strike (50 + 10 points) sits below the airline's score and is left out
+    expect(overallScore({ ...highRisk, news: 60 })).toBeCloseTo(base, 6);
+    expect(getBlendWeights({ ...highRisk, news: 60 }, DEFAULT_RISK_CONFIG).news).toBeUndefined();
+
+    // A restructuring (50 + 40 points) above it is blended in
+    expect(overallScore({ ...highRisk, news: 90 })).toBeGreaterThan(base);
+
+    // For a low-risk airline the same strike raises the score
+    const lowRisk = { jurisdiction: 20, scale: 25, assetLiquidity: 30, financial: 20, activity: 25 };
+    expect(overallScore({ ...lowRisk, news: 60 })).toBeGreaterThan(overallScore(lowRisk));
+  });
+});
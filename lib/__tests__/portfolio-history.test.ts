@@ -0,0 +1,68 @@
+/**
+ * Unit tests for portfolio risk history
+ *
+ * Test cases:
+ * 1. Quarter start is the first day of the calendar quarter
+ * 2. Trajectory opens at the last snapshot before the period start
+ * 3. Trajectory opens at the first snapshot when history starts within the period
+ * 4. Empty history has no trajectory
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { getQuarterStart, summarizeTrajectory, RiskHistoryPoint } from '../portfolio-history';
+
+function point(date: string, adjustedRisk: number): RiskHistoryPoint {
+  return {
+    calculatedAt: new Date(date),
+    totalExposure: 1000000,
+    baseRisk: adjustedRisk,
+    adjustedRisk,
+    concentrationPenalty: 0,
+    maxConcentration: 0.3,
+    riskBucket: 'Medium',
+    buckets: { low: 0, medium: 1000000, high: 0 },
+    airlineCount: 4,
+    expectedLoss: 5000,
+    modelVersion: '2.0',
+    trigger: 'scheduled',
+  };
+}
+
+describe('Portfolio Risk History', () => {
+  it('should find the start of the quarter', () => {
+    expect(getQuarterStart(new Date(2026, 7, 15))).toEqual(new Date(2026, 6, 1));
+    expect(getQuarterStart(new Date(2026, 0, 1))).toEqual(new Date(2026, 0, 1));
+    expect(getQuarterStart(new Date(2026, 11, 31))).toEqual(new Date(2026, 9, 1));
+  });
+
+  it('should open the period at the last snapshot before it', () => {
+    const points = [
+      point('2026-05-01T00:00:00Z', 40),
+      point('2026-06-20T00:00:00Z', 45),
+      point('2026-07-10T00:00:00Z', 60),
+      point('2026-08-01T00:00:00Z', 52),
+    ];
+
+    const trajectory = summarizeTrajectory(points, new Date('2026-07-01T00:00:00Z'))!;
+
+    expect(trajectory.startRisk).toBe(45);
+    expect(trajectory.latestRisk).toBe(52);
+    expect(trajectory.change).toBe(7);
+    expect(trajectory.minRisk).toBe(45);
+    expect(trajectory.maxRisk).toBe(60);
+  });
+
+  it('should open at the first snapshot when history starts in the period', () => {
+    const points = [point('2026-07-10T00:00:00Z', 60), point('2026-08-01T00:00:00Z', 52.5)];
+
+    const trajectory = summarizeTrajectory(points, new Date('2026-07-01T00:00:00Z'))!;
+
+    expect(trajectory.startRisk).toBe(60);
+    expect(trajectory.change).toBe(-7.5);
+  });
+
+  it('should return null without history', () => {
+    expect(summarizeTrajectory([])).toBeNull();
+  });
+});
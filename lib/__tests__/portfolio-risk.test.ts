@@ -3,22 +3,30 @@
  * 
  * Test cases:
  * 1. No exposures - should return zero values
- * 2. Diversified portfolio - no concentration penalty
- * 3. 55% concentration - should apply +5 penalty
- * 4. 75% concentration - should apply +10 penalty
- * 5. Score clamping at 100
+ * 2. Three equal names - small single-name penalty (HHI 0.33)
+ * 3. 55/45 split - single-name penalty 4.6 (HHI 0.505)
+ * 4. 75/25 split - single-name penalty 6.4 (HHI 0.625)
+ * 5. Score clamping at 100 (single name adds the full 12)
+ * 6. A small exposure change moves the single-name penalty only slightly
+ *
+ * Airlines are spread over countries in different regions, so the country and region
+ * penalties (lib/concentration.ts) are known whatever region data is available
  * 
  * Run with: npm test or npx jest
  */
 
 import { PrismaClient } from '@prisma/client';
-import { calculatePortfolioRisk } from '../portfolio-risk';
+import { calculatePortfolioRisk, summarizeRiskRows, CurrencyRiskResult } from '../portfolio-risk';
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
 
 const prisma = new PrismaClient();
 
 describe('Portfolio Risk Calculation', () => {
   let testPortfolioIds: string[] = [];
 
+  const segmentPenalty = (risk: Awaited<ReturnType<typeof calculatePortfolioRisk>>, segment: string) =>
+    risk?.segmentConcentration.find(s => s.segment === segment)?.penalty;
+
   afterAll(async () => {
     // Cleanup test data
     for (const id of testPortfolioIds) {
@@ -52,15 +60,15 @@ describe('Portfolio Risk Calculation', () => {
     expect(risk?.riskBucket).toBe('Low');
   });
 
-  test('should calculate risk for diversified portfolio with no penalty', async () => {
+  test('should apply a small single-name penalty to three equal names', async () => {
     // Create test airlines
     const airline1 = await prisma.airline.upsert({
       where: { icao: 'TST1' },
-      update: {},
+      update: { country: 'United States' },
       create: {
         icao: 'TST1',
         name: 'Test Airline 1',
-        country: 'US',
+        country: 'United States',
         iata: 'T1',
         fleetSize: 100,
         active: true,
@@ -69,11 +77,11 @@ describe('Portfolio Risk Calculation', () => {
 
     const airline2 = await prisma.airline.upsert({
       where: { icao: 'TST2' },
-      update: {},
+      update: { country: 'France' },
       create: {
         icao: 'TST2',
         name: 'Test Airline 2',
-        country: 'US',
+        country: 'France',
         iata: 'T2',
         fleetSize: 100,
         active: true,
@@ -82,11 +90,11 @@ describe('Portfolio Risk Calculation', () => {
 
     const airline3 = await prisma.airline.upsert({
       where: { icao: 'TST3' },
-      update: {},
+      update: { country: 'Japan' },
       create: {
         icao: 'TST3',
         name: 'Test Airline 3',
-        country: 'US',
+        country: 'Japan',
         iata: 'T3',
         fleetSize: 100,
         active: true,
@@ -164,21 +172,24 @@ describe('Portfolio Risk Calculation', () => {
     expect(risk).not.toBeNull();
     expect(risk?.totalExposure).toBe(3000000);
     expect(risk?.baseRisk).toBe(50); // All airlines have score of 50
-    expect(risk?.adjustedRisk).toBe(50); // No penalty
-    expect(risk?.concentrationPenalty).toBe(0); // Max concentration is 33.3%
+    expect(risk?.adjustedRisk).toBe(52); // 50 + 2 penalty
+    expect(risk?.singleNamePenalty).toBe(2); // 12 x (0.333 - 0.2) / 0.8
+    expect(risk?.concentrationPenalty).toBe(2);
     expect(risk?.maxConcentration).toBeCloseTo(0.333, 2);
+    expect(segmentPenalty(risk, 'country')).toBe(0); // Three countries, HHI 0.33
+    expect(segmentPenalty(risk, 'region')).toBe(0);
     expect(risk?.riskBucket).toBe('Medium'); // 50 is in 40-69 range
   });
 
-  test('should apply +5 penalty for 55% concentration', async () => {
+  test('should apply the HHI penalty for a 55/45 split', async () => {
     // Create test airlines
     const airline1 = await prisma.airline.upsert({
       where: { icao: 'CNT1' },
-      update: {},
+      update: { country: 'United States' },
       create: {
         icao: 'CNT1',
         name: 'Concentrated Airline 1',
-        country: 'US',
+        country: 'United States',
         iata: 'C1',
         fleetSize: 100,
         active: true,
@@ -187,11 +198,11 @@ describe('Portfolio Risk Calculation', () => {
 
     const airline2 = await prisma.airline.upsert({
       where: { icao: 'CNT2' },
-      update: {},
+      update: { country: 'France' },
       create: {
         icao: 'CNT2',
         name: 'Concentrated Airline 2',
-        country: 'US',
+        country: 'France',
         iata: 'C2',
         fleetSize: 100,
         active: true,
@@ -252,21 +263,24 @@ describe('Portfolio Risk Calculation', () => {
     expect(risk).not.toBeNull();
     expect(risk?.totalExposure).toBe(10000000);
     expect(risk?.baseRisk).toBe(45);
-    expect(risk?.adjustedRisk).toBe(50); // 45 + 5 penalty
-    expect(risk?.concentrationPenalty).toBe(5);
+    expect(risk?.adjustedRisk).toBe(52.6); // 45 + 7.6 penalty
+    expect(risk?.singleNamePenalty).toBe(4.6); // 12 x (0.505 - 0.2) / 0.8
+    expect(risk?.concentrationPenalty).toBe(7.6); // Plus 3 for country
     expect(risk?.maxConcentration).toBe(0.55);
+    expect(segmentPenalty(risk, 'country')).toBe(3); // Country HHI 0.505 > 0.4
+    expect(segmentPenalty(risk, 'region')).toBe(0);  // Region HHI 0.505 < 0.6
     expect(risk?.riskBucket).toBe('Medium');
   });
 
-  test('should apply +10 penalty for 75% concentration', async () => {
+  test('should apply the HHI penalty for a 75/25 split', async () => {
     // Create test airlines
     const airline1 = await prisma.airline.upsert({
       where: { icao: 'HCN1' },
-      update: {},
+      update: { country: 'United States' },
       create: {
         icao: 'HCN1',
         name: 'High Concentration Airline 1',
-        country: 'US',
+        country: 'United States',
         iata: 'H1',
         fleetSize: 100,
         active: true,
@@ -275,11 +289,11 @@ describe('Portfolio Risk Calculation', () => {
 
     const airline2 = await prisma.airline.upsert({
       where: { icao: 'HCN2' },
-      update: {},
+      update: { country: 'Japan' },
       create: {
         icao: 'HCN2',
         name: 'High Concentration Airline 2',
-        country: 'US',
+        country: 'Japan',
         iata: 'H2',
         fleetSize: 100,
         active: true,
@@ -293,7 +307,6 @@ describe('Portfolio Risk Calculation', () => {
         overallScore: 60,
         riskBucket: 'Medium',
         sourceData: JSON.stringify({}),
-        sourceData: JSON.stringify({}),
         calculatedAt: new Date(),
         expiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000),
       },
@@ -341,21 +354,24 @@ describe('Portfolio Risk Calculation', () => {
     expect(risk).not.toBeNull();
     expect(risk?.totalExposure).toBe(10000000);
     expect(risk?.baseRisk).toBe(60);
-    expect(risk?.adjustedRisk).toBe(70); // 60 + 10 penalty
-    expect(risk?.concentrationPenalty).toBe(10);
+    expect(risk?.adjustedRisk).toBe(71.4); // 60 + 11.4 penalty
+    expect(risk?.singleNamePenalty).toBe(6.4); // 12 x (0.625 - 0.2) / 0.8
+    expect(risk?.concentrationPenalty).toBe(11.4); // Plus 3 for country and 2 for region
     expect(risk?.maxConcentration).toBe(0.75);
-    expect(risk?.riskBucket).toBe('High'); // 70 is at the High threshold
+    expect(segmentPenalty(risk, 'country')).toBe(3); // Country HHI 0.625 > 0.4
+    expect(segmentPenalty(risk, 'region')).toBe(2);  // Region HHI 0.625 > 0.6
+    expect(risk?.riskBucket).toBe('High'); // Above the High threshold of 70
   });
 
   test('should clamp adjusted risk at 100', async () => {
     // Create test airline
     const airline = await prisma.airline.upsert({
       where: { icao: 'CLMP' },
-      update: {},
+      update: { country: 'United States' },
       create: {
         icao: 'CLMP',
         name: 'Clamp Test Airline',
-        country: 'US',
+        country: 'United States',
         iata: 'CL',
         fleetSize: 100,
         active: true,
@@ -369,7 +385,6 @@ describe('Portfolio Risk Calculation', () => {
         overallScore: 95,
         riskBucket: 'High',
         sourceData: JSON.stringify({}),
-        sourceData: JSON.stringify({}),
         calculatedAt: new Date(),
         expiresAt: new Date(Date.now() + 6 * 60 * 60 * 1000),
       },
@@ -397,9 +412,39 @@ describe('Portfolio Risk Calculation', () => {
 
     expect(risk).not.toBeNull();
     expect(risk?.baseRisk).toBe(95);
-    expect(risk?.concentrationPenalty).toBe(10); // 100% > 0.7
-    expect(risk?.adjustedRisk).toBe(100); // Should be clamped at 100 (not 105)
+    expect(risk?.singleNamePenalty).toBe(12); // HHI 1
+    expect(risk?.concentrationPenalty).toBe(22); // Plus 6 for country and 4 for region
+    expect(risk?.adjustedRisk).toBe(100); // Should be clamped at 100 (not 117)
     expect(risk?.maxConcentration).toBe(1.0);
+    expect(segmentPenalty(risk, 'country')).toBe(6); // Everything in one country
+    expect(segmentPenalty(risk, 'region')).toBe(4);
     expect(risk?.riskBucket).toBe('High');
   });
+
+  test('should move the single-name penalty smoothly with exposure', () => {
+    const row = (icao: string, country: string, exposure: number): CurrencyRiskResult['rows'][number] => ({
+      airline: { icao, name: icao, country },
+      exposure,
+      risk: 50,
+      riskBucket: 'Medium',
+      segments: { region: null, subregion: null, jurisdictionBand: null },
+      ratingGrade: 'BB',
+      pd: 0.008,
+      lgd: 0.45,
+      expectedLoss: exposure * 0.008 * 0.45,
+      lgdBasis: 'unsecured',
+    });
+
+    // The step model added 5 points once the largest name passed 50%, and 10 past 70%
+    const even = summarizeRiskRows([row('SML1', 'United States', 5000000), row('SML2', 'France', 5000000)], DEFAULT_RISK_CONFIG);
+    const tilted = summarizeRiskRows([row('SML1', 'United States', 5100000), row('SML2', 'France', 4900000)], DEFAULT_RISK_CONFIG);
+    const seventy = summarizeRiskRows([row('SML1', 'United States', 7000000), row('SML2', 'France', 3000000)], DEFAULT_RISK_CONFIG);
+    const seventyOne = summarizeRiskRows([row('SML1', 'United States', 7100000), row('SML2', 'France', 2900000)], DEFAULT_RISK_CONFIG);
+
+    expect(even.singleNamePenalty).toBe(4.5);
+    expect(tilted.singleNamePenalty).toBe(4.5);
+    expect(seventy.singleNamePenalty).toBe(5.7);
+    expect(seventyOne.singleNamePenalty).toBe(5.8);
+    expect(seventyOne.adjustedRisk - seventy.adjustedRisk).toBeCloseTo(0.1, 5);
+  });
 });
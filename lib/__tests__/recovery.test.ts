@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the aircraft recovery model
+ *
+ * Test cases:
+ * 1. A Cape Town jurisdiction with IDERA keeps the base recovery haircut
+ * 2. Slow repossession without IDERA widens the haircut and LGD
+ * 3. Missing figures are estimated from Cape Town status; unknown countries use defaults
+ * 4. Expected loss uses the jurisdiction haircut, for unsecured exposures as well as collateralised ones
+ * 5. The credit loss simulation starts from each exposure's jurisdiction haircut
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  buildRecoveryProfile,
+  BENCHMARK_RECOVERY_COST,
+  MAX_RECOVERY_HAIRCUT,
+} from '../recovery';
+import { ASSET_RECOVERY_HAIRCUT, calculateExpectedLoss, UNSECURED_LGD } from '../expected-loss';
+import { simulatePortfolioLosses, SimulationExposure } from '../credit-simulation';
+import { CountryIndicators } from '../sources/countryIndicators';
+
+const capeTown: CountryIndicators = {
+  country: 'Exampleland',
+  asOf: '2026-06-30',
+  capeTownRatified: true,
+  repossessionScore: 90,
+  repossessionMonths: 2,
+  legalCostPct: 2,
+  ideraAvailable: true,
+};
+
+const slowCourts: CountryIndicators = {
+  country: 'Slowland',
+  asOf: '2026-06-30',
+  capeTownRatified: false,
+  repossessionScore: 40,
+  repossessionMonths: 12,
+  legalCostPct: 5,
+  ideraAvailable: false,
+};
+
+describe('Aircraft recovery', () => {
+  test('Cape Town jurisdiction keeps the base haircut', () => {
+    const profile = buildRecoveryProfile('Exampleland', capeTown);
+
+    expect(profile.recoveryCost).toBeCloseTo(BENCHMARK_RECOVERY_COST);
+    expect(profile.haircut).toBe(ASSET_RECOVERY_HAIRCUT);
+    expect(profile.monthsToExport).toBe(2);
+    expect(profile.basis).toBe('dataset');
+  });
+
+  test('slow repossession without IDERA widens the haircut', () => {
+    const profile = buildRecoveryProfile('Slowland', slowCourts);
+
+    // 12 months plus 3 to deregister, at 1% a month, plus 5% legal cost: 0.20 over the 0.04 benchmark
+    expect(profile.monthsToExport).toBe(15);
+    expect(profile.recoveryCost).toBe(0.2);
+    expect(profile.haircut).toBe(0.36);
+
+    expect(buildRecoveryProfile('Nowhere', { ...slowCourts, repossessionMonths: 120 }).haircut).toBe(MAX_RECOVERY_HAIRCUT);
+  });
+
+  test('estimates missing figures and defaults unknown countries', () => {
+    const derived = buildRecoveryProfile('Exampleland', {
+      country: 'Exampleland',
+      asOf: '2026-06-30',
+      capeTownRatified: true,
+      repossessionScore: 50,
+    });
+    expect(derived.repossessionMonths).toBe(5);
+    expect(derived.legalCostPct).toBe(2);
+    expect(derived.ideraAvailable).toBe(true);
+
+    const unknown = buildRecoveryProfile('Atlantis');
+    expect(unknown.basis).toBe('default');
+    expect(unknown.capeTownRatified).toBeNull();
+    expect(unknown.ideraAvailable).toBe(false);
+    expect(unknown.haircut).toBeGreaterThan(ASSET_RECOVERY_HAIRCUT);
+  });
+
+  test('expected loss uses the jurisdiction haircut', () => {
+    const fast = calculateExpectedLoss(45, 50000000, 50000000, 0, undefined, buildRecoveryProfile('Exampleland', capeTown).haircut);
+    const slow = calculateExpectedLoss(45, 50000000, 50000000, 0, undefined, buildRecoveryProfile('Slowland', slowCourts).haircut);
+
+    expect(fast.lgd).toBe(0.2);
+    expect(slow.lgd).toBe(0.36);
+    expect(slow.expectedLoss).toBeGreaterThan(fast.expectedLoss);
+
+    // Without asset values the unsecured LGD widens by the same 16 points
+    expect(calculateExpectedLoss(45, 50000000, 0, 0, undefined, ASSET_RECOVERY_HAIRCUT).lgd).toBe(UNSECURED_LGD);
+    expect(calculateExpectedLoss(45, 50000000, 0, 0, undefined, 0.36).lgd).toBe(0.61);
+  });
+
+  test('simulation starts from each exposure\'s haircut', () => {
+    const exposure = (recoveryHaircut?: number): SimulationExposure => ({
+      id: 'e1',
+      airlineIcao: 'EXA',
+      airlineName: 'Example Airways',
+      country: 'Slowland',
+      exposure: 1000000,
+      pd: 1,
+      assetValue: 1000000,
+      securityHeld: 0,
+      recoveryHaircut,
+    });
+
+    const options = { trials: 10, seed: 1, haircutStress: 0 };
+    expect(simulatePortfolioLosses([exposure(0.36)], options).expectedLoss).toBeCloseTo(360000);
+    expect(simulatePortfolioLosses([exposure()], options).expectedLoss).toBeCloseTo(200000);
+  });
+});
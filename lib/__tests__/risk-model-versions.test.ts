@@ -0,0 +1,115 @@
+/**
+ * Unit tests for versioned risk model parameters
+ *
+ * Test cases:
+ * 1. Default concentration model gives a continuous single-name penalty
+ * 2. Custom concentration model and thresholds flow into scenario results
+ * 3. Stored model versions are parsed into a RiskConfig
+ * 4. Invalid model versions are rejected, including numeric versions and weights that don't total 1
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
+import { getNameConcentrationPenalty } from '../concentration';
+import { calculateScenarioRisk } from '../scenario-calculator';
+import { toRiskConfig, validateRiskModelVersion, RiskModelVersionInput } from '../risk-model-versions';
+
+function versionInput(overrides: Partial<RiskModelVersionInput>): RiskModelVersionInput {
+  return {
+    version: 'conservative-1',
+    weights: { jurisdiction: 0.3, scale: 0.2, assetLiquidity: 0.2, financial: 0.3 },
+    enabledSources: ['jurisdiction', 'scale', 'assetLiquidity', 'financial'],
+    concentrationModel: { diversifiedNames: 4, maxPenalty: 15 },
+    ratingScale: [
+      { grade: 'A', maxScore: 40, pd: 0.001 },
+      { grade: 'B', maxScore: 100, pd: 0.05 },
+    ],
+    lowMax: 35,
+    mediumMax: 65,
+    ...overrides,
+  };
+}
+
+describe('Risk Model Versions', () => {
+  it('should give a continuous default single-name penalty', () => {
+    const model = DEFAULT_RISK_CONFIG.concentrationModel;
+
+    expect(getNameConcentrationPenalty(0.2, model)).toBe(0);
+    expect(getNameConcentrationPenalty(0.5, model)).toBe(4.5);
+    expect(getNameConcentrationPenalty(1, model)).toBe(12);
+    // No cliff: a 1% move around the old 50% threshold moves the penalty by a fraction of a point
+    expect(getNameConcentrationPenalty(0.51, model) - getNameConcentrationPenalty(0.49, model)).toBeLessThan(0.5);
+  });
+
+  it('should apply a custom concentration model and thresholds in scenarios', () => {
+    const result = calculateScenarioRisk({
+      currency: 'USD',
+      exposures: [
+        { airlineIcao: 'AAA', airlineName: 'A', airlineCountry: 'X', exposure: 45, risk: 30, riskBucket: 'Low' },
+        { airlineIcao: 'BBB', airlineName: 'B', airlineCountry: 'X', exposure: 55, risk: 30, riskBucket: 'Low' },
+      ],
+      concentrationModel: { diversifiedNames: 4, maxPenalty: 15 },
+      segmentConcentrationRules: { country: [], region: [], subregion: [], jurisdictionBand: [] },
+      bucketThresholds: { lowMax: 35, mediumMax: 65 },
+    });
+
+    // HHI 0.505: 15 x (0.505 - 0.25) / 0.75
+    expect(result.effectiveNames).toBe(2);
+    expect(result.concentrationPenalty).toBe(5.1);
+    expect(result.adjustedRisk).toBe(35.1);
+    expect(result.riskBucket).toBe('Medium');
+  });
+
+  it('should parse stored versions into a risk config', () => {
+    const input = versionInput({});
+    const config = toRiskConfig({
+      version: input.version,
+      weights: JSON.stringify(input.weights),
+      enabledSources: JSON.stringify(input.enabledSources),
+      concentrationModel: JSON.stringify(input.concentrationModel),
+      lowMax: input.lowMax,
+      mediumMax: input.mediumMax,
+    });
+
+    expect(config.modelVersion).toBe('conservative-1');
+    expect(config.weights.jurisdiction).toBe(0.3);
+    expect(config.enabledSources).not.toContain('news');
+    expect(config.bucketThresholds).toEqual({ lowMax: 35, mediumMax: 65 });
+    expect(config.cacheDurationMinutes).toBe(DEFAULT_RISK_CONFIG.cacheDurationMinutes);
+    expect(config.ratingScale).toEqual(DEFAULT_RISK_CONFIG.ratingScale); // Not stored - default scale
+    expect(config.segmentConcentrationRules).toEqual(DEFAULT_RISK_CONFIG.segmentConcentrationRules);
+    expect(config.concentrationModel).toEqual({ diversifiedNames: 4, maxPenalty: 15 });
+
+    // Versions stored without a concentration model use the default
+    expect(toRiskConfig({ version: 'conservative-1', weights: '{}', enabledSources: '[]', lowMax: 35, mediumMax: 65 }).concentrationModel)
+      .toEqual(DEFAULT_RISK_CONFIG.concentrationModel);
+  });
+
+  it('should reject invalid model versions', () => {
+    const defaultTotal = DEFAULT_RISK_CONFIG.enabledSources.reduce((sum, key) => sum + (DEFAULT_RISK_CONFIG.weights[key] ?? 0), 0);
+    expect(defaultTotal).toBeCloseTo(1, 6);
+    expect(validateRiskModelVersion(versionInput({}))).toBeNull();
+    expect(validateRiskModelVersion(versionInput({ version: DEFAULT_RISK_CONFIG.modelVersion }))).toMatch(/reserved/);
+    expect(validateRiskModelVersion(versionInput({ version: '3.0' }))).toMatch(/reserved/);
+    expect(validateRiskModelVersion(versionInput({ version: 'v2' }))).toMatch(/reserved/);
+    expect(validateRiskModelVersion(versionInput({ enabledSources: [] }))).toMatch(/At least one/);
+    expect(validateRiskModelVersion(versionInput({ weights: { jurisdiction: 1.5 } }))).toMatch(/jurisdiction/);
+    expect(
+      validateRiskModelVersion(versionInput({ weights: { jurisdiction: 0.3, scale: 0.3, assetLiquidity: 0.3, financial: 0.3 } }))
+    ).toMatch(/must total 1 \(currently 1.2\)/);
+    expect(validateRiskModelVersion(versionInput({ lowMax: 70, mediumMax: 40 }))).toMatch(/Thresholds/);
+    expect(
+      validateRiskModelVersion(versionInput({ concentrationModel: { diversifiedNames: 1, maxPenalty: 5 } }))
+    ).toMatch(/greater than 1/);
+    expect(
+      validateRiskModelVersion(versionInput({ concentrationModel: { diversifiedNames: 5, maxPenalty: 150 } }))
+    ).toMatch(/between 0 and 100/);
+    expect(
+      validateRiskModelVersion(versionInput({ ratingScale: [{ grade: 'A', maxScore: 90, pd: 0.01 }] }))
+    ).toMatch(/up to 100/);
+    expect(
+      validateRiskModelVersion(versionInput({ segmentConcentrationRules: { ...DEFAULT_RISK_CONFIG.segmentConcentrationRules, country: [{ minConcentration: 0, penalty: 3 }] } }))
+    ).toMatch(/country: Concentration thresholds/);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for analyst risk overrides
+ *
+ * Test cases:
+ * 1. A component override recombines the overall score with the model weights
+ * 2. An overall override wins over component overrides, and the newest override per target applies
+ * 3. Risk results keep the model values alongside the overridden ones
+ * 4. Snapshot overrides feed portfolio calculations without changing the stored snapshot
+ * 5. Overrides need a valid target, score, reason, analyst and future expiry
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  applyOverrides,
+  applyRiskOverrides,
+  applySnapshotOverrides,
+  validateRiskOverride,
+  MAX_ATTACHMENT_BYTES,
+  OverrideRecord,
+} from '../risk-overrides';
+import { DEFAULT_RISK_CONFIG, RiskResult } from '../risk-model';
+
+const expiresAt = new Date('2026-12-31T00:00:00Z');
+
+function override(target: string, score: number, createdAt: string): OverrideRecord {
+  return {
+    id: `${target}-${createdAt}`,
+    target,
+    score,
+    reason: 'Government support announced',
+    analyst: 'J. Smith',
+    expiresAt,
+    createdAt: new Date(createdAt),
+  };
+}
+
+// Jurisdiction 20, scale 30, financial 50 at weights 0.20/0.15/0.30 -> 36.2 overall
+const scores = {
+  overallScore: 36.2,
+  riskBucket: 'Low',
+  components: { jurisdiction: 20, scale: 30, assetLiquidity: null, financial: 50, news: null },
+};
+
+describe('Risk overrides', () => {
+  test('component override recombines the overall score', () => {
+    const { scores: overridden, applied } = applyOverrides(
+      scores,
+      [override('financial', 90, '2026-03-01')],
+      DEFAULT_RISK_CONFIG
+    );
+
+    expect(overridden.components.financial).toBe(90);
+    expect(overridden.overallScore).toBe(54.6);
+    expect(overridden.riskBucket).toBe('Medium');
+    expect(applied).toEqual([expect.objectContaining({ target: 'financial', score: 90, modelScore: 50 })]);
+  });
+
+  test('overall override wins and the newest override per target applies', () => {
+    const { scores: overridden, applied } = applyOverrides(
+      scores,
+      [
+        override('financial', 90, '2026-03-01'),
+        override('overall', 80, '2026-03-01'),
+        override('overall', 75, '2026-03-05'),
+      ],
+      DEFAULT_RISK_CONFIG
+    );
+
+    expect(overridden.overallScore).toBe(75);
+    expect(overridden.riskBucket).toBe('High');
+    expect(applied.map(item => item.target)).toEqual(['financial', 'overall']);
+    expect(applied[1].modelScore).toBe(54.6);
+  });
+
+  test('risk results keep model values alongside overridden ones', () => {
+    const result: RiskResult = {
+      overallScore: 36.2,
+      riskBucket: 'Low',
+      components: {
+        jurisdiction: { score: 20, confidence: 'HIGH', metadata: {} },
+        scale: { score: 30, confidence: 'HIGH', metadata: {} },
+        financial: { score: 50, confidence: 'MEDIUM', metadata: {} },
+      },
+      breakdown: [
+        { key: 'jurisdiction', name: 'Jurisdiction', score: 20, confidence: 'HIGH', weight: 0.25 },
+        { key: 'financial', name: 'Financial', score: 50, confidence: 'MEDIUM', weight: 0.35 },
+      ],
+      context: { airline: { icao: 'AFR', name: 'Air France', country: 'France', active: true } },
+      calculatedAt: new Date('2026-03-01T12:00:00Z'),
+      expiresAt: new Date('2026-03-01T18:00:00Z'),
+    };
+
+    expect(applyRiskOverrides(result, [], DEFAULT_RISK_CONFIG)).toBe(result);
+
+    const overridden = applyRiskOverrides(result, [override('financial', 90, '2026-03-01')], DEFAULT_RISK_CONFIG);
+
+    expect(overridden.overallScore).toBe(54.6);
+    expect(overridden.components.financial?.score).toBe(90);
+    expect(overridden.breakdown[1]).toEqual(expect.objectContaining({ score: 90, modelScore: 50 }));
+    expect(overridden.breakdown[0].modelScore).toBeUndefined();
+    expect(overridden.overrides).toEqual(
+      expect.objectContaining({ modelOverallScore: 36.2, modelRiskBucket: 'Low' })
+    );
+    expect(result.components.financial?.score).toBe(50);
+  });
+
+  test('snapshot overrides feed portfolio calculations', () => {
+    const snapshot = {
+      id: 'snap-1',
+      overallScore: 36.2,
+      riskBucket: 'Low',
+      jurisdictionScore: 20,
+      scaleScore: 30,
+      assetLiquidityScore: null,
+      financialScore: 50,
+      newsScore: null,
+      activityScore: null,
+    };
+
+    expect(applySnapshotOverrides(snapshot, [], DEFAULT_RISK_CONFIG)).toBe(snapshot);
+    expect(applySnapshotOverrides(undefined, [override('overall', 80, '2026-03-01')], DEFAULT_RISK_CONFIG)).toBeUndefined();
+
+    const overridden = applySnapshotOverrides(snapshot, [override('jurisdiction', 60, '2026-03-01')], DEFAULT_RISK_CONFIG);
+
+    expect(overridden).toEqual(expect.objectContaining({
+      id: 'snap-1',
+      jurisdictionScore: 60,
+      overallScore: 48.5,
+      riskBucket: 'Medium',
+      modelOverallScore: 36.2,
+    }));
+    expect(snapshot.jurisdictionScore).toBe(20);
+  });
+
+  test('validates overrides', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const input = { target: 'financial', score: 70, reason: 'Covenant breach', analyst: 'J. Smith', expiresAt };
+
+    expect(validateRiskOverride(input, null, now)).toBeNull();
+    expect(validateRiskOverride({ ...input, target: 'country' }, null, now)).toMatch(/target/);
+    expect(validateRiskOverride({ ...input, score: 120 }, null, now)).toMatch(/between 0 and 100/);
+    expect(validateRiskOverride({ ...input, reason: ' ' }, null, now)).toMatch(/reason/);
+    expect(validateRiskOverride({ ...input, analyst: '' }, null, now)).toMatch(/Analyst/);
+    expect(validateRiskOverride({ ...input, expiresAt: new Date('2026-02-01') }, null, now)).toMatch(/future/);
+    expect(validateRiskOverride(input, { size: MAX_ATTACHMENT_BYTES + 1 }, now)).toMatch(/Attachment/);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the airline risk snapshot repository
+ *
+ * Test cases:
+ * 1. A stored result reads back with the same components, breakdown and context
+ * 2. Snapshots are reused only until they expire, from the active model version
+ * 3. Pre-2.0 snapshots are migrated to the 2.0 component keys, once
+ * 4. Invalid JSON columns are cleared
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { AirlineRiskSnapshot } from '@prisma/client';
+import {
+  getPendingMigrations,
+  isSnapshotCurrent,
+  toRiskResult,
+  toSnapshotData,
+  SNAPSHOT_MIGRATIONS,
+} from '../risk-snapshots';
+import { DEFAULT_RISK_CONFIG, RiskContext, RiskResult } from '../risk-model';
+
+const context: RiskContext = {
+  airline: { icao: 'AFR', name: 'Air France', country: 'France', active: true, ticker: 'AF.PA' },
+};
+
+const calculatedAt = new Date('2026-03-01T12:00:00Z');
+
+const result: RiskResult = {
+  overallScore: 36.9,
+  riskBucket: 'Low',
+  components: {
+    jurisdiction: { score: 25, confidence: 'HIGH', metadata: { region: 'Europe' } },
+    scale: { score: 20, confidence: 'HIGH', metadata: { fleetSize: 250 } },
+    assetLiquidity: { score: null, confidence: 'LOW', metadata: {} },
+    financial: { score: 55, confidence: 'MEDIUM', metadata: { debtToEquity: 3.1 } },
+  },
+  breakdown: [],
+  context,
+  calculatedAt,
+  expiresAt: new Date('2026-03-01T18:00:00Z'),
+  metadata: { missingComponents: ['Fleet & Asset Liquidity (proxy)'], reweighted: true, modelVersion: DEFAULT_RISK_CONFIG.modelVersion },
+};
+
+function stored(overrides: Partial<AirlineRiskSnapshot> = {}): AirlineRiskSnapshot {
+  return {
+    id: 'snap-1',
+    airlineId: 'airline-1',
+    createdAt: calculatedAt,
+    ...toSnapshotData(result),
+    ...overrides,
+  };
+}
+
+describe('Risk snapshots', () => {
+  test('reads back what was stored', () => {
+    const read = toRiskResult(stored(), DEFAULT_RISK_CONFIG, { airline: { ...context.airline, ticker: undefined } });
+
+    expect(read.components).toEqual({
+      jurisdiction: result.components.jurisdiction,
+      scale: result.components.scale,
+      financial: result.components.financial,
+    });
+    expect(read.breakdown.map(item => [item.key, item.weight])).toEqual([
+      ['jurisdiction', 0.2],
+      ['scale', 0.15],
+      ['financial', 0.3],
+    ]);
+    expect(read.breakdown[2].effectiveWeight).toBeCloseTo(0.3 / 0.65);
+    expect(read.context).toEqual(context);
+    expect(read.metadata).toEqual(result.metadata);
+    expect(read).toMatchObject({ overallScore: 36.9, riskBucket: 'Low', calculatedAt, expiresAt: result.expiresAt });
+  });
+
+  test('reuses snapshots until they expire, from the active model only', () => {
+    const before = new Date('2026-03-01T17:00:00Z');
+
+    expect(isSnapshotCurrent(stored(), DEFAULT_RISK_CONFIG, before)).toBe(true);
+    expect(isSnapshotCurrent(stored(), DEFAULT_RISK_CONFIG, new Date('2026-03-01T18:00:00Z'))).toBe(false);
+    expect(isSnapshotCurrent(stored(), { ...DEFAULT_RISK_CONFIG, modelVersion: 'conservative-1' }, before)).toBe(false);
+  });
+
+  test('migrates pre-2.0 snapshots once', () => {
+    const legacy = stored({
+      dataVersion: '1.0',
+      jurisdictionScore: null,
+      jurisdictionConfidence: null,
+      scaleScore: null,
+      scaleConfidence: null,
+      componentMetadata: JSON.stringify({ country: { region: 'Europe' }, activity: { flights: 900 }, financial: { debtToEquity: 3 } }),
+      missingComponents: null,
+    });
+
+    expect(getPendingMigrations(legacy).map(m => m.id)).toEqual(['legacy-dimensions']);
+    expect(isSnapshotCurrent({ ...legacy, dataVersion: DEFAULT_RISK_CONFIG.modelVersion }, DEFAULT_RISK_CONFIG, calculatedAt)).toBe(true);
+
+    const migration = SNAPSHOT_MIGRATIONS.find(m => m.id === 'legacy-dimensions')!;
+    const migrated = { ...legacy, ...migration.migrate(legacy) };
+
+    expect(JSON.parse(migrated.componentMetadata!)).toEqual({ jurisdiction: { region: 'Europe' }, financial: { debtToEquity: 3 } });
+    expect(migrated.missingComponents).toBe(
+      'Jurisdiction Risk (proxy), Scale & Network Strength, Fleet & Asset Liquidity (proxy), News & Events, Operational Activity'
+    );
+    expect(getPendingMigrations(migrated)).toHaveLength(0);
+    expect(getPendingMigrations(stored())).toHaveLength(0);
+  });
+
+  test('clears invalid JSON columns', () => {
+    const broken = stored({ sourceData: '[object Object]' });
+
+    expect(getPendingMigrations(broken).map(m => m.id)).toEqual(['json-columns']);
+    expect(isSnapshotCurrent(broken, DEFAULT_RISK_CONFIG, calculatedAt)).toBe(false);
+
+    const migration = SNAPSHOT_MIGRATIONS.find(m => m.id === 'json-columns')!;
+    expect(migration.migrate(broken)).toEqual({ sourceData: null, componentMetadata: broken.componentMetadata });
+  });
+});
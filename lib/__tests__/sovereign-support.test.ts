@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the sovereign support uplift
+ *
+ * Test cases:
+ * 1. A majority-owned, highly important carrier closes the importance share of the gap to its sovereign
+ * 2. Support scales down below a controlling stake and with lower importance
+ * 3. Without a sovereign rating the country dataset's rating is used, then the jurisdiction score;
+ *    a weaker sovereign gives no support
+ * 4. Ownership validation
+ * 5. Support is kept when an analyst overrides a component, and attributed in score history
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  applySovereignSupport,
+  getSupportFactor,
+  sovereignRatingToScore,
+  toOwnershipContext,
+  validateOwnership,
+} from '../sovereign-support';
+import { applyOverrides } from '../risk-overrides';
+import { attributeScoreChange, ScoreSnapshot } from '../airline-history';
+import { DEFAULT_RISK_CONFIG } from '../risk-model';
+
+const flagCarrier = { stateOwnership: 100, strategicImportance: 'high' as const, sovereignRating: 'AA' };
+
+describe('Sovereign support', () => {
+  test('majority-owned flag carrier moves toward its sovereign', () => {
+    // AA covers scores 0-10 on the default scale
+    expect(sovereignRatingToScore('AA', DEFAULT_RISK_CONFIG.ratingScale)).toBe(5);
+    expect(sovereignRatingToScore('A', DEFAULT_RISK_CONFIG.ratingScale)).toBe(15);
+    expect(sovereignRatingToScore('AAA', DEFAULT_RISK_CONFIG.ratingScale)).toBeNull();
+
+    const { score, support } = applySovereignSupport(45, flagCarrier, 20, DEFAULT_RISK_CONFIG);
+
+    expect(score).toBe(15);
+    expect(support).toEqual({
+      standaloneScore: 45,
+      sovereignScore: 5,
+      sovereignBasis: 'rating',
+      supportFactor: 0.75,
+      uplift: 30,
+    });
+  });
+
+  test('support scales with ownership and importance', () => {
+    expect(getSupportFactor(flagCarrier, DEFAULT_RISK_CONFIG)).toBe(0.75);
+    expect(getSupportFactor({ ...flagCarrier, stateOwnership: 51 }, DEFAULT_RISK_CONFIG)).toBe(0.75);
+    expect(getSupportFactor({ ...flagCarrier, stateOwnership: 25 }, DEFAULT_RISK_CONFIG)).toBe(0.375);
+    expect(getSupportFactor({ ...flagCarrier, strategicImportance: 'low' }, DEFAULT_RISK_CONFIG)).toBe(0.2);
+
+    const { score } = applySovereignSupport(45, { ...flagCarrier, stateOwnership: 25 }, 20, DEFAULT_RISK_CONFIG);
+    expect(score).toBeCloseTo(29.8);
+
+    expect(applySovereignSupport(45, { ...flagCarrier, stateOwnership: 0 }, 20, DEFAULT_RISK_CONFIG)).toEqual({ score: 45 });
+    expect(applySovereignSupport(45, undefined, 20, DEFAULT_RISK_CONFIG)).toEqual({ score: 45 });
+  });
+
+  test('falls back to the country rating, then the jurisdiction score, and never worsens the standalone score', () => {
+    const unrated = { ...flagCarrier, sovereignRating: undefined };
+
+    // AA+ from the country dataset maps to AA on the default scale (midpoint 5)
+    const country = applySovereignSupport(45, unrated, 25, DEFAULT_RISK_CONFIG, 'AA+');
+    expect(country.score).toBe(15);
+    expect(country.support).toMatchObject({ sovereignScore: 5, sovereignBasis: 'countryRating' });
+    expect(applySovereignSupport(45, flagCarrier, 25, DEFAULT_RISK_CONFIG, 'BB').support?.sovereignBasis).toBe('rating');
+    expect(applySovereignSupport(45, unrated, 25, DEFAULT_RISK_CONFIG, 'XYZ').support?.sovereignBasis).toBe('jurisdiction');
+
+    const { score, support } = applySovereignSupport(45, unrated, 25, DEFAULT_RISK_CONFIG);
+    expect(score).toBe(30);
+    expect(support?.sovereignBasis).toBe('jurisdiction');
+
+    expect(applySovereignSupport(45, unrated, 60, DEFAULT_RISK_CONFIG)).toEqual({ score: 45 });
+    expect(applySovereignSupport(3, flagCarrier, 20, DEFAULT_RISK_CONFIG)).toEqual({ score: 3 });
+    expect(applySovereignSupport(45, unrated, null, DEFAULT_RISK_CONFIG)).toEqual({ score: 45 });
+  });
+
+  test('validates ownership', () => {
+    const scale = DEFAULT_RISK_CONFIG.ratingScale;
+
+    expect(validateOwnership({ stateOwnership: 100, strategicImportance: 'high', sovereignRating: 'AA' }, scale)).toBeNull();
+    expect(validateOwnership({ stateOwnership: null }, scale)).toBeNull();
+    expect(validateOwnership({ stateOwnership: 120, strategicImportance: 'high' }, scale)).toMatch(/between 0 and 100/);
+    expect(validateOwnership({ stateOwnership: 50, strategicImportance: 'critical' }, scale)).toMatch(/importance/);
+    expect(validateOwnership({ stateOwnership: 50, strategicImportance: 'high', sovereignRating: 'AAA' }, scale)).toMatch(/rating scale/);
+
+    expect(toOwnershipContext({ stateOwnership: null, strategicImportance: null, sovereignRating: null })).toBeUndefined();
+    expect(toOwnershipContext({ stateOwnership: 53, strategicImportance: 'high', sovereignRating: null }))
+      .toEqual({ stateOwnership: 53, strategicImportance: 'high', sovereignRating: undefined });
+  });
+
+  test('support survives component overrides and is attributed in history', () => {
+    // Jurisdiction 20, scale 30 and financial 50 give a standalone 35.6, supported to 12.6
+    const support = { standaloneScore: 35.6, sovereignScore: 5, sovereignBasis: 'rating' as const, supportFactor: 0.75, uplift: 23 };
+    const { scores } = applyOverrides(
+      {
+        overallScore: 12.6,
+        riskBucket: 'Low',
+        components: { jurisdiction: 20, scale: 30, assetLiquidity: null, financial: 50, news: null },
+        support,
+      },
+      [{ id: 'o1', target: 'financial', score: 90, reason: 'Restructuring', analyst: 'J. Smith', expiresAt: new Date('2026-12-31'), createdAt: new Date('2026-03-01') }],
+      DEFAULT_RISK_CONFIG
+    );
+
+    // Standalone 54.6 is supported to 5 + 49.6 x 0.25
+    expect(scores.overallScore).toBe(17.4);
+
+    const snapshot = (overallScore: number, uplift: number | null): ScoreSnapshot => ({
+      calculatedAt: new Date('2026-03-01'),
+      overallScore,
+      riskBucket: 'Low',
+      dataVersion: '2.0',
+      jurisdictionScore: 20,
+      scaleScore: 30,
+      assetLiquidityScore: null,
+      financialScore: 50,
+      newsScore: null,
+      activityScore: null,
+      componentMetadata: null,
+      sovereignSupport: uplift === null ? null : JSON.stringify({ ...support, uplift }),
+    });
+
+    const change = attributeScoreChange(snapshot(35.6, null), snapshot(12.6, 23), DEFAULT_RISK_CONFIG, DEFAULT_RISK_CONFIG);
+    expect(change.supportEffect).toBe(-23);
+    expect(change.components).toEqual([]);
+  });
+});
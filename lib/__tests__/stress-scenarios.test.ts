@@ -0,0 +1,123 @@
+/**
+ * Unit tests for multi-shock stress scenarios
+ *
+ * Test cases:
+ * 1. Exposure shocks change, add and remove airlines
+ * 2. Score overrides and country/region shifts move airline scores and buckets
+ * 3. Component shocks pass through at the component weight
+ * 4. Shocks that no longer match the portfolio are skipped with a warning
+ * 5. Invalid shocks are rejected
+ *
+ * Run with: npm test or npx jest
+ */
+
+import { applyShocks, calculateScenarioRisk, ExposureRow } from '../scenario-calculator';
+import { validateScenarioShocks } from '../stress-scenarios';
+
+const rows: ExposureRow[] = [
+  {
+    airlineIcao: 'DLH',
+    airlineName: 'Lufthansa',
+    airlineCountry: 'Germany',
+    airlineRegion: 'Europe',
+    exposure: 100,
+    risk: 30,
+    riskBucket: 'Low',
+    components: {
+      financial: { score: 40, weight: 0.5 },
+      jurisdiction: { score: 20, weight: 0.5 },
+    },
+  },
+  {
+    airlineIcao: 'TAM',
+    airlineName: 'LATAM Brasil',
+    airlineCountry: 'Brazil',
+    airlineRegion: 'Americas',
+    exposure: 100,
+    risk: 50,
+    riskBucket: 'Medium',
+  },
+];
+
+const candidate: ExposureRow = {
+  airlineIcao: 'AFR',
+  airlineName: 'Air France',
+  airlineCountry: 'France',
+  airlineRegion: 'Europe',
+  exposure: 0,
+  risk: 35,
+  riskBucket: 'Low',
+};
+
+describe('Stress Scenarios', () => {
+  it('should apply exposure shocks', () => {
+    const { exposures } = applyShocks(
+      rows,
+      [
+        { type: 'setExposure', airlineIcao: 'DLH', exposure: 300 },
+        { type: 'removeAirline', airlineIcao: 'TAM' },
+        { type: 'addAirline', airlineIcao: 'AFR', exposure: 50 },
+      ],
+      [candidate]
+    );
+
+    expect(exposures.map(e => [e.airlineIcao, e.exposure])).toEqual([['DLH', 300], ['AFR', 50]]);
+    expect(rows[0].exposure).toBe(100); // Inputs are not mutated
+  });
+
+  it('should override and shift airline scores', () => {
+    const result = calculateScenarioRisk({
+      currency: 'USD',
+      exposures: rows,
+      shocks: [
+        { type: 'overrideScore', airlineIcao: 'DLH', score: 80 },
+        { type: 'shiftCountry', country: 'brazil', points: 30 },
+        { type: 'shiftRegion', region: 'Europe', points: 30 },
+      ],
+    });
+
+    const dlh = result.topExposures.find(e => e.airlineIcao === 'DLH')!;
+    const tam = result.topExposures.find(e => e.airlineIcao === 'TAM')!;
+    expect(dlh.risk).toBe(100); // Clamped
+    expect(tam.risk).toBe(80);
+    expect(tam.riskBucket).toBe('High');
+    expect(result.baseRisk).toBe(90);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should pass component shocks through at the component weight', () => {
+    const { exposures } = applyShocks(rows, [
+      { type: 'componentShock', component: 'financial', points: 20 },
+      { type: 'componentShock', component: 'financial', points: 50 },
+    ]);
+
+    // 40 -> 60 -> 100 (clamped), so the airline score rises by (100 - 40) x 0.5
+    expect(exposures[0].risk).toBe(60);
+    expect(exposures[0].components!.financial!.score).toBe(100);
+    expect(exposures[1].risk).toBe(50); // No component scores
+  });
+
+  it('should skip shocks that no longer match the portfolio', () => {
+    const result = calculateScenarioRisk({
+      currency: 'USD',
+      exposures: rows,
+      shocks: [
+        { type: 'setExposure', airlineIcao: 'BAW', exposure: 10 },
+        { type: 'addAirline', airlineIcao: 'XXX', exposure: 10 },
+        { type: 'shiftCountry', country: 'Japan', points: 10 },
+      ],
+    });
+
+    expect(result.warnings).toHaveLength(3);
+    expect(result.totalExposure).toBe(200);
+  });
+
+  it('should validate shocks', () => {
+    expect(validateScenarioShocks([{ type: 'shiftRegion', region: 'Europe', points: -10 }])).toBeNull();
+    expect(validateScenarioShocks([])).toMatch(/At least one/);
+    expect(validateScenarioShocks([{ type: 'setExposure', airlineIcao: 'DLH', exposure: -1 }])).toMatch(/non-negative/);
+    expect(validateScenarioShocks([{ type: 'overrideScore', airlineIcao: 'DLH', score: 120 }])).toMatch(/between 0 and 100/);
+    expect(validateScenarioShocks([{ type: 'componentShock', component: 'weather', points: 5 }])).toMatch(/unknown risk component/);
+    expect(validateScenarioShocks([{ type: 'bogus' }])).toMatch(/unknown shock type/);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for watchlist alert rules
+ *
+ * Test cases:
+ * 1. Bucket changes alert with severity by direction, optionally downgrades only
+ * 2. Score moves alert past the threshold, noting model version changes
+ * 3. Confidence drops alert per component, including data becoming unavailable
+ * 4. Limit breaches alert once per limit and slice until they recover
+ * 5. Rules are validated for airline and portfolio watches
+ *
+ * Run with: npm test or npx jest
+ */
+
+import {
+  describeAlertRule,
+  evaluateLimitRule,
+  evaluateSnapshotRules,
+  validateAlertRules,
+  AlertSnapshot,
+} from '../watchlist';
+import { evaluateExposureLimits } from '../exposure-limits';
+
+const airline = { icao: 'AFR', name: 'Air France' };
+
+function snapshot(overallScore: number, fields: Partial<AlertSnapshot> = {}): AlertSnapshot {
+  return {
+    overallScore,
+    riskBucket: overallScore <= 40 ? 'Low' : overallScore <= 70 ? 'Medium' : 'High',
+    dataVersion: 'v1.0',
+    jurisdictionConfidence: 'HIGH',
+    scaleConfidence: 'HIGH',
+    assetLiquidityConfidence: 'MEDIUM',
+    financialConfidence: 'HIGH',
+    newsConfidence: 'MEDIUM',
+    activityConfidence: 'MEDIUM',
+    ...fields,
+  };
+}
+
+describe('Watchlist rules', () => {
+  test('alerts on bucket changes', () => {
+    const rules = [{ type: 'bucketChange' as const }];
+
+    const [worse] = evaluateSnapshotRules(rules, snapshot(38), snapshot(45), airline);
+    expect(worse).toMatchObject({ rule: 'bucketChange', severity: 'warning', title: 'Air France moved to Medium risk' });
+    expect(worse.message).toBe('Air France (AFR) moved from Low to Medium risk (score 38.0 → 45.0)');
+
+    expect(evaluateSnapshotRules(rules, snapshot(65), snapshot(72), airline)[0].severity).toBe('critical');
+    expect(evaluateSnapshotRules(rules, snapshot(45), snapshot(38), airline)[0].severity).toBe('info');
+    expect(evaluateSnapshotRules([{ type: 'bucketChange', worseningOnly: true }], snapshot(45), snapshot(38), airline)).toHaveLength(0);
+    expect(evaluateSnapshotRules(rules, snapshot(42), snapshot(60), airline)).toHaveLength(0);
+    expect(evaluateSnapshotRules(rules, null, snapshot(80), airline)).toHaveLength(0);
+  });
+
+  test('alerts on score moves past the threshold', () => {
+    const rules = [{ type: 'scoreMove' as const, points: 5 }];
+
+    expect(evaluateSnapshotRules(rules, snapshot(50), snapshot(55), airline)).toHaveLength(0);
+
+    const [up] = evaluateSnapshotRules(rules, snapshot(50), snapshot(56.5, { dataVersion: 'v1.1' }), airline);
+    expect(up).toMatchObject({ severity: 'warning', title: 'Air France score up 6.5 points' });
+    expect(up.message).toContain('model version v1.0 → v1.1');
+
+    expect(evaluateSnapshotRules(rules, snapshot(50), snapshot(44), airline)[0]).toMatchObject({
+      severity: 'info',
+      title: 'Air France score down 6.0 points',
+    });
+  });
+
+  test('alerts on component confidence drops', () => {
+    const previous = snapshot(50);
+    const current = snapshot(50, { financialConfidence: 'LOW', newsConfidence: null, scaleConfidence: 'HIGH' });
+
+    const [all] = evaluateSnapshotRules([{ type: 'confidenceDrop' }], previous, current, airline);
+    expect(all.message).toBe('Air France (AFR): Financial HIGH → LOW, News & Events MEDIUM → unavailable');
+
+    expect(evaluateSnapshotRules([{ type: 'confidenceDrop', component: 'scale' }], previous, current, airline)).toHaveLength(0);
+    expect(evaluateSnapshotRules([{ type: 'confidenceDrop', component: 'financial' }], current, previous, airline)).toHaveLength(0);
+  });
+
+  test('alerts on limit breaches once until they recover', () => {
+    const rows = [
+      { airline: { icao: 'AFR', name: 'Air France', country: 'France' }, exposure: 600, risk: 40, riskBucket: 'Low', segments: { region: 'Europe' }, group: null },
+      { airline: { icao: 'UAL', name: 'United', country: 'United States' }, exposure: 400, risk: 55, riskBucket: 'Medium', segments: { region: 'Americas' }, group: null },
+    ];
+    const checks = evaluateExposureLimits(rows, [
+      { id: 'airline', type: 'airline', target: null, minScore: null, maxShare: 0.5, hard: true },
+      { id: 'medium', type: 'riskBucket', target: 'Medium', minScore: null, maxShare: 0.3, hard: false },
+    ]);
+
+    const first = evaluateLimitRule([], checks, 'Core Book');
+    expect(first.breached).toEqual(['airline:AFR', 'medium:Medium']);
+    expect(first.drafts.map(draft => draft.severity)).toEqual(['critical', 'warning']);
+    expect(first.drafts[0]).toMatchObject({
+      title: 'Core Book: hard limit breached',
+      message: 'Air France at 60.0% of exposure (hard limit 50.0%) in Core Book',
+    });
+
+    expect(evaluateLimitRule(first.breached, checks, 'Core Book').drafts).toHaveLength(0);
+    expect(evaluateLimitRule(['airline:AFR', 'medium:Medium'], checks.slice(0, 1), 'Core Book').breached).toEqual(['airline:AFR']);
+
+    // Another airline over the same limit alerts on its own
+    const [tight] = evaluateExposureLimits(rows, [
+      { id: 'airline', type: 'airline', target: null, minScore: null, maxShare: 0.35, hard: true },
+    ]);
+    const second = evaluateLimitRule(first.breached, [tight], 'Core Book');
+    expect(second.breached).toEqual(['airline:AFR', 'airline:UAL']);
+    expect(second.drafts.map(draft => draft.message)).toEqual(['United at 40.0% of exposure (hard limit 35.0%) in Core Book']);
+  });
+
+  test('validates rules', () => {
+    expect(validateAlertRules([{ type: 'bucketChange' }, { type: 'scoreMove', points: 10 }], 'airline')).toBeNull();
+    expect(validateAlertRules([{ type: 'limitBreach' }], 'portfolio')).toBeNull();
+    expect(validateAlertRules([], 'airline')).toMatch(/At least one/);
+    expect(validateAlertRules([{ type: 'limitBreach' }], 'airline')).toMatch(/portfolio watch/);
+    expect(validateAlertRules([{ type: 'scoreMove', points: 0 }], 'airline')).toMatch(/points/);
+    expect(validateAlertRules([{ type: 'confidenceDrop', component: 'fleet' }], 'airline')).toMatch(/component/);
+    expect(validateAlertRules([{ type: 'rumour' }], 'airline')).toMatch(/unknown rule/);
+
+    expect(describeAlertRule({ type: 'scoreMove', points: 10 })).toBe('Score move over 10 points');
+    expect(describeAlertRule({ type: 'confidenceDrop', component: 'financial' })).toBe('Financial confidence drop');
+  });
+});
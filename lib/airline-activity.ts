@@ -0,0 +1,367 @@
+// Airline flight activity - daily flight counts per ICAO from OpenSky state vectors, and
+// utilisation trends. Falling utilisation is an early warning of capacity cuts, groundings or cash stress
+
+import prisma from './db';
+import {
+  AirlineObservation,
+  fetchStateVectors,
+  observeAirlines,
+  readCaptureFile,
+  StateSnapshot,
+} from './sources/opensky';
+
+export type ActivitySource = 'opensky' | 'capture';
+
+export interface DailyActivity {
+  date: Date;
+  flights: number;
+  aircraft: number;
+  samples: number;
+}
+
+export interface UtilisationTrend {
+  status: 'rising' | 'stable' | 'falling' | 'insufficient';
+  recentAverage: number | null;      // Flights per day over the recent window
+  baselineAverage: number | null;    // Flights per day over the baseline window before it
+  change: number | null;             // recent / baseline - 1
+  activeFleetShare: number | null;   // Average aircraft seen per day / fleet size, recent window
+  recentDays: number;
+  baselineDays: number;
+  lastObserved: Date | null;
+}
+
+// Flying over the 30- and 90-day windows before today, used by the operational activity risk source
+export interface ActivitySummary {
+  airlineId: string;
+  icao: string;
+  utilisation: number | null; // Flights per aircraft per day over the last 30 days
+  change30: number | null;    // Last 30 days' average daily flights against the 30 before
+  change90: number | null;    // Last 90 days' average daily flights against the 90 before
+  coverage: number;           // Share of the last 90 days sampled often enough to count (0-1)
+}
+
+export interface IngestResult {
+  snapshots: number;
+  days: number;
+  airlines: number;
+  flights: number; // Flight callsigns observed across all airlines and days
+}
+
+// Complete days before today (today is still being sampled)
+export const RECENT_WINDOW_DAYS = 7;
+export const BASELINE_WINDOW_DAYS = 28;
+
+// A snapshot only sees flights airborne at that moment, so days polled less often than this
+// undercount flights and are left out of trends
+export const MIN_SAMPLES_PER_DAY = 12;
+
+// Change in average daily flights that counts as rising or falling
+export const TREND_THRESHOLD = 0.10;
+
+const MIN_RECENT_DAYS = 3;
+const MIN_BASELINE_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Windows compared by the activity summary, and the sampled share of a window needed to average it
+export const SHORT_TREND_DAYS = 30;
+export const LONG_TREND_DAYS = 90;
+const MIN_WINDOW_COVERAGE = 0.5;
+
+// Peer summaries by UTC day - they only cover days before asOf's, so every airline scored
+// on the same day can share them. Cleared when activity is ingested
+const summaryCache = new Map<string, Promise<ActivitySummary[]>>();
+
+export function getActivityPollIntervalHours(): number {
+  return parseFloat(process.env.OPENSKY_POLL_INTERVAL_MINUTES || '30') / 60;
+}
+
+/**
+ * Midnight UTC of the day containing a time (Date or unix seconds)
+ */
+export function toUtcDay(time: Date | number): Date {
+  const date = typeof time === 'number' ? new Date(time * 1000) : time;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Group snapshots by UTC day, merging each tracked airline's observations
+ * Every snapshot time is kept so a day's samples can be counted without repeats
+ */
+export function aggregateSnapshots(
+  snapshots: StateSnapshot[],
+  icaos: Set<string>
+): Map<number, { date: Date; times: Set<number>; observations: Map<string, AirlineObservation> }> {
+  const days = new Map<number, { date: Date; times: Set<number>; observations: Map<string, AirlineObservation> }>();
+
+  for (const snapshot of snapshots) {
+    const date = toUtcDay(snapshot.time);
+    if (!days.has(date.getTime())) {
+      days.set(date.getTime(), { date, times: new Set(), observations: new Map() });
+    }
+    const day = days.get(date.getTime())!;
+    day.times.add(snapshot.time);
+
+    for (const [icao, observation] of observeAirlines(snapshot, icaos)) {
+      const merged = day.observations.get(icao) ?? { callsigns: new Set<string>(), icao24s: new Set<string>() };
+      observation.callsigns.forEach(callsign => merged.callsigns.add(callsign));
+      observation.icao24s.forEach(icao24 => merged.icao24s.add(icao24));
+      day.observations.set(icao, merged);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Record snapshots against every airline in the database
+ * Each airline gets a row per sampled day, zero flights included. Observed callsigns and
+ * transponders are merged with the stored day, so re-polling or replaying a capture is safe
+ */
+export async function ingestSnapshots(snapshots: StateSnapshot[], source: ActivitySource): Promise<IngestResult> {
+  const airlines = await prisma.airline.findMany({ select: { id: true, icao: true } });
+  const days = aggregateSnapshots(snapshots, new Set(airlines.map(airline => airline.icao)));
+  let flights = 0;
+
+  for (const day of days.values()) {
+    const times = Array.from(day.times).sort((a, b) => a - b);
+    const lastSampleAt = new Date(times[times.length - 1] * 1000);
+
+    for (const airline of airlines) {
+      const observation = day.observations.get(airline.icao);
+      const existing = await prisma.airlineActivity.findUnique({
+        where: { airlineId_date: { airlineId: airline.id, date: day.date } },
+      });
+
+      const callsigns = new Set<string>(existing ? JSON.parse(existing.callsigns) : []);
+      const icao24s = new Set<string>(existing ? JSON.parse(existing.icao24s) : []);
+      observation?.callsigns.forEach(callsign => callsigns.add(callsign));
+      observation?.icao24s.forEach(icao24 => icao24s.add(icao24));
+
+      const newSamples = existing
+        ? times.filter(time => time * 1000 > existing.lastSampleAt.getTime()).length
+        : times.length;
+
+      const data = {
+        flights: callsigns.size,
+        aircraft: icao24s.size,
+        callsigns: JSON.stringify(Array.from(callsigns).sort()),
+        icao24s: JSON.stringify(Array.from(icao24s).sort()),
+        samples: (existing?.samples ?? 0) + newSamples,
+        lastSampleAt: existing && existing.lastSampleAt > lastSampleAt ? existing.lastSampleAt : lastSampleAt,
+        source,
+      };
+
+      await prisma.airlineActivity.upsert({
+        where: { airlineId_date: { airlineId: airline.id, date: day.date } },
+        create: { airlineId: airline.id, date: day.date, ...data },
+        update: data,
+      });
+
+      flights += observation?.callsigns.size ?? 0;
+    }
+  }
+
+  // Replayed captures can backfill earlier days
+  summaryCache.clear();
+
+  return { snapshots: snapshots.length, days: days.size, airlines: airlines.length, flights };
+}
+
+/**
+ * Poll OpenSky once and record the snapshot
+ */
+export async function ingestLiveActivity(): Promise<IngestResult> {
+  return ingestSnapshots([await fetchStateVectors()], 'opensky');
+}
+
+/**
+ * Replay a capture file of state vector snapshots
+ */
+export async function ingestCaptureFile(filePath: string): Promise<IngestResult> {
+  return ingestSnapshots(await readCaptureFile(filePath), 'capture');
+}
+
+/**
+ * Utilisation trend: average daily flights over the recent window against the baseline window
+ * before it. Days with too few samples are ignored; returns 'insufficient' without enough days in either window
+ */
+export function computeUtilisationTrend(
+  days: DailyActivity[],
+  fleetSize?: number | null,
+  asOf: Date = new Date()
+): UtilisationTrend {
+  const today = toUtcDay(asOf).getTime();
+  const recentStart = today - RECENT_WINDOW_DAYS * MS_PER_DAY;
+  const baselineStart = recentStart - BASELINE_WINDOW_DAYS * MS_PER_DAY;
+
+  const complete = days.filter(day => day.samples >= MIN_SAMPLES_PER_DAY);
+  const recent = complete.filter(day => day.date.getTime() >= recentStart && day.date.getTime() < today);
+  const baseline = complete.filter(day => day.date.getTime() >= baselineStart && day.date.getTime() < recentStart);
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : null;
+
+  const recentAverage = average(recent.map(day => day.flights));
+  const baselineAverage = average(baseline.map(day => day.flights));
+  const recentAircraft = average(recent.map(day => day.aircraft));
+  const observed = days.filter(day => day.flights > 0).map(day => day.date.getTime());
+
+  const trend: UtilisationTrend = {
+    status: 'insufficient',
+    recentAverage,
+    baselineAverage,
+    change: null,
+    activeFleetShare: fleetSize && recentAircraft !== null
+      ? Math.round(Math.min(1, recentAircraft / fleetSize) * 100) / 100
+      : null,
+    recentDays: recent.length,
+    baselineDays: baseline.length,
+    lastObserved: observed.length > 0 ? new Date(Math.max(...observed)) : null,
+  };
+
+  if (recent.length < MIN_RECENT_DAYS || baseline.length < MIN_BASELINE_DAYS || !baselineAverage) {
+    return trend;
+  }
+
+  const change = Math.round((recentAverage! / baselineAverage - 1) * 1000) / 1000;
+  return {
+    ...trend,
+    change,
+    status: change <= -TREND_THRESHOLD ? 'falling' : change >= TREND_THRESHOLD ? 'rising' : 'stable',
+  };
+}
+
+/**
+ * Daily activity for an airline, oldest first
+ */
+export async function getAirlineActivity(
+  airlineId: string,
+  days: number = RECENT_WINDOW_DAYS + BASELINE_WINDOW_DAYS + 1,
+  asOf: Date = new Date()
+): Promise<DailyActivity[]> {
+  return prisma.airlineActivity.findMany({
+    where: { airlineId, date: { gte: new Date(toUtcDay(asOf).getTime() - days * MS_PER_DAY) } },
+    orderBy: { date: 'asc' },
+    select: { date: true, flights: true, aircraft: true, samples: true },
+  });
+}
+
+/**
+ * Activity and utilisation trend for an airline by ICAO code
+ * Returns null if the airline doesn't exist
+ */
+export async function getAirlineUtilisation(icao: string, asOf: Date = new Date()) {
+  const airline = await prisma.airline.findUnique({
+    where: { icao: icao.toUpperCase() },
+    select: { id: true, fleetSize: true },
+  });
+
+  if (!airline) {
+    return null;
+  }
+
+  const days = await getAirlineActivity(airline.id, undefined, asOf);
+  return { days, trend: computeUtilisationTrend(days, airline.fleetSize, asOf) };
+}
+
+/**
+ * Flights observed on the most recent fully sampled day, or undefined if no activity has been recorded
+ */
+export async function getFlightsLast24h(icao: string): Promise<number | undefined> {
+  const latest = await prisma.airlineActivity.findFirst({
+    where: {
+      airline: { icao: icao.toUpperCase() },
+      samples: { gte: MIN_SAMPLES_PER_DAY },
+    },
+    orderBy: { date: 'desc' },
+    select: { flights: true },
+  });
+
+  return latest?.flights;
+}
+
+/**
+ * Summarise an airline's sampled days into 30/90-day windows before today
+ * A window needs half its days sampled to be averaged; trends need both windows
+ */
+export function summariseActivity(
+  airline: { id: string; icao: string; fleetSize?: number | null },
+  days: DailyActivity[],
+  asOf: Date = new Date()
+): ActivitySummary {
+  const today = toUtcDay(asOf).getTime();
+  const complete = days.filter(day => day.samples >= MIN_SAMPLES_PER_DAY);
+
+  // Average daily flights over [today - to, today - from) days, or null if too sparsely sampled
+  const windowAverage = (from: number, to: number) => {
+    const inWindow = complete.filter(day =>
+      day.date.getTime() >= today - to * MS_PER_DAY && day.date.getTime() < today - from * MS_PER_DAY
+    );
+    if (inWindow.length < (to - from) * MIN_WINDOW_COVERAGE) return null;
+    return inWindow.reduce((sum, day) => sum + day.flights, 0) / inWindow.length;
+  };
+  const change = (recent: number | null, prior: number | null) =>
+    recent !== null && prior ? Math.round((recent / prior - 1) * 1000) / 1000 : null;
+
+  const last30 = windowAverage(0, SHORT_TREND_DAYS);
+  const last90 = windowAverage(0, LONG_TREND_DAYS);
+  const sampled90 = complete.filter(day =>
+    day.date.getTime() >= today - LONG_TREND_DAYS * MS_PER_DAY && day.date.getTime() < today
+  ).length;
+
+  return {
+    airlineId: airline.id,
+    icao: airline.icao,
+    utilisation: last30 !== null && airline.fleetSize
+      ? Math.round((last30 / airline.fleetSize) * 100) / 100
+      : null,
+    change30: change(last30, windowAverage(SHORT_TREND_DAYS, SHORT_TREND_DAYS * 2)),
+    change90: change(last90, windowAverage(LONG_TREND_DAYS, LONG_TREND_DAYS * 2)),
+    coverage: Math.round((sampled90 / LONG_TREND_DAYS) * 100) / 100,
+  };
+}
+
+/**
+ * Activity summaries for every airline seen flying in the last 180 days - the peer group for
+ * the operational activity risk source. Airlines never observed are left out rather than
+ * summarised as zero flying, since their callsigns may simply not be tracked
+ */
+export async function getActivitySummaries(asOf: Date = new Date()): Promise<ActivitySummary[]> {
+  const since = new Date(toUtcDay(asOf).getTime() - LONG_TREND_DAYS * 2 * MS_PER_DAY);
+  const [airlines, rows] = await Promise.all([
+    prisma.airline.findMany({ select: { id: true, icao: true, fleetSize: true } }),
+    prisma.airlineActivity.findMany({
+      where: { date: { gte: since }, samples: { gte: MIN_SAMPLES_PER_DAY } },
+      select: { airlineId: true, date: true, flights: true, aircraft: true, samples: true },
+    }),
+  ]);
+
+  const byAirline = new Map<string, DailyActivity[]>();
+  for (const { airlineId, ...day } of rows) {
+    const days = byAirline.get(airlineId);
+    if (days) days.push(day);
+    else byAirline.set(airlineId, [day]);
+  }
+
+  return airlines
+    .filter(airline => byAirline.get(airline.id)?.some(day => day.flights > 0))
+    .map(airline => summariseActivity(airline, byAirline.get(airline.id)!, asOf));
+}
+
+/**
+ * getActivitySummaries, computed once per UTC day (per process) rather than for every airline scored
+ */
+export function getCachedActivitySummaries(asOf: Date = new Date()): Promise<ActivitySummary[]> {
+  const day = toUtcDay(asOf).toISOString();
+  let summaries = summaryCache.get(day);
+
+  if (!summaries) {
+    summaryCache.clear(); // Only the current day is kept
+    summaries = getActivitySummaries(asOf).catch(error => {
+      summaryCache.delete(day);
+      throw error;
+    });
+    summaryCache.set(day, summaries);
+  }
+
+  return summaries;
+}
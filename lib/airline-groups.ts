@@ -0,0 +1,173 @@
+// Airline groups - parent companies and their subsidiaries, aggregated as one obligor
+
+import prisma from './db';
+import { RiskContext } from './risk-model';
+
+export interface AirlineGroupInput {
+  name: string;
+  ticker?: string | null;
+  country?: string | null;
+}
+
+// Group membership of one exposure row (null for standalone airlines)
+export interface RowGroup {
+  name: string;
+  guaranteed: boolean;
+}
+
+export interface GroupExposure {
+  name: string;        // Group name, or the airline name for standalone airlines
+  grouped: boolean;    // false for an airline without a group
+  exposure: number;
+  share: number;       // Of total exposure, as decimal (0-1)
+  guaranteedExposure: number; // Exposure to subsidiaries guaranteed by the parent
+  risk: number;        // Exposure-weighted airline score
+  worstRisk: number;   // Highest airline score in the group
+  expectedLoss: number;
+  airlines: Array<{ icao: string; name: string; exposure: number; risk: number; guaranteed: boolean }>;
+}
+
+interface GroupRow {
+  airline: {
+    icao: string;
+    name: string;
+  };
+  exposure: number;
+  risk: number;
+  expectedLoss: number;
+  group?: RowGroup | null;
+}
+
+/**
+ * Validate a group before saving
+ * Returns an error message, or null if valid
+ */
+export function validateAirlineGroup(input: Partial<AirlineGroupInput>): string | null {
+  if (!input.name || !input.name.trim()) {
+    return 'Group name is required';
+  }
+
+  if (input.ticker && !/^[A-Z0-9.\-]{1,12}$/.test(input.ticker)) {
+    return 'Ticker must be 1-12 uppercase letters, digits, dots or dashes';
+  }
+
+  return null;
+}
+
+/**
+ * Group details passed to the risk sources for an airline (undefined if it has no group)
+ */
+export function toGroupContext(airline: {
+  parentGuarantee: boolean;
+  group: { name: string; ticker: string | null } | null;
+}): RiskContext['airline']['group'] {
+  if (!airline.group) return undefined;
+
+  return {
+    name: airline.group.name,
+    ticker: airline.group.ticker ?? undefined,
+    guaranteed: airline.parentGuarantee,
+  };
+}
+
+/**
+ * Aggregate exposure rows (all in one currency) by obligor
+ * Airlines in a group are combined; standalone airlines are their own obligor
+ * Largest exposure first
+ */
+export function aggregateByGroup(rows: GroupRow[]): GroupExposure[] {
+  const total = rows.reduce((sum, row) => sum + row.exposure, 0);
+  const obligors = new Map<string, GroupExposure & { weightedRisk: number }>();
+
+  for (const row of rows) {
+    const key = row.group ? `group:${row.group.name}` : `airline:${row.airline.icao}`;
+    const obligor = obligors.get(key) ?? {
+      name: row.group?.name ?? row.airline.name,
+      grouped: !!row.group,
+      exposure: 0,
+      share: 0,
+      guaranteedExposure: 0,
+      risk: 0,
+      worstRisk: 0,
+      expectedLoss: 0,
+      airlines: [],
+      weightedRisk: 0,
+    };
+
+    const guaranteed = row.group?.guaranteed ?? false;
+    obligor.exposure += row.exposure;
+    obligor.weightedRisk += row.exposure * row.risk;
+    obligor.worstRisk = Math.max(obligor.worstRisk, row.risk);
+    obligor.expectedLoss += row.expectedLoss;
+    if (guaranteed) obligor.guaranteedExposure += row.exposure;
+
+    // An airline with several exposures appears once
+    const member = obligor.airlines.find(a => a.icao === row.airline.icao);
+    if (member) {
+      member.risk = (member.risk * member.exposure + row.risk * row.exposure) / (member.exposure + row.exposure || 1);
+      member.exposure += row.exposure;
+    } else {
+      obligor.airlines.push({
+        icao: row.airline.icao,
+        name: row.airline.name,
+        exposure: row.exposure,
+        risk: row.risk,
+        guaranteed,
+      });
+    }
+
+    obligors.set(key, obligor);
+  }
+
+  return Array.from(obligors.values())
+    .map(({ weightedRisk, ...obligor }) => ({
+      ...obligor,
+      exposure: Math.round(obligor.exposure * 100) / 100,
+      share: total > 0 ? Math.round((obligor.exposure / total) * 1000) / 1000 : 0,
+      guaranteedExposure: Math.round(obligor.guaranteedExposure * 100) / 100,
+      risk: obligor.exposure > 0 ? Math.round((weightedRisk / obligor.exposure) * 10) / 10 : 0,
+      expectedLoss: Math.round(obligor.expectedLoss * 100) / 100,
+      airlines: obligor.airlines
+        .map(a => ({ ...a, exposure: Math.round(a.exposure * 100) / 100, risk: Math.round(a.risk * 10) / 10 }))
+        .sort((a, b) => b.exposure - a.exposure),
+    }))
+    .sort((a, b) => b.exposure - a.exposure);
+}
+
+/**
+ * All groups with their member airlines
+ */
+export async function getAirlineGroups() {
+  return prisma.airlineGroup.findMany({
+    orderBy: { name: 'asc' },
+    include: {
+      airlines: {
+        orderBy: { name: 'asc' },
+        select: { id: true, icao: true, name: true, country: true, parentGuarantee: true },
+      },
+    },
+  });
+}
+
+/**
+ * Attach an airline to a group (or detach it with groupId null)
+ * Returns null if the airline doesn't exist
+ */
+export async function setAirlineGroup(
+  icao: string,
+  groupId: string | null,
+  parentGuarantee: boolean
+) {
+  const airline = await prisma.airline.findUnique({ where: { icao: icao.toUpperCase() } });
+  if (!airline) {
+    return null;
+  }
+
+  return prisma.airline.update({
+    where: { id: airline.id },
+    data: {
+      groupId,
+      parentGuarantee: groupId ? parentGuarantee : false,
+    },
+  });
+}
@@ -0,0 +1,257 @@
+// Airline risk score history and change attribution
+
+import prisma from './db';
+import { RiskConfig, RiskDimensionKey, DEFAULT_RISK_CONFIG, getBlendWeights } from './risk-model';
+import { toRiskConfig } from './risk-model-versions';
+
+const RISK_DIMENSION_KEYS: RiskDimensionKey[] = ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'];
+
+// Metadata keys that change on every recalculation and don't explain a score move
+const VOLATILE_METADATA_KEY = /(At|Date|Time|Updated|timestamp|source|note|explanation)s?$/i;
+const MAX_INPUT_CHANGES_PER_COMPONENT = 5;
+
+// Fields of AirlineRiskSnapshot used for history
+export interface ScoreSnapshot {
+  calculatedAt: Date;
+  overallScore: number;
+  riskBucket: string;
+  dataVersion: string;
+  jurisdictionScore: number | null;
+  scaleScore: number | null;
+  assetLiquidityScore: number | null;
+  financialScore: number | null;
+  newsScore: number | null;
+  activityScore: number | null;
+  componentMetadata: string | null;
+  sovereignSupport?: string | null;
+}
+
+export interface ScoreHistoryPoint {
+  calculatedAt: Date;
+  overallScore: number;
+  riskBucket: string;
+  modelVersion: string;
+  components: Partial<Record<RiskDimensionKey, number>>;
+}
+
+export interface InputChange {
+  field: string;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+}
+
+export interface ComponentAttribution {
+  key: RiskDimensionKey;
+  fromScore: number | null;
+  toScore: number | null;
+  fromWeight: number; // Effective weight in the overall score (0 when unavailable)
+  toWeight: number;
+  contribution: number;  // Points of overall change from this component
+  scoreEffect: number;   // Part of the contribution from the component score moving
+  weightEffect: number;  // Part from its weight changing (model version or reweighting)
+  inputChanges: InputChange[];
+}
+
+export interface ScoreChange {
+  from: ScoreHistoryPoint;
+  to: ScoreHistoryPoint;
+  change: number;
+  modelVersionChanged: boolean;
+  components: ComponentAttribution[]; // Largest contribution first
+  supportEffect: number; // Points of overall change from sovereign support (0 for airlines without it)
+}
+
+function getComponentScore(snapshot: ScoreSnapshot, key: RiskDimensionKey): number | null {
+  return snapshot[`${key}Score` as keyof ScoreSnapshot] as number | null;
+}
+
+// Sovereign support uplift in a snapshot's overall score (0 if none applied)
+function getSupportUplift(snapshot: ScoreSnapshot): number {
+  if (!snapshot.sovereignSupport) return 0;
+  try {
+    return JSON.parse(snapshot.sovereignSupport)?.uplift ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function parseMetadata(snapshot: ScoreSnapshot): Record<string, any> {
+  if (!snapshot.componentMetadata) return {};
+  try {
+    return JSON.parse(snapshot.componentMetadata) || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Effective component weights for a snapshot - the model weights normalized over
+ * the components blended into its score, as in the aggregator
+ */
+export function getEffectiveWeights(
+  snapshot: ScoreSnapshot,
+  config: RiskConfig
+): Partial<Record<RiskDimensionKey, number>> {
+  return getBlendWeights(
+    Object.fromEntries(RISK_DIMENSION_KEYS.map(key => [key, getComponentScore(snapshot, key)])),
+    config
+  );
+}
+
+/**
+ * Top-level metadata inputs that differ between two snapshots of a component
+ * Only scalar values are compared; nested data (e.g. article lists) is summarized by length
+ */
+export function diffComponentInputs(
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined
+): InputChange[] {
+  const summarize = (value: any) => (Array.isArray(value) ? value.length : value);
+  const isScalar = (value: any) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: InputChange[] = [];
+
+  for (const key of keys) {
+    if (VOLATILE_METADATA_KEY.test(key)) continue;
+
+    const from = summarize(before?.[key] ?? null);
+    const to = summarize(after?.[key] ?? null);
+    if (!isScalar(from) || !isScalar(to) || from === to) continue;
+
+    changes.push({
+      field: Array.isArray(before?.[key] ?? after?.[key]) ? `${key} (count)` : key,
+      from,
+      to,
+    });
+  }
+
+  return changes.slice(0, MAX_INPUT_CHANGES_PER_COMPONENT);
+}
+
+export function toHistoryPoint(snapshot: ScoreSnapshot): ScoreHistoryPoint {
+  const components: Partial<Record<RiskDimensionKey, number>> = {};
+  for (const key of RISK_DIMENSION_KEYS) {
+    const score = getComponentScore(snapshot, key);
+    if (score !== null) components[key] = score;
+  }
+
+  return {
+    calculatedAt: snapshot.calculatedAt,
+    overallScore: snapshot.overallScore,
+    riskBucket: snapshot.riskBucket,
+    modelVersion: snapshot.dataVersion,
+    components,
+  };
+}
+
+/**
+ * Explain the overall score change between two snapshots
+ * Each component contributes (new weight x new score) - (old weight x old score); with the
+ * change in sovereign support uplift, the contributions add up to the overall change (before rounding)
+ */
+export function attributeScoreChange(
+  before: ScoreSnapshot,
+  after: ScoreSnapshot,
+  beforeConfig: RiskConfig,
+  afterConfig: RiskConfig
+): ScoreChange {
+  const beforeWeights = getEffectiveWeights(before, beforeConfig);
+  const afterWeights = getEffectiveWeights(after, afterConfig);
+  const beforeMetadata = parseMetadata(before);
+  const afterMetadata = parseMetadata(after);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const components = RISK_DIMENSION_KEYS.map(key => {
+    const fromScore = getComponentScore(before, key);
+    const toScore = getComponentScore(after, key);
+    const fromWeight = beforeWeights[key] ?? 0;
+    const toWeight = afterWeights[key] ?? 0;
+    const contribution = toWeight * (toScore ?? 0) - fromWeight * (fromScore ?? 0);
+    const scoreEffect = fromScore !== null && toScore !== null ? toWeight * (toScore - fromScore) : 0;
+
+    return {
+      key,
+      fromScore,
+      toScore,
+      fromWeight: round(fromWeight),
+      toWeight: round(toWeight),
+      contribution: round(contribution),
+      scoreEffect: round(scoreEffect),
+      weightEffect: round(contribution - scoreEffect),
+      inputChanges: diffComponentInputs(beforeMetadata[key], afterMetadata[key]),
+    };
+  })
+    .filter(c => c.fromScore !== null || c.toScore !== null)
+    .filter(c => c.contribution !== 0 || c.fromScore !== c.toScore || c.inputChanges.length > 0)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return {
+    from: toHistoryPoint(before),
+    to: toHistoryPoint(after),
+    change: Math.round((after.overallScore - before.overallScore) * 10) / 10,
+    modelVersionChanged: before.dataVersion !== after.dataVersion,
+    components,
+    supportEffect: round(getSupportUplift(before) - getSupportUplift(after)),
+  };
+}
+
+/**
+ * Attribute every change in a series of snapshots (oldest first)
+ * Recalculations that changed nothing are skipped
+ */
+export function buildScoreChanges(
+  snapshots: ScoreSnapshot[],
+  configs: Record<string, RiskConfig>
+): ScoreChange[] {
+  const configFor = (version: string) => configs[version] ?? DEFAULT_RISK_CONFIG;
+  const changes: ScoreChange[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const change = attributeScoreChange(
+      snapshots[i - 1],
+      snapshots[i],
+      configFor(snapshots[i - 1].dataVersion),
+      configFor(snapshots[i].dataVersion)
+    );
+
+    if (change.change !== 0 || change.modelVersionChanged || change.components.length > 0 || change.supportEffect !== 0) {
+      changes.push(change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Load an airline's score history with change attribution
+ * Returns empty history if the airline has no stored snapshots
+ */
+export async function getAirlineRiskHistory(
+  icao: string,
+  since?: Date
+): Promise<{ points: ScoreHistoryPoint[]; changes: ScoreChange[] }> {
+  const airline = await prisma.airline.findUnique({
+    where: { icao: icao.toUpperCase() },
+    include: {
+      riskSnapshots: {
+        where: since ? { calculatedAt: { gte: since } } : undefined,
+        orderBy: { calculatedAt: 'asc' },
+      },
+    },
+  });
+
+  if (!airline || airline.riskSnapshots.length === 0) {
+    return { points: [], changes: [] };
+  }
+
+  const versions = Array.from(new Set(airline.riskSnapshots.map(s => s.dataVersion)));
+  const records = await prisma.riskModelVersion.findMany({
+    where: { version: { in: versions } },
+  });
+  const configs = Object.fromEntries(records.map(record => [record.version, toRiskConfig(record)]));
+
+  return {
+    points: airline.riskSnapshots.map(toHistoryPoint),
+    changes: buildScoreChanges(airline.riskSnapshots, configs),
+  };
+}
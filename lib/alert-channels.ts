@@ -0,0 +1,213 @@
+// Alert delivery channels
+// Pluggable destinations for alerts beyond the in-app inbox: email (SMTP) and webhook
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { getSmtpConfig, sendMail, SmtpConfig } from './smtp';
+
+export type AlertChannelConfig =
+  | { type: 'email'; to: string[] }
+  | { type: 'webhook'; url: string };
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Alert as handed to channels
+export interface AlertMessage {
+  id: string;
+  rule: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  airlineIcao: string | null;
+  portfolioId: string | null;
+  createdAt: Date;
+}
+
+export interface AlertChannelAdapter {
+  name: string;
+  deliver(alert: AlertMessage): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+const LOCALHOST_PATTERN = /^localhost$|\.localhost$/i;
+
+/**
+ * Hosts webhooks may reach even on an internal address (e.g. a chat relay inside the network)
+ * Set ALERT_WEBHOOK_ALLOWED_HOSTS to a comma-separated list of host names or IPs
+ */
+export function getAllowedWebhookHosts(): string[] {
+  return (process.env.ALERT_WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isInternalAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1, or ::ffff:a00:1 as URLs normalize it)
+  const mapped = ip.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  const v4 = mapped
+    ? mapped[1] ?? [parseInt(mapped[2], 16) >> 8, parseInt(mapped[2], 16) & 255, parseInt(mapped[3], 16) >> 8, parseInt(mapped[3], 16) & 255].join('.')
+    : ip;
+
+  if (isIP(v4) === 4) {
+    const [a, b] = v4.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||           // Link-local, including cloud metadata endpoints
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+/**
+ * Refuse webhook hosts that are, or resolve to, internal addresses unless explicitly allowed
+ */
+async function checkWebhookHost(url: URL, allowedHosts: string[]): Promise<void> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (allowedHosts.includes(host)) return;
+
+  if (LOCALHOST_PATTERN.test(host) || (isIP(host) !== 0 && isInternalAddress(host))) {
+    throw new Error(`Webhook host ${host} is internal`);
+  }
+
+  const addresses = isIP(host) ? [] : (await lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.some(isInternalAddress)) {
+    throw new Error(`Webhook host ${host} resolves to an internal address`);
+  }
+}
+
+/**
+ * Email adapter - sends through the SMTP server configured in the environment
+ */
+export function createEmailChannel(to: string[], smtp: SmtpConfig | null = getSmtpConfig()): AlertChannelAdapter {
+  return {
+    name: `email:${to.join(',')}`,
+    async deliver(alert) {
+      if (!smtp) {
+        throw new Error('SMTP is not configured (set SMTP_HOST)');
+      }
+
+      const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+      await sendMail(smtp, {
+        to,
+        subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+        text: [
+          alert.message,
+          '',
+          `Raised: ${alert.createdAt.toISOString()}`,
+          ...(baseUrl ? [`Inbox: ${baseUrl}/alerts`] : []),
+        ].join('\n'),
+      });
+    },
+  };
+}
+
+/**
+ * Webhook adapter - POSTs the alert as JSON, any non-2xx response is a failure
+ * Internal hosts are refused (checked after DNS resolution) and redirects aren't followed
+ */
+export function createWebhookChannel(url: string, allowedHosts: string[] = getAllowedWebhookHosts()): AlertChannelAdapter {
+  return {
+    name: `webhook:${url}`,
+    async deliver(alert) {
+      await checkWebhookHost(new URL(url), allowedHosts);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...alert, createdAt: alert.createdAt.toISOString() }),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+    },
+  };
+}
+
+export function createAlertChannel(config: AlertChannelConfig): AlertChannelAdapter {
+  return config.type === 'email' ? createEmailChannel(config.to) : createWebhookChannel(config.url);
+}
+
+// Host names and IPs that are internal without a DNS lookup - names are resolved again at delivery
+function isInternalWebhookUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    return !getAllowedWebhookHosts().includes(host) &&
+      (LOCALHOST_PATTERN.test(host) || (isIP(host) !== 0 && isInternalAddress(host)));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Validate channel settings before saving a watch
+ * Returns an error message, or null if valid (an empty list means inbox only)
+ */
+export function validateAlertChannels(channels: unknown): string | null {
+  if (!Array.isArray(channels)) {
+    return 'Channels must be a list';
+  }
+
+  for (const channel of channels) {
+    switch (channel?.type) {
+      case 'email':
+        if (!Array.isArray(channel.to) || channel.to.length === 0) return 'Email channel needs at least one recipient';
+        if (!channel.to.every((to: unknown) => typeof to === 'string' && EMAIL_PATTERN.test(to))) {
+          return 'Email recipients must be valid addresses';
+        }
+        break;
+      case 'webhook':
+        if (typeof channel.url !== 'string' || !/^https?:\/\/\S+$/.test(channel.url)) {
+          return 'Webhook URL must start with http:// or https://';
+        }
+        if (isInternalWebhookUrl(channel.url)) {
+          return 'Webhook URL must not point to an internal address';
+        }
+        break;
+      default:
+        return `Unknown channel type: ${channel?.type}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deliver an alert to every channel - one failing channel doesn't stop the others
+ */
+export async function deliverAlert(
+  alert: AlertMessage,
+  channels: Array<AlertChannelConfig | AlertChannelAdapter>
+): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+
+  for (const channel of channels) {
+    const adapter = 'deliver' in channel ? channel : createAlertChannel(channel);
+    try {
+      await adapter.deliver(alert);
+      results.push({ channel: adapter.name, ok: true });
+    } catch (error: any) {
+      console.error(`Error delivering alert to ${adapter.name}:`, error);
+      results.push({ channel: adapter.name, ok: false, error: error.message || 'Delivery failed' });
+    }
+  }
+
+  return results;
+}
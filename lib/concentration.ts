@@ -0,0 +1,179 @@
+// Portfolio concentration - single names (obligors) and segments (country, region, subregion, jurisdiction band)
+// Shared by the portfolio and scenario calculators so both apply the same penalties
+
+import {
+  ConcentrationModel,
+  ConcentrationSegment,
+  RiskConfig,
+  SegmentConcentrationRules,
+  getConcentrationPenalty,
+} from './risk-model';
+
+export const CONCENTRATION_SEGMENT_LABELS: Record<ConcentrationSegment, string> = {
+  country: 'Country',
+  region: 'Region',
+  subregion: 'Subregion',
+  jurisdictionBand: 'Jurisdiction Risk Band',
+};
+
+// Segment values for one airline (country defaults to the airline's country)
+export type SegmentValues = Partial<Record<ConcentrationSegment, string | null>>;
+
+export interface SegmentGroup {
+  name: string;
+  exposure: number;
+  share: number; // As decimal (0-1)
+  airlines: number;
+}
+
+export interface SegmentConcentration {
+  segment: ConcentrationSegment;
+  hhi: number;     // Herfindahl-Hirschman index, 0-1
+  penalty: number; // Risk points from the segment's rules
+  groups: SegmentGroup[];  // Largest first, airlines with an unknown value excluded
+  unknownExposure: number;
+}
+
+// Concentration across obligors - airlines in a group count as one name
+export interface NameConcentration {
+  hhi: number;              // Herfindahl-Hirschman index of obligor exposures, 0-1
+  effectiveNames: number;   // 1 / HHI - number of equally sized obligors with the same HHI
+  maxConcentration: number; // Largest obligor share, as decimal (0-1)
+  penalty: number;          // Risk points from the concentration model
+}
+
+export interface PortfolioConcentration {
+  names: NameConcentration;
+  segments: SegmentConcentration[];
+  penalty: number; // Single-name plus segment penalties
+}
+
+interface SegmentRow {
+  airline: {
+    icao: string;
+    country: string;
+  };
+  exposure: number;
+  segments?: SegmentValues;
+  group?: { name: string } | null;
+}
+
+const SEGMENTS: ConcentrationSegment[] = ['country', 'region', 'subregion', 'jurisdictionBand'];
+
+/**
+ * Herfindahl-Hirschman index of a set of exposures (sum of squared shares)
+ * 1 = everything in one group, 1/n = spread evenly over n groups
+ */
+export function calculateHhi(amounts: number[]): number {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (total <= 0) return 0;
+
+  return amounts.reduce((sum, amount) => sum + (amount / total) ** 2, 0);
+}
+
+/**
+ * Single-name penalty for an obligor HHI - zero at or below 1 / diversifiedNames,
+ * rising linearly to maxPenalty at HHI 1, so small exposure changes move it smoothly
+ */
+export function getNameConcentrationPenalty(hhi: number, model: ConcentrationModel): number {
+  const floor = 1 / model.diversifiedNames;
+  if (hhi <= floor) return 0;
+
+  const penalty = model.maxPenalty * Math.min(1, (hhi - floor) / (1 - floor));
+  return Math.round(penalty * 10) / 10;
+}
+
+/**
+ * Measure single-name concentration across obligors (airline group, or the airline if it has none)
+ */
+export function analyzeNameConcentration(rows: SegmentRow[], model: ConcentrationModel): NameConcentration {
+  const obligors = new Map<string, number>();
+  for (const row of rows) {
+    const key = row.group ? `group:${row.group.name}` : `airline:${row.airline.icao}`;
+    obligors.set(key, (obligors.get(key) ?? 0) + row.exposure);
+  }
+
+  const amounts = Array.from(obligors.values());
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  const hhi = calculateHhi(amounts);
+
+  return {
+    hhi: Math.round(hhi * 1000) / 1000,
+    effectiveNames: hhi > 0 ? Math.round((1 / hhi) * 10) / 10 : 0,
+    maxConcentration: total > 0 ? Math.round((Math.max(...amounts) / total) * 1000) / 1000 : 0,
+    penalty: getNameConcentrationPenalty(hhi, model),
+  };
+}
+
+/**
+ * Measure concentration in each segment and the resulting penalties
+ * Airlines with an unknown segment value count as their own group, so missing data
+ * never makes a portfolio look more concentrated than it is
+ */
+export function analyzeSegmentConcentration(
+  rows: SegmentRow[],
+  rules: SegmentConcentrationRules
+): { segments: SegmentConcentration[]; penalty: number } {
+  const total = rows.reduce((sum, row) => sum + row.exposure, 0);
+
+  const segments = SEGMENTS.map(segment => {
+    const groups = new Map<string, SegmentGroup>();
+    const unknown: number[] = [];
+
+    for (const row of rows) {
+      const value = segment === 'country'
+        ? row.segments?.country ?? row.airline.country
+        : row.segments?.[segment];
+
+      if (!value) {
+        unknown.push(row.exposure);
+        continue;
+      }
+
+      const group = groups.get(value) ?? { name: value, exposure: 0, share: 0, airlines: 0 };
+      group.exposure += row.exposure;
+      group.airlines++;
+      groups.set(value, group);
+    }
+
+    const known = Array.from(groups.values());
+    const hhi = calculateHhi([...known.map(g => g.exposure), ...unknown]);
+    const unknownExposure = unknown.reduce((sum, amount) => sum + amount, 0);
+
+    return {
+      segment,
+      hhi: Math.round(hhi * 1000) / 1000,
+      penalty: getConcentrationPenalty(hhi, rules[segment]),
+      groups: known
+        .map(group => ({
+          ...group,
+          exposure: Math.round(group.exposure * 100) / 100,
+          share: total > 0 ? Math.round((group.exposure / total) * 1000) / 1000 : 0,
+        }))
+        .sort((a, b) => b.exposure - a.exposure),
+      unknownExposure: Math.round(unknownExposure * 100) / 100,
+    };
+  });
+
+  return {
+    segments,
+    penalty: segments.reduce((sum, segment) => sum + segment.penalty, 0),
+  };
+}
+
+/**
+ * Single-name and segment concentration with the total penalty added to base risk
+ */
+export function analyzeConcentration(
+  rows: SegmentRow[],
+  config: Pick<RiskConfig, 'concentrationModel' | 'segmentConcentrationRules'>
+): PortfolioConcentration {
+  const names = analyzeNameConcentration(rows, config.concentrationModel);
+  const segments = analyzeSegmentConcentration(rows, config.segmentConcentrationRules);
+
+  return {
+    names,
+    segments: segments.segments,
+    penalty: Math.round((names.penalty + segments.penalty) * 10) / 10,
+  };
+}
@@ -0,0 +1,299 @@
+// Monte Carlo portfolio credit loss simulation
+// Pure functions - no database access (inputs are built by getSimulationExposures)
+
+import { estimateLgd, ASSET_RECOVERY_HAIRCUT } from './expected-loss';
+
+/**
+ * Methodology (multi-factor Gaussian copula):
+ * - Each lessee's credit quality is a standard normal latent variable
+ *     X = a_global·Z_global + a_region·Z_region + a_country·Z_country + a_group·Z_group + a_idio·ε
+ *   where the squared loadings are the factor correlations and sum to 1
+ * - The lessee defaults in a trial when X < Φ⁻¹(PD)
+ * - Lessees in the same country/region/airline group share factors, so their
+ *   defaults cluster; unrelated lessees are only linked by the global factor
+ * - Repossession haircuts widen in downturns: haircut = jurisdiction base + stress × max(0, -Z_global)
+ * - Loss on default = LGD × exposure, LGD from estimateLgd with the trial's haircut
+ */
+
+export interface SimulationExposure {
+  id: string;
+  airlineIcao: string;
+  airlineName: string;
+  country: string;
+  region?: string;
+  group?: string; // Airline group / parent, if known
+  exposure: number;
+  pd: number; // 1-year PD as decimal
+  assetValue: number;
+  securityHeld: number;
+  recoveryHaircut?: number; // Base collateral haircut for the lessee's jurisdiction, defaults to ASSET_RECOVERY_HAIRCUT
+}
+
+export interface SimulationCorrelations {
+  global: number;
+  region: number;
+  country: number;
+  group: number;
+}
+
+export interface SimulationOptions {
+  trials?: number;
+  seed?: number;
+  correlations?: Partial<SimulationCorrelations>;
+  haircutStress?: number; // Additional haircut per standard deviation of global downturn
+}
+
+export interface LossStatistic {
+  confidence: number; // e.g. 0.99
+  valueAtRisk: number;
+  expectedShortfall: number;
+}
+
+export interface SimulationResult {
+  trials: number;
+  seed: number;
+  totalExposure: number;
+  expectedLoss: number;
+  unexpectedLoss: number; // Standard deviation of loss
+  maxLoss: number;
+  tail: LossStatistic[];
+  histogram: Array<{ from: number; to: number; count: number }>;
+  zeroLossShare: number; // Share of trials with no defaults
+  defaultFrequency: Array<{ airlineIcao: string; airlineName: string; frequency: number; pd: number }>;
+}
+
+export const DEFAULT_CORRELATIONS: SimulationCorrelations = {
+  global: 0.10,
+  region: 0.05,
+  country: 0.10,
+  group: 0.15,
+};
+
+/**
+ * Validate correlation overrides from a request body
+ * Overrides are merged with the defaults first: the loadings that apply must leave some
+ * idiosyncratic variance, so the merged set has to sum to less than 1
+ * Returns an error message, or null if valid
+ */
+export function validateSimulationCorrelations(correlations: unknown): string | null {
+  if (typeof correlations !== 'object' || correlations === null || Array.isArray(correlations)) {
+    return 'Correlations must be an object of factor loadings';
+  }
+
+  for (const [key, value] of Object.entries(correlations)) {
+    if (!(key in DEFAULT_CORRELATIONS)) {
+      return `Unknown correlation factor: ${key} (expected ${Object.keys(DEFAULT_CORRELATIONS).join(', ')})`;
+    }
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      return `Correlation ${key} must be a non-negative number`;
+    }
+  }
+
+  const merged = { ...DEFAULT_CORRELATIONS, ...correlations } as SimulationCorrelations;
+  const total = Object.values(merged).reduce((sum, value) => sum + value, 0);
+  if (total >= 1) {
+    return `Correlations must sum to less than 1 including defaults (currently ${Math.round(total * 100) / 100})`;
+  }
+
+  return null;
+}
+
+export const DEFAULT_TRIALS = 10000;
+export const MAX_TRIALS = 100000;
+export const CONFIDENCE_LEVELS = [0.95, 0.99, 0.999];
+
+const DEFAULT_HAIRCUT_STRESS = 0.10;
+const HISTOGRAM_BINS = 30;
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * Returns uniform values in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws from a uniform generator (Box-Muller)
+ */
+export function createNormalRng(uniform: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+
+    let u = 0;
+    while (u === 0) u = uniform();
+    const v = uniform();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, ~1e-9 relative error)
+ */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Run the Monte Carlo simulation for a set of exposures (single currency)
+ */
+export function simulatePortfolioLosses(
+  exposures: SimulationExposure[],
+  options: SimulationOptions = {}
+): SimulationResult {
+  const trials = Math.min(MAX_TRIALS, Math.max(1, Math.floor(options.trials ?? DEFAULT_TRIALS)));
+  const seed = Math.floor(options.seed ?? Date.now()) >>> 0;
+  const correlations = { ...DEFAULT_CORRELATIONS, ...options.correlations };
+  const haircutStress = options.haircutStress ?? DEFAULT_HAIRCUT_STRESS;
+
+  const normal = createNormalRng(createRng(seed));
+  const totalExposure = exposures.reduce((sum, e) => sum + e.exposure, 0);
+
+  // Lessees without a region/group get their own factor, which is equivalent to idiosyncratic risk
+  const regionKeys = exposures.map(e => e.region || `region:${e.id}`);
+  const groupKeys = exposures.map(e => e.group || `group:${e.id}`);
+  const loadings = {
+    global: Math.sqrt(correlations.global),
+    region: Math.sqrt(correlations.region),
+    country: Math.sqrt(correlations.country),
+    group: Math.sqrt(correlations.group),
+  };
+  const idiosyncratic = Math.sqrt(
+    Math.max(0, 1 - correlations.global - correlations.region - correlations.country - correlations.group)
+  );
+  const thresholds = exposures.map(e => inverseNormalCdf(Math.min(Math.max(e.pd, 0), 1)));
+
+  const losses = new Float64Array(trials);
+  const defaultCounts = new Array(exposures.length).fill(0);
+
+  for (let trial = 0; trial < trials; trial++) {
+    const globalFactor = normal();
+    const regionFactors = new Map<string, number>();
+    const countryFactors = new Map<string, number>();
+    const groupFactors = new Map<string, number>();
+    const drawFactor = (factors: Map<string, number>, key: string) => {
+      if (!factors.has(key)) factors.set(key, normal());
+      return factors.get(key)!;
+    };
+
+    const haircutShock = haircutStress * Math.max(0, -globalFactor);
+    let loss = 0;
+
+    for (let i = 0; i < exposures.length; i++) {
+      const exposure = exposures[i];
+      const latent =
+        loadings.global * globalFactor +
+        loadings.region * drawFactor(regionFactors, regionKeys[i]) +
+        loadings.country * drawFactor(countryFactors, exposure.country) +
+        loadings.group * drawFactor(groupFactors, groupKeys[i]) +
+        idiosyncratic * normal();
+
+      if (latent < thresholds[i]) {
+        const haircut = Math.min(0.9, (exposure.recoveryHaircut ?? ASSET_RECOVERY_HAIRCUT) + haircutShock);
+        const { lgd } = estimateLgd(exposure.exposure, exposure.assetValue, exposure.securityHeld, haircut);
+        loss += lgd * exposure.exposure;
+        defaultCounts[i]++;
+      }
+    }
+
+    losses[trial] = loss;
+  }
+
+  const sorted = Array.from(losses).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, l) => sum + l, 0) / trials;
+  const variance = sorted.reduce((sum, l) => sum + (l - mean) * (l - mean), 0) / trials;
+  const maxLoss = sorted[trials - 1];
+
+  const tail = CONFIDENCE_LEVELS.map(confidence => {
+    const index = Math.min(trials - 1, Math.ceil(confidence * trials) - 1);
+    const valueAtRisk = sorted[index];
+    const tailLosses = sorted.slice(index);
+    const expectedShortfall = tailLosses.reduce((sum, l) => sum + l, 0) / tailLosses.length;
+
+    return {
+      confidence,
+      valueAtRisk: round2(valueAtRisk),
+      expectedShortfall: round2(expectedShortfall),
+    };
+  });
+
+  return {
+    trials,
+    seed,
+    totalExposure: round2(totalExposure),
+    expectedLoss: round2(mean),
+    unexpectedLoss: round2(Math.sqrt(variance)),
+    maxLoss: round2(maxLoss),
+    tail,
+    histogram: buildHistogram(sorted, maxLoss),
+    zeroLossShare: Math.round((sorted.filter(l => l === 0).length / trials) * 10000) / 10000,
+    defaultFrequency: exposures.map((e, i) => ({
+      airlineIcao: e.airlineIcao,
+      airlineName: e.airlineName,
+      frequency: Math.round((defaultCounts[i] / trials) * 10000) / 10000,
+      pd: e.pd,
+    })),
+  };
+}
+
+function buildHistogram(sorted: number[], maxLoss: number) {
+  if (maxLoss <= 0) {
+    return [{ from: 0, to: 0, count: sorted.length }];
+  }
+
+  const width = maxLoss / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: round2(i * width),
+    to: round2((i + 1) * width),
+    count: 0,
+  }));
+
+  for (const loss of sorted) {
+    const index = Math.min(HISTOGRAM_BINS - 1, Math.floor(loss / width));
+    bins[index].count++;
+  }
+
+  return bins;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -19,7 +19,25 @@ export interface PortfolioExportData {
     maxConcentration: number;
     riskBucket: string;
     numAirlines: number;
+    expectedLoss?: number;
+    expectedLossRate?: number;
+    weightedPd?: number;
   }>;
+  // All currencies converted into the reporting currency (null if FX rates are missing)
+  consolidated: {
+    reportingCurrency: string;
+    totalExposure: number;
+    baseRisk: number;
+    adjustedRisk: number;
+    concentrationPenalty: number;
+    maxConcentration: number;
+    riskBucket: string;
+    numAirlines: number;
+    expectedLoss: number;
+    expectedLossRate: number;
+    weightedPd: number;
+    fxRates: Array<{ currency: string; rate: number; asOf: string | null }>;
+  } | null;
   exposures: Array<{
     airlineIcao: string;
     airlineName: string;
@@ -65,7 +83,24 @@ export function buildPortfolioExportData(
       maxConcentration: number;
       riskBucket: string;
       rows: any[];
+      expectedLoss?: number;
+      expectedLossRate?: number;
+      weightedPd?: number;
     }>;
+    consolidated?: {
+      reportingCurrency: string;
+      totalExposure: number;
+      baseRisk: number;
+      adjustedRisk: number;
+      concentrationPenalty: number;
+      maxConcentration: number;
+      riskBucket: string;
+      rows: any[];
+      expectedLoss: number;
+      expectedLossRate: number;
+      weightedPd: number;
+      fxRates: Array<{ currency: string; rate: number; asOf: Date | string | null }>;
+    } | null;
   },
   isSimulation: boolean = false
 ): PortfolioExportData {
@@ -80,9 +115,33 @@ export function buildPortfolioExportData(
       maxConcentration: currencyData.maxConcentration,
       riskBucket: currencyData.riskBucket,
       numAirlines: currencyData.rows.length,
+      expectedLoss: currencyData.expectedLoss,
+      expectedLossRate: currencyData.expectedLossRate,
+      weightedPd: currencyData.weightedPd,
     };
   });
 
+  const consolidated = risk.consolidated
+    ? {
+        reportingCurrency: risk.consolidated.reportingCurrency,
+        totalExposure: risk.consolidated.totalExposure,
+        baseRisk: risk.consolidated.baseRisk,
+        adjustedRisk: risk.consolidated.adjustedRisk,
+        concentrationPenalty: risk.consolidated.concentrationPenalty,
+        maxConcentration: risk.consolidated.maxConcentration,
+        riskBucket: risk.consolidated.riskBucket,
+        numAirlines: risk.consolidated.rows.length,
+        expectedLoss: risk.consolidated.expectedLoss,
+        expectedLossRate: risk.consolidated.expectedLossRate,
+        weightedPd: risk.consolidated.weightedPd,
+        fxRates: risk.consolidated.fxRates.map(fx => ({
+          currency: fx.currency,
+          rate: fx.rate,
+          asOf: fx.asOf ? new Date(fx.asOf).toISOString().slice(0, 10) : null,
+        })),
+      }
+    : null;
+
   const exposures = portfolio.exposures.map(exp => ({
     airlineIcao: exp.airline.icao,
     airlineName: exp.airline.name,
@@ -103,6 +162,7 @@ export function buildPortfolioExportData(
       isSimulation,
     },
     currencies,
+    consolidated,
     exposures,
   };
 }
@@ -159,7 +219,7 @@ export function exportToCSV(data: PortfolioExportData, filename?: string): void
   
   // Currency summaries
   lines.push('CURRENCY SUMMARIES');
-  lines.push('Currency,Total Exposure,Base Risk,Adjusted Risk,Concentration Penalty,Max Concentration %,Risk Bucket,Airlines');
+  lines.push('Currency,Total Exposure,Base Risk,Adjusted Risk,Concentration Penalty,Max Concentration %,Risk Bucket,Airlines,Expected Loss,EL Rate %,Weighted PD %');
   data.currencies.forEach(curr => {
     lines.push([
       escapeCsvField(curr.currency),
@@ -170,9 +230,36 @@ export function exportToCSV(data: PortfolioExportData, filename?: string): void
       escapeCsvField((curr.maxConcentration * 100).toFixed(2)),
       escapeCsvField(curr.riskBucket),
       escapeCsvField(curr.numAirlines),
+      escapeCsvField(curr.expectedLoss),
+      escapeCsvField(curr.expectedLossRate !== undefined ? (curr.expectedLossRate * 100).toFixed(3) : ''),
+      escapeCsvField(curr.weightedPd !== undefined ? (curr.weightedPd * 100).toFixed(3) : ''),
     ].join(','));
   });
   lines.push('');
+
+  // Consolidated totals in the reporting currency
+  if (data.consolidated) {
+    const consolidated = data.consolidated;
+    lines.push(`CONSOLIDATED (${consolidated.reportingCurrency})`);
+    lines.push('Total Exposure,Base Risk,Adjusted Risk,Concentration Penalty,Max Concentration %,Risk Bucket,Airlines,Expected Loss,EL Rate %,Weighted PD %');
+    lines.push([
+      escapeCsvField(consolidated.totalExposure),
+      escapeCsvField(consolidated.baseRisk),
+      escapeCsvField(consolidated.adjustedRisk),
+      escapeCsvField(consolidated.concentrationPenalty),
+      escapeCsvField((consolidated.maxConcentration * 100).toFixed(2)),
+      escapeCsvField(consolidated.riskBucket),
+      escapeCsvField(consolidated.numAirlines),
+      escapeCsvField(consolidated.expectedLoss),
+      escapeCsvField((consolidated.expectedLossRate * 100).toFixed(3)),
+      escapeCsvField((consolidated.weightedPd * 100).toFixed(3)),
+    ].join(','));
+    lines.push('FX Currency,Rate,As Of');
+    consolidated.fxRates.forEach(fx => {
+      lines.push([escapeCsvField(fx.currency), escapeCsvField(fx.rate), escapeCsvField(fx.asOf)].join(','));
+    });
+    lines.push('');
+  }
   
   // Exposures table
   lines.push('AIRLINE EXPOSURES');
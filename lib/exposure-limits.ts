@@ -0,0 +1,316 @@
+// Portfolio exposure limits - maximum shares of total exposure, with breach detection and headroom
+
+import prisma from './db';
+import { RiskBucket } from './risk-model';
+import { SegmentValues } from './concentration';
+import { RowGroup } from './airline-groups';
+
+export type ExposureLimitType = 'airline' | 'group' | 'country' | 'region' | 'riskBucket' | 'score';
+
+export const EXPOSURE_LIMIT_LABELS: Record<ExposureLimitType, string> = {
+  airline: 'Airline',
+  group: 'Group',
+  country: 'Country',
+  region: 'Region',
+  riskBucket: 'Risk Bucket',
+  score: 'Score Above',
+};
+
+// Share of the limit in use from which a limit is flagged as near its maximum
+export const NEAR_LIMIT_UTILIZATION = 0.9;
+
+export interface ExposureLimitInput {
+  type: ExposureLimitType;
+  target?: string | null;   // ICAO, group, country, region or risk bucket - null applies the limit to each one
+  minScore?: number | null; // score limits: exposure to airlines scoring above this
+  maxShare: number;         // As decimal (0-1)
+  hard?: boolean;           // Hard limits block additions, soft limits only warn
+}
+
+export interface ExposureLimit {
+  id: string;
+  type: ExposureLimitType;
+  target: string | null;
+  minScore: number | null;
+  maxShare: number;
+  hard: boolean;
+}
+
+// One airline, group, country, region or bucket over a limit
+export interface LimitSlice {
+  key: string;
+  name: string;
+  exposure: number;
+  share: number;
+}
+
+export interface LimitCheck {
+  limit: ExposureLimit;
+  key: string | null;   // Slice key of `name`, unique within the limit
+  name: string | null;  // Largest matching airline, group, country, region or bucket (null if none)
+  exposure: number;
+  share: number;        // Of total exposure, as decimal (0-1)
+  utilization: number;  // share / maxShare
+  headroom: number;     // Exposure that can still be added to `name` before reaching the limit
+  status: 'ok' | 'near' | 'breach';
+  breachedSlices: LimitSlice[]; // Every slice over the limit, largest first
+}
+
+// Limits a proposed exposure change would breach (or worsen), split by hard and soft
+export interface LimitChangeCheck {
+  checked: boolean; // false if the portfolio can't be measured in one currency (missing FX rates)
+  breaches: LimitCheck[];
+  warnings: LimitCheck[];
+  uncheckedHardLimits: ExposureLimit[]; // Hard limits that couldn't be enforced because checked is false
+  missingFxRates: string[];
+}
+
+interface LimitRow {
+  airline: {
+    icao: string;
+    name: string;
+    country: string;
+  };
+  exposure: number;
+  risk: number;
+  riskBucket: string;
+  segments?: SegmentValues;
+  group?: RowGroup | null;
+}
+
+const RISK_BUCKETS: RiskBucket[] = ['Low', 'Medium', 'High'];
+
+/**
+ * Validate a limit before saving
+ * Returns an error message, or null if valid
+ */
+export function validateExposureLimit(input: Partial<ExposureLimitInput>): string | null {
+  if (!input.type || !Object.keys(EXPOSURE_LIMIT_LABELS).includes(input.type)) {
+    return `Limit type must be one of: ${Object.keys(EXPOSURE_LIMIT_LABELS).join(', ')}`;
+  }
+
+  if (typeof input.maxShare !== 'number' || !(input.maxShare > 0 && input.maxShare < 1)) {
+    return 'Maximum share must be between 0% and 100%';
+  }
+
+  if (input.type === 'riskBucket' && !RISK_BUCKETS.includes(input.target as RiskBucket)) {
+    return 'Risk bucket limits need a bucket: Low, Medium or High';
+  }
+
+  if (input.type === 'score' && (typeof input.minScore !== 'number' || input.minScore < 0 || input.minScore >= 100)) {
+    return 'Score limits need a minimum score between 0 and 100';
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable description of what a limit caps, e.g. "Country: France" or "Each group"
+ */
+export function describeExposureLimit(limit: Pick<ExposureLimit, 'type' | 'target' | 'minScore'>): string {
+  if (limit.type === 'score') {
+    return `Airlines scoring above ${limit.minScore}`;
+  }
+
+  const label = EXPOSURE_LIMIT_LABELS[limit.type];
+  return limit.target ? `${label}: ${limit.target}` : `Each ${label.toLowerCase()}`;
+}
+
+// Key and display name of the slice a row counts towards, or null if the row doesn't count
+function getLimitKey(row: LimitRow, limit: ExposureLimit): { key: string; name: string } | null {
+  switch (limit.type) {
+    case 'airline':
+      return { key: row.airline.icao, name: row.airline.name };
+    case 'group':
+      // Standalone airlines are their own obligor
+      return row.group
+        ? { key: `group:${row.group.name}`, name: row.group.name }
+        : { key: `airline:${row.airline.icao}`, name: row.airline.name };
+    case 'country': {
+      const country = row.segments?.country ?? row.airline.country;
+      return { key: country.toLowerCase(), name: country };
+    }
+    case 'region':
+      return row.segments?.region ? { key: row.segments.region.toLowerCase(), name: row.segments.region } : null;
+    case 'riskBucket':
+      return { key: row.riskBucket, name: row.riskBucket };
+    case 'score':
+      return limit.minScore !== null && row.risk > limit.minScore
+        ? { key: 'above', name: describeExposureLimit(limit) }
+        : null;
+  }
+}
+
+function matchesTarget(row: LimitRow, limit: ExposureLimit, name: string): boolean {
+  if (!limit.target || limit.type === 'score') return true;
+
+  const target = limit.target.toLowerCase();
+  return name.toLowerCase() === target || (limit.type === 'airline' && row.airline.icao.toLowerCase() === target);
+}
+
+/**
+ * Evaluate limits against exposure rows (all in one currency)
+ * Limits without a target apply to every airline, group, country or region: the check reports
+ * the largest one, and lists every one over the limit in breachedSlices
+ */
+export function evaluateExposureLimits(rows: LimitRow[], limits: ExposureLimit[]): LimitCheck[] {
+  const total = rows.reduce((sum, row) => sum + row.exposure, 0);
+
+  return limits.map(limit => {
+    const slices = new Map<string, { name: string; exposure: number }>();
+
+    for (const row of rows) {
+      const slice = getLimitKey(row, limit);
+      if (!slice || !matchesTarget(row, limit, slice.name)) continue;
+
+      const current = slices.get(slice.key) ?? { name: slice.name, exposure: 0 };
+      current.exposure += row.exposure;
+      slices.set(slice.key, current);
+    }
+
+    const sorted = Array.from(slices.entries())
+      .map(([key, slice]) => ({ key, ...slice, share: total > 0 ? slice.exposure / total : 0 }))
+      .sort((a, b) => b.exposure - a.exposure);
+    const largest = sorted[0];
+    const exposure = largest?.exposure ?? 0;
+    const share = largest?.share ?? 0;
+
+    // Adding x to the slice keeps (exposure + x) / (total + x) <= maxShare while x <= headroom
+    const headroom = Math.max(0, (limit.maxShare * total - exposure) / (1 - limit.maxShare));
+    const utilization = share / limit.maxShare;
+
+    return {
+      limit,
+      key: largest?.key ?? null,
+      name: largest?.name ?? (limit.type === 'score' ? null : limit.target),
+      exposure: Math.round(exposure * 100) / 100,
+      share: Math.round(share * 1000) / 1000,
+      utilization: Math.round(utilization * 1000) / 1000,
+      headroom: Math.round(headroom * 100) / 100,
+      status: share > limit.maxShare ? 'breach' : utilization >= NEAR_LIMIT_UTILIZATION ? 'near' : 'ok',
+      breachedSlices: sorted
+        .filter(slice => slice.share > limit.maxShare)
+        .map(slice => ({
+          key: slice.key,
+          name: slice.name,
+          exposure: Math.round(slice.exposure * 100) / 100,
+          share: Math.round(slice.share * 1000) / 1000,
+        })),
+    };
+  });
+}
+
+/**
+ * One check per slice over the limit, in the shape of the limit's own check
+ */
+export function breachedSliceChecks(check: LimitCheck): LimitCheck[] {
+  return check.breachedSlices.map(slice => ({
+    ...check,
+    key: slice.key,
+    name: slice.name,
+    exposure: slice.exposure,
+    share: slice.share,
+    utilization: Math.round((slice.share / check.limit.maxShare) * 1000) / 1000,
+    headroom: 0,
+    status: 'breach',
+    breachedSlices: [slice],
+  }));
+}
+
+/**
+ * Identifies a breach by limit and slice, e.g. to remember which breaches were already alerted
+ */
+export function limitBreachKey(check: LimitCheck): string {
+  return `${check.limit.id}:${check.key ?? ''}`;
+}
+
+/**
+ * Slices breached after a change that were not breached before, or are breached further,
+ * compared per limit and slice - one check per breached slice
+ * Pass null for `after` if the changed portfolio couldn't be measured
+ */
+export function compareLimitChecks(before: LimitCheck[] | null, after: LimitCheck[] | null): LimitChangeCheck {
+  if (!after) {
+    return { checked: false, breaches: [], warnings: [], uncheckedHardLimits: [], missingFxRates: [] };
+  }
+
+  const previous = new Map((before ?? []).flatMap(breachedSliceChecks).map(check => [limitBreachKey(check), check]));
+  const worsened = after.flatMap(breachedSliceChecks).filter(check => {
+    const prior = previous.get(limitBreachKey(check));
+    return !prior || check.share > prior.share;
+  });
+
+  return {
+    checked: true,
+    breaches: worsened.filter(check => check.limit.hard),
+    warnings: worsened.filter(check => !check.limit.hard),
+    uncheckedHardLimits: [],
+    missingFxRates: [],
+  };
+}
+
+/**
+ * One-line explanation of a breached limit
+ */
+export function describeLimitBreach(check: LimitCheck): string {
+  const subject = check.limit.type === 'score' || !check.name ? describeExposureLimit(check.limit) : check.name;
+  return `${subject} at ${(check.share * 100).toFixed(1)}% of exposure ` +
+    `(${check.limit.hard ? 'hard' : 'soft'} limit ${(check.limit.maxShare * 100).toFixed(1)}%)`;
+}
+
+/**
+ * Error response for a change that hard limits block, or null if it can go ahead
+ * Hard limits are never skipped silently - without the FX rates to measure them the change is blocked
+ */
+export function describeBlockedChange(
+  check: LimitChangeCheck | null
+): { error: string; breaches?: LimitCheck[]; missingFxRates?: string[] } | null {
+  if (check && check.breaches.length > 0) {
+    return {
+      error: `Exposure would breach hard limits: ${check.breaches.map(describeLimitBreach).join('; ')}`,
+      breaches: check.breaches,
+    };
+  }
+
+  if (check && check.uncheckedHardLimits.length > 0) {
+    return {
+      error: `Hard limits can't be checked without FX rates for: ${check.missingFxRates.join(', ')}`,
+      missingFxRates: check.missingFxRates,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Limit fields used for evaluation from a stored ExposureLimit record
+ */
+export function toExposureLimit(record: {
+  id: string;
+  type: string;
+  target: string | null;
+  minScore: number | null;
+  maxShare: number;
+  hard: boolean;
+}): ExposureLimit {
+  return {
+    id: record.id,
+    type: record.type as ExposureLimitType,
+    target: record.target,
+    minScore: record.minScore,
+    maxShare: record.maxShare,
+    hard: record.hard,
+  };
+}
+
+/**
+ * Limits set on a portfolio, oldest first
+ */
+export async function getExposureLimits(portfolioId: string): Promise<ExposureLimit[]> {
+  const limits = await prisma.exposureLimit.findMany({
+    where: { portfolioId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return limits.map(toExposureLimit);
+}
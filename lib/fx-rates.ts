@@ -0,0 +1,166 @@
+// FX rate store - manual entry and CSV import of dated rates, used to consolidate portfolios
+
+import prisma from './db';
+
+// Rates are quoted as units of quoteCurrency per 1 baseCurrency (EUR/USD 1.08: base EUR, quote USD)
+export interface FxRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  asOf: Date;
+}
+
+export interface ResolvedFxRate {
+  rate: number;
+  asOf: Date | null; // Oldest date of the rates used (null for same-currency)
+}
+
+// Cross rates are built through this currency when there is no direct pair
+const PIVOT_CURRENCY = 'USD';
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Validate a single rate
+ * Returns an error message, or null if valid
+ */
+export function validateFxRate(input: Partial<FxRateInput>): string | null {
+  if (!input.baseCurrency || !CURRENCY_CODE.test(input.baseCurrency)) {
+    return 'Base currency must be a 3-letter ISO code';
+  }
+
+  if (!input.quoteCurrency || !CURRENCY_CODE.test(input.quoteCurrency)) {
+    return 'Quote currency must be a 3-letter ISO code';
+  }
+
+  if (input.baseCurrency === input.quoteCurrency) {
+    return 'Base and quote currency must differ';
+  }
+
+  if (typeof input.rate !== 'number' || !isFinite(input.rate) || input.rate <= 0) {
+    return 'Rate must be a positive number';
+  }
+
+  if (!(input.asOf instanceof Date) || isNaN(input.asOf.getTime())) {
+    return 'As-of date is invalid';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a CSV of daily rates
+ * Expected header: date,base,quote,rate (column order is free, extra columns are ignored)
+ * Invalid lines are reported by line number and skipped
+ */
+export function parseFxCsv(text: string): { rates: FxRateInput[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const headerIndex = lines.findIndex(line => line.length > 0);
+  const rates: FxRateInput[] = [];
+  const errors: string[] = [];
+
+  if (headerIndex < 0) {
+    return { rates, errors: ['CSV is empty'] };
+  }
+
+  const header = lines[headerIndex].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z]/g, ''));
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const dateCol = column('date', 'asof');
+  const baseCol = column('base', 'basecurrency', 'from');
+  const quoteCol = column('quote', 'quotecurrency', 'to');
+  const rateCol = column('rate');
+
+  if ([dateCol, baseCol, quoteCol, rateCol].includes(-1)) {
+    return { rates, errors: ['CSV header must include date, base, quote and rate columns'] };
+  }
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i]) continue;
+
+    const cells = lines[i].split(',').map(cell => cell.trim());
+    const rate: FxRateInput = {
+      baseCurrency: (cells[baseCol] || '').toUpperCase(),
+      quoteCurrency: (cells[quoteCol] || '').toUpperCase(),
+      rate: parseFloat(cells[rateCol]),
+      asOf: new Date(cells[dateCol]),
+    };
+
+    const error = validateFxRate(rate);
+    if (error) {
+      errors.push(`Line ${i + 1}: ${error}`);
+    } else {
+      rates.push(rate);
+    }
+  }
+
+  return { rates, errors };
+}
+
+/**
+ * Find the rate to convert from one currency to another
+ * Uses the most recent quote of the pair in either direction, or a cross rate through USD
+ */
+export function findFxRate(from: string, to: string, rates: FxRateInput[]): ResolvedFxRate | null {
+  if (from === to) {
+    return { rate: 1, asOf: null };
+  }
+
+  // Direct and inverse quotes of the pair - the most recent wins, whichever way round it is quoted
+  const latest = rates
+    .filter(r =>
+      (r.baseCurrency === from && r.quoteCurrency === to) || (r.baseCurrency === to && r.quoteCurrency === from)
+    )
+    .reduce<FxRateInput | null>((best, r) => (!best || r.asOf > best.asOf ? r : best), null);
+  if (latest) {
+    return { rate: latest.baseCurrency === from ? latest.rate : 1 / latest.rate, asOf: latest.asOf };
+  }
+
+  if (from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY) {
+    const toPivot = findFxRate(from, PIVOT_CURRENCY, rates);
+    const fromPivot = findFxRate(PIVOT_CURRENCY, to, rates);
+    if (toPivot && fromPivot) {
+      const dates = [toPivot.asOf, fromPivot.asOf].filter((d): d is Date => d !== null);
+      return {
+        rate: toPivot.rate * fromPivot.rate,
+        asOf: dates.length > 0 ? new Date(Math.min(...dates.map(d => d.getTime()))) : null,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Latest stored rate for every currency pair, as of the given date
+ */
+export async function getFxRates(asOf: Date = new Date()): Promise<FxRateInput[]> {
+  return prisma.fxRate.findMany({
+    where: { asOf: { lte: asOf } },
+    orderBy: { asOf: 'desc' },
+    distinct: ['baseCurrency', 'quoteCurrency'],
+    select: { baseCurrency: true, quoteCurrency: true, rate: true, asOf: true },
+  });
+}
+
+/**
+ * Store rates, replacing any existing rate for the same pair and date
+ */
+export async function saveFxRates(rates: FxRateInput[], source: 'manual' | 'csv'): Promise<number> {
+  await prisma.$transaction(
+    rates.map(rate =>
+      prisma.fxRate.upsert({
+        where: {
+          baseCurrency_quoteCurrency_asOf: {
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency,
+            asOf: rate.asOf,
+          },
+        },
+        update: { rate: rate.rate, source },
+        create: { ...rate, source },
+      })
+    )
+  );
+
+  return rates.length;
+}
@@ -0,0 +1,237 @@
+// FX sensitivity - lessee revenue vs. lease currency mismatch and portfolio impact of FX moves
+
+import prisma from './db';
+import { RiskConfig, scoreToRiskBucket } from './risk-model';
+import { getActiveRiskConfig } from './risk-model-versions';
+import { scoreToRating } from './expected-loss';
+import { calculatePortfolioRisk, summarizeRiskRows, CurrencyRiskResult, PortfolioRiskResult } from './portfolio-risk';
+import { getCountryInfo } from './sources/restCountries';
+
+// Moves of the reporting currency against all other currencies (+0.2 = reporting currency 20% stronger)
+export const FX_SHOCKS = [-0.3, -0.2, -0.1, 0.1, 0.2, 0.3];
+
+// Airline score points per 1% increase in rent burden in the lessee's revenue currency
+// (a 30% adverse move adds 9 points, roughly one rating notch at the default scale)
+export const FX_RISK_POINTS_PER_PCT = 0.3;
+
+export interface CurrencyMismatch {
+  icao: string;
+  leaseCurrency: string;
+  revenueCurrency: string | null;
+  revenueCurrencySource: 'financials' | 'country' | null;
+  mismatched: boolean;
+}
+
+// Consolidated exposure row with the currencies needed to stress it
+export type SensitivityRow = CurrencyRiskResult['rows'][number] & {
+  leaseCurrency: string;
+  revenueCurrency: string | null;
+};
+
+export interface FxScenarioResult {
+  move: number;
+  totalExposure: number;
+  exposureChange: number;
+  baseRisk: number;
+  adjustedRisk: number;
+  riskChange: number;
+  riskBucket: 'Low' | 'Medium' | 'High';
+  expectedLoss: number;
+  stressedAirlines: number; // Airlines whose score moved
+}
+
+export interface FxSensitivityResult {
+  reportingCurrency: string;
+  base: {
+    totalExposure: number;
+    baseRisk: number;
+    adjustedRisk: number;
+    riskBucket: 'Low' | 'Medium' | 'High';
+    expectedLoss: number;
+  };
+  mismatchedExposure: number; // Reporting currency
+  mismatchedShare: number;    // Of total exposure, as decimal
+  scenarios: FxScenarioResult[];
+}
+
+/**
+ * Revenue currency reported with the airline's financials (stored in the financial component metadata)
+ */
+export function getRevenueCurrency(componentMetadata: string | null | undefined): string | null {
+  if (!componentMetadata) return null;
+
+  try {
+    const currency = JSON.parse(componentMetadata)?.financial?.currency;
+    return typeof currency === 'string' && currency ? currency.toUpperCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Change in the lessee's rent burden, in its revenue currency, when the reporting currency moves
+ * Only pairs involving the reporting currency move; other currencies are assumed to move together
+ */
+export function getRentBurdenChange(
+  leaseCurrency: string,
+  revenueCurrency: string | null,
+  reportingCurrency: string,
+  move: number
+): number {
+  if (!revenueCurrency || revenueCurrency === leaseCurrency) return 0;
+
+  if (leaseCurrency === reportingCurrency) return move;
+  if (revenueCurrency === reportingCurrency) return 1 / (1 + move) - 1;
+  return 0;
+}
+
+/**
+ * Stress a consolidated portfolio under each FX move
+ * - Exposures in other currencies are revalued in the reporting currency
+ * - Mismatched lessees' scores shift with their rent burden, then PD and buckets are re-derived
+ */
+export function calculateFxSensitivity(
+  rows: SensitivityRow[],
+  reportingCurrency: string,
+  config: RiskConfig,
+  shocks: number[] = FX_SHOCKS
+): FxSensitivityResult {
+  const base = summarizeRiskRows(rows, config);
+  const mismatchedExposure = rows
+    .filter(row => row.revenueCurrency && row.revenueCurrency !== row.leaseCurrency)
+    .reduce((sum, row) => sum + row.exposure, 0);
+
+  const scenarios = shocks.map(move => {
+    let stressedAirlines = 0;
+
+    const stressedRows = rows.map(row => {
+      const revalue = row.leaseCurrency === reportingCurrency ? 1 : 1 / (1 + move);
+      const exposure = row.exposure * revalue;
+      const burdenChange = getRentBurdenChange(row.leaseCurrency, row.revenueCurrency, reportingCurrency, move);
+
+      if (burdenChange === 0) {
+        return { ...row, exposure, expectedLoss: row.expectedLoss * revalue };
+      }
+
+      stressedAirlines++;
+      const risk = Math.min(100, Math.max(0, row.risk + burdenChange * 100 * FX_RISK_POINTS_PER_PCT));
+      const rating = scoreToRating(risk, config.ratingScale);
+
+      return {
+        ...row,
+        exposure,
+        risk,
+        riskBucket: scoreToRiskBucket(risk, config),
+        ratingGrade: rating.grade,
+        pd: rating.pd,
+        expectedLoss: rating.pd * row.lgd * exposure,
+      };
+    });
+
+    const result = summarizeRiskRows(stressedRows, config);
+
+    return {
+      move,
+      totalExposure: result.totalExposure,
+      exposureChange: Math.round((result.totalExposure - base.totalExposure) * 100) / 100,
+      baseRisk: result.baseRisk,
+      adjustedRisk: result.adjustedRisk,
+      riskChange: Math.round((result.adjustedRisk - base.adjustedRisk) * 10) / 10,
+      riskBucket: result.riskBucket,
+      expectedLoss: result.expectedLoss,
+      stressedAirlines,
+    };
+  });
+
+  return {
+    reportingCurrency,
+    base: {
+      totalExposure: base.totalExposure,
+      baseRisk: base.baseRisk,
+      adjustedRisk: base.adjustedRisk,
+      riskBucket: base.riskBucket,
+      expectedLoss: base.expectedLoss,
+    },
+    mismatchedExposure: Math.round(mismatchedExposure * 100) / 100,
+    mismatchedShare: base.totalExposure > 0 ? Math.round((mismatchedExposure / base.totalExposure) * 1000) / 1000 : 0,
+    scenarios,
+  };
+}
+
+/**
+ * Currency mismatch per exposure and FX sensitivity of the consolidated portfolio
+ * Revenue currency comes from the airline's financials, falling back to its country's currency
+ * Sensitivity is null if the portfolio can't be consolidated (missing FX rates)
+ * Pass an already calculated portfolio risk to avoid recalculating it
+ */
+export async function getFxSensitivity(
+  portfolioId: string,
+  portfolioRisk?: PortfolioRiskResult | null
+): Promise<{
+  mismatches: CurrencyMismatch[];
+  sensitivity: FxSensitivityResult | null;
+  missingFxRates: string[];
+} | null> {
+  const portfolio = await prisma.portfolio.findUnique({
+    where: { id: portfolioId },
+    include: {
+      exposures: {
+        include: {
+          airline: {
+            include: {
+              riskSnapshots: {
+                orderBy: { calculatedAt: 'desc' },
+                take: 1,
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!portfolio) {
+    return null;
+  }
+
+  const countries = Array.from(new Set(portfolio.exposures.map(e => e.airline.country)));
+  const countryCurrencies = new Map<string, string | undefined>();
+  for (const country of countries) {
+    const info = await getCountryInfo(country);
+    countryCurrencies.set(country, info?.currencies?.[0]);
+  }
+
+  const mismatches: CurrencyMismatch[] = portfolio.exposures.map(exposure => {
+    const reported = getRevenueCurrency(exposure.airline.riskSnapshots[0]?.componentMetadata);
+    const local = countryCurrencies.get(exposure.airline.country) ?? null;
+    const revenueCurrency = reported ?? local;
+
+    return {
+      icao: exposure.airline.icao,
+      leaseCurrency: exposure.currency,
+      revenueCurrency,
+      revenueCurrencySource: reported ? 'financials' : local ? 'country' : null,
+      mismatched: revenueCurrency !== null && revenueCurrency !== exposure.currency,
+    };
+  });
+
+  const risk = portfolioRisk ?? await calculatePortfolioRisk(portfolioId);
+  if (!risk?.consolidated) {
+    return { mismatches, sensitivity: null, missingFxRates: risk?.missingFxRates ?? [] };
+  }
+
+  const byIcao = new Map(mismatches.map(m => [m.icao, m]));
+  const rows: SensitivityRow[] = risk.consolidated.rows.map(row => ({
+    ...row,
+    leaseCurrency: byIcao.get(row.airline.icao)?.leaseCurrency ?? risk.reportingCurrency,
+    revenueCurrency: byIcao.get(row.airline.icao)?.revenueCurrency ?? null,
+  }));
+
+  const config = await getActiveRiskConfig();
+
+  return {
+    mismatches,
+    sensitivity: calculateFxSensitivity(rows, risk.reportingCurrency, config),
+    missingFxRates: [],
+  };
+}
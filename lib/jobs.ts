@@ -0,0 +1,372 @@
+// Background jobs - scheduled flight activity ingestion and refresh of airline risk snapshots and
+// portfolio history, so reports don't depend on which pages happened to be visited
+
+import prisma from './db';
+import { getAirlineRisk } from './risk-cache';
+import { getLatestRiskSnapshot } from './risk-snapshots';
+import { getActiveRiskConfig } from './risk-model-versions';
+import { recordAllPortfolioRiskSnapshots } from './portfolio-history';
+import { getActivityPollIntervalHours, ingestCaptureFile, ingestLiveActivity } from './airline-activity';
+import { deliverPendingAlerts } from './watchlist';
+
+export type JobKey = 'airline-activity-ingest' | 'airline-risk-refresh' | 'portfolio-risk-snapshot' | 'alert-delivery';
+export type JobTrigger = 'scheduled' | 'manual';
+export type JobStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface JobItemFailure {
+  item: string;
+  error: string;
+}
+
+export interface JobResult {
+  total: number;
+  succeeded: number;
+  failures: JobItemFailure[];
+  message?: string;
+}
+
+export interface JobDefinition {
+  key: JobKey;
+  name: string;
+  description: string;
+  intervalHours: number;
+  run: () => Promise<JobResult>;
+}
+
+// External providers called for each airline refresh
+// Providers without an API key serve mock data and make no calls
+export interface ProviderRateLimit {
+  provider: string;
+  requestsPerMinute: number;
+  requestsPerAirline: number;
+  configured: () => boolean;
+}
+
+export const PROVIDER_RATE_LIMITS: ProviderRateLimit[] = [
+  {
+    provider: 'aviationstack',
+    requestsPerMinute: 5,
+    requestsPerAirline: 1,
+    configured: () => !!process.env.AVIATION_API_KEY,
+  },
+  {
+    provider: 'Financial Modeling Prep',
+    requestsPerMinute: 5,
+    requestsPerAirline: 2, // Balance sheet and income statement
+    configured: () => !!process.env.FMP_API_KEY,
+  },
+  {
+    provider: 'REST Countries',
+    requestsPerMinute: 60,
+    requestsPerAirline: 1,
+    configured: () => true,
+  },
+];
+
+// A run still marked running after this long was interrupted (e.g. a restart)
+const STALE_RUN_HOURS = 6;
+const RETRY_ATTEMPTS = 1;
+
+export function getRefreshIntervalHours(): number {
+  return parseFloat(process.env.RISK_REFRESH_INTERVAL_HOURS || '24');
+}
+
+/**
+ * Minimum gap between airline refreshes so every configured provider stays within its limit
+ */
+export function getAirlineRefreshSpacingMs(limits: ProviderRateLimit[] = PROVIDER_RATE_LIMITS): number {
+  return Math.max(
+    0,
+    ...limits
+      .filter(limit => limit.configured())
+      .map(limit => Math.ceil((60000 * limit.requestsPerAirline) / limit.requestsPerMinute))
+  );
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process items one at a time, spaced to respect rate limits
+ * A failed item is retried after a longer pause, then recorded as a failure
+ */
+export async function runThrottled(
+  items: string[],
+  worker: (item: string) => Promise<void>,
+  options: { spacingMs: number; retries?: number; wait?: (ms: number) => Promise<void> }
+): Promise<JobResult> {
+  const wait = options.wait ?? sleep;
+  const retries = options.retries ?? RETRY_ATTEMPTS;
+  const failures: JobItemFailure[] = [];
+  let succeeded = 0;
+
+  for (const [index, item] of items.entries()) {
+    if (index > 0) await wait(options.spacingMs);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await worker(item);
+        succeeded++;
+        break;
+      } catch (error: any) {
+        if (attempt < retries) {
+          await wait(Math.max(options.spacingMs, 1000) * 2 ** (attempt + 1));
+          continue;
+        }
+        failures.push({ item, error: error?.message || 'Unknown error' });
+        break;
+      }
+    }
+  }
+
+  return { total: items.length, succeeded, failures };
+}
+
+export function toJobStatus(result: JobResult): JobStatus {
+  if (result.failures.length === 0) return 'succeeded';
+  return result.succeeded > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * A job is due when it has never run or its last run started at least one interval ago
+ */
+export function isJobDue(lastStartedAt: Date | null, intervalHours: number, now: Date = new Date()): boolean {
+  return !lastStartedAt || now.getTime() - lastStartedAt.getTime() >= intervalHours * 60 * 60 * 1000;
+}
+
+/**
+ * Airlines with a non-zero exposure in any portfolio
+ */
+async function getHeldAirlines() {
+  return prisma.airline.findMany({
+    where: { exposures: { some: { exposureAmount: { gt: 0 } } } },
+    orderBy: { icao: 'asc' },
+    select: {
+      id: true,
+      icao: true,
+      name: true,
+      riskSnapshots: {
+        orderBy: { calculatedAt: 'desc' },
+        take: 1,
+        select: { calculatedAt: true, dataVersion: true },
+      },
+    },
+  });
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    key: 'airline-activity-ingest',
+    name: 'Flight activity ingestion',
+    description: 'Records observed flights per airline from OpenSky state vectors, or replays OPENSKY_CAPTURE_PATH',
+    intervalHours: getActivityPollIntervalHours(),
+    run: async () => {
+      const capturePath = process.env.OPENSKY_CAPTURE_PATH;
+      const result = capturePath ? await ingestCaptureFile(capturePath) : await ingestLiveActivity();
+
+      return {
+        total: result.snapshots,
+        succeeded: result.snapshots,
+        failures: [],
+        message: `${result.flights} flights observed across ${result.airlines} airlines on ${result.days} day(s)` +
+          (capturePath ? ` from ${capturePath}` : ''),
+      };
+    },
+  },
+  {
+    key: 'airline-risk-refresh',
+    name: 'Airline risk refresh',
+    description: 'Recalculates the risk snapshot of every airline with an active exposure',
+    intervalHours: getRefreshIntervalHours(),
+    run: async () => {
+      const airlines = await getHeldAirlines();
+      const spacingMs = getAirlineRefreshSpacingMs();
+
+      const result = await runThrottled(
+        airlines.map(airline => airline.icao),
+        async icao => {
+          const risk = await getAirlineRisk(icao, true);
+          if (!risk) throw new Error('Airline not found');
+
+          // Snapshot save failures are logged rather than thrown by the cache
+          const airline = airlines.find(a => a.icao === icao)!;
+          const latest = await getLatestRiskSnapshot(airline.id);
+          if (!latest || latest.calculatedAt.getTime() !== risk.calculatedAt.getTime()) {
+            throw new Error('Snapshot was not saved');
+          }
+        },
+        { spacingMs }
+      );
+
+      return { ...result, message: spacingMs > 0 ? `${spacingMs / 1000}s between airlines for provider rate limits` : undefined };
+    },
+  },
+  {
+    key: 'portfolio-risk-snapshot',
+    name: 'Portfolio risk snapshot',
+    description: 'Records portfolio risk history from the latest airline snapshots',
+    intervalHours: 24,
+    run: async () => {
+      const result = await recordAllPortfolioRiskSnapshots('scheduled');
+      return {
+        total: result.portfolios,
+        succeeded: result.portfolios - result.failed.length,
+        failures: result.failed.map(item => ({ item, error: 'Snapshot failed' })),
+        message: `${result.snapshots} snapshots written`,
+      };
+    },
+  },
+  {
+    key: 'alert-delivery',
+    name: 'Alert delivery',
+    description: 'Delivers alerts still queued for email and webhook channels, e.g. after a restart',
+    intervalHours: 0.25,
+    run: async () => {
+      const result = await deliverPendingAlerts();
+      return {
+        total: result.delivered + result.failed.length,
+        succeeded: result.delivered,
+        failures: result.failed.map(failure => ({ item: failure.alertId, error: failure.error })),
+      };
+    },
+  },
+];
+
+export function getJob(key: string): JobDefinition | undefined {
+  return JOBS.find(job => job.key === key);
+}
+
+/**
+ * Start a job run - returns null if the job is already running
+ * `done` settles when the run finishes; the run row is updated either way
+ */
+export async function startJob(
+  job: JobDefinition,
+  trigger: JobTrigger
+): Promise<{ runId: string; done: Promise<JobStatus> } | null> {
+  const staleBefore = new Date(Date.now() - STALE_RUN_HOURS * 60 * 60 * 1000);
+
+  await prisma.jobRun.updateMany({
+    where: { job: job.key, status: 'running', startedAt: { lt: staleBefore } },
+    data: { status: 'failed', message: 'Run was interrupted', finishedAt: new Date() },
+  });
+
+  const running = await prisma.jobRun.findFirst({
+    where: { job: job.key, status: 'running' },
+  });
+
+  if (running) {
+    return null;
+  }
+
+  const run = await prisma.jobRun.create({
+    data: { job: job.key, trigger },
+  });
+
+  const done = job
+    .run()
+    .then(async result => {
+      const status = toJobStatus(result);
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status,
+          total: result.total,
+          succeeded: result.succeeded,
+          failed: result.failures.length,
+          failures: result.failures.length > 0 ? JSON.stringify(result.failures) : null,
+          message: result.message ?? null,
+          finishedAt: new Date(),
+        },
+      });
+      return status;
+    })
+    .catch(async (error: any) => {
+      console.error(`Error running job ${job.key}:`, error);
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', message: error?.message || 'Job failed', finishedAt: new Date() },
+      });
+      return 'failed' as const;
+    });
+
+  return { runId: run.id, done };
+}
+
+/**
+ * Run every job whose interval has elapsed, in order (activity is ingested before airlines are
+ * refreshed, and airlines are refreshed before portfolios are snapshotted)
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<Array<{ job: JobKey; status: JobStatus | 'skipped' }>> {
+  const results: Array<{ job: JobKey; status: JobStatus | 'skipped' }> = [];
+
+  for (const job of JOBS) {
+    const lastRun = await prisma.jobRun.findFirst({
+      where: { job: job.key },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (!isJobDue(lastRun?.startedAt ?? null, job.intervalHours, now)) {
+      continue;
+    }
+
+    const started = await startJob(job, 'scheduled');
+    results.push({ job: job.key, status: started ? await started.done : 'skipped' });
+  }
+
+  return results;
+}
+
+/**
+ * Job status for the admin page: last run per job, recent runs, and how many
+ * held airlines have a snapshot from the current model within the refresh interval
+ */
+export async function getJobsOverview(now: Date = new Date()) {
+  const [runs, airlines, activeConfig] = await Promise.all([
+    prisma.jobRun.findMany({ orderBy: { startedAt: 'desc' }, take: 50 }),
+    getHeldAirlines(),
+    getActiveRiskConfig(),
+  ]);
+
+  const jobs = JOBS.map(job => {
+    const jobRuns = runs.filter(run => run.job === job.key);
+    const lastRun = jobRuns[0] ?? null;
+    const lastSuccess = jobRuns.find(run => run.status === 'succeeded') ?? null;
+
+    return {
+      key: job.key,
+      name: job.name,
+      description: job.description,
+      intervalHours: job.intervalHours,
+      lastRun,
+      lastSuccess,
+      nextDueAt: lastRun
+        ? new Date(lastRun.startedAt.getTime() + job.intervalHours * 60 * 60 * 1000)
+        : now,
+    };
+  });
+
+  const freshSince = new Date(now.getTime() - getRefreshIntervalHours() * 60 * 60 * 1000);
+  const staleAirlines = airlines
+    .filter(airline => {
+      const snapshot = airline.riskSnapshots[0];
+      return !snapshot || snapshot.calculatedAt < freshSince || snapshot.dataVersion !== activeConfig.modelVersion;
+    })
+    .map(airline => ({
+      icao: airline.icao,
+      name: airline.name,
+      calculatedAt: airline.riskSnapshots[0]?.calculatedAt ?? null,
+    }));
+
+  return {
+    jobs,
+    runs: runs.map(run => ({
+      ...run,
+      failures: run.failures ? (JSON.parse(run.failures) as JobItemFailure[]) : [],
+    })),
+    coverage: {
+      heldAirlines: airlines.length,
+      fresh: airlines.length - staleAirlines.length,
+      staleAirlines,
+    },
+  };
+}
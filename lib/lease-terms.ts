@@ -0,0 +1,163 @@
+// Lease contract terms: remaining rent, derived exposure and maturity ladder
+
+import prisma from './db';
+
+export interface LeaseTerms {
+  startDate: Date;
+  expiryDate: Date;
+  monthlyRent: number;
+  rentCurrency: string;
+  securityDeposit?: number | null;
+  letterOfCredit?: number | null;
+  maintenanceReserveBalance?: number | null;
+  extensionOptionMonths?: number | null;
+}
+
+export interface DerivedExposure {
+  exposureAmount: number;
+  remainingRent: number;
+  assetValue: number;
+  securityHeld: number; // Deposits + letters of credit, reported separately
+  excludedLeases: number; // Leases in a different currency from the exposure
+}
+
+export interface MaturityBucket {
+  label: string;
+  numLeases: number;
+  monthlyRent: number;
+  remainingRent: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Maturity ladder buckets (years to expiry)
+const MATURITY_BUCKETS: Array<{ label: string; maxYears: number }> = [
+  { label: '< 1 year', maxYears: 1 },
+  { label: '1-2 years', maxYears: 2 },
+  { label: '2-3 years', maxYears: 3 },
+  { label: '3-5 years', maxYears: 5 },
+  { label: '5+ years', maxYears: Infinity },
+];
+
+/**
+ * Months of rent remaining on a lease (fractional, zero once expired)
+ * Rent is assumed to accrue from the later of start date and asOf
+ */
+export function getRemainingMonths(terms: LeaseTerms, asOf: Date = new Date()): number {
+  const from = Math.max(new Date(terms.startDate).getTime(), asOf.getTime());
+  const to = new Date(terms.expiryDate).getTime();
+
+  if (to <= from) {
+    return 0;
+  }
+
+  return (to - from) / MS_PER_DAY / DAYS_PER_MONTH;
+}
+
+/**
+ * Contracted rent still to be received under a lease
+ */
+export function getRemainingRent(terms: LeaseTerms, asOf: Date = new Date()): number {
+  return Math.round(terms.monthlyRent * getRemainingMonths(terms, asOf) * 100) / 100;
+}
+
+/**
+ * Derive exposure from remaining rent plus appraised asset value
+ * Only leases in the exposure currency are counted (no FX conversion)
+ */
+export function deriveExposure(
+  currency: string,
+  leases: LeaseTerms[],
+  aircraft: Array<{ appraisedValue: number | null }>,
+  asOf: Date = new Date()
+): DerivedExposure {
+  let remainingRent = 0;
+  let securityHeld = 0;
+  let excludedLeases = 0;
+
+  for (const lease of leases) {
+    if (lease.rentCurrency !== currency) {
+      excludedLeases++;
+      continue;
+    }
+    remainingRent += getRemainingRent(lease, asOf);
+    securityHeld += (lease.securityDeposit ?? 0) + (lease.letterOfCredit ?? 0);
+  }
+
+  const assetValue = aircraft.reduce((sum, a) => sum + (a.appraisedValue ?? 0), 0);
+
+  return {
+    exposureAmount: Math.round((remainingRent + assetValue) * 100) / 100,
+    remainingRent: Math.round(remainingRent * 100) / 100,
+    assetValue: Math.round(assetValue * 100) / 100,
+    securityHeld: Math.round(securityHeld * 100) / 100,
+    excludedLeases,
+  };
+}
+
+/**
+ * Group leases into a maturity ladder by time to expiry
+ * Expired leases are excluded
+ */
+export function buildMaturityLadder(
+  leases: LeaseTerms[],
+  asOf: Date = new Date()
+): MaturityBucket[] {
+  const ladder: MaturityBucket[] = MATURITY_BUCKETS.map(bucket => ({
+    label: bucket.label,
+    numLeases: 0,
+    monthlyRent: 0,
+    remainingRent: 0,
+  }));
+
+  for (const lease of leases) {
+    const yearsToExpiry = (new Date(lease.expiryDate).getTime() - asOf.getTime()) / MS_PER_DAY / 365.25;
+    if (yearsToExpiry <= 0) continue;
+
+    const index = MATURITY_BUCKETS.findIndex(bucket => yearsToExpiry < bucket.maxYears);
+    const bucket = ladder[index];
+    bucket.numLeases++;
+    bucket.monthlyRent += lease.monthlyRent;
+    bucket.remainingRent += getRemainingRent(lease, asOf);
+  }
+
+  return ladder.map(bucket => ({
+    ...bucket,
+    monthlyRent: Math.round(bucket.monthlyRent * 100) / 100,
+    remainingRent: Math.round(bucket.remainingRent * 100) / 100,
+  }));
+}
+
+/**
+ * Recompute exposureAmount for an exposure in 'derived' mode
+ * No-op for manually maintained exposures. Callers check the new amount against the
+ * portfolio's hard limits first (checkDerivedExposureChange in lib/portfolio-risk.ts)
+ * Returns true if the exposure amount changed
+ */
+export async function syncDerivedExposure(exposureId: string): Promise<boolean> {
+  const exposure = await prisma.leaseExposure.findUnique({
+    where: { id: exposureId },
+    include: {
+      leases: true,
+      aircraft: true,
+    },
+  });
+
+  if (!exposure || exposure.exposureSource !== 'derived') {
+    return false;
+  }
+
+  const derived = deriveExposure(exposure.currency, exposure.leases, exposure.aircraft);
+
+  if (derived.exposureAmount === exposure.exposureAmount) {
+    return false;
+  }
+
+  await prisma.leaseExposure.update({
+    where: { id: exposureId },
+    data: { exposureAmount: derived.exposureAmount },
+  });
+
+  return true;
+}
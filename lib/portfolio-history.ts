@@ -0,0 +1,195 @@
+// Portfolio risk history - persisted snapshots of calculatePortfolioRisk per currency book
+
+import prisma from './db';
+import { calculatePortfolioRisk } from './portfolio-risk';
+import { getActiveRiskConfig } from './risk-model-versions';
+import { evaluatePortfolioAlerts } from './watchlist';
+
+export type SnapshotTrigger = 'exposure_change' | 'scheduled' | 'manual';
+
+export interface RiskHistoryPoint {
+  calculatedAt: Date;
+  totalExposure: number;
+  baseRisk: number;
+  adjustedRisk: number;
+  concentrationPenalty: number;
+  maxConcentration: number;
+  riskBucket: string;
+  buckets: {
+    low: number;
+    medium: number;
+    high: number;
+  };
+  airlineCount: number;
+  expectedLoss: number | null;
+  modelVersion: string;
+  trigger: string;
+}
+
+export interface RiskTrajectory {
+  periodStart: Date;
+  startRisk: number;   // Adjusted risk at (or first recorded after) the period start
+  latestRisk: number;
+  change: number;
+  minRisk: number;
+  maxRisk: number;
+}
+
+/**
+ * Calculate current portfolio risk and store one snapshot per currency
+ * Returns the number of snapshots written (0 for empty or missing portfolios)
+ */
+export async function recordPortfolioRiskSnapshot(
+  portfolioId: string,
+  trigger: SnapshotTrigger
+): Promise<number> {
+  const risk = await calculatePortfolioRisk(portfolioId);
+
+  if (!risk || risk.currencies.length === 0) {
+    return 0;
+  }
+
+  const { modelVersion } = await getActiveRiskConfig();
+  const calculatedAt = new Date(); // Shared so currency books line up on the chart
+
+  await prisma.portfolioRiskSnapshot.createMany({
+    data: risk.currencies.map(currency => {
+      const data = risk.perCurrency[currency];
+      return {
+        portfolioId,
+        currency,
+        totalExposure: data.totalExposure,
+        baseRisk: data.baseRisk,
+        adjustedRisk: data.adjustedRisk,
+        concentrationPenalty: data.concentrationPenalty,
+        maxConcentration: data.maxConcentration,
+        riskBucket: data.riskBucket,
+        lowExposure: data.buckets.low,
+        mediumExposure: data.buckets.medium,
+        highExposure: data.buckets.high,
+        airlineCount: data.rows.length,
+        expectedLoss: data.expectedLoss,
+        modelVersion,
+        trigger,
+        calculatedAt,
+      };
+    }),
+  });
+
+  return risk.currencies.length;
+}
+
+/**
+ * Record a snapshot after exposures change, and evaluate the portfolio's limit breach watches
+ * Failures are logged and never fail the exposure update itself
+ */
+export async function snapshotAfterExposureChange(portfolioId: string): Promise<void> {
+  try {
+    await recordPortfolioRiskSnapshot(portfolioId, 'exposure_change');
+  } catch (error) {
+    console.error(`Error recording risk snapshot for portfolio ${portfolioId}:`, error);
+  }
+
+  await evaluatePortfolioAlerts(portfolioId);
+}
+
+/**
+ * Snapshot every portfolio (used by the scheduled snapshot script)
+ */
+export async function recordAllPortfolioRiskSnapshots(
+  trigger: SnapshotTrigger = 'scheduled'
+): Promise<{ portfolios: number; snapshots: number; failed: string[] }> {
+  const portfolios = await prisma.portfolio.findMany({ select: { id: true } });
+  const failed: string[] = [];
+  let snapshots = 0;
+
+  for (const portfolio of portfolios) {
+    try {
+      snapshots += await recordPortfolioRiskSnapshot(portfolio.id, trigger);
+    } catch (error) {
+      console.error(`Error recording risk snapshot for portfolio ${portfolio.id}:`, error);
+      failed.push(portfolio.id);
+    }
+  }
+
+  return { portfolios: portfolios.length, snapshots, failed };
+}
+
+/**
+ * Get the risk time series per currency, oldest first
+ */
+export async function getPortfolioRiskHistory(
+  portfolioId: string,
+  since?: Date
+): Promise<Record<string, RiskHistoryPoint[]>> {
+  const snapshots = await prisma.portfolioRiskSnapshot.findMany({
+    where: {
+      portfolioId,
+      ...(since && { calculatedAt: { gte: since } }),
+    },
+    orderBy: { calculatedAt: 'asc' },
+  });
+
+  const history: Record<string, RiskHistoryPoint[]> = {};
+  for (const snapshot of snapshots) {
+    if (!history[snapshot.currency]) {
+      history[snapshot.currency] = [];
+    }
+    history[snapshot.currency].push({
+      calculatedAt: snapshot.calculatedAt,
+      totalExposure: snapshot.totalExposure,
+      baseRisk: snapshot.baseRisk,
+      adjustedRisk: snapshot.adjustedRisk,
+      concentrationPenalty: snapshot.concentrationPenalty,
+      maxConcentration: snapshot.maxConcentration,
+      riskBucket: snapshot.riskBucket,
+      buckets: {
+        low: snapshot.lowExposure,
+        medium: snapshot.mediumExposure,
+        high: snapshot.highExposure,
+      },
+      airlineCount: snapshot.airlineCount,
+      expectedLoss: snapshot.expectedLoss,
+      modelVersion: snapshot.modelVersion,
+      trigger: snapshot.trigger,
+    });
+  }
+
+  return history;
+}
+
+/**
+ * First day of the calendar quarter containing the date
+ */
+export function getQuarterStart(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+}
+
+/**
+ * Summarize how adjusted risk moved since the start of a reporting period
+ * Uses the last snapshot before the period start as the opening value, if there is one
+ * Returns null if there are no snapshots up to the end of the period
+ */
+export function summarizeTrajectory(
+  points: RiskHistoryPoint[],
+  periodStart: Date = getQuarterStart()
+): RiskTrajectory | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const before = points.filter(p => p.calculatedAt < periodStart);
+  const during = points.filter(p => p.calculatedAt >= periodStart);
+  const opening = before.length > 0 ? before[before.length - 1] : during[0];
+  const latest = points[points.length - 1];
+  const inPeriod = [opening, ...during];
+
+  return {
+    periodStart,
+    startRisk: opening.adjustedRisk,
+    latestRisk: latest.adjustedRisk,
+    change: Math.round((latest.adjustedRisk - opening.adjustedRisk) * 10) / 10,
+    minRisk: Math.min(...inPeriod.map(p => p.adjustedRisk)),
+    maxRisk: Math.max(...inPeriod.map(p => p.adjustedRisk)),
+  };
+}
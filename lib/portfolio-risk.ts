@@ -1,13 +1,40 @@
 // Portfolio risk calculation logic
 
+import { Aircraft, LeaseContract } from '@prisma/client';
 import prisma from './db';
+import { scoreToRiskBucket, RiskConfig } from './risk-model';
+import { analyzeConcentration, SegmentConcentration, SegmentValues } from './concentration';
+import { aggregateByGroup, GroupExposure, RowGroup } from './airline-groups';
+import { compareLimitChecks, evaluateExposureLimits, getExposureLimits, toExposureLimit, LimitChangeCheck, LimitCheck } from './exposure-limits';
+import { getActiveRiskConfig } from './risk-model-versions';
+import { findFxRate, getFxRates, FxRateInput } from './fx-rates';
+import { calculateExpectedLoss, scoreToRating } from './expected-loss';
+import { deriveExposure, LeaseTerms } from './lease-terms';
+import { SimulationExposure } from './credit-simulation';
+import { getCountryInfo } from './sources/restCountries';
+import { activeOverridesInclude, applySnapshotOverrides } from './risk-overrides';
+import { getRecoveryProfiles } from './recovery';
+
+// Credit loss estimate for a single exposure row
+export interface ExposureLossFields {
+  ratingGrade: string;
+  pd: number;           // 1-year PD as decimal
+  lgd: number;          // As decimal
+  expectedLoss: number; // PD x LGD x exposure
+  lgdBasis: 'collateral' | 'unsecured';
+  recoveryHaircut?: number; // Collateral haircut for the lessee's jurisdiction (decimal)
+}
 
 export interface CurrencyRiskResult {
   totalExposure: number;
   baseRisk: number;
   adjustedRisk: number;
-  concentrationPenalty: number;
-  maxConcentration: number; // As decimal (0-1)
+  concentrationPenalty: number; // Single-name plus segment penalties
+  singleNamePenalty: number;
+  maxConcentration: number; // Largest obligor (airline group or standalone airline), as decimal (0-1)
+  effectiveNames: number;   // 1 / HHI of obligor exposures
+  segmentConcentration: SegmentConcentration[];
+  groups: GroupExposure[];  // Exposure by obligor, largest first
   riskBucket: 'Low' | 'Medium' | 'High';
   buckets: {
     low: number;
@@ -23,19 +50,42 @@ export interface CurrencyRiskResult {
     exposure: number;
     risk: number;
     riskBucket: string;
+    segments?: SegmentValues;
+    group?: RowGroup | null;
+  } & ExposureLossFields>;
+  expectedLoss: number;
+  expectedLossRate: number; // EL / total exposure, as decimal
+  weightedPd: number;       // Exposure-weighted PD, as decimal
+}
+
+// All currency books converted into the portfolio's reporting currency
+export interface ConsolidatedRiskResult extends CurrencyRiskResult {
+  reportingCurrency: string;
+  fxRates: Array<{
+    currency: string;
+    rate: number;       // Reporting currency units per 1 unit of currency
+    asOf: Date | null;  // null for the reporting currency itself
   }>;
 }
 
 export interface PortfolioRiskResult {
   perCurrency: Record<string, CurrencyRiskResult>;
   currencies: string[];
-  // Legacy fields for backward compatibility (uses first currency if single-currency portfolio)
+  reportingCurrency: string;
+  consolidated: ConsolidatedRiskResult | null; // null if an FX rate is missing
+  missingFxRates: string[];                    // Currencies with no rate into the reporting currency
+  limits: LimitCheck[] | null;                 // Measured in `currency`; null if the books can't be consolidated
+  // Legacy fields for backward compatibility (single currency, or consolidated when rates are available)
   totalExposure: number;
   baseRisk: number;
   adjustedRisk: number;
   portfolioRisk: number;
   concentrationPenalty: number;
+  singleNamePenalty: number;
   maxConcentration: number;
+  effectiveNames: number;
+  segmentConcentration: SegmentConcentration[];
+  groups: GroupExposure[];
   riskBucket: 'Low' | 'Medium' | 'High';
   buckets: {
     low: number;
@@ -51,32 +101,60 @@ export interface PortfolioRiskResult {
     exposure: number;
     risk: number;
     riskBucket: string;
-  }>;
+  } & ExposureLossFields>;
+  expectedLoss: number;
+  expectedLossRate: number;
+  weightedPd: number;
+  currency: string;
+}
+
+// Exposure not saved yet - evaluated as if it were in the portfolio, replacing any
+// existing exposure to the same airline
+export interface ProposedExposure {
+  airlineId: string;
+  exposureAmount: number;
   currency: string;
 }
 
+// Change to an exposure whose amount is derived from its leases and aircraft
+export interface DerivedExposureChange {
+  exposureSource?: 'derived'; // Set when a manual exposure is being switched to derived
+  currency?: string;
+  leases?: (leases: LeaseContract[]) => LeaseTerms[];
+  aircraft?: (aircraft: Aircraft[]) => Array<{ appraisedValue: number | null }>;
+}
+
 /**
  * Calculate portfolio-level risk from airline exposures
  * Supports multi-currency portfolios by calculating risk per currency
+ * Pass a proposed exposure to see the portfolio as it would be after adding or changing it
  */
 export async function calculatePortfolioRisk(
-  portfolioId: string
+  portfolioId: string,
+  proposed?: ProposedExposure
 ): Promise<PortfolioRiskResult | null> {
+  const airlineInclude = {
+    riskSnapshots: {
+      orderBy: { calculatedAt: 'desc' as const },
+      take: 1,
+    },
+    riskOverrides: activeOverridesInclude(),
+    group: true,
+  };
+
   const portfolio = await prisma.portfolio.findUnique({
     where: { id: portfolioId },
     include: {
       exposures: {
         include: {
-          airline: {
-            include: {
-              riskSnapshots: {
-                orderBy: { calculatedAt: 'desc' },
-                take: 1,
-              },
-            },
-          },
+          airline: { include: airlineInclude },
+          aircraft: true,
+          leases: true,
         },
       },
+      limits: {
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
 
@@ -84,20 +162,62 @@ export async function calculatePortfolioRisk(
     return null;
   }
 
+  if (proposed) {
+    const existing = portfolio.exposures.find(e => e.airlineId === proposed.airlineId);
+    const airline = existing?.airline
+      ?? await prisma.airline.findUnique({ where: { id: proposed.airlineId }, include: airlineInclude });
+
+    if (airline) {
+      const now = new Date();
+      portfolio.exposures = [
+        ...portfolio.exposures.filter(e => e.airlineId !== proposed.airlineId),
+        {
+          id: existing?.id ?? 'proposed',
+          portfolioId,
+          airlineId: airline.id,
+          numAircraft: null,
+          notes: null,
+          exposureSource: 'manual',
+          createdAt: now,
+          aircraft: [],
+          leases: [],
+          ...existing,
+          exposureAmount: proposed.exposureAmount,
+          currency: proposed.currency,
+          updatedAt: now,
+          airline,
+        },
+      ];
+    }
+  }
+
+  const limits = portfolio.limits.map(toExposureLimit);
+
   if (portfolio.exposures.length === 0) {
     return {
       perCurrency: {},
       currencies: [],
+      reportingCurrency: portfolio.reportingCurrency,
+      consolidated: null,
+      missingFxRates: [],
+      limits: evaluateExposureLimits([], limits),
       totalExposure: 0,
       baseRisk: 0,
       adjustedRisk: 0,
       portfolioRisk: 0,
       concentrationPenalty: 0,
+      singleNamePenalty: 0,
       maxConcentration: 0,
+      effectiveNames: 0,
+      segmentConcentration: [],
+      groups: [],
       riskBucket: 'Low',
       buckets: { low: 0, medium: 0, high: 0 },
       topExposures: [],
-      currency: 'USD',
+      expectedLoss: 0,
+      expectedLossRate: 0,
+      weightedPd: 0,
+      currency: portfolio.reportingCurrency,
     };
   }
 
@@ -114,24 +234,30 @@ export async function calculatePortfolioRisk(
   const currencies = Array.from(exposuresByCurrency.keys()).sort();
   const perCurrency: Record<string, CurrencyRiskResult> = {};
 
+  // Thresholds and concentration rules come from the active model version
+  const config = await getActiveRiskConfig();
+
+  // Region and subregion for segment concentration - look up each country once
+  const countries = Array.from(new Set(portfolio.exposures.map(e => e.airline.country)));
+  const countryInfos = await Promise.all(countries.map(country => getCountryInfo(country)));
+  const countryInfo = new Map(countries.map((country, i) => [country, countryInfos[i]]));
+
+  // Repossession time and cost in each lessee's jurisdiction set the LGD collateral haircut
+  const recoveryProfiles = await getRecoveryProfiles(countries);
+
   // Calculate risk for each currency group
   for (const [currency, exposures] of exposuresByCurrency.entries()) {
-    let totalExposure = 0;
-    let weightedRiskSum = 0;
-    const buckets = { low: 0, medium: 0, high: 0 };
-    const rows: Array<{
-      airline: { icao: string; name: string; country: string };
-      exposure: number;
-      risk: number;
-      riskBucket: string;
-    }> = [];
+    const rows: CurrencyRiskResult['rows'] = [];
 
     for (const exposure of exposures) {
       const amount = exposure.exposureAmount;
-      totalExposure += amount;
 
-      // Get latest risk snapshot for airline
-      const latestSnapshot = exposure.airline.riskSnapshots[0];
+      // Get latest risk snapshot for airline, with any analyst overrides in effect
+      const latestSnapshot = applySnapshotOverrides(
+        exposure.airline.riskSnapshots[0],
+        exposure.airline.riskOverrides,
+        config
+      );
       let airlineRisk = 50; // Default moderate risk if no snapshot
       let riskBucket = 'Medium';
 
@@ -140,17 +266,10 @@ export async function calculatePortfolioRisk(
         riskBucket = latestSnapshot.riskBucket;
       }
 
-      // Calculate weighted risk contribution
-      weightedRiskSum += amount * airlineRisk;
-
-      // Group by risk bucket
-      if (riskBucket === 'Low') {
-        buckets.low += amount;
-      } else if (riskBucket === 'Medium') {
-        buckets.medium += amount;
-      } else {
-        buckets.high += amount;
-      }
+      // PD from the calibrated rating scale, LGD from collateral vs. exposure
+      const { assetValue, securityHeld } = deriveExposure(currency, exposure.leases, exposure.aircraft);
+      const recoveryHaircut = recoveryProfiles.get(exposure.airline.country)!.haircut;
+      const loss = calculateExpectedLoss(airlineRisk, amount, assetValue, securityHeld, config.ratingScale, recoveryHaircut);
 
       rows.push({
         airline: {
@@ -161,82 +280,344 @@ export async function calculatePortfolioRisk(
         exposure: amount,
         risk: airlineRisk,
         riskBucket,
+        segments: {
+          region: countryInfo.get(exposure.airline.country)?.region ?? null,
+          subregion: countryInfo.get(exposure.airline.country)?.subregion ?? null,
+          jurisdictionBand: latestSnapshot?.jurisdictionScore != null
+            ? scoreToRiskBucket(latestSnapshot.jurisdictionScore, config)
+            : null,
+        },
+        group: exposure.airline.group
+          ? { name: exposure.airline.group.name, guaranteed: exposure.airline.parentGuarantee }
+          : null,
+        ratingGrade: loss.ratingGrade,
+        pd: loss.pd,
+        lgd: loss.lgd,
+        expectedLoss: loss.expectedLoss,
+        lgdBasis: loss.lgdBasis,
+        recoveryHaircut,
       });
     }
 
-    // Calculate base risk (exposure-weighted average)
-    const baseRisk = totalExposure > 0 ? weightedRiskSum / totalExposure : 0;
-
-    // Calculate concentration penalty within this currency
-    const maxExposureAmount = Math.max(...rows.map(r => r.exposure));
-    const maxConcentration = totalExposure > 0 ? maxExposureAmount / totalExposure : 0;
-    
-    let concentrationPenalty = 0;
-    if (maxConcentration > 0.7) {
-      concentrationPenalty = 10;
-    } else if (maxConcentration > 0.5) {
-      concentrationPenalty = 5;
-    }
-
-    // Calculate adjusted risk (clamped at 100)
-    const adjustedRisk = Math.min(100, baseRisk + concentrationPenalty);
-
-    // Determine risk bucket based on adjusted risk
-    let portfolioRiskBucket: 'Low' | 'Medium' | 'High' = 'Low';
-    if (adjustedRisk >= 70) {
-      portfolioRiskBucket = 'High';
-    } else if (adjustedRisk >= 40) {
-      portfolioRiskBucket = 'Medium';
-    }
-
-    // Sort rows by exposure descending
-    rows.sort((a, b) => b.exposure - a.exposure);
-
-    perCurrency[currency] = {
-      totalExposure: Math.round(totalExposure * 100) / 100,
-      baseRisk: Math.round(baseRisk * 10) / 10,
-      adjustedRisk: Math.round(adjustedRisk * 10) / 10,
-      concentrationPenalty,
-      maxConcentration: Math.round(maxConcentration * 1000) / 1000,
-      riskBucket: portfolioRiskBucket,
-      buckets: {
-        low: Math.round(buckets.low * 100) / 100,
-        medium: Math.round(buckets.medium * 100) / 100,
-        high: Math.round(buckets.high * 100) / 100,
-      },
-      rows,
-    };
+    perCurrency[currency] = summarizeRiskRows(rows, config);
   }
 
-  // For backward compatibility, use first currency as default
-  const primaryCurrency = currencies[0] || 'USD';
-  const primaryData = perCurrency[primaryCurrency] || {
+  // Consolidate all books into the reporting currency using the latest stored rates
+  const reportingCurrency = portfolio.reportingCurrency;
+  const { consolidated, missingFxRates } = consolidateCurrencyResults(
+    perCurrency,
+    reportingCurrency,
+    currencies.some(currency => currency !== reportingCurrency) ? await getFxRates() : [],
+    config
+  );
+
+  // Single-currency books keep their own currency; mixed books use the consolidated view when possible
+  const useConsolidated = currencies.length > 1 && consolidated !== null;
+  const primaryCurrency = useConsolidated ? reportingCurrency : currencies[0] || 'USD';
+  const primaryData = (useConsolidated && consolidated) || perCurrency[primaryCurrency] || {
     totalExposure: 0,
     baseRisk: 0,
     adjustedRisk: 0,
     concentrationPenalty: 0,
+    singleNamePenalty: 0,
     maxConcentration: 0,
+    effectiveNames: 0,
+    segmentConcentration: [],
+    groups: [],
     riskBucket: 'Low' as const,
     buckets: { low: 0, medium: 0, high: 0 },
     rows: [],
+    expectedLoss: 0,
+    expectedLossRate: 0,
+    weightedPd: 0,
   };
 
+  // Limits are shares of total exposure, so a single book is measured in its own currency
+  const limitRows = currencies.length === 1 ? perCurrency[currencies[0]].rows : consolidated?.rows;
+  const limitChecks = limitRows || limits.length === 0 ? evaluateExposureLimits(limitRows ?? [], limits) : null;
+
   return {
     perCurrency,
     currencies,
+    reportingCurrency,
+    consolidated,
+    missingFxRates,
+    limits: limitChecks,
     totalExposure: primaryData.totalExposure,
     baseRisk: primaryData.baseRisk,
     adjustedRisk: primaryData.adjustedRisk,
     portfolioRisk: primaryData.adjustedRisk,
     concentrationPenalty: primaryData.concentrationPenalty,
+    singleNamePenalty: primaryData.singleNamePenalty,
     maxConcentration: primaryData.maxConcentration,
+    effectiveNames: primaryData.effectiveNames,
+    segmentConcentration: primaryData.segmentConcentration,
+    groups: primaryData.groups,
     riskBucket: primaryData.riskBucket,
     buckets: primaryData.buckets,
     topExposures: primaryData.rows.slice(0, 10),
+    expectedLoss: primaryData.expectedLoss,
+    expectedLossRate: primaryData.expectedLossRate,
+    weightedPd: primaryData.weightedPd,
     currency: primaryCurrency,
   };
 }
 
+/**
+ * Check a proposed exposure against the portfolio's limits
+ * Returns the limits it would breach or push further into breach (hard ones block it),
+ * or null if the portfolio doesn't exist. Without the FX rates to measure the portfolio,
+ * the hard limits that couldn't be enforced are returned in uncheckedHardLimits
+ */
+export async function checkProposedExposure(
+  portfolioId: string,
+  proposed: ProposedExposure
+): Promise<LimitChangeCheck | null> {
+  const current = await calculatePortfolioRisk(portfolioId);
+  if (!current) {
+    return null;
+  }
+
+  if (current.limits && current.limits.length === 0) {
+    return { checked: true, breaches: [], warnings: [], uncheckedHardLimits: [], missingFxRates: [] };
+  }
+
+  const after = await calculatePortfolioRisk(portfolioId, proposed);
+  const result = compareLimitChecks(current.limits, after?.limits ?? null);
+  if (result.checked) {
+    return result;
+  }
+
+  const limits = await getExposureLimits(portfolioId);
+  return {
+    ...result,
+    uncheckedHardLimits: limits.filter(limit => limit.hard),
+    missingFxRates: after?.missingFxRates.length ? after.missingFxRates : current.missingFxRates,
+  };
+}
+
+/**
+ * Check the amount a derived exposure would have after a change to its currency, leases or
+ * aircraft against the portfolio's limits, before the change is written
+ * Returns null for manual exposures (their amount doesn't follow the change) or if the
+ * exposure doesn't exist
+ */
+export async function checkDerivedExposureChange(
+  exposureId: string,
+  change: DerivedExposureChange
+): Promise<LimitChangeCheck | null> {
+  const exposure = await prisma.leaseExposure.findUnique({
+    where: { id: exposureId },
+    include: { leases: true, aircraft: true },
+  });
+
+  if (!exposure || (change.exposureSource ?? exposure.exposureSource) !== 'derived') {
+    return null;
+  }
+
+  const currency = change.currency ?? exposure.currency;
+  const derived = deriveExposure(
+    currency,
+    change.leases ? change.leases(exposure.leases) : exposure.leases,
+    change.aircraft ? change.aircraft(exposure.aircraft) : exposure.aircraft
+  );
+
+  return checkProposedExposure(exposure.portfolioId, {
+    airlineId: exposure.airlineId,
+    exposureAmount: derived.exposureAmount,
+    currency,
+  });
+}
+
+/**
+ * Aggregate exposure rows (all in one currency) into portfolio risk metrics
+ */
+export function summarizeRiskRows(
+  rows: CurrencyRiskResult['rows'],
+  config: Pick<RiskConfig, 'concentrationModel' | 'segmentConcentrationRules' | 'bucketThresholds'>
+): CurrencyRiskResult {
+  let totalExposure = 0;
+  let weightedRiskSum = 0;
+  let expectedLoss = 0;
+  let weightedPdSum = 0;
+  const buckets = { low: 0, medium: 0, high: 0 };
+
+  for (const row of rows) {
+    totalExposure += row.exposure;
+
+    // Calculate weighted risk contribution
+    weightedRiskSum += row.exposure * row.risk;
+
+    // Group by risk bucket
+    if (row.riskBucket === 'Low') {
+      buckets.low += row.exposure;
+    } else if (row.riskBucket === 'Medium') {
+      buckets.medium += row.exposure;
+    } else {
+      buckets.high += row.exposure;
+    }
+
+    expectedLoss += row.expectedLoss;
+    weightedPdSum += row.exposure * row.pd;
+  }
+
+  // Calculate base risk (exposure-weighted average)
+  const baseRisk = totalExposure > 0 ? weightedRiskSum / totalExposure : 0;
+
+  // Concentration penalty from the HHI of obligor exposures (credit limits are set at group
+  // level, so subsidiaries of one group count as a single name), plus country, region and
+  // jurisdiction band penalties - shared with the scenario calculator
+  const concentration = analyzeConcentration(rows, config);
+  const concentrationPenalty = concentration.penalty;
+
+  // Calculate adjusted risk (clamped at 100)
+  const adjustedRisk = Math.min(100, baseRisk + concentrationPenalty);
+
+  // Determine risk bucket based on adjusted risk
+  let portfolioRiskBucket: 'Low' | 'Medium' | 'High' = 'Low';
+  if (adjustedRisk >= config.bucketThresholds.mediumMax) {
+    portfolioRiskBucket = 'High';
+  } else if (adjustedRisk >= config.bucketThresholds.lowMax) {
+    portfolioRiskBucket = 'Medium';
+  }
+
+  return {
+    totalExposure: Math.round(totalExposure * 100) / 100,
+    baseRisk: Math.round(baseRisk * 10) / 10,
+    adjustedRisk: Math.round(adjustedRisk * 10) / 10,
+    concentrationPenalty,
+    singleNamePenalty: concentration.names.penalty,
+    maxConcentration: concentration.names.maxConcentration,
+    effectiveNames: concentration.names.effectiveNames,
+    segmentConcentration: concentration.segments,
+    groups: aggregateByGroup(rows),
+    riskBucket: portfolioRiskBucket,
+    buckets: {
+      low: Math.round(buckets.low * 100) / 100,
+      medium: Math.round(buckets.medium * 100) / 100,
+      high: Math.round(buckets.high * 100) / 100,
+    },
+    // Sort rows by exposure descending
+    rows: [...rows].sort((a, b) => b.exposure - a.exposure),
+    expectedLoss: Math.round(expectedLoss * 100) / 100,
+    expectedLossRate: totalExposure > 0 ? Math.round((expectedLoss / totalExposure) * 100000) / 100000 : 0,
+    weightedPd: totalExposure > 0 ? Math.round((weightedPdSum / totalExposure) * 100000) / 100000 : 0,
+  };
+}
+
+/**
+ * Convert every currency book into the reporting currency and recompute the
+ * portfolio metrics across all of them (concentration is measured on the combined book)
+ * Returns consolidated: null and the missing currencies if any rate is unavailable
+ */
+export function consolidateCurrencyResults(
+  perCurrency: Record<string, CurrencyRiskResult>,
+  reportingCurrency: string,
+  rates: FxRateInput[],
+  config: Pick<RiskConfig, 'concentrationModel' | 'segmentConcentrationRules' | 'bucketThresholds'>
+): { consolidated: ConsolidatedRiskResult | null; missingFxRates: string[] } {
+  const currencies = Object.keys(perCurrency).sort();
+  const fxRates: ConsolidatedRiskResult['fxRates'] = [];
+  const missingFxRates: string[] = [];
+  const rows: CurrencyRiskResult['rows'] = [];
+
+  if (currencies.length === 0) {
+    return { consolidated: null, missingFxRates };
+  }
+
+  for (const currency of currencies) {
+    const fx = findFxRate(currency, reportingCurrency, rates);
+    if (!fx) {
+      missingFxRates.push(currency);
+      continue;
+    }
+
+    fxRates.push({ currency, rate: fx.rate, asOf: fx.asOf });
+    for (const row of perCurrency[currency].rows) {
+      rows.push({
+        ...row,
+        exposure: Math.round(row.exposure * fx.rate * 100) / 100,
+        expectedLoss: row.expectedLoss * fx.rate,
+      });
+    }
+  }
+
+  if (missingFxRates.length > 0) {
+    return { consolidated: null, missingFxRates };
+  }
+
+  return {
+    consolidated: { ...summarizeRiskRows(rows, config), reportingCurrency, fxRates },
+    missingFxRates,
+  };
+}
+
+/**
+ * Build credit loss simulation inputs for one currency of a portfolio
+ * Returns null if the portfolio doesn't exist
+ */
+export async function getSimulationExposures(
+  portfolioId: string,
+  currency: string
+): Promise<SimulationExposure[] | null> {
+  const portfolio = await prisma.portfolio.findUnique({
+    where: { id: portfolioId },
+    include: {
+      exposures: {
+        where: { currency },
+        include: {
+          airline: {
+            include: {
+              riskSnapshots: {
+                orderBy: { calculatedAt: 'desc' },
+                take: 1,
+              },
+              riskOverrides: activeOverridesInclude(),
+              group: true,
+            },
+          },
+          aircraft: true,
+          leases: true,
+        },
+      },
+    },
+  });
+
+  if (!portfolio) {
+    return null;
+  }
+
+  const config = await getActiveRiskConfig();
+
+  // Region drives a shared default factor - look up each country once
+  const countries = Array.from(new Set(portfolio.exposures.map(e => e.airline.country)));
+  const countryInfos = await Promise.all(countries.map(country => getCountryInfo(country)));
+  const regions = new Map(countries.map((country, i) => [country, countryInfos[i]?.region]));
+  const recoveryProfiles = await getRecoveryProfiles(countries);
+
+  return portfolio.exposures
+    .filter(exposure => exposure.exposureAmount > 0)
+    .map(exposure => {
+      const snapshot = applySnapshotOverrides(exposure.airline.riskSnapshots[0], exposure.airline.riskOverrides, config);
+      const score = snapshot?.overallScore ?? 50; // Default moderate risk
+      const { assetValue, securityHeld } = deriveExposure(currency, exposure.leases, exposure.aircraft);
+
+      return {
+        id: exposure.id,
+        airlineIcao: exposure.airline.icao,
+        airlineName: exposure.airline.name,
+        country: exposure.airline.country,
+        region: regions.get(exposure.airline.country),
+        group: exposure.airline.group?.name,
+        exposure: exposure.exposureAmount,
+        pd: scoreToRating(score, config.ratingScale).pd,
+        assetValue,
+        securityHeld,
+        recoveryHaircut: recoveryProfiles.get(exposure.airline.country)!.haircut,
+      };
+    });
+}
+
 /**
  * Get portfolio summary without full risk calculation
  */
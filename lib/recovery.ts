@@ -0,0 +1,151 @@
+// Aircraft recovery by jurisdiction - how long and how costly it is to repossess, deregister
+// and export an aircraft after a lessee defaults, feeding the collateral haircut in LGD
+
+import prisma from './db';
+import { RiskConfig } from './risk-model';
+import { ASSET_RECOVERY_HAIRCUT, calculateExpectedLoss, ExpectedLossEstimate } from './expected-loss';
+import { deriveExposure } from './lease-terms';
+import { CountryIndicators, findCountryIndicators, loadCountryIndicators } from './sources/countryIndicators';
+
+export interface RecoveryProfile {
+  country: string;
+  basis: 'dataset' | 'default'; // 'default' when the country isn't in the indicator dataset
+  asOf?: string;
+  capeTownRatified: boolean | null;
+  repossessionMonths: number;
+  legalCostPct: number;
+  ideraAvailable: boolean;
+  monthsToExport: number;       // Repossession plus deregistration delay without IDERA
+  recoveryCost: number;         // Legal plus carrying cost, as share of asset value
+  haircut: number;              // Collateral haircut used in LGD (decimal)
+}
+
+export interface ExposureRecovery extends ExpectedLossEstimate {
+  exposureId: string;
+  portfolioId: string;
+  portfolioName: string;
+  currency: string;
+  assetValue: number;
+  securityHeld: number;
+  recoveryHaircut: number;
+}
+
+// Lost rent, storage, insurance and maintenance while the aircraft is held, per month,
+// as share of asset value
+export const MONTHLY_CARRYING_COST = 0.01;
+
+// Extra time to deregister and export without an IDERA the registry will honour
+export const DEREGISTRATION_DELAY_MONTHS = 3;
+
+// ASSET_RECOVERY_HAIRCUT already covers a Cape Town jurisdiction with IDERA - about two months
+// to repossess at 2% legal cost. Only recovery costs beyond this benchmark add to the haircut
+export const BENCHMARK_RECOVERY_COST = 0.02 + 2 * MONTHLY_CARRYING_COST;
+
+// Haircut cap - some value is always recoverable, if only as parts
+export const MAX_RECOVERY_HAIRCUT = 0.8;
+
+// Assumed for countries outside the dataset
+const DEFAULT_RECOVERY = {
+  repossessionMonths: 12,
+  legalCostPct: 5,
+  ideraAvailable: false,
+};
+
+/**
+ * Recovery profile for a country
+ * Figures missing from the dataset are estimated from Cape Town status and the repossession
+ * enforceability score: 2-8 months under Cape Town, 6-24 months without
+ */
+export function buildRecoveryProfile(country: string, indicators?: CountryIndicators): RecoveryProfile {
+  let repossessionMonths = DEFAULT_RECOVERY.repossessionMonths;
+  let legalCostPct = DEFAULT_RECOVERY.legalCostPct;
+  let ideraAvailable = DEFAULT_RECOVERY.ideraAvailable;
+
+  if (indicators) {
+    const ratified = indicators.capeTownRatified === true;
+    const weakness = 1 - Math.max(0, Math.min(100, indicators.repossessionScore ?? 50)) / 100;
+
+    repossessionMonths = indicators.repossessionMonths ?? (ratified ? 2 + weakness * 6 : 6 + weakness * 18);
+    legalCostPct = indicators.legalCostPct ?? (ratified ? 2 : 5);
+    ideraAvailable = indicators.ideraAvailable ?? ratified;
+  }
+
+  const monthsToExport = repossessionMonths + (ideraAvailable ? 0 : DEREGISTRATION_DELAY_MONTHS);
+  const recoveryCost = legalCostPct / 100 + monthsToExport * MONTHLY_CARRYING_COST;
+  const haircut = Math.min(
+    MAX_RECOVERY_HAIRCUT,
+    ASSET_RECOVERY_HAIRCUT + Math.max(0, recoveryCost - BENCHMARK_RECOVERY_COST)
+  );
+
+  return {
+    country,
+    basis: indicators ? 'dataset' : 'default',
+    asOf: indicators?.asOf,
+    capeTownRatified: indicators?.capeTownRatified ?? null,
+    repossessionMonths: Math.round(repossessionMonths * 10) / 10,
+    legalCostPct,
+    ideraAvailable,
+    monthsToExport: Math.round(monthsToExport * 10) / 10,
+    recoveryCost: Math.round(recoveryCost * 1000) / 1000,
+    haircut: Math.round(haircut * 1000) / 1000,
+  };
+}
+
+/**
+ * Recovery profiles for a set of countries, reading the indicator dataset once
+ * Countries are assumed to follow the default profile if the dataset is unavailable
+ */
+export async function getRecoveryProfiles(countries: string[]): Promise<Map<string, RecoveryProfile>> {
+  const dataset = (await loadCountryIndicators()) ?? [];
+  return new Map(
+    countries.map(country => [country, buildRecoveryProfile(country, findCountryIndicators(dataset, country))])
+  );
+}
+
+export async function getRecoveryProfile(country: string): Promise<RecoveryProfile> {
+  return (await getRecoveryProfiles([country])).get(country)!;
+}
+
+/**
+ * LGD and expected loss for each of an airline's lease exposures, with the recovery haircut
+ * of the airline's jurisdiction
+ */
+export async function getAirlineExposureRecoveries(
+  airlineId: string,
+  score: number,
+  profile: RecoveryProfile,
+  config: Pick<RiskConfig, 'ratingScale'>
+): Promise<ExposureRecovery[]> {
+  const exposures = await prisma.leaseExposure.findMany({
+    where: { airlineId },
+    include: {
+      portfolio: { select: { id: true, name: true } },
+      leases: true,
+      aircraft: { select: { appraisedValue: true } },
+    },
+    orderBy: { exposureAmount: 'desc' },
+  });
+
+  return exposures.map(exposure => {
+    const { assetValue, securityHeld } = deriveExposure(exposure.currency, exposure.leases, exposure.aircraft);
+    const loss = calculateExpectedLoss(
+      score,
+      exposure.exposureAmount,
+      assetValue,
+      securityHeld,
+      config.ratingScale,
+      profile.haircut
+    );
+
+    return {
+      ...loss,
+      exposureId: exposure.id,
+      portfolioId: exposure.portfolio.id,
+      portfolioName: exposure.portfolio.name,
+      currency: exposure.currency,
+      assetValue,
+      securityHeld,
+      recoveryHaircut: profile.haircut,
+    };
+  });
+}
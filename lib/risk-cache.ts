@@ -1,29 +1,30 @@
 // Snapshot caching logic for airline risk assessments
+// Snapshots are read and written through lib/risk-snapshots.ts
 
 import prisma from './db';
 import { RiskResult, RiskContext } from './risk-model';
 import { calculateAirlineRisk } from './risk-aggregator';
-
-const CACHE_DURATION_HOURS = 6;
+import { getActiveRiskConfig } from './risk-model-versions';
+import { toGroupContext } from './airline-groups';
+import { toOwnershipContext } from './sovereign-support';
+import { getLatestRiskSnapshot, isSnapshotCurrent, saveRiskSnapshot, toRiskResult } from './risk-snapshots';
+import { applyRiskOverrides, getActiveOverrides } from './risk-overrides';
 
 /**
  * Get or calculate airline risk with caching
- * Reuses snapshots if they're less than 6 hours old
+ * Reuses the latest snapshot until it expires or a different model version is activated
+ * Snapshots hold the model result; active analyst overrides are applied on the way out
  */
 export async function getOrCalculateAirlineRisk(
-  context: RiskContext
+  context: RiskContext,
+  forceRefresh: boolean = false
 ): Promise<RiskResult> {
   const icao = context.airline.icao.toUpperCase();
 
   // Try to find airline in database
   let airline = await prisma.airline.findUnique({
     where: { icao },
-    include: {
-      riskSnapshots: {
-        orderBy: { calculatedAt: 'desc' },
-        take: 1,
-      },
-    },
+    include: { group: true },
   });
 
   // If airline doesn't exist in DB, create it
@@ -36,144 +37,49 @@ export async function getOrCalculateAirlineRisk(
         country: context.airline.country,
         active: context.airline.active,
         fleetSize: context.airline.fleetSize,
+        stateOwnership: context.airline.ownership?.stateOwnership,
+        strategicImportance: context.airline.ownership?.strategicImportance,
+        sovereignRating: context.airline.ownership?.sovereignRating,
       },
-      include: {
-        riskSnapshots: {
-          orderBy: { calculatedAt: 'desc' },
-          take: 1,
-        },
-      },
+      include: { group: true },
     });
     console.log(`Created airline in database: ${icao}`);
   }
 
-  // Check if we have a recent snapshot
-  const latestSnapshot = airline.riskSnapshots[0];
-  const now = new Date();
-  const cacheExpiryTime = new Date(now.getTime() - CACHE_DURATION_HOURS * 60 * 60 * 1000);
-
-  if (latestSnapshot && latestSnapshot.calculatedAt > cacheExpiryTime) {
-    console.log(`Using cached risk snapshot for ${icao} (age: ${Math.round((now.getTime() - latestSnapshot.calculatedAt.getTime()) / 60000)}min)`);
-    
-    // Reconstruct RiskResult from snapshot
-    return reconstructRiskResultFromSnapshot(latestSnapshot, context);
+  // Parent group lets subsidiaries inherit its financials
+  if (!context.airline.group) {
+    context.airline.group = toGroupContext(airline);
   }
 
-  // No recent snapshot - calculate fresh risk
-  console.log(`Calculating fresh risk for ${icao}`);
-  const riskResult = await calculateAirlineRisk(context);
+  // Stored ownership is maintained by analysts and takes precedence over provider data
+  context.airline.ownership = toOwnershipContext(airline);
 
-  // Save snapshot to database
-  await saveRiskSnapshot(airline.id, riskResult);
+  const [activeConfig, overrides] = await Promise.all([
+    getActiveRiskConfig(),
+    getActiveOverrides(airline.id),
+  ]);
 
-  return riskResult;
-}
+  if (!forceRefresh) {
+    const latestSnapshot = await getLatestRiskSnapshot(airline.id);
 
-/**
- * Reconstruct a RiskResult from a database snapshot
- */
-function reconstructRiskResultFromSnapshot(
-  snapshot: any,
-  context: RiskContext
-): RiskResult {
-  const components: any = {};
-  const breakdown: any[] = [];
-
-  if (snapshot.countryScore !== null) {
-    components.country = snapshot.countryScore;
-    breakdown.push({
-      key: 'country',
-      name: 'Country Risk',
-      score: snapshot.countryScore,
-      weight: 0.28,
-    });
-  }
-
-  if (snapshot.activityScore !== null) {
-    components.activity = snapshot.activityScore;
-    breakdown.push({
-      key: 'activity',
-      name: 'Operational Presence Risk',
-      score: snapshot.activityScore,
-      weight: 0.20,
-    });
-  }
-
-  if (snapshot.sizeScore !== null || snapshot.statusScore !== null) {
-    // For Fleet & Status, we might have both or just size
-    const avgScore = snapshot.sizeScore ?? snapshot.statusScore ?? 50;
-    components.size = snapshot.sizeScore ?? avgScore;
-    components.status = snapshot.statusScore ?? avgScore;
-    breakdown.push({
-      key: 'size',
-      name: 'Fleet & Status Risk',
-      score: avgScore,
-      weight: 0.32,
-    });
-  }
-
-  if (snapshot.financialScore !== null) {
-    components.financial = snapshot.financialScore;
-    breakdown.push({
-      key: 'financial',
-      name: 'Financial Risk',
-      score: snapshot.financialScore,
-      weight: 0.20,
-    });
-  }
-
-  // Parse sourceData if available (stored as JSON string in SQLite)
-  let storedContext = context;
-  if (snapshot.sourceData) {
-    try {
-      storedContext = typeof snapshot.sourceData === 'string' 
-        ? JSON.parse(snapshot.sourceData)
-        : snapshot.sourceData;
-    } catch (e) {
-      console.warn('Failed to parse sourceData from snapshot');
+    if (latestSnapshot && isSnapshotCurrent(latestSnapshot, activeConfig)) {
+      console.log(`Using cached risk snapshot for ${icao} (age: ${Math.round((Date.now() - latestSnapshot.calculatedAt.getTime()) / 60000)}min)`);
+      return applyRiskOverrides(toRiskResult(latestSnapshot, activeConfig, context), overrides, activeConfig);
     }
   }
 
-  return {
-    overallScore: snapshot.overallScore,
-    riskBucket: snapshot.riskBucket as any,
-    components,
-    breakdown,
-    context: storedContext,
-    calculatedAt: snapshot.calculatedAt,
-    expiresAt: snapshot.expiresAt,
-  };
-}
+  // No current snapshot - calculate fresh risk
+  console.log(`Calculating fresh risk for ${icao}`);
+  const riskResult = await calculateAirlineRisk(context, activeConfig);
 
-/**
- * Save a risk snapshot to the database
- */
-async function saveRiskSnapshot(
-  airlineId: string,
-  riskResult: RiskResult
-): Promise<void> {
   try {
-    await prisma.airlineRiskSnapshot.create({
-      data: {
-        airlineId,
-        overallScore: riskResult.overallScore,
-        riskBucket: riskResult.riskBucket,
-        countryScore: riskResult.components.country ?? null,
-        activityScore: riskResult.components.activity ?? null,
-        sizeScore: riskResult.components.size ?? null,
-        statusScore: riskResult.components.status ?? null,
-        financialScore: riskResult.components.financial ?? null,
-        newsScore: riskResult.components.news ?? null,
-        sourceData: JSON.stringify(riskResult.context), // Convert to JSON string for SQLite
-        calculatedAt: riskResult.calculatedAt,
-        expiresAt: riskResult.expiresAt,
-      },
-    });
-    console.log(`Saved risk snapshot for airline ${airlineId}`);
+    await saveRiskSnapshot(airline.id, riskResult);
   } catch (error) {
     console.error('Error saving risk snapshot:', error);
     // Don't throw - caching failure shouldn't break the app
   }
+
+  return applyRiskOverrides(riskResult, overrides, activeConfig);
 }
 
 /**
@@ -182,16 +88,52 @@ async function saveRiskSnapshot(
 export async function forceRecalculateAirlineRisk(
   context: RiskContext
 ): Promise<RiskResult> {
-  const riskResult = await calculateAirlineRisk(context);
+  return getOrCalculateAirlineRisk(context, true);
+}
 
-  // Save to database if airline exists
+/**
+ * Get or calculate risk for an airline already in the database, building the
+ * context from its stored details and the external data sources
+ * Returns null if the airline doesn't exist
+ */
+export async function getAirlineRisk(
+  icao: string,
+  forceRefresh: boolean = false
+): Promise<RiskResult | null> {
   const airline = await prisma.airline.findUnique({
-    where: { icao: context.airline.icao.toUpperCase() },
+    where: { icao: icao.toUpperCase() },
+    include: { group: true },
   });
 
-  if (airline) {
-    await saveRiskSnapshot(airline.id, riskResult);
+  if (!airline) {
+    return null;
   }
 
-  return riskResult;
+  // Import API functions dynamically to avoid circular dependencies
+  const { getAirlineByIcao } = await import('./sources/aviation');
+  const { getCountryInfo } = await import('./sources/restCountries');
+  const { getFlightsLast24h } = await import('./airline-activity');
+
+  // Fetch fresh data from APIs
+  const [airlineData, countryInfo, activityData] = await Promise.all([
+    getAirlineByIcao(airline.icao),
+    getCountryInfo(airline.country),
+    getFlightsLast24h(airline.icao),
+  ]);
+
+  const context: RiskContext = {
+    airline: {
+      icao: airline.icao,
+      name: airline.name,
+      country: airline.country,
+      active: airline.active,
+      fleetSize: airline.fleetSize ?? undefined,
+      ticker: airlineData?.ticker,
+      group: toGroupContext(airline),
+    },
+    countryInfo,
+    activityData: { flightsLast24h: activityData },
+  };
+
+  return getOrCalculateAirlineRisk(context, forceRefresh);
 }
@@ -0,0 +1,222 @@
+// Risk model version management - persisted, immutable model parameters
+
+import prisma from './db';
+import {
+  RiskConfig,
+  RiskDimensionKey,
+  ConcentrationModel,
+  ConcentrationRule,
+  ConcentrationSegment,
+  SegmentConcentrationRules,
+  RatingGrade,
+  SovereignSupportModel,
+  StrategicImportance,
+  DEFAULT_RISK_CONFIG,
+} from './risk-model';
+
+const RISK_DIMENSION_KEYS: RiskDimensionKey[] = ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'];
+const CONCENTRATION_SEGMENTS: ConcentrationSegment[] = ['country', 'region', 'subregion', 'jurisdictionBand'];
+const STRATEGIC_IMPORTANCE_LEVELS: StrategicImportance[] = ['high', 'medium', 'low'];
+
+// Numeric versions (1.0, 2.11, v2) belong to the built-in default model, past and future -
+// snapshots are matched to their model by version, so stored versions must never collide
+const BUILT_IN_VERSION = /^v?\d+(\.\d+)*$/i;
+
+export interface RiskModelVersionInput {
+  version: string;
+  description?: string;
+  weights: Partial<Record<RiskDimensionKey, number>>;
+  enabledSources: RiskDimensionKey[];
+  concentrationModel?: ConcentrationModel;
+  segmentConcentrationRules?: SegmentConcentrationRules;
+  ratingScale: RatingGrade[];
+  sovereignSupport?: SovereignSupportModel;
+  lowMax: number;
+  mediumMax: number;
+}
+
+/**
+ * Convert a stored RiskModelVersion row into a RiskConfig
+ */
+export function toRiskConfig(record: {
+  version: string;
+  weights: string;
+  enabledSources: string;
+  concentrationModel?: string | null;
+  segmentConcentrationRules?: string | null;
+  ratingScale?: string | null;
+  sovereignSupport?: string | null;
+  lowMax: number;
+  mediumMax: number;
+}): RiskConfig {
+  return {
+    modelVersion: record.version,
+    cacheDurationMinutes: DEFAULT_RISK_CONFIG.cacheDurationMinutes,
+    bucketThresholds: {
+      lowMax: record.lowMax,
+      mediumMax: record.mediumMax,
+    },
+    weights: JSON.parse(record.weights),
+    enabledSources: JSON.parse(record.enabledSources),
+    concentrationModel: record.concentrationModel
+      ? JSON.parse(record.concentrationModel)
+      : DEFAULT_RISK_CONFIG.concentrationModel,
+    segmentConcentrationRules: record.segmentConcentrationRules
+      ? { ...DEFAULT_RISK_CONFIG.segmentConcentrationRules, ...JSON.parse(record.segmentConcentrationRules) }
+      : DEFAULT_RISK_CONFIG.segmentConcentrationRules,
+    ratingScale: record.ratingScale ? JSON.parse(record.ratingScale) : DEFAULT_RISK_CONFIG.ratingScale,
+    sovereignSupport: record.sovereignSupport
+      ? JSON.parse(record.sovereignSupport)
+      : DEFAULT_RISK_CONFIG.sovereignSupport,
+  };
+}
+
+/**
+ * Get the active risk model configuration
+ * Falls back to the built-in default model (DEFAULT_RISK_CONFIG) if no version has been activated
+ */
+export async function getActiveRiskConfig(): Promise<RiskConfig> {
+  try {
+    const active = await prisma.riskModelVersion.findFirst({
+      where: { isActive: true },
+      orderBy: { activatedAt: 'desc' },
+    });
+
+    return active ? toRiskConfig(active) : DEFAULT_RISK_CONFIG;
+  } catch (error) {
+    console.warn('Failed to load active risk model version, using default:', error);
+    return DEFAULT_RISK_CONFIG;
+  }
+}
+
+/**
+ * Validate a new model version request body
+ * Returns an error message, or null if valid
+ */
+export function validateRiskModelVersion(input: RiskModelVersionInput): string | null {
+  if (!input.version || typeof input.version !== 'string' || !input.version.trim()) {
+    return 'Version is required';
+  }
+
+  if (BUILT_IN_VERSION.test(input.version.trim())) {
+    return 'Numeric versions are reserved for the built-in default model - use a name such as conservative-1';
+  }
+
+  if (!Array.isArray(input.enabledSources) || input.enabledSources.length === 0) {
+    return 'At least one risk source must be enabled';
+  }
+
+  for (const key of input.enabledSources) {
+    if (!RISK_DIMENSION_KEYS.includes(key)) {
+      return `Unknown risk source: ${key}`;
+    }
+
+    const weight = input.weights?.[key];
+    if (typeof weight !== 'number' || isNaN(weight) || weight <= 0 || weight > 1) {
+      return `Weight for ${key} must be between 0 and 1`;
+    }
+  }
+
+  const totalWeight = input.enabledSources.reduce((sum, key) => sum + (input.weights[key] as number), 0);
+  if (Math.abs(totalWeight - 1) > 0.001) {
+    return `Weights of the enabled sources must total 1 (currently ${Math.round(totalWeight * 1000) / 1000})`;
+  }
+
+  const { lowMax, mediumMax } = input;
+  if (
+    typeof lowMax !== 'number' ||
+    typeof mediumMax !== 'number' ||
+    lowMax <= 0 ||
+    lowMax >= mediumMax ||
+    mediumMax >= 100
+  ) {
+    return 'Thresholds must satisfy 0 < Low max < Medium max < 100';
+  }
+
+  if (input.concentrationModel !== undefined) {
+    const { diversifiedNames, maxPenalty } = input.concentrationModel ?? {};
+    if (typeof diversifiedNames !== 'number' || !isFinite(diversifiedNames) || diversifiedNames <= 1) {
+      return 'Diversified names must be greater than 1';
+    }
+    if (typeof maxPenalty !== 'number' || maxPenalty < 0 || maxPenalty > 100) {
+      return 'Maximum concentration penalty must be between 0 and 100';
+    }
+  }
+
+  if (input.segmentConcentrationRules !== undefined) {
+    if (typeof input.segmentConcentrationRules !== 'object' || input.segmentConcentrationRules === null) {
+      return 'Segment concentration rules must be an object';
+    }
+
+    for (const [segment, rules] of Object.entries(input.segmentConcentrationRules)) {
+      if (!CONCENTRATION_SEGMENTS.includes(segment as ConcentrationSegment)) {
+        return `Unknown concentration segment: ${segment}`;
+      }
+      if (!Array.isArray(rules)) {
+        return `Concentration rules for ${segment} must be a list`;
+      }
+
+      const segmentError = validateConcentrationRules(rules);
+      if (segmentError) {
+        return `${segment}: ${segmentError}`;
+      }
+    }
+  }
+
+  if (!Array.isArray(input.ratingScale) || input.ratingScale.length === 0) {
+    return 'Rating scale must have at least one grade';
+  }
+
+  let previous: RatingGrade | null = null;
+  for (const grade of input.ratingScale) {
+    if (!grade.grade || typeof grade.grade !== 'string') {
+      return 'Every rating grade needs a name';
+    }
+    if (typeof grade.pd !== 'number' || grade.pd <= 0 || grade.pd > 1) {
+      return `PD for grade ${grade.grade} must be between 0 and 1`;
+    }
+    if (typeof grade.maxScore !== 'number' || (previous && grade.maxScore <= previous.maxScore)) {
+      return 'Rating grades must be ordered by ascending max score';
+    }
+    if (previous && grade.pd < previous.pd) {
+      return 'PD must not decrease as scores worsen';
+    }
+    previous = grade;
+  }
+
+  if (previous && previous.maxScore < 100) {
+    return 'The last rating grade must cover scores up to 100';
+  }
+
+  if (input.sovereignSupport !== undefined) {
+    const { controllingStake, importanceFactors } = input.sovereignSupport ?? ({} as SovereignSupportModel);
+    if (typeof controllingStake !== 'number' || controllingStake <= 0 || controllingStake > 100) {
+      return 'Controlling stake must be between 0 and 100%';
+    }
+    for (const level of STRATEGIC_IMPORTANCE_LEVELS) {
+      const factor = importanceFactors?.[level];
+      if (typeof factor !== 'number' || factor < 0 || factor > 1) {
+        return `Support factor for ${level} importance must be between 0 and 1`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function validateConcentrationRules(rules: ConcentrationRule[]): string | null {
+  for (const rule of rules) {
+    if (
+      typeof rule.minConcentration !== 'number' ||
+      rule.minConcentration <= 0 ||
+      rule.minConcentration >= 1
+    ) {
+      return 'Concentration thresholds must be between 0 and 1';
+    }
+    if (typeof rule.penalty !== 'number' || rule.penalty < 0 || rule.penalty > 100) {
+      return 'Concentration penalties must be between 0 and 100';
+    }
+  }
+
+  return null;
+}
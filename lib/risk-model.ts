@@ -5,12 +5,16 @@ export type RiskDimensionKey =
   | 'scale'          // Renamed from 'size' - Scale & Network Strength
   | 'assetLiquidity' // NEW - Fleet & Asset Liquidity
   | 'financial'      // Financial Strength
-  | 'news';          // Future
+  | 'news'           // News & Events (event-driven)
+  | 'activity';      // Operational Activity (flight utilisation)
 
 export type RiskBucket = 'Low' | 'Medium' | 'High';
 
 export type ConfidenceLevel = 'HIGH' | 'MEDIUM' | 'LOW';
 
+// How important a state-owned airline is to its government (flag carrier, national hub strategy)
+export type StrategicImportance = 'high' | 'medium' | 'low';
+
 // Component score with confidence level
 export interface ComponentScore {
   score: number | null; // 0-100 scale, or null if unavailable
@@ -32,6 +36,16 @@ export interface RiskContext {
     active: boolean;
     fleetSize?: number;
     ticker?: string; // Stock ticker for financial data
+    group?: {
+      name: string;
+      ticker?: string;     // Parent's ticker, used when the airline has no financials of its own
+      guaranteed: boolean; // Parent guarantees the airline's obligations
+    };
+    ownership?: {
+      stateOwnership: number; // Percentage held by the state (0-100)
+      strategicImportance: StrategicImportance;
+      sovereignRating?: string; // Grade on the internal rating scale; country dataset rating or jurisdiction score used if absent
+    };
   };
   countryInfo?: {
     region?: string;
@@ -51,6 +65,8 @@ export interface RiskContext {
     currency?: string;
     fiscalYear?: string;
     dataSource?: 'api' | 'mock' | 'none';
+    inheritedFrom?: string;    // Parent group whose financials were used
+    parentGuarantee?: boolean;
   };
   // Future context fields
   newsData?: any;
@@ -81,6 +97,7 @@ export interface RiskResult {
     confidence: ConfidenceLevel;
     weight: number;
     effectiveWeight?: number; // Actual weight used if components were missing
+    modelScore?: number | null; // Model score when an analyst override replaced it
   }[];
   context: RiskContext;
   calculatedAt: Date;
@@ -88,25 +105,161 @@ export interface RiskResult {
   metadata?: {
     missingComponents?: string[];
     reweighted?: boolean;
+    modelVersion?: string; // RiskModelVersion used for weights and thresholds
+    sovereignSupport?: SovereignSupportResult; // Present when state support improved the standalone score
+  };
+  // Present when analyst overrides changed the model result (see lib/risk-overrides.ts)
+  overrides?: {
+    modelOverallScore: number;
+    modelRiskBucket: RiskBucket;
+    applied: AppliedOverride[];
   };
 }
 
+// Analyst override applied on top of the model result
+export interface AppliedOverride {
+  id: string;
+  target: 'overall' | RiskDimensionKey;
+  score: number;
+  modelScore: number | null;
+  reason: string;
+  analyst: string;
+  expiresAt: Date;
+}
+
+// Uplift applied to a state-owned airline (see lib/sovereign-support.ts)
+export interface SovereignSupportResult {
+  standaloneScore: number; // Score from the components alone
+  sovereignScore: number;
+  sovereignBasis: 'rating' | 'countryRating' | 'jurisdiction'; // Airline's recorded rating, country dataset rating, or jurisdiction score
+  supportFactor: number;   // Share of the gap to the sovereign closed (0-1)
+  uplift: number;          // Points taken off the standalone score
+}
+
+// Sovereign support model, as rating agencies treat government-related entities:
+// the standalone score moves toward the sovereign's score by the support factor - the
+// importance factor, scaled down pro rata below a controlling stake. Support never
+// makes an airline stronger than its sovereign
+export interface SovereignSupportModel {
+  controllingStake: number; // State ownership (%) from which the full importance factor applies
+  importanceFactors: Record<StrategicImportance, number>; // 0-1
+}
+
+// Single-name concentration model: the penalty rises continuously with the HHI of
+// obligor (airline group or standalone airline) exposures
+// - No penalty with diversifiedNames or more effective names (HHI <= 1 / diversifiedNames)
+// - maxPenalty when everything is with one obligor (HHI = 1), linear in HHI in between
+export interface ConcentrationModel {
+  diversifiedNames: number; // Effective number of names (1 / HHI) at which the penalty reaches 0
+  maxPenalty: number;       // Risk points added at HHI 1
+}
+
+// Concentration penalty rule: penalty applied when a measure exceeds minConcentration
+// (highest matching rule wins)
+export interface ConcentrationRule {
+  minConcentration: number; // As decimal (0-1)
+  penalty: number;          // Risk points added to portfolio risk
+}
+
+// Portfolio segments measured for concentration beyond single names
+export type ConcentrationSegment = 'country' | 'region' | 'subregion' | 'jurisdictionBand';
+
+// Segment rules use the same shape, with minConcentration compared against the
+// segment's Herfindahl-Hirschman index (sum of squared exposure shares, 0-1)
+export type SegmentConcentrationRules = Record<ConcentrationSegment, ConcentrationRule[]>;
+
+// Internal rating grade: scores up to maxScore map to a 1-year probability of default
+export interface RatingGrade {
+  grade: string;
+  maxScore: number; // 0-100, grades ordered by ascending maxScore
+  pd: number;       // 1-year PD as decimal
+}
+
 // Configuration for risk calculation
+// Model parameters (weights, thresholds, sources, concentration rules) are
+// versioned in RiskModelVersion - see lib/risk-model-versions.ts
 export interface RiskConfig {
+  modelVersion: string; // Stored as the snapshot's dataVersion
   cacheDurationMinutes: number;
   bucketThresholds: {
     lowMax: number;    // 0-40 = Low
     mediumMax: number; // 40-70 = Medium
                        // 70-100 = High
   };
+  weights: Partial<Record<RiskDimensionKey, number>>;
+  enabledSources: RiskDimensionKey[];
+  concentrationModel: ConcentrationModel;
+  segmentConcentrationRules: SegmentConcentrationRules; // Penalties are added across segments
+  ratingScale: RatingGrade[]; // PD calibration (score -> rating grade -> PD)
+  sovereignSupport: SovereignSupportModel;
 }
 
+// Bump modelVersion with every change to the default parameters or airline scoring, so snapshots
+// scored by the previous model are recalculated:
+// 2.1 - fleet composition asset liquidity
+// 2.2 - news and event-driven component
+// 2.3 - financials and group inherited from the parent
+// 2.4 - analyst score overrides
+// 2.5 - state ownership and sovereign support uplift
+// 2.6 - country indicator dataset for jurisdiction risk
+// 2.7 - operational activity component
+// 2.8 - tightened news keyword patterns
+// 2.9 - dataset sovereign rating for sovereign support
+// 2.10 - news only raises the overall score
+// 2.11 - default weights rebalanced to total 1.0
+// 2.12 - aircraft types matched ignoring all whitespace, E170 no longer scored as E175
 export const DEFAULT_RISK_CONFIG: RiskConfig = {
-  cacheDurationMinutes: 60, // Cache risk scores for 1 hour
+  modelVersion: '2.12',
+  cacheDurationMinutes: 360, // Reuse risk snapshots for 6 hours
   bucketThresholds: {
     lowMax: 40,
     mediumMax: 70,
   },
+  weights: {
+    jurisdiction: 0.20,
+    scale: 0.15,
+    assetLiquidity: 0.15,
+    financial: 0.30,
+    news: 0.10,
+    activity: 0.10,
+  },
+  enabledSources: ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'],
+  // Two equal names (HHI 0.5) add 4.5 points, a single name adds 12
+  concentrationModel: {
+    diversifiedNames: 5,
+    maxPenalty: 12,
+  },
+  // Region and subregion overlap, so only region is penalized by default
+  segmentConcentrationRules: {
+    country: [
+      { minConcentration: 0.4, penalty: 3 },
+      { minConcentration: 0.7, penalty: 6 },
+    ],
+    region: [
+      { minConcentration: 0.6, penalty: 2 },
+      { minConcentration: 0.9, penalty: 4 },
+    ],
+    subregion: [],
+    jurisdictionBand: [],
+  },
+  // Internal master scale, PDs broadly in line with long-run agency default rates
+  ratingScale: [
+    { grade: 'AA', maxScore: 10, pd: 0.0003 },
+    { grade: 'A', maxScore: 20, pd: 0.0007 },
+    { grade: 'BBB+', maxScore: 30, pd: 0.0015 },
+    { grade: 'BBB-', maxScore: 40, pd: 0.0035 },
+    { grade: 'BB', maxScore: 50, pd: 0.008 },
+    { grade: 'BB-', maxScore: 60, pd: 0.015 },
+    { grade: 'B+', maxScore: 70, pd: 0.03 },
+    { grade: 'B', maxScore: 80, pd: 0.06 },
+    { grade: 'CCC', maxScore: 90, pd: 0.15 },
+    { grade: 'CC', maxScore: 100, pd: 0.30 },
+  ],
+  // A majority-owned flag carrier closes three quarters of the gap to its sovereign
+  sovereignSupport: {
+    controllingStake: 50,
+    importanceFactors: { high: 0.75, medium: 0.5, low: 0.2 },
+  },
 };
 
 // Helper function to map score to bucket
@@ -116,6 +269,42 @@ export function scoreToRiskBucket(score: number, config: RiskConfig = DEFAULT_RI
   return 'High';
 }
 
+// Step penalty for a concentration measure (as decimal) from a list of rules
+export function getConcentrationPenalty(
+  concentration: number,
+  rules: ConcentrationRule[]
+): number {
+  return rules.reduce(
+    (penalty, rule) => (concentration > rule.minConcentration ? Math.max(penalty, rule.penalty) : penalty),
+    0
+  );
+}
+
+// Event-driven components that can only raise the overall score, never lower it
+export const ADVERSE_ONLY_COMPONENTS: RiskDimensionKey[] = ['news'];
+
+// Normalized weights of the components blended into the overall score: missing components are
+// reweighted away, and adverse-only components count only when above the blend of the others
+export function getBlendWeights(
+  scores: Partial<Record<RiskDimensionKey, number | null>>,
+  config: RiskConfig
+): Partial<Record<RiskDimensionKey, number>> {
+  const weightOf = (key: RiskDimensionKey) => config.weights[key] ?? 0;
+  const totalWeight = (keys: RiskDimensionKey[]) => keys.reduce((sum, key) => sum + weightOf(key), 0);
+
+  const available = config.enabledSources.filter(key => scores[key] !== null && scores[key] !== undefined);
+  const base = available.filter(key => !ADVERSE_ONLY_COMPONENTS.includes(key));
+  const baseWeight = totalWeight(base);
+  const baseScore = baseWeight > 0
+    ? base.reduce((sum, key) => sum + (scores[key] as number) * weightOf(key), 0) / baseWeight
+    : 50;
+
+  const blended = available.filter(key => !ADVERSE_ONLY_COMPONENTS.includes(key) || (scores[key] as number) > baseScore);
+  const total = totalWeight(blended);
+
+  return Object.fromEntries(blended.map(key => [key, total > 0 ? weightOf(key) / total : 0]));
+}
+
 // Normalize a value to 0-100 scale
 export function normalizeScore(value: number, min: number, max: number, invert: boolean = false): number {
   const normalized = Math.max(0, Math.min(100, ((value - min) / (max - min)) * 100));
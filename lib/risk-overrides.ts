@@ -0,0 +1,376 @@
+// Analyst overrides - component or overall scores set by a credit analyst on top of the model,
+// with a reason, expiry and supporting attachment. Overrides are never edited, only revoked,
+// and every change is written to the audit trail
+
+import prisma from './db';
+import {
+  AppliedOverride,
+  RiskConfig,
+  RiskDimensionKey,
+  RiskResult,
+  SovereignSupportResult,
+  scoreToRiskBucket,
+  getBlendWeights,
+} from './risk-model';
+import { reapplySovereignSupport } from './sovereign-support';
+
+export type OverrideTarget = 'overall' | RiskDimensionKey;
+
+export const OVERRIDE_TARGET_LABELS: Record<OverrideTarget, string> = {
+  overall: 'Overall score',
+  jurisdiction: 'Jurisdiction',
+  scale: 'Scale & Network',
+  assetLiquidity: 'Asset Liquidity',
+  financial: 'Financial',
+  news: 'News & Events',
+  activity: 'Operational Activity',
+};
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const COMPONENT_KEYS: RiskDimensionKey[] = ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'];
+
+export interface RiskOverrideInput {
+  target: string;
+  score: number;
+  reason: string;
+  analyst: string;
+  expiresAt: Date;
+}
+
+export interface OverrideAttachment {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+// Override fields needed to apply one - everything but the attachment contents
+export const OVERRIDE_FIELDS = {
+  id: true,
+  airlineId: true,
+  target: true,
+  score: true,
+  modelScore: true,
+  reason: true,
+  analyst: true,
+  expiresAt: true,
+  attachmentName: true,
+  attachmentType: true,
+  revokedAt: true,
+  revokedBy: true,
+  revokeReason: true,
+  createdAt: true,
+} as const;
+
+export interface OverrideRecord {
+  id: string;
+  target: string;
+  score: number;
+  reason: string;
+  analyst: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// Scores an override can change - the shape shared by snapshots and risk results
+export interface OverridableScores {
+  overallScore: number;
+  riskBucket: string;
+  components: Partial<Record<RiskDimensionKey, number | null>>;
+  support?: SovereignSupportResult | null; // Sovereign support in the model score, re-applied after recombining
+}
+
+/**
+ * Prisma include for an airline's overrides in effect now, newest first
+ */
+export function activeOverridesInclude(now: Date = new Date()) {
+  return {
+    where: { revokedAt: null, expiresAt: { gt: now } },
+    orderBy: { createdAt: 'desc' as const },
+    select: OVERRIDE_FIELDS,
+  };
+}
+
+/**
+ * Validate an override before saving
+ * Returns an error message, or null if valid
+ */
+export function validateRiskOverride(
+  input: RiskOverrideInput,
+  attachment: { size: number } | null = null,
+  now: Date = new Date()
+): string | null {
+  if (!Object.keys(OVERRIDE_TARGET_LABELS).includes(input.target)) {
+    return 'Override target must be overall or a risk component';
+  }
+  if (typeof input.score !== 'number' || isNaN(input.score) || input.score < 0 || input.score > 100) {
+    return 'Score must be between 0 and 100';
+  }
+  if (!input.reason?.trim()) {
+    return 'A reason is required';
+  }
+  if (!input.analyst?.trim()) {
+    return 'Analyst name is required';
+  }
+  if (!(input.expiresAt instanceof Date) || isNaN(input.expiresAt.getTime()) || input.expiresAt <= now) {
+    return 'Expiry date must be in the future';
+  }
+  if (attachment && attachment.size > MAX_ATTACHMENT_BYTES) {
+    return `Attachment must be under ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+}
+
+/**
+ * Apply overrides to a set of scores
+ * The newest override per target wins. Component overrides recombine the overall score
+ * with the model weights over the available components, as the aggregator does (including any
+ * sovereign support); an overall override then takes precedence. The bucket follows the resulting score
+ */
+export function applyOverrides(
+  scores: OverridableScores,
+  overrides: OverrideRecord[],
+  config: RiskConfig
+): { scores: OverridableScores; applied: AppliedOverride[] } {
+  const latest = new Map<string, OverrideRecord>();
+  for (const override of [...overrides].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())) {
+    if (!latest.has(override.target)) latest.set(override.target, override);
+  }
+
+  if (latest.size === 0) {
+    return { scores, applied: [] };
+  }
+
+  const components = { ...scores.components };
+  const applied: AppliedOverride[] = [];
+  const toApplied = (override: OverrideRecord, modelScore: number | null): AppliedOverride => ({
+    id: override.id,
+    target: override.target as OverrideTarget,
+    score: override.score,
+    modelScore,
+    reason: override.reason,
+    analyst: override.analyst,
+    expiresAt: override.expiresAt,
+  });
+
+  for (const key of COMPONENT_KEYS) {
+    const override = latest.get(key);
+    if (!override) continue;
+    applied.push(toApplied(override, components[key] ?? null));
+    components[key] = override.score;
+  }
+
+  let overallScore = scores.overallScore;
+  if (applied.length > 0) {
+    const weights = Object.entries(getBlendWeights(components, config)) as [RiskDimensionKey, number][];
+    if (weights.length > 0) {
+      const standalone = weights.reduce((sum, [key, weight]) => sum + (components[key] as number) * weight, 0);
+      overallScore = Math.round((scores.support ? reapplySovereignSupport(standalone, scores.support) : standalone) * 10) / 10;
+    }
+  }
+
+  const overall = latest.get('overall');
+  if (overall) {
+    applied.push(toApplied(overall, overallScore));
+    overallScore = overall.score;
+  }
+
+  return {
+    scores: { overallScore, riskBucket: scoreToRiskBucket(overallScore, config), components, support: scores.support },
+    applied,
+  };
+}
+
+/**
+ * Risk result with overrides applied - component scores are replaced and the model
+ * values kept alongside (breakdown modelScore, overrides.modelOverallScore)
+ */
+export function applyRiskOverrides(
+  result: RiskResult,
+  overrides: OverrideRecord[],
+  config: RiskConfig
+): RiskResult {
+  const modelComponents = Object.fromEntries(
+    COMPONENT_KEYS.map(key => [key, result.components[key]?.score ?? null])
+  );
+  const { scores, applied } = applyOverrides(
+    {
+      overallScore: result.overallScore,
+      riskBucket: result.riskBucket,
+      components: modelComponents,
+      support: result.metadata?.sovereignSupport,
+    },
+    overrides,
+    config
+  );
+
+  if (applied.length === 0) {
+    return result;
+  }
+
+  const overridden = new Set(applied.map(override => override.target));
+  const components = { ...result.components };
+  for (const key of COMPONENT_KEYS) {
+    if (overridden.has(key)) {
+      components[key] = { ...(components[key] ?? { confidence: 'HIGH', metadata: {} }), score: scores.components[key] };
+    }
+  }
+
+  return {
+    ...result,
+    overallScore: scores.overallScore,
+    riskBucket: scores.riskBucket as RiskResult['riskBucket'],
+    components,
+    breakdown: result.breakdown.map(item =>
+      overridden.has(item.key)
+        ? { ...item, score: scores.components[item.key] ?? null, modelScore: item.score }
+        : item
+    ),
+    overrides: {
+      modelOverallScore: result.overallScore,
+      modelRiskBucket: result.riskBucket,
+      applied,
+    },
+  };
+}
+
+type SnapshotScores = { overallScore: number; riskBucket: string; sovereignSupport?: string | null } & {
+  [K in `${RiskDimensionKey}Score`]: number | null;
+};
+
+/**
+ * Latest snapshot with the airline's active overrides applied, for portfolio calculations
+ * Returns the snapshot unchanged when no override applies
+ */
+export function applySnapshotOverrides<T extends SnapshotScores>(
+  snapshot: T | undefined,
+  overrides: OverrideRecord[],
+  config: RiskConfig
+): (T & { modelOverallScore?: number }) | undefined {
+  if (!snapshot || overrides.length === 0) {
+    return snapshot;
+  }
+
+  const { scores, applied } = applyOverrides(
+    {
+      overallScore: snapshot.overallScore,
+      riskBucket: snapshot.riskBucket,
+      components: Object.fromEntries(COMPONENT_KEYS.map(key => [key, snapshot[`${key}Score`]])),
+      support: snapshot.sovereignSupport ? JSON.parse(snapshot.sovereignSupport) : null,
+    },
+    overrides,
+    config
+  );
+
+  if (applied.length === 0) {
+    return snapshot;
+  }
+
+  return {
+    ...snapshot,
+    ...Object.fromEntries(COMPONENT_KEYS.map(key => [`${key}Score`, scores.components[key] ?? null])),
+    overallScore: scores.overallScore,
+    riskBucket: scores.riskBucket,
+    modelOverallScore: snapshot.overallScore,
+  };
+}
+
+/**
+ * The model's score for an override target in a stored snapshot
+ */
+export function getSnapshotScore(snapshot: SnapshotScores | null, target: OverrideTarget): number | null {
+  if (!snapshot) return null;
+  return target === 'overall' ? snapshot.overallScore : snapshot[`${target}Score`];
+}
+
+export async function getActiveOverrides(airlineId: string, now: Date = new Date()): Promise<OverrideRecord[]> {
+  return prisma.riskOverride.findMany({
+    where: { airlineId, ...activeOverridesInclude(now).where },
+    orderBy: { createdAt: 'desc' },
+    select: OVERRIDE_FIELDS,
+  });
+}
+
+/**
+ * Every override for an airline (active, expired and revoked) with its audit trail
+ */
+export async function getOverrideHistory(airlineId: string) {
+  return prisma.riskOverride.findMany({
+    where: { airlineId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      ...OVERRIDE_FIELDS,
+      auditEvents: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+}
+
+/**
+ * Create an override and its audit entry
+ * modelScore records what the model said at the time, for the audit trail
+ */
+export async function createRiskOverride(
+  airlineId: string,
+  input: RiskOverrideInput,
+  modelScore: number | null,
+  attachment: OverrideAttachment | null = null
+) {
+  return prisma.$transaction(async tx => {
+    const override = await tx.riskOverride.create({
+      data: {
+        airlineId,
+        target: input.target,
+        score: input.score,
+        modelScore,
+        reason: input.reason.trim(),
+        analyst: input.analyst.trim(),
+        expiresAt: input.expiresAt,
+        attachmentName: attachment?.name ?? null,
+        attachmentType: attachment?.type ?? null,
+        attachment: attachment?.data ?? null,
+      },
+      select: OVERRIDE_FIELDS,
+    });
+
+    await tx.riskOverrideAudit.create({
+      data: {
+        overrideId: override.id,
+        action: 'created',
+        actor: override.analyst,
+        detail: JSON.stringify(override),
+      },
+    });
+
+    return override;
+  });
+}
+
+/**
+ * Revoke an override - returns null if it doesn't exist or is already revoked
+ */
+export async function revokeRiskOverride(id: string, actor: string, reason: string) {
+  return prisma.$transaction(async tx => {
+    const existing = await tx.riskOverride.findUnique({ where: { id }, select: OVERRIDE_FIELDS });
+
+    if (!existing || existing.revokedAt) {
+      return null;
+    }
+
+    const override = await tx.riskOverride.update({
+      where: { id },
+      data: { revokedAt: new Date(), revokedBy: actor.trim(), revokeReason: reason.trim() },
+      select: OVERRIDE_FIELDS,
+    });
+
+    await tx.riskOverrideAudit.create({
+      data: {
+        overrideId: id,
+        action: 'revoked',
+        actor: actor.trim(),
+        detail: JSON.stringify(override),
+      },
+    });
+
+    return override;
+  });
+}
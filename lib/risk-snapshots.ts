@@ -0,0 +1,261 @@
+// Airline risk snapshot repository - the single write path and read path for AirlineRiskSnapshot,
+// plus explicit migrations for snapshots stored in older formats
+
+import { AirlineRiskSnapshot } from '@prisma/client';
+import prisma from './db';
+import {
+  RiskResult,
+  RiskContext,
+  RiskComponents,
+  RiskConfig,
+  RiskDimensionKey,
+  ConfidenceLevel,
+  SovereignSupportResult,
+  DEFAULT_RISK_CONFIG,
+} from './risk-model';
+import { enabledRiskSources } from './sources/risk-sources';
+import { getEffectiveWeights } from './airline-history';
+import { evaluateSnapshotAlerts } from './watchlist';
+
+const RISK_DIMENSION_KEYS: RiskDimensionKey[] = ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'];
+
+// Confidence assumed when a stored score has none (snapshots written before confidences were stored)
+const DEFAULT_CONFIDENCE: Record<RiskDimensionKey, ConfidenceLevel> = {
+  jurisdiction: 'MEDIUM',
+  scale: 'MEDIUM',
+  assetLiquidity: 'LOW',
+  financial: 'MEDIUM',
+  news: 'MEDIUM',
+  activity: 'MEDIUM',
+};
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Column values for a risk result - JSON fields are stored as strings
+ */
+export function toSnapshotData(result: RiskResult) {
+  const data: Record<string, unknown> = {};
+  const metadata: Partial<Record<RiskDimensionKey, unknown>> = {};
+
+  for (const key of RISK_DIMENSION_KEYS) {
+    const component = result.components[key];
+    data[`${key}Score`] = component?.score ?? null;
+    data[`${key}Confidence`] = component?.confidence ?? null;
+    metadata[key] = component?.metadata;
+  }
+
+  return {
+    ...(data as Pick<
+      AirlineRiskSnapshot,
+      `${RiskDimensionKey}Score` | `${RiskDimensionKey}Confidence`
+    >),
+    overallScore: result.overallScore,
+    riskBucket: result.riskBucket,
+    dataVersion: result.metadata?.modelVersion ?? DEFAULT_RISK_CONFIG.modelVersion,
+    sourceData: JSON.stringify(result.context),
+    componentMetadata: JSON.stringify(metadata),
+    reweighted: result.metadata?.reweighted ?? false,
+    missingComponents: result.metadata?.missingComponents?.join(', ') ?? null,
+    sovereignSupport: result.metadata?.sovereignSupport ? JSON.stringify(result.metadata.sovereignSupport) : null,
+    calculatedAt: result.calculatedAt,
+    expiresAt: result.expiresAt,
+  };
+}
+
+/**
+ * Rebuild a risk result from a stored snapshot
+ * Breakdown weights come from the model version that produced the snapshot
+ */
+export function toRiskResult(
+  snapshot: AirlineRiskSnapshot,
+  config: RiskConfig,
+  fallbackContext: RiskContext
+): RiskResult {
+  const metadata = parseJson<Partial<Record<RiskDimensionKey, Record<string, any>>>>(snapshot.componentMetadata) ?? {};
+  const effectiveWeights = getEffectiveWeights(snapshot, config);
+  const components: RiskComponents = {};
+  const breakdown: RiskResult['breakdown'] = [];
+
+  for (const source of enabledRiskSources) {
+    const score = snapshot[`${source.key}Score`];
+    if (score === null) continue;
+
+    const confidence = (snapshot[`${source.key}Confidence`] as ConfidenceLevel | null) ?? DEFAULT_CONFIDENCE[source.key];
+    components[source.key] = { score, confidence, metadata: metadata[source.key] ?? {} };
+    breakdown.push({
+      key: source.key,
+      name: source.name,
+      score,
+      confidence,
+      weight: config.weights[source.key] ?? source.weight,
+      effectiveWeight: effectiveWeights[source.key] ?? 0,
+    });
+  }
+
+  return {
+    overallScore: snapshot.overallScore,
+    riskBucket: snapshot.riskBucket as RiskResult['riskBucket'],
+    components,
+    breakdown,
+    context: parseJson<RiskContext>(snapshot.sourceData) ?? fallbackContext,
+    calculatedAt: snapshot.calculatedAt,
+    expiresAt: snapshot.expiresAt,
+    metadata: {
+      missingComponents: snapshot.missingComponents ? snapshot.missingComponents.split(', ') : undefined,
+      reweighted: snapshot.reweighted ? true : undefined,
+      modelVersion: snapshot.dataVersion,
+      sovereignSupport: parseJson<SovereignSupportResult>(snapshot.sovereignSupport) ?? undefined,
+    },
+  };
+}
+
+/**
+ * A snapshot can be reused until it expires, as long as it was produced by the active model
+ * and needs no migration
+ */
+export function isSnapshotCurrent(
+  snapshot: AirlineRiskSnapshot,
+  activeConfig: RiskConfig,
+  now: Date = new Date()
+): boolean {
+  return (
+    snapshot.expiresAt > now &&
+    snapshot.dataVersion === activeConfig.modelVersion &&
+    getPendingMigrations(snapshot).length === 0
+  );
+}
+
+export async function getLatestRiskSnapshot(airlineId: string): Promise<AirlineRiskSnapshot | null> {
+  return prisma.airlineRiskSnapshot.findFirst({
+    where: { airlineId },
+    orderBy: { calculatedAt: 'desc' },
+  });
+}
+
+/**
+ * Store a risk result and evaluate watchlist rules against the previous snapshot
+ */
+export async function saveRiskSnapshot(airlineId: string, result: RiskResult): Promise<void> {
+  await prisma.airlineRiskSnapshot.create({
+    data: { airlineId, ...toSnapshotData(result) },
+  });
+
+  await evaluateSnapshotAlerts(airlineId);
+}
+
+// Migrations rewrite snapshots stored in older formats so the read path only handles the current one
+export interface SnapshotMigration {
+  id: string;
+  description: string;
+  appliesTo: (snapshot: AirlineRiskSnapshot) => boolean;
+  migrate: (snapshot: AirlineRiskSnapshot) => Partial<AirlineRiskSnapshot>;
+}
+
+// Pre-2.0 dimensions and the 2.0 component each maps onto (null: no equivalent)
+const LEGACY_DIMENSIONS: Record<string, RiskDimensionKey | null> = {
+  country: 'jurisdiction',
+  size: 'scale',
+  activity: null,
+  status: null,
+};
+
+const isLegacyVersion = (dataVersion: string) => /^v?1(\.|$)/.test(dataVersion);
+
+export const SNAPSHOT_MIGRATIONS: SnapshotMigration[] = [
+  {
+    id: 'json-columns',
+    description: 'Clear sourceData and componentMetadata that are not valid JSON (e.g. objects stored as "[object Object]")',
+    appliesTo: snapshot =>
+      [snapshot.sourceData, snapshot.componentMetadata].some(value => value !== null && parseJson(value) === null),
+    migrate: snapshot => ({
+      sourceData: parseJson(snapshot.sourceData) === null ? null : snapshot.sourceData,
+      componentMetadata: parseJson(snapshot.componentMetadata) === null ? null : snapshot.componentMetadata,
+    }),
+  },
+  {
+    id: 'legacy-dimensions',
+    description:
+      'Pre-2.0 snapshots (country, activity, size, status): move component metadata to the 2.0 keys and record the components they lack',
+    appliesTo: snapshot =>
+      isLegacyVersion(snapshot.dataVersion) &&
+      (snapshot.missingComponents === null ||
+        Object.keys(parseJson<Record<string, unknown>>(snapshot.componentMetadata) ?? {}).some(
+          key => key in LEGACY_DIMENSIONS
+        )),
+    migrate: snapshot => {
+      const legacy = parseJson<Record<string, unknown>>(snapshot.componentMetadata) ?? {};
+      const metadata: Record<string, unknown> = {};
+
+      for (const [key, value] of Object.entries(legacy)) {
+        const mapped = key in LEGACY_DIMENSIONS ? LEGACY_DIMENSIONS[key] : key;
+        if (mapped && metadata[mapped] === undefined) metadata[mapped] = value;
+      }
+
+      const missing = enabledRiskSources
+        .filter(source => snapshot[`${source.key}Score`] === null)
+        .map(source => source.name);
+
+      return {
+        componentMetadata: JSON.stringify(metadata),
+        missingComponents: missing.join(', '),
+        reweighted: missing.length > 0,
+      };
+    },
+  },
+];
+
+export function getPendingMigrations(
+  snapshot: AirlineRiskSnapshot,
+  migrations: SnapshotMigration[] = SNAPSHOT_MIGRATIONS
+): SnapshotMigration[] {
+  return migrations.filter(migration => migration.appliesTo(snapshot));
+}
+
+/**
+ * Apply every pending migration to stored snapshots, in order
+ * Migrations are idempotent, so this is safe to re-run; returns rows changed per migration
+ */
+export async function migrateStoredSnapshots(): Promise<Record<string, number>> {
+  const counts: Record<string, number> = Object.fromEntries(SNAPSHOT_MIGRATIONS.map(m => [m.id, 0]));
+  const batchSize = 500;
+  let cursor: string | undefined;
+
+  while (true) {
+    const snapshots = await prisma.airlineRiskSnapshot.findMany({
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const snapshot of snapshots) {
+      let migrated = snapshot;
+      let changes: Partial<AirlineRiskSnapshot> = {};
+
+      // Each migration sees the result of the ones before it
+      for (const migration of SNAPSHOT_MIGRATIONS) {
+        if (!migration.appliesTo(migrated)) continue;
+        const update = migration.migrate(migrated);
+        migrated = { ...migrated, ...update };
+        changes = { ...changes, ...update };
+        counts[migration.id]++;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await prisma.airlineRiskSnapshot.update({ where: { id: snapshot.id }, data: changes });
+      }
+    }
+
+    if (snapshots.length < batchSize) break;
+    cursor = snapshots[snapshots.length - 1].id;
+  }
+
+  return counts;
+}
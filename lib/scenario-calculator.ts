@@ -1,30 +1,68 @@
 // Pure functions for scenario analysis (what-if simulations)
 // Reuses portfolio risk calculation logic without database access
 
-interface ExposureRow {
+import {
+  ConcentrationModel,
+  DEFAULT_RISK_CONFIG,
+  RiskDimensionKey,
+  SegmentConcentrationRules,
+  scoreToRiskBucket,
+} from './risk-model';
+import { analyzeConcentration } from './concentration';
+
+export interface ExposureRow {
   airlineIcao: string;
   airlineName: string;
   airlineCountry: string;
+  airlineRegion?: string;
+  airlineSubregion?: string;
+  jurisdictionBand?: string; // Risk bucket of the jurisdiction score
+  airlineGroup?: string;     // Subsidiaries of a group count as one name
   exposure: number;
   risk: number;
   riskBucket: string;
+  // Component scores with their effective weight in the airline's overall score
+  components?: Partial<Record<RiskDimensionKey, { score: number; weight: number }>>;
 }
 
+/**
+ * A single stress shock - scenarios apply a list of shocks in order
+ * Exposure shocks reshape the book; score shocks then move airline risk scores
+ */
+export type ScenarioShock =
+  | { type: 'setExposure'; airlineIcao: string; exposure: number }
+  | { type: 'addAirline'; airlineIcao: string; exposure: number }
+  | { type: 'removeAirline'; airlineIcao: string }
+  | { type: 'overrideScore'; airlineIcao: string; score: number }
+  | { type: 'shiftCountry'; country: string; points: number }
+  | { type: 'shiftRegion'; region: string; points: number }
+  | { type: 'componentShock'; component: RiskDimensionKey; points: number };
+
+export type ScenarioShockType = ScenarioShock['type'];
+
 interface ScenarioInput {
   exposures: ExposureRow[];
   currency: string;
-  modification?: {
-    airlineIcao: string;
-    newExposure: number;
+  shocks?: ScenarioShock[];
+  // Airlines not in the book that addAirline shocks may bring in (exposure is ignored)
+  candidates?: ExposureRow[];
+  // Active model version parameters (defaults to the built-in model)
+  concentrationModel?: ConcentrationModel;
+  segmentConcentrationRules?: SegmentConcentrationRules;
+  bucketThresholds?: {
+    lowMax: number;
+    mediumMax: number;
   };
 }
 
-interface ScenarioResult {
+export interface ScenarioResult {
   totalExposure: number;
   baseRisk: number;
   adjustedRisk: number;
-  concentrationPenalty: number;
+  concentrationPenalty: number; // Single-name plus segment penalties
+  singleNamePenalty: number;
   maxConcentration: number;
+  effectiveNames: number;
   riskBucket: 'Low' | 'Medium' | 'High';
   topExposures: Array<{
     airlineIcao: string;
@@ -34,6 +72,7 @@ interface ScenarioResult {
     risk: number;
     riskBucket: string;
   }>;
+  warnings: string[]; // Shocks that could not be applied to the current data
 }
 
 /**
@@ -41,24 +80,16 @@ interface ScenarioResult {
  * Pure function - no side effects
  */
 export function calculateScenarioRisk(input: ScenarioInput): ScenarioResult {
-  let exposures = [...input.exposures];
-
-  // Apply modification if provided
-  if (input.modification) {
-    const modifiedIndex = exposures.findIndex(
-      e => e.airlineIcao === input.modification!.airlineIcao
-    );
-    
-    if (modifiedIndex >= 0) {
-      exposures[modifiedIndex] = {
-        ...exposures[modifiedIndex],
-        exposure: input.modification.newExposure,
-      };
-    }
-  }
+  const thresholds = input.bucketThresholds ?? DEFAULT_RISK_CONFIG.bucketThresholds;
+  const { exposures: shocked, warnings } = applyShocks(
+    input.exposures,
+    input.shocks || [],
+    input.candidates || [],
+    thresholds
+  );
 
   // Filter out zero exposures
-  exposures = exposures.filter(e => e.exposure > 0);
+  const exposures = shocked.filter(e => e.exposure > 0);
 
   if (exposures.length === 0) {
     return {
@@ -66,9 +97,12 @@ export function calculateScenarioRisk(input: ScenarioInput): ScenarioResult {
       baseRisk: 0,
       adjustedRisk: 0,
       concentrationPenalty: 0,
+      singleNamePenalty: 0,
       maxConcentration: 0,
+      effectiveNames: 0,
       riskBucket: 'Low',
       topExposures: [],
+      warnings,
     };
   }
 
@@ -82,26 +116,33 @@ export function calculateScenarioRisk(input: ScenarioInput): ScenarioResult {
   );
   const baseRisk = totalExposure > 0 ? weightedRiskSum / totalExposure : 0;
 
-  // Calculate concentration
-  const maxExposureAmount = Math.max(...exposures.map(e => e.exposure));
-  const maxConcentration = totalExposure > 0 ? maxExposureAmount / totalExposure : 0;
-
-  // Calculate concentration penalty
-  let concentrationPenalty = 0;
-  if (maxConcentration > 0.7) {
-    concentrationPenalty = 10;
-  } else if (maxConcentration > 0.5) {
-    concentrationPenalty = 5;
-  }
+  // Calculate concentration penalty with the same model as the portfolio calculator
+  const concentration = analyzeConcentration(
+    exposures.map(e => ({
+      airline: { icao: e.airlineIcao, country: e.airlineCountry },
+      exposure: e.exposure,
+      segments: {
+        region: e.airlineRegion ?? null,
+        subregion: e.airlineSubregion ?? null,
+        jurisdictionBand: e.jurisdictionBand ?? null,
+      },
+      group: e.airlineGroup ? { name: e.airlineGroup } : null,
+    })),
+    {
+      concentrationModel: input.concentrationModel ?? DEFAULT_RISK_CONFIG.concentrationModel,
+      segmentConcentrationRules: input.segmentConcentrationRules ?? DEFAULT_RISK_CONFIG.segmentConcentrationRules,
+    }
+  );
+  const concentrationPenalty = concentration.penalty;
 
   // Calculate adjusted risk
   const adjustedRisk = Math.min(100, baseRisk + concentrationPenalty);
 
   // Determine risk bucket
   let riskBucket: 'Low' | 'Medium' | 'High' = 'Low';
-  if (adjustedRisk >= 70) {
+  if (adjustedRisk >= thresholds.mediumMax) {
     riskBucket = 'High';
-  } else if (adjustedRisk >= 40) {
+  } else if (adjustedRisk >= thresholds.lowMax) {
     riskBucket = 'Medium';
   }
 
@@ -122,8 +163,126 @@ export function calculateScenarioRisk(input: ScenarioInput): ScenarioResult {
     baseRisk: Math.round(baseRisk * 10) / 10,
     adjustedRisk: Math.round(adjustedRisk * 10) / 10,
     concentrationPenalty,
-    maxConcentration: Math.round(maxConcentration * 1000) / 1000,
+    singleNamePenalty: concentration.names.penalty,
+    maxConcentration: concentration.names.maxConcentration,
+    effectiveNames: concentration.names.effectiveNames,
     riskBucket,
     topExposures: sortedExposures.slice(0, 10),
+    warnings,
   };
 }
+
+/**
+ * Apply stress shocks in order to a copy of the exposure rows
+ * Shocks that reference airlines no longer in the book are skipped with a warning,
+ * so saved scenarios can be re-run as the portfolio changes
+ */
+export function applyShocks(
+  rows: ExposureRow[],
+  shocks: ScenarioShock[],
+  candidates: ExposureRow[] = [],
+  thresholds: { lowMax: number; mediumMax: number } = DEFAULT_RISK_CONFIG.bucketThresholds
+): { exposures: ExposureRow[]; warnings: string[] } {
+  let exposures = rows.map(row => ({
+    ...row,
+    components: row.components ? { ...row.components } : undefined,
+  }));
+  const warnings: string[] = [];
+  const rescored = new Set<string>();
+
+  const shiftRisk = (row: ExposureRow, delta: number) => {
+    row.risk = clampScore(row.risk + delta);
+    rescored.add(row.airlineIcao);
+  };
+
+  for (const shock of shocks) {
+    switch (shock.type) {
+      case 'setExposure':
+      case 'removeAirline': {
+        const row = exposures.find(e => e.airlineIcao === shock.airlineIcao);
+        if (!row) {
+          warnings.push(`${shock.airlineIcao} is not in the portfolio`);
+        } else if (shock.type === 'removeAirline') {
+          exposures = exposures.filter(e => e !== row);
+        } else {
+          row.exposure = shock.exposure;
+        }
+        break;
+      }
+
+      case 'addAirline': {
+        const existing = exposures.find(e => e.airlineIcao === shock.airlineIcao);
+        const candidate = candidates.find(c => c.airlineIcao === shock.airlineIcao);
+        if (existing) {
+          existing.exposure += shock.exposure;
+        } else if (candidate) {
+          exposures.push({
+            ...candidate,
+            components: candidate.components ? { ...candidate.components } : undefined,
+            exposure: shock.exposure,
+          });
+        } else {
+          warnings.push(`Unknown airline ${shock.airlineIcao}`);
+        }
+        break;
+      }
+
+      case 'overrideScore': {
+        const row = exposures.find(e => e.airlineIcao === shock.airlineIcao);
+        if (!row) {
+          warnings.push(`${shock.airlineIcao} is not in the portfolio`);
+        } else {
+          shiftRisk(row, shock.score - row.risk);
+        }
+        break;
+      }
+
+      case 'shiftCountry':
+      case 'shiftRegion': {
+        const matches = exposures.filter(e =>
+          shock.type === 'shiftCountry'
+            ? e.airlineCountry.toLowerCase() === shock.country.toLowerCase()
+            : (e.airlineRegion || '').toLowerCase() === shock.region.toLowerCase()
+        );
+        if (matches.length === 0) {
+          warnings.push(`No airlines in ${shock.type === 'shiftCountry' ? shock.country : shock.region}`);
+        }
+        matches.forEach(row => shiftRisk(row, shock.points));
+        break;
+      }
+
+      case 'componentShock': {
+        // Move the component score, then pass the change through at the component's weight
+        let applied = 0;
+        for (const row of exposures) {
+          const component = row.components?.[shock.component];
+          if (!component) continue;
+
+          const shockedScore = clampScore(component.score + shock.points);
+          shiftRisk(row, (shockedScore - component.score) * component.weight);
+          row.components![shock.component] = { ...component, score: shockedScore };
+          applied++;
+        }
+        if (applied === 0) {
+          warnings.push(`No airlines have a ${shock.component} score`);
+        }
+        break;
+      }
+    }
+  }
+
+  // Re-bucket airlines whose scores moved
+  const config = { ...DEFAULT_RISK_CONFIG, bucketThresholds: thresholds };
+  exposures.forEach(row => {
+    if (rescored.has(row.airlineIcao)) {
+      row.risk = Math.round(row.risk * 10) / 10;
+      row.riskBucket = scoreToRiskBucket(row.risk, config);
+    }
+  });
+
+  return { exposures, warnings };
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
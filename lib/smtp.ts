@@ -0,0 +1,228 @@
+// Minimal SMTP client for alert emails, plus a local SMTP sink that stands in for a
+// mail server in development and tests (npm run smtp:sink)
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean;  // Implicit TLS (usually port 465) - otherwise STARTTLS when offered
+  user?: string;     // AUTH PLAIN when set, only over TLS
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string; // Raw message (headers and body)
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * SMTP settings from the environment, or null if SMTP_HOST isn't set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || '25'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || 'alerts@localhost',
+  };
+}
+
+// Reads SMTP replies from a socket - a reply ends at a line with a space after the code
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  const replies: Array<{ code: number; text: string }> = [];
+  const waiting: Array<(reply: { code: number; text: string }) => void> = [];
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf-8');
+    let match: RegExpMatchArray | null;
+    while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*)(\d{3})(?: ([^\r\n]*))?\r?\n/))) {
+      buffer = buffer.slice(match[0].length);
+      const reply = { code: parseInt(match[2]), text: `${match[1]}${match[3] ?? ''}`.trim() };
+      const resolve = waiting.shift();
+      if (resolve) resolve(reply);
+      else replies.push(reply);
+    }
+  });
+
+  return () =>
+    new Promise<{ code: number; text: string }>(resolve => {
+      const reply = replies.shift();
+      if (reply) resolve(reply);
+      else waiting.push(resolve);
+    });
+}
+
+// Header-safe text, and lines starting with a dot doubled (RFC 5321 transparency)
+function formatMessage(from: string, message: MailMessage): string {
+  const header = (value: string) => value.replace(/[\r\n]+/g, ' ');
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+
+  return [
+    `From: ${header(from)}`,
+    `To: ${message.to.map(header).join(', ')}`,
+    `Subject: ${header(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * Send a plain-text email
+ * Without implicit TLS the connection is upgraded with STARTTLS when the server offers it;
+ * credentials are never sent over an unencrypted connection
+ * Throws with the server's reply if any step is rejected
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  let encrypted = !!config.secure;
+
+  // Reply reader and failure signal for the current socket (replaced after STARTTLS)
+  const attach = (target: net.Socket) => {
+    target.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const failed = new Promise<never>((_, reject) => {
+      target.once('error', reject);
+      target.once('timeout', () => reject(new Error(`SMTP timeout talking to ${config.host}:${config.port}`)));
+    });
+    failed.catch(() => {}); // Surfaced through the reply that was being awaited
+    return { failed, readReply: createReplyReader(target) };
+  };
+  let connection = attach(socket);
+
+  const expect = async (command: string | null, codes: number[]) => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await Promise.race([connection.readReply(), connection.failed]);
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${command?.split(' ')[0] ?? 'greeting'} rejected: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+  const ehlo = `EHLO ${os.hostname() || 'localhost'}`;
+
+  try {
+    await expect(null, [220]);
+    const capabilities = await expect(ehlo, [250]);
+
+    if (!encrypted && /\bSTARTTLS\b/i.test(capabilities.text)) {
+      await expect('STARTTLS', [220]);
+      const plain = socket;
+      plain.removeAllListeners('data');
+      plain.setTimeout(0);
+      socket = tls.connect({ socket: plain, servername: config.host });
+      connection = attach(socket);
+      await Promise.race([new Promise(resolve => socket.once('secureConnect', resolve)), connection.failed]);
+      encrypted = true;
+      await expect(ehlo, [250]); // Capabilities are reset after the upgrade
+    }
+
+    if (config.user) {
+      if (!encrypted) {
+        throw new Error(`SMTP server ${config.host} offers no STARTTLS - refusing to send credentials unencrypted`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64');
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await expect(`MAIL FROM:<${config.from}>`, [250]);
+    for (const recipient of message.to) {
+      await expect(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await expect('DATA', [354]);
+    await expect(`${formatMessage(config.from, message)}\r\n.`, [250]);
+    await expect('QUIT', [221]);
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Local SMTP server that accepts every message and hands it to onMessage
+ * Listens on 127.0.0.1; pass port 0 for a random free port
+ */
+export function startSmtpSink(
+  port: number,
+  onMessage: (mail: ReceivedMail) => void
+): Promise<{ port: number; close: () => Promise<void> }> {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+
+    socket.on('error', () => {}); // Clients may drop the connection after QUIT
+    socket.write('220 smtp-sink ready\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          mail.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          onMessage(mail);
+          mail = { from: '', to: [], data: '' };
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const verb = line.slice(0, 4).toUpperCase();
+
+        if (verb === 'EHLO' || verb === 'HELO') socket.write('250-smtp-sink\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 Authenticated\r\n');
+        else if (verb === 'MAIL') {
+          mail.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+          socket.write('250 OK\r\n');
+        } else if (verb === 'RCPT') {
+          mail.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+          socket.write('250 OK\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+          return;
+        } else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+}
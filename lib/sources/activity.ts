@@ -0,0 +1,171 @@
+// Operational activity risk source for airline risk assessment
+import { RiskSource, ComponentScore, RiskContext, ConfidenceLevel, normalizeScore } from '../risk-model';
+import { ActivitySummary, getCachedActivitySummaries } from '../airline-activity';
+
+/**
+ * Operational Activity Score Calculation
+ *
+ * Methodology:
+ * - Utilisation: flights per aircraft on the latest fully sampled day (flightsLast24h / fleet size)
+ *   against the peer median of 30-day average utilisation
+ * - 30-day trend: last 30 days' average daily flights against the 30 before
+ * - 90-day trend: last 90 days' average daily flights against the 90 before
+ * - Trends are scored net of the peer median change, so seasonal and industry-wide
+ *   swings don't read as distress; a sudden drop relative to peers does
+ * - Score = 25% utilisation + 45% 30-day trend + 30% 90-day trend, reweighted over available parts
+ *
+ * Peers are all airlines seen flying in the last 180 days. With fewer than MIN_PEERS the
+ * utilisation part is dropped and trends are scored on their own change.
+ *
+ * Confidence follows coverage: the share of the last 90 days polled often enough to count.
+ *
+ * Output: 0-100 scale (50 = in line with peers), or null without recorded flight activity
+ */
+
+const PART_WEIGHTS = {
+  utilisation: 0.25,
+  trend30: 0.45,
+  trend90: 0.30,
+};
+
+export const MIN_PEERS = 3;
+
+// Utilisation relative to the peer median: half the peer rate scores 100, 1.5x scores 0
+const UTILISATION_RATIO_RANGE: [number, number] = [0.5, 1.5];
+
+// Change in flying net of the peer median: a 30% relative drop scores 100, a 30% rise scores 0
+const TREND_EXCESS_RANGE: [number, number] = [-0.3, 0.3];
+
+const HIGH_CONFIDENCE_COVERAGE = 0.8;
+const MEDIUM_CONFIDENCE_COVERAGE = 0.5;
+
+export interface ActivityScore {
+  score: number | null;
+  confidence: ConfidenceLevel;
+  parts: {
+    utilisation: number | null;
+    trend30: number | null;
+    trend90: number | null;
+  };
+  peerCount: number;
+  peerUtilisation: number | null;
+  peerChange30: number | null;
+  peerChange90: number | null;
+}
+
+function median(values: Array<number | null>): number | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (sorted.length < MIN_PEERS) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round = (value: number | null, places: number) =>
+  value === null ? null : Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Score an airline's activity against its peers
+ * `utilisation` is the airline's current flights per aircraft per day
+ */
+export function scoreOperationalActivity(
+  airline: { utilisation: number | null; change30: number | null; change90: number | null; coverage: number },
+  peers: ActivitySummary[]
+): ActivityScore {
+  const peerUtilisation = median(peers.map(p => p.utilisation));
+  const peerChange30 = median(peers.map(p => p.change30));
+  const peerChange90 = median(peers.map(p => p.change90));
+
+  const trendRisk = (change: number | null, peerChange: number | null) =>
+    change === null ? null : normalizeScore(change - (peerChange ?? 0), ...TREND_EXCESS_RANGE, true);
+
+  const parts = {
+    utilisation: airline.utilisation !== null && peerUtilisation
+      ? normalizeScore(airline.utilisation / peerUtilisation, ...UTILISATION_RATIO_RANGE, true)
+      : null,
+    trend30: trendRisk(airline.change30, peerChange30),
+    trend90: trendRisk(airline.change90, peerChange90),
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [key, weight] of Object.entries(PART_WEIGHTS) as Array<[keyof typeof PART_WEIGHTS, number]>) {
+    if (parts[key] === null) continue;
+    weighted += parts[key]! * weight;
+    totalWeight += weight;
+  }
+
+  let confidence: ConfidenceLevel = 'LOW';
+  if (parts.trend30 !== null && airline.coverage >= MEDIUM_CONFIDENCE_COVERAGE) {
+    confidence = parts.trend90 !== null && airline.coverage >= HIGH_CONFIDENCE_COVERAGE && peerChange30 !== null
+      ? 'HIGH'
+      : 'MEDIUM';
+  }
+
+  return {
+    score: totalWeight > 0 ? round(weighted / totalWeight, 1) : null,
+    confidence,
+    parts: {
+      utilisation: round(parts.utilisation, 1),
+      trend30: round(parts.trend30, 1),
+      trend90: round(parts.trend90, 1),
+    },
+    peerCount: peers.length,
+    peerUtilisation: round(peerUtilisation, 2),
+    peerChange30: round(peerChange30, 3),
+    peerChange90: round(peerChange90, 3),
+  };
+}
+
+export const activityRiskSource: RiskSource = {
+  key: 'activity',
+  name: 'Operational Activity',
+  description: 'Flights per aircraft and the 30/90-day trend in flying against peers, from OpenSky observations',
+  enabled: true,
+  weight: 0.10, // 10% of overall risk score
+
+  async calculate(context: RiskContext): Promise<ComponentScore> {
+    const summaries = await getCachedActivitySummaries();
+    const own = summaries.find(summary => summary.icao === context.airline.icao);
+
+    if (!own) {
+      return {
+        score: null,
+        confidence: 'LOW',
+        metadata: {
+          reason: 'No flight activity recorded',
+        },
+      };
+    }
+
+    const flightsLast24h = context.activityData?.flightsLast24h;
+    const fleetSize = context.airline.fleetSize;
+    const utilisation = flightsLast24h !== undefined && fleetSize
+      ? round(flightsLast24h / fleetSize, 2)
+      : own.utilisation;
+
+    const peers = summaries.filter(summary => summary.icao !== context.airline.icao);
+    const result = scoreOperationalActivity({ ...own, utilisation }, peers);
+
+    return {
+      score: result.score,
+      confidence: result.confidence,
+      metadata: {
+        flightsLast24h,
+        utilisation,
+        peerUtilisation: result.peerUtilisation,
+        change30: own.change30,
+        peerChange30: result.peerChange30,
+        change90: own.change90,
+        peerChange90: result.peerChange90,
+        coverage: own.coverage,
+        peerCount: result.peerCount,
+        utilisationRisk: result.parts.utilisation,
+        trend30Risk: result.parts.trend30,
+        trend90Risk: result.parts.trend90,
+        note: result.score === null
+          ? 'Not enough sampled days for a trend'
+          : `${Math.round(own.coverage * 100)}% of the last 90 days sampled`,
+      },
+    };
+  },
+};
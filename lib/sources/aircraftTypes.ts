@@ -0,0 +1,79 @@
+// Aircraft type reference table for asset liquidity / remarketability analysis
+
+export type AircraftCategory = 'narrowbody' | 'widebody' | 'regional';
+
+/**
+ * Liquidity tier (remarketability of the type on the secondary market)
+ * 1 = most liquid (large operator base, strong lessor demand)
+ * 4 = least liquid (niche, few operators, hard to place)
+ */
+export type LiquidityTier = 1 | 2 | 3 | 4;
+
+export interface AircraftTypeInfo {
+  designator: string; // ICAO type designator, e.g. A20N
+  name: string; // Marketing name, e.g. A320neo
+  aliases: string[]; // Common names used in registers, e.g. A320-200N
+  category: AircraftCategory;
+  liquidityTier: LiquidityTier;
+  operatorCount: number; // Approximate number of active operators worldwide
+  inProduction: boolean;
+}
+
+export const AIRCRAFT_TYPES: AircraftTypeInfo[] = [
+  // Airbus narrowbody
+  { designator: 'BCS3', name: 'A220-300', aliases: ['A220', 'CS300'], category: 'narrowbody', liquidityTier: 2, operatorCount: 25, inProduction: true },
+  { designator: 'A319', name: 'A319ceo', aliases: ['A319', 'A319-100'], category: 'narrowbody', liquidityTier: 3, operatorCount: 110, inProduction: false },
+  { designator: 'A320', name: 'A320ceo', aliases: ['A320', 'A320-200'], category: 'narrowbody', liquidityTier: 1, operatorCount: 330, inProduction: false },
+  { designator: 'A20N', name: 'A320neo', aliases: ['A320NEO', 'A320-200N', 'A320N'], category: 'narrowbody', liquidityTier: 1, operatorCount: 120, inProduction: true },
+  { designator: 'A321', name: 'A321ceo', aliases: ['A321', 'A321-200'], category: 'narrowbody', liquidityTier: 1, operatorCount: 100, inProduction: false },
+  { designator: 'A21N', name: 'A321neo', aliases: ['A321NEO', 'A321-200N', 'A321N', 'A321LR', 'A321XLR'], category: 'narrowbody', liquidityTier: 1, operatorCount: 90, inProduction: true },
+
+  // Boeing narrowbody
+  { designator: 'B737', name: '737-700', aliases: ['737-700', 'B737-700'], category: 'narrowbody', liquidityTier: 2, operatorCount: 90, inProduction: false },
+  { designator: 'B738', name: '737-800', aliases: ['737', 'B737', '737-800', 'B737-800'], category: 'narrowbody', liquidityTier: 1, operatorCount: 260, inProduction: false },
+  { designator: 'B739', name: '737-900ER', aliases: ['737-900', 'B737-900', '737-900ER'], category: 'narrowbody', liquidityTier: 2, operatorCount: 20, inProduction: false },
+  { designator: 'B38M', name: '737 MAX 8', aliases: ['737 MAX', '737 MAX 8', 'B737 MAX', 'B737MAX'], category: 'narrowbody', liquidityTier: 1, operatorCount: 80, inProduction: true },
+  { designator: 'B39M', name: '737 MAX 9', aliases: ['737 MAX 9'], category: 'narrowbody', liquidityTier: 2, operatorCount: 15, inProduction: true },
+  { designator: 'B752', name: '757-200', aliases: ['757', 'B757', '757-200'], category: 'narrowbody', liquidityTier: 4, operatorCount: 30, inProduction: false },
+
+  // Widebody
+  { designator: 'A332', name: 'A330-200', aliases: ['A330-200'], category: 'widebody', liquidityTier: 3, operatorCount: 70, inProduction: false },
+  { designator: 'A333', name: 'A330-300', aliases: ['A330', 'A330-300'], category: 'widebody', liquidityTier: 2, operatorCount: 60, inProduction: false },
+  { designator: 'A339', name: 'A330-900neo', aliases: ['A330NEO', 'A330-900'], category: 'widebody', liquidityTier: 3, operatorCount: 15, inProduction: true },
+  { designator: 'A343', name: 'A340-300', aliases: ['A340', 'A340-300'], category: 'widebody', liquidityTier: 4, operatorCount: 8, inProduction: false },
+  { designator: 'A359', name: 'A350-900', aliases: ['A350', 'A350-900'], category: 'widebody', liquidityTier: 2, operatorCount: 35, inProduction: true },
+  { designator: 'A35K', name: 'A350-1000', aliases: ['A350-1000'], category: 'widebody', liquidityTier: 3, operatorCount: 8, inProduction: true },
+  { designator: 'A388', name: 'A380-800', aliases: ['A380', 'A380-800'], category: 'widebody', liquidityTier: 4, operatorCount: 10, inProduction: false },
+  { designator: 'B744', name: '747-400', aliases: ['747', 'B747', '747-400'], category: 'widebody', liquidityTier: 4, operatorCount: 10, inProduction: false },
+  { designator: 'B763', name: '767-300ER', aliases: ['767', 'B767', '767-300'], category: 'widebody', liquidityTier: 3, operatorCount: 35, inProduction: false },
+  { designator: 'B772', name: '777-200ER', aliases: ['777-200', '777-200ER'], category: 'widebody', liquidityTier: 4, operatorCount: 20, inProduction: false },
+  { designator: 'B77W', name: '777-300ER', aliases: ['777', 'B777', '777-300ER'], category: 'widebody', liquidityTier: 2, operatorCount: 45, inProduction: false },
+  { designator: 'B788', name: '787-8', aliases: ['787-8', 'B787-8'], category: 'widebody', liquidityTier: 2, operatorCount: 40, inProduction: true },
+  { designator: 'B789', name: '787-9', aliases: ['787', 'B787', '787-9', 'B787-9'], category: 'widebody', liquidityTier: 1, operatorCount: 45, inProduction: true },
+  { designator: 'B78X', name: '787-10', aliases: ['787-10', 'B787-10'], category: 'widebody', liquidityTier: 3, operatorCount: 10, inProduction: true },
+
+  // Regional
+  { designator: 'E175', name: 'E175', aliases: ['ERJ175'], category: 'regional', liquidityTier: 2, operatorCount: 30, inProduction: true },
+  { designator: 'E190', name: 'E190', aliases: ['ERJ190', 'E190'], category: 'regional', liquidityTier: 3, operatorCount: 50, inProduction: false },
+  { designator: 'E295', name: 'E195-E2', aliases: ['E195-E2', 'E2'], category: 'regional', liquidityTier: 3, operatorCount: 15, inProduction: true },
+  { designator: 'CRJ9', name: 'CRJ900', aliases: ['CRJ900', 'CRJ-900'], category: 'regional', liquidityTier: 3, operatorCount: 25, inProduction: false },
+  { designator: 'AT76', name: 'ATR 72-600', aliases: ['ATR72', 'ATR72-600'], category: 'regional', liquidityTier: 2, operatorCount: 90, inProduction: true },
+  { designator: 'DH8D', name: 'Dash 8-400', aliases: ['Q400', 'DHC-8-400', 'DASH 8'], category: 'regional', liquidityTier: 3, operatorCount: 50, inProduction: false },
+];
+
+/**
+ * Look up an aircraft type by ICAO designator, marketing name or alias
+ * Case- and whitespace-insensitive, e.g. 'A320-200N', 'a20n' and 'A320 neo' all match
+ */
+export function findAircraftType(type: string): AircraftTypeInfo | undefined {
+  const normalize = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+  const key = normalize(type);
+  if (!key) return undefined;
+
+  return AIRCRAFT_TYPES.find(
+    info =>
+      info.designator === key ||
+      normalize(info.name) === key ||
+      info.aliases.some(alias => normalize(alias) === key)
+  );
+}
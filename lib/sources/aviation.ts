@@ -1,5 +1,7 @@
 // Aviation API wrapper (using AviationStack or similar free API)
 
+import type { StrategicImportance } from '../risk-model';
+
 export interface AirlineData {
   icao: string;
   iata?: string;
@@ -9,6 +11,11 @@ export interface AirlineData {
   fleetSize?: number;
   isPublic?: boolean; // Whether the airline is publicly traded
   ticker?: string; // Stock ticker symbol for financial data
+  ownership?: {     // State ownership, seeds the stored airline for sovereign support
+    stateOwnership: number;
+    strategicImportance: StrategicImportance;
+    sovereignRating?: string;
+  };
 }
 
 /**
@@ -187,6 +194,7 @@ function getMockAirlineData(icao: string): AirlineData | null {
       fleetSize: 260,
       isPublic: false, // Government-owned
       ticker: undefined, // No public ticker
+      ownership: { stateOwnership: 100, strategicImportance: 'high', sovereignRating: 'AA' }, // Investment Corporation of Dubai
     },
     'QTR': {
       icao: 'QTR',
@@ -197,6 +205,7 @@ function getMockAirlineData(icao: string): AirlineData | null {
       fleetSize: 200,
       isPublic: false, // Government-owned
       ticker: undefined, // No public ticker
+      ownership: { stateOwnership: 100, strategicImportance: 'high', sovereignRating: 'AA' }, // Qatar Investment Authority
     },
     'ETD': {
       icao: 'ETD',
@@ -207,6 +216,7 @@ function getMockAirlineData(icao: string): AirlineData | null {
       fleetSize: 90,
       isPublic: false, // Government-owned
       ticker: undefined, // No public ticker
+      ownership: { stateOwnership: 100, strategicImportance: 'high', sovereignRating: 'AA' }, // Abu Dhabi Developmental Holding
     },
     
     // Asian carriers
@@ -219,6 +229,7 @@ function getMockAirlineData(icao: string): AirlineData | null {
       fleetSize: 180,
       isPublic: true,
       ticker: 'C6L.SI',
+      ownership: { stateOwnership: 53, strategicImportance: 'high', sovereignRating: 'AA' }, // Temasek
     },
     'CPA': {
       icao: 'CPA',
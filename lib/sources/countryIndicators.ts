@@ -0,0 +1,221 @@
+// Country indicator dataset
+// Sovereign rating, macro indicators and aircraft repossession environment per country,
+// loaded from a local JSON file with an as-of date for each country
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { normalizeScore, RatingGrade } from '../risk-model';
+
+export interface CountryIndicators {
+  country: string;
+  aliases?: string[];          // Other names or ISO codes the country is matched by
+  asOf: string;                // ISO date the indicators were last reviewed
+  sovereignRating?: string;    // Agency-style long-term foreign currency rating (AAA ... D)
+  gdpGrowth?: number;          // Real GDP growth, %
+  inflation?: number;          // CPI inflation, %
+  fxReservesMonths?: number;   // FX reserves in months of import cover (omitted for reserve-currency issuers)
+  capeTownRatified?: boolean;  // Cape Town Convention and Aircraft Protocol in force
+  repossessionScore?: number;  // Repossession enforceability, 0-100 (higher = faster, more certain recovery)
+  repossessionMonths?: number; // Typical time from default to regaining possession
+  legalCostPct?: number;       // Legal and enforcement cost, % of asset value
+  ideraAvailable?: boolean;    // Irrevocable deregistration and export request authorisations are honoured
+}
+
+export interface CountryIndicatorScore {
+  score: number;
+  parts: {
+    sovereign: number | null;
+    macro: number | null;
+    recovery: number | null;
+  };
+  ageDays: number;
+  stale: boolean;
+}
+
+const DEFAULT_COUNTRY_INDICATORS_PATH = 'data/country-indicators.json';
+
+// Indicators older than this still score, but with reduced confidence
+export const MAX_INDICATOR_AGE_DAYS = 548;
+
+// Recovering aircraft is what matters most to a lessor, so the repossession environment
+// carries the largest share of the jurisdiction score
+const PART_WEIGHTS = {
+  sovereign: 0.35,
+  macro: 0.25,
+  recovery: 0.40,
+};
+
+// Added to recovery risk when the Cape Town Convention isn't in force - repossession then
+// depends on local insolvency law and courts, typically adding months or years
+const NO_CAPE_TOWN_PENALTY = 50;
+
+// Risk score (0-100) for each agency rating notch
+export const SOVEREIGN_RATING_SCORES: Record<string, number> = {
+  'AAA': 0,
+  'AA+': 5,
+  'AA': 8,
+  'AA-': 11,
+  'A+': 15,
+  'A': 18,
+  'A-': 22,
+  'BBB+': 27,
+  'BBB': 32,
+  'BBB-': 38,
+  'BB+': 45,
+  'BB': 52,
+  'BB-': 58,
+  'B+': 65,
+  'B': 72,
+  'B-': 78,
+  'CCC+': 85,
+  'CCC': 90,
+  'CCC-': 93,
+  'CC': 96,
+  'C': 98,
+  'SD': 100,
+  'D': 100,
+};
+
+/**
+ * Parse the indicator file
+ * Expects either an array of countries or { countries: [...] }; entries without a country
+ * name or a valid as-of date are dropped
+ */
+export function parseCountryIndicators(data: any): CountryIndicators[] {
+  const countries: any[] = Array.isArray(data) ? data : data?.countries || [];
+  const numberOrUndefined = (value: any) => (typeof value === 'number' && !isNaN(value) ? value : undefined);
+
+  return countries
+    .filter(c => c && typeof c.country === 'string' && c.asOf && !isNaN(new Date(c.asOf).getTime()))
+    .map(c => ({
+      country: c.country,
+      aliases: Array.isArray(c.aliases) ? c.aliases.filter((a: any) => typeof a === 'string') : undefined,
+      asOf: c.asOf,
+      sovereignRating: typeof c.sovereignRating === 'string' && c.sovereignRating.toUpperCase() in SOVEREIGN_RATING_SCORES
+        ? c.sovereignRating.toUpperCase()
+        : undefined,
+      gdpGrowth: numberOrUndefined(c.gdpGrowth),
+      inflation: numberOrUndefined(c.inflation),
+      fxReservesMonths: numberOrUndefined(c.fxReservesMonths),
+      capeTownRatified: typeof c.capeTownRatified === 'boolean' ? c.capeTownRatified : undefined,
+      repossessionScore: numberOrUndefined(c.repossessionScore),
+      repossessionMonths: numberOrUndefined(c.repossessionMonths),
+      legalCostPct: numberOrUndefined(c.legalCostPct),
+      ideraAvailable: typeof c.ideraAvailable === 'boolean' ? c.ideraAvailable : undefined,
+    }));
+}
+
+// Datasets by resolved path - each file is read (and a missing one warned about) once per process
+const datasetCache = new Map<string, Promise<CountryIndicators[] | null>>();
+
+/**
+ * Load the indicator dataset (COUNTRY_INDICATORS_PATH, defaults to data/country-indicators.json)
+ * Returns null if the file is unavailable, so jurisdiction risk falls back to the regional proxy.
+ * The file is loaded once per process; restart to pick up an edited dataset
+ */
+export function loadCountryIndicators(
+  filePath: string = process.env.COUNTRY_INDICATORS_PATH || DEFAULT_COUNTRY_INDICATORS_PATH
+): Promise<CountryIndicators[] | null> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  let dataset = datasetCache.get(resolved);
+
+  if (!dataset) {
+    dataset = readFile(resolved, 'utf-8')
+      .then(raw => parseCountryIndicators(JSON.parse(raw)))
+      .catch(error => {
+        console.warn(`Country indicators unavailable (${filePath}):`, error);
+        return null;
+      });
+    datasetCache.set(resolved, dataset);
+  }
+
+  return dataset;
+}
+
+/**
+ * Grade on the internal rating scale for an agency rating (e.g. 'A-'), placing the notch's
+ * risk score in the scale's bands. Returns null for an unknown rating
+ */
+export function agencyRatingToGrade(rating: string, ratingScale: RatingGrade[]): string | null {
+  const score = SOVEREIGN_RATING_SCORES[rating.toUpperCase()];
+  if (score === undefined || ratingScale.length === 0) return null;
+
+  return (ratingScale.find(grade => score <= grade.maxScore) ?? ratingScale[ratingScale.length - 1]).grade;
+}
+
+/**
+ * Find a country's indicators by name or alias (case-insensitive)
+ */
+export function findCountryIndicators(
+  indicators: CountryIndicators[],
+  country: string
+): CountryIndicators | undefined {
+  const name = country.trim().toLowerCase();
+  return indicators.find(entry =>
+    entry.country.toLowerCase() === name ||
+    entry.aliases?.some(alias => alias.toLowerCase() === name)
+  );
+}
+
+/**
+ * Score a country's indicators (0-100, higher = riskier)
+ * - Sovereign: the rating notch
+ * - Macro: average of GDP growth, inflation and FX reserve cover, where reported
+ * - Recovery: repossession enforceability, plus a heavy penalty without Cape Town
+ * Parts that can't be scored are left out and the rest reweighted. Returns null if none can be scored
+ */
+export function scoreCountryIndicators(
+  indicators: CountryIndicators,
+  asOf: Date = new Date()
+): CountryIndicatorScore | null {
+  const sovereign = indicators.sovereignRating !== undefined
+    ? SOVEREIGN_RATING_SCORES[indicators.sovereignRating] ?? null
+    : null;
+
+  const macroScores = [
+    indicators.gdpGrowth !== undefined ? normalizeScore(indicators.gdpGrowth, -2, 6, true) : null,
+    indicators.inflation !== undefined ? normalizeScore(indicators.inflation, 3, 25) : null,
+    indicators.fxReservesMonths !== undefined ? normalizeScore(indicators.fxReservesMonths, 3, 12, true) : null,
+  ].filter((score): score is number => score !== null);
+  const macro = macroScores.length > 0
+    ? macroScores.reduce((sum, score) => sum + score, 0) / macroScores.length
+    : null;
+
+  let recovery: number | null = null;
+  if (indicators.repossessionScore !== undefined || indicators.capeTownRatified !== undefined) {
+    const enforceability = indicators.repossessionScore ?? 50;
+    recovery = Math.min(
+      100,
+      (100 - Math.max(0, Math.min(100, enforceability))) * 0.5 +
+        (indicators.capeTownRatified ? 0 : NO_CAPE_TOWN_PENALTY)
+    );
+  }
+
+  const parts = { sovereign, macro, recovery };
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const key of Object.keys(PART_WEIGHTS) as Array<keyof typeof PART_WEIGHTS>) {
+    const value = parts[key];
+    if (value === null) continue;
+    weightedSum += value * PART_WEIGHTS[key];
+    totalWeight += PART_WEIGHTS[key];
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+  const ageDays = Math.floor((asOf.getTime() - new Date(indicators.asOf).getTime()) / (24 * 60 * 60 * 1000));
+
+  return {
+    score: Math.round((weightedSum / totalWeight) * 10) / 10,
+    parts: {
+      sovereign: round(sovereign),
+      macro: round(macro),
+      recovery: round(recovery),
+    },
+    ageDays,
+    stale: ageDays > MAX_INDICATOR_AGE_DAYS,
+  };
+}
@@ -26,13 +26,16 @@ export const financialRiskSource: RiskSource = {
   name: 'Financial Strength',
   description: 'Risk based on financial health: debt levels, profitability, liquidity',
   enabled: true,
-  weight: 0.35, // 35% of overall risk score
+  weight: 0.30, // 30% of overall risk score
 
   async calculate(context: RiskContext): Promise<ComponentScore> {
     const icao = context.airline.icao;
 
-    // Get stock ticker for the airline
-    const ticker = getTickerFromIcao(icao);
+    // Get stock ticker for the airline, falling back to its parent group's
+    const ownTicker = getTickerFromIcao(icao);
+    const group = context.airline.group;
+    const inherited = !ownTicker && !!group?.ticker;
+    const ticker = ownTicker ?? group?.ticker ?? null;
 
     // If no ticker (private airline), return null score
     if (!ticker) {
@@ -66,11 +69,19 @@ export const financialRiskSource: RiskSource = {
     // Compute financial risk score
     const riskScore = computeFinancialRisk(fundamentals);
 
+    // Parent financials only stand in for the subsidiary's: a guarantee makes them
+    // relevant to its obligations, without one they are indicative at best
+    let confidence: ComponentScore['confidence'] = fundamentals.dataSource === 'api' ? 'HIGH' : 'MEDIUM';
+    if (inherited) {
+      confidence = group?.guaranteed ? 'MEDIUM' : 'LOW';
+    }
+
     return {
       score: riskScore,
-      confidence: fundamentals.dataSource === 'api' ? 'HIGH' : 'MEDIUM',
+      confidence,
       metadata: {
         ticker,
+        ...(inherited && group ? { inheritedFrom: group.name, parentGuarantee: group.guaranteed } : {}),
         dataSource: fundamentals.dataSource,
         debtToEquity: fundamentals.debtToEquity,
         profitMargin: fundamentals.profitMargin,
@@ -0,0 +1,84 @@
+// Fleet composition provider
+// Local reference data of airline fleets by aircraft type (no public API available)
+
+export interface FleetCompositionEntry {
+  designator: string; // ICAO type designator (see aircraftTypes.ts)
+  count: number;
+  averageAge: number; // Years
+}
+
+export interface FleetComposition {
+  icao: string;
+  entries: FleetCompositionEntry[];
+  totalAircraft: number;
+  asOf: string;
+  dataSource: 'mock';
+}
+
+// Fleet snapshots are approximate and refreshed manually
+const FLEET_DATA_AS_OF = '2024-12-31';
+
+/**
+ * Get fleet composition (aircraft types, counts and average ages) for an airline
+ * Returns null if no composition data is available
+ */
+export async function getFleetComposition(icao: string): Promise<FleetComposition | null> {
+  const entries = getMockFleetComposition(icao);
+
+  if (!entries) {
+    return null;
+  }
+
+  return {
+    icao: icao.toUpperCase(),
+    entries,
+    totalAircraft: entries.reduce((sum, e) => sum + e.count, 0),
+    asOf: FLEET_DATA_AS_OF,
+    dataSource: 'mock',
+  };
+}
+
+/**
+ * Mock fleet data based on published fleet lists
+ * Format: [designator, count, average age in years]
+ */
+function getMockFleetComposition(icao: string): FleetCompositionEntry[] | null {
+  const mockData: { [key: string]: Array<[string, number, number]> } = {
+    // Major US carriers
+    AAL: [['A319', 130, 20], ['A320', 48, 23], ['A321', 218, 10], ['A21N', 70, 2], ['B738', 303, 13], ['B38M', 60, 4], ['B772', 47, 23], ['B77W', 20, 11], ['B788', 37, 7], ['B789', 22, 6]],
+    UAL: [['A319', 96, 21], ['A320', 96, 24], ['A21N', 40, 1], ['B738', 141, 13], ['B739', 148, 9], ['B38M', 100, 3], ['B39M', 70, 4], ['B752', 40, 27], ['B763', 37, 26], ['B772', 74, 25], ['B77W', 22, 8], ['B788', 12, 9], ['B789', 38, 6], ['B78X', 21, 5]],
+    DAL: [['BCS3', 70, 4], ['A319', 57, 23], ['A320', 57, 28], ['A321', 127, 6], ['A21N', 40, 1], ['A332', 11, 20], ['A333', 31, 10], ['A339', 39, 4], ['A359', 28, 5], ['B739', 163, 8], ['B752', 110, 26], ['B763', 50, 26]],
+    SWA: [['B737', 340, 18], ['B738', 200, 10], ['B38M', 250, 3]],
+    JBU: [['A320', 130, 18], ['A321', 63, 7], ['A21N', 50, 3], ['BCS3', 30, 2], ['E190', 20, 16]],
+
+    // European carriers
+    AFR: [['A319', 13, 24], ['A320', 30, 18], ['A321', 12, 20], ['BCS3', 40, 2], ['A332', 10, 21], ['A359', 34, 4], ['B772', 18, 22], ['B77W', 43, 14], ['B789', 10, 6]],
+    BAW: [['A319', 30, 22], ['A320', 60, 15], ['A20N', 30, 4], ['A321', 18, 15], ['A21N', 18, 4], ['A388', 12, 12], ['A35K', 18, 4], ['B772', 43, 23], ['B77W', 16, 11], ['B788', 12, 9], ['B789', 18, 6], ['B78X', 12, 3]],
+    DLH: [['A319', 30, 18], ['A320', 40, 16], ['A20N', 40, 4], ['A321', 60, 15], ['A21N', 20, 3], ['A333', 15, 18], ['A343', 17, 25], ['A359', 28, 5], ['A388', 4, 14], ['B744', 8, 21]],
+    KLM: [['B738', 31, 15], ['B739', 5, 14], ['B772', 15, 22], ['B77W', 14, 12], ['B789', 13, 7], ['B78X', 7, 4], ['A332', 6, 18], ['E175', 17, 7], ['E190', 30, 15]],
+    RYR: [['B738', 400, 11], ['B38M', 140, 2]],
+    EZY: [['A319', 60, 17], ['A320', 150, 12], ['A20N', 70, 4], ['A21N', 30, 2]],
+
+    // Middle East carriers
+    UAE: [['A388', 116, 11], ['B77W', 130, 11]],
+    QTR: [['A320', 28, 14], ['A359', 34, 7], ['A35K', 24, 4], ['A388', 8, 10], ['B77W', 55, 10], ['B788', 30, 10], ['B789', 5, 2], ['B38M', 15, 2]],
+    ETD: [['A321', 10, 15], ['A35K', 5, 2], ['A388', 4, 10], ['B77W', 18, 12], ['B789', 30, 7], ['B78X', 25, 4]],
+
+    // Asian carriers
+    SIA: [['A359', 64, 5], ['A388', 12, 10], ['B77W', 20, 13], ['B78X', 32, 5], ['B38M', 7, 5]],
+    CPA: [['A21N', 15, 2], ['A333', 40, 15], ['A359', 30, 6], ['A35K', 18, 4], ['B77W', 45, 13]],
+    JAL: [['B738', 40, 11], ['A359', 16, 4], ['A35K', 2, 1], ['B772', 5, 25], ['B77W', 10, 16], ['B763', 20, 22], ['B788', 22, 10], ['B789', 22, 6], ['E190', 14, 9]],
+    ANA: [['A320', 11, 14], ['A20N', 11, 5], ['A321', 4, 10], ['A21N', 22, 5], ['B738', 39, 11], ['B763', 20, 18], ['B77W', 20, 14], ['B788', 35, 11], ['B789', 40, 6], ['B78X', 3, 3], ['A388', 3, 5]],
+
+    // Other notable carriers
+    ACA: [['BCS3', 33, 5], ['A319', 16, 22], ['A320', 18, 31], ['A321', 15, 22], ['A333', 18, 20], ['B38M', 40, 5], ['B77W', 19, 14], ['B788', 8, 10], ['B789', 29, 7], ['E175', 25, 15]],
+    QFA: [['B738', 75, 15], ['A21N', 5, 1], ['A332', 18, 18], ['A333', 10, 20], ['A388', 10, 15], ['B789', 14, 6]],
+  };
+
+  const data = mockData[icao.toUpperCase()];
+  if (!data) {
+    return null;
+  }
+
+  return data.map(([designator, count, averageAge]) => ({ designator, count, averageAge }));
+}
@@ -0,0 +1,186 @@
+// News & event-driven risk source for airline risk assessment
+import { RiskSource, ComponentScore, RiskContext } from '../risk-model';
+import { getNewsArticles, NewsArticle } from './newsFeed';
+
+/**
+ * News Risk Score Calculation
+ *
+ * Methodology:
+ * - Articles mentioning the airline (ICAO tag or name match) are classified
+ *   into credit-relevant event types by keyword rules
+ * - Each event carries an impact (risk points) that decays exponentially
+ *   with a type-specific half-life
+ * - Score = 50 (neutral) + sum of decayed impacts, capped at 100
+ * - The score only counts towards the overall score when above the blend of
+ *   the other components, so adverse news can raise an airline's score but
+ *   never lower it
+ *
+ * Output: 50-100 scale, or null if no relevant events (or feed unavailable)
+ * so that the dimension is reweighted away rather than diluting other scores
+ */
+
+export type NewsEventType =
+  | 'restructuring'
+  | 'paymentDefault'
+  | 'sanctions'
+  | 'grounding'
+  | 'strike';
+
+interface EventRule {
+  type: NewsEventType;
+  label: string;
+  impact: number; // Risk points at publication
+  halfLifeDays: number;
+  keywords: RegExp;
+}
+
+const EVENT_RULES: EventRule[] = [
+  {
+    type: 'restructuring',
+    label: 'Restructuring / insolvency',
+    impact: 40,
+    halfLifeDays: 180,
+    keywords: /\b(chapter 11|bankrupt\w*|insolven\w*|(enters|entered|placed into|placed in|goes into|went into) administration|restructur\w*|creditor protection|receivership|liquidat\w*)\b/i,
+  },
+  {
+    type: 'paymentDefault',
+    label: 'Payment default',
+    impact: 45,
+    halfLifeDays: 120,
+    keywords: /\b(defaults? on|defaulted|in default|payment default|missed (a |its )?payment\w*|payment arrears|arrears|unpaid (rent|lease)|deferr\w* (rent|lease) payment\w*|repossess\w*)\b/i,
+  },
+  {
+    type: 'sanctions',
+    label: 'Sanctions',
+    impact: 35,
+    halfLifeDays: 365,
+    keywords: /\b(sanction\w*|export ban|asset freeze|blacklist\w*|banned from (eu|us|uk) airspace)\b/i,
+  },
+  {
+    type: 'grounding',
+    label: 'Grounding',
+    impact: 25,
+    halfLifeDays: 60,
+    keywords: /\b(grounded|grounding|grounds (its |the |all )?(\w+ )?(fleet|aircraft|planes|jets)|aoc (suspended|revoked)|suspends? (all )?(flights|operations)|operating licen[cs]e (suspended|revoked))\b/i,
+  },
+  {
+    type: 'strike',
+    label: 'Strike / industrial action',
+    impact: 10,
+    halfLifeDays: 21,
+    keywords: /\b(strike\w*|industrial action|walkout|work stoppage)\b/i,
+  },
+];
+
+// Articles older than this are ignored entirely
+const MAX_ARTICLE_AGE_DAYS = 730;
+
+export interface NewsEvent {
+  type: NewsEventType;
+  label: string;
+  title: string;
+  url?: string;
+  publishedAt: string;
+  ageDays: number;
+  impact: number;
+  decayedImpact: number;
+}
+
+export const newsRiskSource: RiskSource = {
+  key: 'news',
+  name: 'News & Events',
+  description: 'Risk from recent credit-relevant events: restructuring, defaults, sanctions, groundings, strikes',
+  enabled: true,
+  weight: 0.10, // 10% of overall risk score
+
+  async calculate(context: RiskContext): Promise<ComponentScore> {
+    const articles = await getNewsArticles();
+
+    if (!articles) {
+      return {
+        score: null,
+        confidence: 'LOW',
+        metadata: {
+          reason: 'News feed unavailable',
+        },
+      };
+    }
+
+    const events = classifyNewsEvents(
+      articles.filter(article => mentionsAirline(article, context.airline.icao, context.airline.name))
+    );
+
+    if (events.length === 0) {
+      return {
+        score: null,
+        confidence: 'LOW',
+        metadata: {
+          reason: 'No adverse news events',
+          articlesScanned: articles.length,
+        },
+      };
+    }
+
+    const totalImpact = events.reduce((sum, e) => sum + e.decayedImpact, 0);
+    const score = Math.round(Math.min(100, 50 + totalImpact) * 10) / 10;
+
+    return {
+      score,
+      confidence: 'MEDIUM', // Keyword classification, not analyst-verified
+      metadata: {
+        events: events.slice(0, 10),
+        eventCount: events.length,
+        totalImpact: Math.round(totalImpact * 10) / 10,
+        articlesScanned: articles.length,
+      },
+    };
+  },
+};
+
+/**
+ * Check whether an article relates to an airline
+ * Uses feed-provided ICAO tags where present, otherwise a name match
+ */
+export function mentionsAirline(article: NewsArticle, icao: string, name: string): boolean {
+  if (article.airlines && article.airlines.length > 0) {
+    return article.airlines.includes(icao.toUpperCase());
+  }
+
+  const text = `${article.title} ${article.summary || ''}`.toLowerCase();
+  return text.includes(name.toLowerCase());
+}
+
+/**
+ * Classify articles into events and apply time decay
+ * An article can match several event types; the most severe one is kept
+ */
+export function classifyNewsEvents(articles: NewsArticle[], asOf: Date = new Date()): NewsEvent[] {
+  const events: NewsEvent[] = [];
+
+  for (const article of articles) {
+    const publishedAt = new Date(article.publishedAt);
+    const ageDays = Math.max(0, (asOf.getTime() - publishedAt.getTime()) / (24 * 60 * 60 * 1000));
+
+    if (isNaN(ageDays) || ageDays > MAX_ARTICLE_AGE_DAYS) continue;
+
+    const text = `${article.title} ${article.summary || ''}`;
+    const matched = EVENT_RULES.filter(rule => rule.keywords.test(text));
+    if (matched.length === 0) continue;
+
+    const rule = matched.reduce((a, b) => (b.impact > a.impact ? b : a));
+    const decayedImpact = rule.impact * Math.pow(0.5, ageDays / rule.halfLifeDays);
+
+    events.push({
+      type: rule.type,
+      label: rule.label,
+      title: article.title,
+      url: article.url,
+      publishedAt: publishedAt.toISOString(),
+      ageDays: Math.round(ageDays),
+      impact: rule.impact,
+      decayedImpact: Math.round(decayedImpact * 10) / 10,
+    });
+  }
+
+  return events.sort((a, b) => b.decayedImpact - a.decayedImpact);
+}
@@ -0,0 +1,150 @@
+// News feed adapters
+// Pluggable sources of news articles: local JSON file, RSS file or RSS URL
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+export interface NewsArticle {
+  id: string;
+  title: string;
+  summary?: string;
+  url?: string;
+  source?: string;
+  publishedAt: string; // ISO date
+  airlines?: string[]; // ICAO codes tagged by the feed, if any
+}
+
+export interface NewsFeedAdapter {
+  name: string;
+  fetchArticles(): Promise<NewsArticle[]>;
+}
+
+const DEFAULT_NEWS_FEED_PATH = 'data/news-feed.json';
+
+/**
+ * JSON file adapter
+ * Expects either an array of articles or { articles: [...] }
+ */
+export function createJsonFileFeed(filePath: string): NewsFeedAdapter {
+  return {
+    name: `json:${filePath}`,
+    async fetchArticles() {
+      const raw = await readFile(path.resolve(process.cwd(), filePath), 'utf-8');
+      const data = JSON.parse(raw);
+      const articles: any[] = Array.isArray(data) ? data : data.articles || [];
+
+      return articles
+        .filter(a => a && a.title && a.publishedAt)
+        .map((a, index) => ({
+          id: a.id || `${filePath}#${index}`,
+          title: a.title,
+          summary: a.summary,
+          url: a.url,
+          source: a.source,
+          publishedAt: a.publishedAt,
+          airlines: Array.isArray(a.airlines) ? a.airlines.map((icao: string) => icao.toUpperCase()) : undefined,
+        }));
+    },
+  };
+}
+
+/**
+ * RSS adapter - reads an RSS 2.0 document from a URL or local file
+ */
+export function createRssFeed(location: string): NewsFeedAdapter {
+  return {
+    name: `rss:${location}`,
+    async fetchArticles() {
+      let xml: string;
+
+      if (/^https?:\/\//.test(location)) {
+        const response = await fetch(location, {
+          next: { revalidate: 3600 }, // Cache for 1 hour
+        });
+
+        if (!response.ok) {
+          throw new Error(`News feed error: ${response.status}`);
+        }
+
+        xml = await response.text();
+      } else {
+        xml = await readFile(path.resolve(process.cwd(), location), 'utf-8');
+      }
+
+      return parseRss(xml, location);
+    },
+  };
+}
+
+/**
+ * Minimal RSS 2.0 parser (title, description, link, pubDate, guid)
+ */
+export function parseRss(xml: string, feedName: string = 'rss'): NewsArticle[] {
+  const items = xml.match(/<item[\s>][\s\S]*?<\/item>/g) || [];
+
+  return items
+    .map((item, index) => {
+      const title = readTag(item, 'title');
+      const pubDate = readTag(item, 'pubDate');
+      const publishedAt = pubDate ? new Date(pubDate) : null;
+
+      if (!title || !publishedAt || isNaN(publishedAt.getTime())) {
+        return null;
+      }
+
+      return {
+        id: readTag(item, 'guid') || readTag(item, 'link') || `${feedName}#${index}`,
+        title,
+        summary: readTag(item, 'description'),
+        url: readTag(item, 'link'),
+        source: feedName,
+        publishedAt: publishedAt.toISOString(),
+      };
+    })
+    .filter((article): article is NonNullable<typeof article> => article !== null);
+}
+
+function readTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`));
+  if (!match) return undefined;
+
+  return match[1]
+    .replace(/^<!\[CDATA\[/, '')
+    .replace(/\]\]>$/, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+}
+
+/**
+ * Resolve the configured news feed adapter
+ * NEWS_FEED_URL (RSS) takes precedence over NEWS_FEED_PATH (.json or .xml/.rss file)
+ */
+export function getNewsFeedAdapter(): NewsFeedAdapter {
+  const url = process.env.NEWS_FEED_URL;
+  if (url) {
+    return createRssFeed(url);
+  }
+
+  const filePath = process.env.NEWS_FEED_PATH || DEFAULT_NEWS_FEED_PATH;
+  return filePath.endsWith('.json') ? createJsonFileFeed(filePath) : createRssFeed(filePath);
+}
+
+/**
+ * Fetch articles from the configured feed
+ * Returns null if the feed is unavailable (so the news dimension is reweighted away)
+ */
+export async function getNewsArticles(
+  adapter: NewsFeedAdapter = getNewsFeedAdapter()
+): Promise<NewsArticle[] | null> {
+  try {
+    return await adapter.fetchArticles();
+  } catch (error) {
+    console.warn(`News feed unavailable (${adapter.name}):`, error);
+    return null;
+  }
+}
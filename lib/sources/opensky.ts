@@ -1,108 +1,112 @@
 // OpenSky Network API wrapper
+// State vector snapshots from the live API or a replayable capture file
+// Daily flight counts are built from these by lib/airline-activity.ts
+
+import { appendFile, readFile } from 'fs/promises';
+import path from 'path';
+
+// One /states/all response - snapshot time (unix seconds) and state vectors
+// State vector fields used: [0] icao24 transponder address, [1] callsign
+export interface StateSnapshot {
+  time: number;
+  states: any[][];
+}
+
+export interface AirlineObservation {
+  callsigns: Set<string>;
+  icao24s: Set<string>;
+}
+
+// Airline flight callsigns are the operator's ICAO designator followed by a flight number, e.g. BAW123A
+const AIRLINE_CALLSIGN = /^([A-Z]{3})(\d[A-Z0-9]{0,4})$/;
 
 /**
- * Get number of flights for an airline in the last 24 hours
- * Note: OpenSky Network API has strict rate limits and the airline endpoint
- * requires registration. Using mock data based on fleet size for reliability.
+ * Operator ICAO designator of an airline flight callsign, or null for registrations and other callsigns
  */
-export async function getFlightsLast24h(icao: string): Promise<number> {
-  // OpenSky API is heavily rate-limited and unreliable for airline queries
-  // Using realistic mock data based on typical airline operations
-  const flightCount = getMockFlightCount(icao);
-  console.log(`Flights for ${icao}: ${flightCount}`);
-  return flightCount;
+export function parseAirlineCallsign(callsign: string | null | undefined): string | null {
+  const match = AIRLINE_CALLSIGN.exec((callsign || '').trim().toUpperCase());
+  return match ? match[1] : null;
 }
 
 /**
- * Get current active flights for an airline
+ * Validate a /states/all response (states is null when nothing is in the air)
  */
-export async function getCurrentFlights(icao: string): Promise<number> {
-  try {
-    // Note: OpenSky has rate limits on the free tier
-    // This endpoint gets all current flights, then we filter by airline
-    const response = await fetch(
-      `https://opensky-network.org/api/states/all`,
-      {
-        next: { revalidate: 300 }, // Cache for 5 minutes
-      }
-    );
-    
-    if (!response.ok) {
-      console.warn(`OpenSky API error: ${response.status}`);
-      return 0;
-    }
-    
-    const data = await response.json();
-    
-    if (!data.states || !Array.isArray(data.states)) {
-      return 0;
+export function parseSnapshot(data: any): StateSnapshot | null {
+  if (!data || typeof data.time !== 'number') {
+    return null;
+  }
+  return {
+    time: data.time,
+    states: Array.isArray(data.states) ? data.states.filter(Array.isArray) : [],
+  };
+}
+
+/**
+ * Flights and transponders seen for each tracked airline in one snapshot
+ */
+export function observeAirlines(snapshot: StateSnapshot, icaos: Set<string>): Map<string, AirlineObservation> {
+  const observations = new Map<string, AirlineObservation>();
+
+  for (const state of snapshot.states) {
+    const callsign = typeof state[1] === 'string' ? state[1].trim().toUpperCase() : '';
+    const icao = parseAirlineCallsign(callsign);
+    if (!icao || !icaos.has(icao)) continue;
+
+    if (!observations.has(icao)) {
+      observations.set(icao, { callsigns: new Set(), icao24s: new Set() });
     }
-    
-    // Filter by callsign prefix (rough approximation)
-    const icaoPrefix = icao.substring(0, 3).toUpperCase();
-    const matchingFlights = data.states.filter((state: any[]) => {
-      const callsign = state[1]?.trim().toUpperCase() || '';
-      return callsign.startsWith(icaoPrefix);
-    });
-    
-    return matchingFlights.length;
-  } catch (error) {
-    console.error('Error fetching current flights:', error);
-    return 0;
+    const observation = observations.get(icao)!;
+    observation.callsigns.add(callsign);
+    if (typeof state[0] === 'string') observation.icao24s.add(state[0].toLowerCase());
   }
+
+  return observations;
 }
 
 /**
- * Mock data for development/testing or when API fails
- * Based on realistic flight operations: large carriers typically operate
- * 4-6 flights per aircraft per day
+ * Fetch the current state vectors for all aircraft
+ * Anonymous access allows roughly 100 of these calls a day, so poll no more than every 15 minutes.
+ * Each snapshot is appended to OPENSKY_RECORD_PATH (JSON Lines) when set, for later replay
  */
-function getMockFlightCount(icao: string): number {
-  const mockData: { [key: string]: number } = {
-    // Major US carriers
-    'AAL': 450,  // American Airlines - large fleet
-    'UAL': 420,  // United Airlines - large fleet
-    'DAL': 480,  // Delta Air Lines - large fleet
-    'SWA': 400,  // Southwest Airlines
-    'JBU': 280,  // JetBlue
-    
-    // European carriers
-    'AFR': 180,  // Air France
-    'BAW': 200,  // British Airways
-    'DLH': 250,  // Lufthansa
-    'KLM': 170,  // KLM
-    'RYR': 350,  // Ryanair
-    
-    // Middle East carriers
-    'UAE': 150,  // Emirates
-    'QTR': 140,  // Qatar Airways
-    'ETD': 130,  // Etihad
-    
-    // Asian carriers
-    'SIA': 160,  // Singapore Airlines
-    'CPA': 180,  // Cathay Pacific
-    'JAL': 220,  // Japan Airlines
-    'ANA': 230,  // All Nippon Airways
-    
-    // Low-cost carriers
-    'EZY': 320,  // EasyJet
-    'VLG': 180,  // Vueling
-    'WJA': 150,  // WestJet
-  };
-  
-  const icaoUpper = icao.toUpperCase();
-  
-  // If we have specific data, use it
-  if (mockData[icaoUpper]) {
-    return mockData[icaoUpper];
+export async function fetchStateVectors(): Promise<StateSnapshot> {
+  const response = await fetch('https://opensky-network.org/api/states/all', { cache: 'no-store' });
+
+  if (!response.ok) {
+    throw new Error(`OpenSky API error: ${response.status}`);
+  }
+
+  const snapshot = parseSnapshot(await response.json());
+  if (!snapshot) {
+    throw new Error('OpenSky API returned no snapshot time');
+  }
+
+  const recordPath = process.env.OPENSKY_RECORD_PATH;
+  if (recordPath) {
+    await appendFile(path.resolve(process.cwd(), recordPath), JSON.stringify(snapshot) + '\n', 'utf-8');
   }
-  
-  // For unknown airlines, generate based on typical patterns
-  // Small airlines: 20-80 flights/day
-  // Medium airlines: 80-200 flights/day
-  // Large airlines: 200-500+ flights/day
-  const hash = icaoUpper.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const baseFlights = 50 + (hash % 150); // 50-200 range for medium airlines
-  
-  return baseFlights;
+
+  return snapshot;
+}
+
+/**
+ * Read a capture file of /states/all responses
+ * Accepts JSON Lines (one response per line, as written via OPENSKY_RECORD_PATH), a JSON array
+ * of responses or a single response. Invalid entries are skipped
+ */
+export async function readCaptureFile(filePath: string): Promise<StateSnapshot[]> {
+  const raw = (await readFile(path.resolve(process.cwd(), filePath), 'utf-8')).trim();
+  if (!raw) return [];
+
+  let entries: any[];
+  if (raw.startsWith('[')) {
+    entries = JSON.parse(raw);
+  } else if (raw.includes('\n')) {
+    entries = raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  } else {
+    entries = [JSON.parse(raw)];
+  }
+
+  return entries
+    .map(parseSnapshot)
+    .filter((snapshot): snapshot is StateSnapshot => snapshot !== null);
 }
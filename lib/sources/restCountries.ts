@@ -6,6 +6,7 @@ export interface CountryInfo {
   subregion?: string;
   population?: number;
   gini?: number; // Gini coefficient (inequality index)
+  currencies?: string[]; // ISO currency codes in use
   capitalInfo?: {
     latlng?: number[];
   };
@@ -53,6 +54,7 @@ export async function getCountryInfo(countryName: string): Promise<CountryInfo |
       subregion: country.subregion,
       population: country.population,
       gini,
+      currencies: country.currencies ? Object.keys(country.currencies) : undefined,
       capitalInfo: country.capitalInfo,
     };
   } catch (error) {
@@ -2,16 +2,54 @@
 
 import { RiskSource, ComponentScore, RiskContext, RiskDimensionKey, normalizeScore } from '../risk-model';
 import { financialRiskSource } from './financial';
+import { newsRiskSource } from './news';
+import { activityRiskSource } from './activity';
+import { getFleetComposition, FleetCompositionEntry } from './fleetComposition';
+import { findAircraftType } from './aircraftTypes';
+import { findCountryIndicators, loadCountryIndicators, scoreCountryIndicators } from './countryIndicators';
 
-// Jurisdiction Risk (proxy) - Country-based risk assessment
+// Jurisdiction Risk - Country-based risk assessment
+// Scored from the country indicator dataset (sovereign, macro, aircraft recovery) where the
+// country is covered, otherwise from a regional proxy
 export const jurisdictionRiskSource: RiskSource = {
   key: 'jurisdiction' as RiskDimensionKey,
   name: 'Jurisdiction Risk (proxy)',
   description: 'Risk assessment based on the airline\'s country of operation and regulatory environment',
   enabled: true,
-  weight: 0.25, // 25% of overall score
+  weight: 0.20, // 20% of overall score
   
   async calculate(context: RiskContext): Promise<ComponentScore> {
+    const dataset = await loadCountryIndicators();
+    const indicators = dataset ? findCountryIndicators(dataset, context.airline.country) : undefined;
+    const indicatorScore = indicators ? scoreCountryIndicators(indicators) : null;
+
+    if (indicators && indicatorScore) {
+      const { parts } = indicatorScore;
+      const complete = parts.sovereign !== null && parts.macro !== null && parts.recovery !== null;
+
+      return {
+        score: indicatorScore.score,
+        confidence: complete && !indicatorScore.stale ? 'HIGH' : 'MEDIUM',
+        metadata: {
+          region: context.countryInfo?.region,
+          sovereignRating: indicators.sovereignRating,
+          gdpGrowth: indicators.gdpGrowth,
+          inflation: indicators.inflation,
+          fxReservesMonths: indicators.fxReservesMonths,
+          capeTownRatified: indicators.capeTownRatified,
+          repossessionScore: indicators.repossessionScore,
+          indicatorsAsOf: indicators.asOf,
+          sovereignScore: parts.sovereign,
+          macroScore: parts.macro,
+          recoveryScore: parts.recovery,
+          stale: indicatorScore.stale,
+          note: indicatorScore.stale
+            ? `Country indicators are ${indicatorScore.ageDays} days old`
+            : 'Sovereign, macro and aircraft recovery indicators',
+        },
+      };
+    }
+
     if (!context.countryInfo) {
       // If no country data, return moderate risk with low confidence
       return {
@@ -57,7 +95,7 @@ export const jurisdictionRiskSource: RiskSource = {
       metadata: {
         region: context.countryInfo.region,
         gini: context.countryInfo.gini,
-        note: 'Proxy measure based on regional and economic indicators',
+        note: `Proxy measure based on regional and economic indicators - no country indicators for ${context.airline.country}`,
       },
     };
   },
@@ -69,7 +107,7 @@ export const scaleAndNetworkRiskSource: RiskSource = {
   name: 'Scale & Network Strength',
   description: 'Risk assessment based on airline size and network scale (fleet size)',
   enabled: true,
-  weight: 0.20, // 20% of overall score
+  weight: 0.15, // 15% of overall score
   
   async calculate(context: RiskContext): Promise<ComponentScore> {
     const fleetSize = context.airline.fleetSize ?? 0;
@@ -120,13 +158,13 @@ export const scaleAndNetworkRiskSource: RiskSource = {
   },
 };
 
-// Fleet & Asset Liquidity (proxy) - NEW component
+// Fleet & Asset Liquidity (proxy) - Fleet composition / remarketability
 export const assetLiquidityRiskSource: RiskSource = {
   key: 'assetLiquidity' as RiskDimensionKey,
   name: 'Fleet & Asset Liquidity (proxy)',
   description: 'Risk based on fleet composition and asset marketability',
   enabled: true,
-  weight: 0.20, // 20% of overall score
+  weight: 0.15, // 15% of overall score
   
   async calculate(context: RiskContext): Promise<ComponentScore> {
     // Check if active - inactive airline has very high asset liquidity risk
@@ -141,31 +179,134 @@ export const assetLiquidityRiskSource: RiskSource = {
       };
     }
     
-    // TODO: In future, analyze fleet composition (narrowbody vs widebody)
-    // For now, we don't have fleet composition data
-    // Narrowbody-heavy (A320, B737) = lower risk (more liquid)
-    // Widebody-heavy (A380, B777) = higher risk (less liquid, harder to place)
+    const composition = await getFleetComposition(context.airline.icao);
+    
+    if (!composition || composition.totalAircraft === 0) {
+      return {
+        score: null, // No score - data unavailable
+        confidence: 'LOW',
+        metadata: {
+          reason: 'Fleet composition data unavailable',
+          fleetCompositionUnavailable: true,
+          active: context.airline.active,
+        },
+      };
+    }
+    
+    const { score, ...liquidity } = computeFleetLiquidityRisk(composition.entries);
+    
+    // Confidence: reference data is approximate (MEDIUM at best); drop to LOW
+    // if the composition covers too little of the fleet or has unknown types
+    const coverage = context.airline.fleetSize
+      ? composition.totalAircraft / context.airline.fleetSize
+      : 1;
+    const confidence: 'HIGH' | 'MEDIUM' | 'LOW' =
+      coverage < 0.5 || liquidity.unknownShare > 0.2 ? 'LOW' : 'MEDIUM';
     
-    // Return neutral score with LOW confidence since we lack fleet composition data
     return {
-      score: null, // No score - data unavailable
-      confidence: 'LOW',
+      score,
+      confidence,
       metadata: {
-        reason: 'Fleet composition data unavailable',
-        fleetCompositionUnavailable: true,
-        note: 'Future enhancement: analyze narrowbody vs widebody mix',
-        active: context.airline.active,
+        ...liquidity,
+        totalAircraft: composition.totalAircraft,
+        coverage: Math.round(Math.min(coverage, 1) * 100) / 100,
+        dataSource: composition.dataSource,
+        asOf: composition.asOf,
+        note: 'Proxy measure based on type liquidity tier, operator base, fleet age and out-of-production types',
       },
     };
   },
 };
 
+// Base remarketability risk per liquidity tier
+const LIQUIDITY_TIER_RISK: Record<number, number> = {
+  1: 15,
+  2: 35,
+  3: 60,
+  4: 85,
+};
+
+/**
+ * Compute fleet remarketability risk from fleet composition
+ * 
+ * - Type mix (50%): liquidity tier blended with operator base, count-weighted
+ * - Fleet age (30%): average age, 5 years = 0 risk, 25+ years = 100
+ * - Out-of-production types (20%): share of fleet on types no longer built;
+ *   illiquid (tier 3-4) types count fully, liquid ones (tier 1-2) at 40%
+ * 
+ * Types missing from the reference table are treated as tier 3
+ */
+export function computeFleetLiquidityRisk(entries: FleetCompositionEntry[]) {
+  let totalCount = 0;
+  let mixRiskSum = 0;
+  let ageSum = 0;
+  let outOfProductionSum = 0;
+  let unknownCount = 0;
+  let narrowbodyCount = 0;
+  let widebodyCount = 0;
+  
+  for (const entry of entries) {
+    const info = findAircraftType(entry.designator);
+    totalCount += entry.count;
+    ageSum += entry.averageAge * entry.count;
+    
+    if (!info) {
+      unknownCount += entry.count;
+      mixRiskSum += LIQUIDITY_TIER_RISK[3] * entry.count;
+      continue;
+    }
+    
+    const operatorRisk = normalizeScore(info.operatorCount, 10, 250, true);
+    const typeRisk = LIQUIDITY_TIER_RISK[info.liquidityTier] * 0.75 + operatorRisk * 0.25;
+    mixRiskSum += typeRisk * entry.count;
+    
+    if (!info.inProduction) {
+      outOfProductionSum += entry.count * (info.liquidityTier >= 3 ? 1 : 0.4);
+    }
+    
+    if (info.category === 'widebody') {
+      widebodyCount += entry.count;
+    } else {
+      narrowbodyCount += entry.count;
+    }
+  }
+  
+  if (totalCount === 0) {
+    return {
+      score: null,
+      typeMixRisk: null,
+      averageAge: null,
+      ageRisk: null,
+      outOfProductionRisk: null,
+      widebodyShare: null,
+      unknownShare: 0,
+    };
+  }
+  
+  const typeMixRisk = mixRiskSum / totalCount;
+  const averageAge = ageSum / totalCount;
+  const ageRisk = normalizeScore(averageAge, 5, 25);
+  const outOfProductionRisk = (outOfProductionSum / totalCount) * 100;
+  
+  const score = typeMixRisk * 0.5 + ageRisk * 0.3 + outOfProductionRisk * 0.2;
+  
+  return {
+    score: Math.round(Math.max(0, Math.min(100, score)) * 10) / 10,
+    typeMixRisk: Math.round(typeMixRisk * 10) / 10,
+    averageAge: Math.round(averageAge * 10) / 10,
+    ageRisk: Math.round(ageRisk * 10) / 10,
+    outOfProductionRisk: Math.round(outOfProductionRisk * 10) / 10,
+    widebodyShare: Math.round((widebodyCount / totalCount) * 1000) / 1000,
+    unknownShare: Math.round((unknownCount / totalCount) * 1000) / 1000,
+  };
+}
+
 // Export all enabled sources for the aggregator
 export const enabledRiskSources: RiskSource[] = [
-  jurisdictionRiskSource,      // 25% - Country-based risk
-  scaleAndNetworkRiskSource,   // 20% - Fleet size only
-  assetLiquidityRiskSource,    // 20% - Fleet composition (currently unavailable)
-  financialRiskSource,         // 35% - Financial strength (returns null if unavailable)
-  // Future sources can be added here:
-  // newsRiskSource,
+  jurisdictionRiskSource,      // 20% - Country-based risk
+  scaleAndNetworkRiskSource,   // 15% - Fleet size only
+  assetLiquidityRiskSource,    // 15% - Fleet composition / remarketability
+  financialRiskSource,         // 30% - Financial strength (returns null if unavailable)
+  newsRiskSource,              // 10% - Adverse events, only when they raise the score (returns null if none)
+  activityRiskSource,          // 10% - Flight utilisation trend vs peers (returns null without activity)
 ];
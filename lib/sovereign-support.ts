@@ -0,0 +1,169 @@
+// Sovereign support - uplift for state-owned airlines toward the credit quality of their government,
+// so a flag carrier without public financials isn't scored as if its owner were unknown
+
+import prisma from './db';
+import {
+  RatingGrade,
+  RiskConfig,
+  RiskContext,
+  SovereignSupportResult,
+  StrategicImportance,
+} from './risk-model';
+import { agencyRatingToGrade } from './sources/countryIndicators';
+
+export const STRATEGIC_IMPORTANCE_LABELS: Record<StrategicImportance, string> = {
+  high: 'High - flag carrier or national hub strategy',
+  medium: 'Medium - important to the economy',
+  low: 'Low - financial investment',
+};
+
+export type AirlineOwnership = NonNullable<RiskContext['airline']['ownership']>;
+
+export interface AirlineOwnershipInput {
+  stateOwnership: number | null;
+  strategicImportance?: string | null;
+  sovereignRating?: string | null;
+}
+
+/**
+ * Validate an airline's ownership before saving (stateOwnership null clears it)
+ * Returns an error message, or null if valid
+ */
+export function validateOwnership(input: AirlineOwnershipInput, ratingScale: RatingGrade[]): string | null {
+  if (input.stateOwnership === null) {
+    return null;
+  }
+
+  if (typeof input.stateOwnership !== 'number' || isNaN(input.stateOwnership) || input.stateOwnership < 0 || input.stateOwnership > 100) {
+    return 'State ownership must be between 0 and 100%';
+  }
+
+  if (!input.strategicImportance || !(input.strategicImportance in STRATEGIC_IMPORTANCE_LABELS)) {
+    return 'Strategic importance must be high, medium or low';
+  }
+
+  if (input.sovereignRating && !ratingScale.some(grade => grade.grade === input.sovereignRating)) {
+    return `Sovereign rating must be a grade on the rating scale (${ratingScale.map(grade => grade.grade).join(', ')})`;
+  }
+
+  return null;
+}
+
+/**
+ * Record (or clear, with stateOwnership null) an airline's state ownership
+ * Returns null if the airline doesn't exist
+ */
+export async function setAirlineOwnership(icao: string, input: AirlineOwnershipInput) {
+  const airline = await prisma.airline.findUnique({ where: { icao: icao.toUpperCase() } });
+  if (!airline) {
+    return null;
+  }
+
+  const cleared = input.stateOwnership === null;
+  return prisma.airline.update({
+    where: { id: airline.id },
+    data: {
+      stateOwnership: input.stateOwnership,
+      strategicImportance: cleared ? null : input.strategicImportance,
+      sovereignRating: cleared ? null : input.sovereignRating || null,
+    },
+  });
+}
+
+/**
+ * Ownership passed to the aggregator for a stored airline (undefined if none is recorded)
+ */
+export function toOwnershipContext(airline: {
+  stateOwnership: number | null;
+  strategicImportance: string | null;
+  sovereignRating: string | null;
+}): AirlineOwnership | undefined {
+  if (airline.stateOwnership === null || !airline.strategicImportance) return undefined;
+
+  return {
+    stateOwnership: airline.stateOwnership,
+    strategicImportance: airline.strategicImportance as StrategicImportance,
+    sovereignRating: airline.sovereignRating ?? undefined,
+  };
+}
+
+/**
+ * Score for a sovereign rating - the midpoint of the grade's band on the rating scale
+ * Returns null for a grade that isn't on the scale
+ */
+export function sovereignRatingToScore(rating: string, ratingScale: RatingGrade[]): number | null {
+  const index = ratingScale.findIndex(grade => grade.grade === rating);
+  if (index < 0) return null;
+
+  const lower = index > 0 ? ratingScale[index - 1].maxScore : 0;
+  return (lower + ratingScale[index].maxScore) / 2;
+}
+
+/**
+ * Share of the gap to the sovereign that state support closes (0-1)
+ */
+export function getSupportFactor(ownership: AirlineOwnership, config: Pick<RiskConfig, 'sovereignSupport'>): number {
+  const { controllingStake, importanceFactors } = config.sovereignSupport;
+  const stake = Math.min(1, Math.max(0, ownership.stateOwnership) / controllingStake);
+  return (importanceFactors[ownership.strategicImportance] ?? 0) * stake;
+}
+
+/**
+ * Apply sovereign support to a standalone score
+ * The sovereign's score comes from the rating recorded on the airline, else the country indicator
+ * dataset's agency rating (`countryRating`) mapped onto the internal scale, else the jurisdiction score.
+ * No support applies when the airline has no state owner or is already as strong as its sovereign
+ */
+export function applySovereignSupport(
+  standaloneScore: number,
+  ownership: AirlineOwnership | undefined,
+  jurisdictionScore: number | null | undefined,
+  config: Pick<RiskConfig, 'sovereignSupport' | 'ratingScale'>,
+  countryRating?: string | null
+): { score: number; support?: SovereignSupportResult } {
+  if (!ownership || ownership.stateOwnership <= 0) {
+    return { score: standaloneScore };
+  }
+
+  const ratingScore = ownership.sovereignRating
+    ? sovereignRatingToScore(ownership.sovereignRating, config.ratingScale)
+    : null;
+  const countryGrade = countryRating ? agencyRatingToGrade(countryRating, config.ratingScale) : null;
+  const countryScore = ratingScore === null && countryGrade
+    ? sovereignRatingToScore(countryGrade, config.ratingScale)
+    : null;
+  const sovereignScore = ratingScore ?? countryScore ?? jurisdictionScore ?? null;
+
+  if (sovereignScore === null || sovereignScore >= standaloneScore) {
+    return { score: standaloneScore };
+  }
+
+  const supportFactor = Math.round(getSupportFactor(ownership, config) * 100) / 100;
+  const uplift = Math.round((standaloneScore - sovereignScore) * supportFactor * 10) / 10;
+
+  if (uplift <= 0) {
+    return { score: standaloneScore };
+  }
+
+  return {
+    score: standaloneScore - uplift,
+    support: {
+      standaloneScore: Math.round(standaloneScore * 10) / 10,
+      sovereignScore,
+      sovereignBasis: ratingScore !== null ? 'rating' : countryScore !== null ? 'countryRating' : 'jurisdiction',
+      supportFactor,
+      uplift,
+    },
+  };
+}
+
+/**
+ * Re-apply a stored support result to a recombined standalone score (e.g. after an analyst
+ * overrides a component), with the same sovereign score and support factor
+ */
+export function reapplySovereignSupport(standaloneScore: number, support: SovereignSupportResult): number {
+  if (support.sovereignScore >= standaloneScore) {
+    return standaloneScore;
+  }
+  return standaloneScore - Math.round((standaloneScore - support.sovereignScore) * support.supportFactor * 10) / 10;
+}
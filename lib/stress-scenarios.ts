@@ -0,0 +1,213 @@
+// Saved stress scenarios - validation and runs against current portfolio data
+
+import { AirlineRiskSnapshot } from '@prisma/client';
+import prisma from './db';
+import { RiskConfig, RiskDimensionKey, scoreToRiskBucket, getBlendWeights } from './risk-model';
+import { getActiveRiskConfig } from './risk-model-versions';
+import { calculateScenarioRisk, ExposureRow, ScenarioResult, ScenarioShock } from './scenario-calculator';
+import { getCountryInfo } from './sources/restCountries';
+import { activeOverridesInclude, applySnapshotOverrides, OverrideRecord } from './risk-overrides';
+
+const RISK_DIMENSION_KEYS: RiskDimensionKey[] = ['jurisdiction', 'scale', 'assetLiquidity', 'financial', 'news', 'activity'];
+
+// Snapshot column for each risk dimension
+const COMPONENT_COLUMNS: Record<RiskDimensionKey, `${RiskDimensionKey}Score`> = {
+  jurisdiction: 'jurisdictionScore',
+  scale: 'scaleScore',
+  assetLiquidity: 'assetLiquidityScore',
+  financial: 'financialScore',
+  news: 'newsScore',
+  activity: 'activityScore',
+};
+
+export interface StressScenarioRun {
+  currency: string;
+  current: ScenarioResult;
+  scenario: ScenarioResult;
+}
+
+/**
+ * Validate a list of shocks from a request body
+ * Returns an error message, or null if valid
+ */
+export function validateScenarioShocks(shocks: unknown): string | null {
+  if (!Array.isArray(shocks) || shocks.length === 0) {
+    return 'At least one shock is required';
+  }
+
+  for (const [index, shock] of shocks.entries()) {
+    const label = `Shock ${index + 1}`;
+    if (!shock || typeof shock !== 'object') {
+      return `${label} is invalid`;
+    }
+
+    const isAmount = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+    const isPoints = (value: unknown) => typeof value === 'number' && isFinite(value) && Math.abs(value) <= 100;
+    const hasText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+    switch (shock.type) {
+      case 'setExposure':
+      case 'addAirline':
+        if (!hasText(shock.airlineIcao)) return `${label}: airline is required`;
+        if (!isAmount(shock.exposure)) return `${label}: exposure must be a non-negative number`;
+        break;
+      case 'removeAirline':
+        if (!hasText(shock.airlineIcao)) return `${label}: airline is required`;
+        break;
+      case 'overrideScore':
+        if (!hasText(shock.airlineIcao)) return `${label}: airline is required`;
+        if (!isAmount(shock.score) || shock.score > 100) return `${label}: score must be between 0 and 100`;
+        break;
+      case 'shiftCountry':
+        if (!hasText(shock.country)) return `${label}: country is required`;
+        if (!isPoints(shock.points)) return `${label}: points must be between -100 and 100`;
+        break;
+      case 'shiftRegion':
+        if (!hasText(shock.region)) return `${label}: region is required`;
+        if (!isPoints(shock.points)) return `${label}: points must be between -100 and 100`;
+        break;
+      case 'componentShock':
+        if (!RISK_DIMENSION_KEYS.includes(shock.component)) return `${label}: unknown risk component`;
+        if (!isPoints(shock.points)) return `${label}: points must be between -100 and 100`;
+        break;
+      default:
+        return `${label}: unknown shock type`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert an airline and its latest snapshot into a scenario row
+ * Component weights are the active model weights normalized over the available components,
+ * matching how the aggregator combines them and scaled by any sovereign support.
+ * Active analyst overrides are applied first
+ */
+function toExposureRow(
+  airline: {
+    icao: string;
+    name: string;
+    country: string;
+    riskSnapshots: AirlineRiskSnapshot[];
+    riskOverrides?: OverrideRecord[];
+    group: { name: string } | null;
+  },
+  exposure: number,
+  config: RiskConfig,
+  countryInfo?: { region?: string; subregion?: string }
+): ExposureRow {
+  const snapshot: AirlineRiskSnapshot | undefined = applySnapshotOverrides(airline.riskSnapshots[0], airline.riskOverrides ?? [], config);
+  const weights = snapshot
+    ? getBlendWeights(Object.fromEntries(RISK_DIMENSION_KEYS.map(key => [key, snapshot[COMPONENT_COLUMNS[key]]])), config)
+    : {};
+  const blended = Object.keys(weights) as RiskDimensionKey[];
+
+  // Sovereign support absorbs part of any component move
+  const support = snapshot?.sovereignSupport ? JSON.parse(snapshot.sovereignSupport) : null;
+  const passThrough = support ? 1 - support.supportFactor : 1;
+
+  return {
+    airlineIcao: airline.icao,
+    airlineName: airline.name,
+    airlineCountry: airline.country,
+    airlineRegion: countryInfo?.region,
+    airlineSubregion: countryInfo?.subregion,
+    jurisdictionBand: snapshot?.jurisdictionScore != null
+      ? scoreToRiskBucket(snapshot.jurisdictionScore, config)
+      : undefined,
+    airlineGroup: airline.group?.name,
+    exposure,
+    risk: snapshot?.overallScore ?? 50, // Default moderate risk
+    riskBucket: snapshot?.riskBucket ?? 'Medium',
+    components: snapshot && blended.length > 0
+      ? Object.fromEntries(
+          blended.map(key => [
+            key,
+            { score: snapshot[COMPONENT_COLUMNS[key]] as number, weight: (weights[key] as number) * passThrough },
+          ])
+        )
+      : undefined,
+  };
+}
+
+async function getCountryInfos(
+  countries: string[]
+): Promise<Map<string, { region?: string; subregion?: string } | undefined>> {
+  const unique = Array.from(new Set(countries));
+  const infos = await Promise.all(unique.map(country => getCountryInfo(country)));
+  return new Map(unique.map((country, i) => [country, infos[i]]));
+}
+
+/**
+ * Run shocks against the current exposures and latest airline scores of one currency book
+ * Returns null if the portfolio doesn't exist
+ */
+export async function runStressScenario(
+  portfolioId: string,
+  currency: string,
+  shocks: ScenarioShock[]
+): Promise<StressScenarioRun | null> {
+  const latestSnapshot = {
+    riskSnapshots: {
+      orderBy: { calculatedAt: 'desc' as const },
+      take: 1,
+    },
+    riskOverrides: activeOverridesInclude(),
+    group: true,
+  };
+
+  const portfolio = await prisma.portfolio.findUnique({
+    where: { id: portfolioId },
+    include: {
+      exposures: {
+        where: { currency },
+        include: { airline: { include: latestSnapshot } },
+      },
+    },
+  });
+
+  if (!portfolio) {
+    return null;
+  }
+
+  // Airlines brought in by addAirline shocks
+  const bookIcaos = new Set(portfolio.exposures.map(e => e.airline.icao));
+  const addedIcaos = shocks
+    .filter(shock => shock.type === 'addAirline' && !bookIcaos.has(shock.airlineIcao.toUpperCase()))
+    .map(shock => (shock as { airlineIcao: string }).airlineIcao.toUpperCase());
+  const addedAirlines = addedIcaos.length > 0
+    ? await prisma.airline.findMany({
+        where: { icao: { in: addedIcaos } },
+        include: latestSnapshot,
+      })
+    : [];
+
+  const config = await getActiveRiskConfig();
+  const countryInfos = await getCountryInfos([
+    ...portfolio.exposures.map(e => e.airline.country),
+    ...addedAirlines.map(a => a.country),
+  ]);
+
+  const input = {
+    currency,
+    exposures: portfolio.exposures.map(e =>
+      toExposureRow(e.airline, e.exposureAmount, config, countryInfos.get(e.airline.country))
+    ),
+    candidates: addedAirlines.map(a => toExposureRow(a, 0, config, countryInfos.get(a.country))),
+    concentrationModel: config.concentrationModel,
+    segmentConcentrationRules: config.segmentConcentrationRules,
+    bucketThresholds: config.bucketThresholds,
+  };
+
+  return {
+    currency,
+    current: calculateScenarioRisk(input),
+    scenario: calculateScenarioRisk({
+      ...input,
+      shocks: shocks.map(shock =>
+        'airlineIcao' in shock ? { ...shock, airlineIcao: shock.airlineIcao.toUpperCase() } : shock
+      ),
+    }),
+  };
+}
@@ -0,0 +1,438 @@
+// Watchlist and alerting - followed airlines and portfolios, with alert rules evaluated
+// whenever a new airline risk snapshot is saved or a portfolio's exposures change
+
+import prisma from './db';
+import { RiskDimensionKey } from './risk-model';
+import { calculatePortfolioRisk } from './portfolio-risk';
+import { breachedSliceChecks, describeLimitBreach, limitBreachKey, LimitCheck } from './exposure-limits';
+import { AlertChannelConfig, AlertSeverity, deliverAlert } from './alert-channels';
+
+export type AlertRule =
+  | { type: 'bucketChange'; worseningOnly?: boolean }
+  | { type: 'scoreMove'; points: number }
+  | { type: 'confidenceDrop'; component?: RiskDimensionKey }
+  | { type: 'limitBreach' };
+
+export type AlertRuleType = AlertRule['type'];
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  bucketChange: 'Risk bucket change',
+  scoreMove: 'Score move',
+  confidenceDrop: 'Component confidence drop',
+  limitBreach: 'Exposure limit breach',
+};
+
+const COMPONENT_LABELS: Record<RiskDimensionKey, string> = {
+  jurisdiction: 'Jurisdiction',
+  scale: 'Scale & Network',
+  assetLiquidity: 'Asset Liquidity',
+  financial: 'Financial',
+  news: 'News & Events',
+  activity: 'Operational Activity',
+};
+
+const BUCKET_ORDER: Record<string, number> = { Low: 0, Medium: 1, High: 2 };
+const CONFIDENCE_RANK: Record<string, number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+
+// Fields of AirlineRiskSnapshot used by the rules
+export interface AlertSnapshot {
+  overallScore: number;
+  riskBucket: string;
+  dataVersion: string;
+  jurisdictionConfidence: string | null;
+  scaleConfidence: string | null;
+  assetLiquidityConfidence: string | null;
+  financialConfidence: string | null;
+  newsConfidence: string | null;
+  activityConfidence: string | null;
+}
+
+// Alert before it is stored and delivered
+export interface AlertDraft {
+  rule: AlertRuleType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+}
+
+/**
+ * Validate alert rules before saving a watch
+ * Limit breach rules need a portfolio watch
+ */
+export function validateAlertRules(rules: unknown, target: 'airline' | 'portfolio'): string | null {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return 'At least one alert rule is required';
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const label = `Rule ${index + 1}`;
+
+    switch (rule?.type) {
+      case 'bucketChange':
+        break;
+      case 'scoreMove':
+        if (typeof rule.points !== 'number' || !(rule.points > 0 && rule.points <= 100)) {
+          return `${label}: points must be between 0 and 100`;
+        }
+        break;
+      case 'confidenceDrop':
+        if (rule.component !== undefined && !(rule.component in COMPONENT_LABELS)) {
+          return `${label}: unknown risk component`;
+        }
+        break;
+      case 'limitBreach':
+        if (target !== 'portfolio') return `${label}: limit breach alerts need a portfolio watch`;
+        break;
+      default:
+        return `${label}: unknown rule type`;
+    }
+  }
+
+  return null;
+}
+
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'bucketChange':
+      return rule.worseningOnly ? 'Risk bucket downgrade' : ALERT_RULE_LABELS.bucketChange;
+    case 'scoreMove':
+      return `Score move over ${rule.points} points`;
+    case 'confidenceDrop':
+      return rule.component
+        ? `${COMPONENT_LABELS[rule.component]} confidence drop`
+        : ALERT_RULE_LABELS.confidenceDrop;
+    case 'limitBreach':
+      return ALERT_RULE_LABELS.limitBreach;
+  }
+}
+
+/**
+ * Alerts raised by a new snapshot compared with the airline's previous one
+ * No alerts without a previous snapshot - there is nothing to compare against
+ */
+export function evaluateSnapshotRules(
+  rules: AlertRule[],
+  previous: AlertSnapshot | null,
+  current: AlertSnapshot,
+  airline: { icao: string; name: string }
+): AlertDraft[] {
+  if (!previous) return [];
+
+  const drafts: AlertDraft[] = [];
+  const subject = `${airline.name} (${airline.icao})`;
+  const scores = `score ${previous.overallScore.toFixed(1)} → ${current.overallScore.toFixed(1)}`;
+  const versionNote = previous.dataVersion !== current.dataVersion
+    ? `, model version ${previous.dataVersion} → ${current.dataVersion}`
+    : '';
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'bucketChange': {
+        if (previous.riskBucket === current.riskBucket) break;
+        const worsened = (BUCKET_ORDER[current.riskBucket] ?? 0) > (BUCKET_ORDER[previous.riskBucket] ?? 0);
+        if (rule.worseningOnly && !worsened) break;
+
+        drafts.push({
+          rule: rule.type,
+          severity: current.riskBucket === 'High' ? 'critical' : worsened ? 'warning' : 'info',
+          title: `${airline.name} moved to ${current.riskBucket} risk`,
+          message: `${subject} moved from ${previous.riskBucket} to ${current.riskBucket} risk (${scores}${versionNote})`,
+        });
+        break;
+      }
+      case 'scoreMove': {
+        const change = current.overallScore - previous.overallScore;
+        if (Math.abs(change) <= rule.points) break;
+
+        drafts.push({
+          rule: rule.type,
+          severity: change > 0 ? 'warning' : 'info',
+          title: `${airline.name} score ${change > 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)} points`,
+          message: `${subject} moved more than ${rule.points} points (${scores}${versionNote})`,
+        });
+        break;
+      }
+      case 'confidenceDrop': {
+        const keys = rule.component ? [rule.component] : (Object.keys(COMPONENT_LABELS) as RiskDimensionKey[]);
+        const drops = keys.flatMap(key => {
+          const from = previous[`${key}Confidence`];
+          const to = current[`${key}Confidence`];
+          if (!from || (CONFIDENCE_RANK[from] ?? 0) <= (to ? CONFIDENCE_RANK[to] ?? 0 : 0)) return [];
+          return [`${COMPONENT_LABELS[key]} ${from} → ${to ?? 'unavailable'}`];
+        });
+        if (drops.length === 0) break;
+
+        drafts.push({
+          rule: rule.type,
+          severity: 'warning',
+          title: `${airline.name} data confidence dropped`,
+          message: `${subject}: ${drops.join(', ')}`,
+        });
+        break;
+      }
+      case 'limitBreach':
+        // Portfolio-level - see evaluateLimitRule
+        break;
+    }
+  }
+
+  return drafts;
+}
+
+/**
+ * Alerts for limits breached now that weren't at the last evaluation, per limit and slice
+ * (a second airline over an "each airline" limit alerts too)
+ * Returns the breach keys to store for the next comparison
+ */
+export function evaluateLimitRule(
+  previouslyBreached: string[],
+  checks: LimitCheck[],
+  portfolioName: string
+): { drafts: AlertDraft[]; breached: string[] } {
+  const breachedChecks = checks.flatMap(breachedSliceChecks);
+
+  return {
+    drafts: breachedChecks
+      .filter(check => !previouslyBreached.includes(limitBreachKey(check)))
+      .map(check => ({
+        rule: 'limitBreach' as const,
+        severity: check.limit.hard ? 'critical' as const : 'warning' as const,
+        title: `${portfolioName}: ${check.limit.hard ? 'hard' : 'soft'} limit breached`,
+        message: `${describeLimitBreach(check)} in ${portfolioName}`,
+      })),
+    breached: breachedChecks.map(limitBreachKey),
+  };
+}
+
+/**
+ * Limit breach alerts for a portfolio watch, storing the breaches for the next comparison
+ * Returns no alerts if the watch has no limit breach rule or the portfolio can't be measured
+ */
+async function evaluateWatchLimits(
+  watch: { id: string; rules: string; breachedLimits: string | null },
+  portfolio: { id: string; name: string }
+): Promise<AlertDraft[]> {
+  const rules: AlertRule[] = JSON.parse(watch.rules);
+  if (!rules.some(rule => rule.type === 'limitBreach')) {
+    return [];
+  }
+
+  const risk = await calculatePortfolioRisk(portfolio.id);
+  if (!risk?.limits) {
+    return [];
+  }
+
+  const limitResult = evaluateLimitRule(JSON.parse(watch.breachedLimits || '[]'), risk.limits, portfolio.name);
+  await prisma.watch.update({
+    where: { id: watch.id },
+    data: { breachedLimits: JSON.stringify(limitResult.breached) },
+  });
+
+  return limitResult.drafts;
+}
+
+/**
+ * Store alerts in the inbox and queue them for the watch's channels
+ * Delivery runs in the background, so a slow SMTP server or webhook never holds up the
+ * snapshot save or exposure change that raised the alert
+ */
+async function raiseAlerts(
+  watch: { id: string; channels: string },
+  drafts: AlertDraft[],
+  source: { airlineIcao: string | null; portfolioId: string | null }
+): Promise<void> {
+  const channels: AlertChannelConfig[] = JSON.parse(watch.channels || '[]');
+
+  for (const draft of drafts) {
+    await prisma.alert.create({
+      data: { watchId: watch.id, ...source, ...draft, deliveryPending: channels.length > 0 },
+    });
+  }
+
+  if (channels.length > 0 && drafts.length > 0) {
+    queueAlertDelivery();
+  }
+}
+
+// Background deliveries run one after another; alerts left queued (e.g. by a restart) are
+// picked up by the alert-delivery job
+let deliveryQueue: Promise<void> = Promise.resolve();
+
+function queueAlertDelivery(): void {
+  deliveryQueue = deliveryQueue
+    .then(() => deliverPendingAlerts())
+    .then(() => undefined)
+    .catch(error => console.error('Error delivering alerts:', error));
+}
+
+/**
+ * Deliver queued alerts to their watch's email and webhook channels
+ * Each alert is claimed before delivery, so overlapping runs never send it twice
+ * Returns the alerts delivered, and those with a failed channel
+ */
+export async function deliverPendingAlerts(): Promise<{ delivered: number; failed: Array<{ alertId: string; error: string }> }> {
+  const pending = await prisma.alert.findMany({
+    where: { deliveryPending: true },
+    include: { watch: { select: { channels: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let delivered = 0;
+  const failed: Array<{ alertId: string; error: string }> = [];
+
+  for (const alert of pending) {
+    const claimed = await prisma.alert.updateMany({
+      where: { id: alert.id, deliveryPending: true },
+      data: { deliveryPending: false },
+    });
+    if (claimed.count === 0) continue;
+
+    const deliveries = await deliverAlert(
+      {
+        id: alert.id,
+        rule: alert.rule,
+        severity: alert.severity as AlertSeverity,
+        title: alert.title,
+        message: alert.message,
+        airlineIcao: alert.airlineIcao,
+        portfolioId: alert.portfolioId,
+        createdAt: alert.createdAt,
+      },
+      JSON.parse(alert.watch.channels || '[]')
+    );
+    await prisma.alert.update({
+      where: { id: alert.id },
+      data: { deliveries: JSON.stringify(deliveries) },
+    });
+
+    const errors = deliveries.filter(delivery => !delivery.ok).map(delivery => `${delivery.channel}: ${delivery.error}`);
+    if (errors.length > 0) {
+      failed.push({ alertId: alert.id, error: errors.join('; ') });
+    } else {
+      delivered++;
+    }
+  }
+
+  return { delivered, failed };
+}
+
+/**
+ * Evaluate every watch on an airline (directly or through a portfolio holding it)
+ * after a new snapshot was saved. Never throws - alerting must not break snapshot saving
+ * Returns the number of alerts raised
+ */
+export async function evaluateSnapshotAlerts(airlineId: string): Promise<number> {
+  try {
+    const watches = await prisma.watch.findMany({
+      where: {
+        OR: [
+          { airlineId },
+          { portfolio: { exposures: { some: { airlineId } } } },
+        ],
+      },
+      include: { portfolio: true },
+    });
+
+    if (watches.length === 0) {
+      return 0;
+    }
+
+    const [airline, snapshots] = await Promise.all([
+      prisma.airline.findUnique({ where: { id: airlineId } }),
+      prisma.airlineRiskSnapshot.findMany({
+        where: { airlineId },
+        orderBy: { calculatedAt: 'desc' },
+        take: 2,
+      }),
+    ]);
+
+    if (!airline || snapshots.length === 0) {
+      return 0;
+    }
+
+    let raised = 0;
+    for (const watch of watches) {
+      const rules: AlertRule[] = JSON.parse(watch.rules);
+      const drafts = evaluateSnapshotRules(rules, snapshots[1] ?? null, snapshots[0], airline).map(draft =>
+        watch.portfolio ? { ...draft, message: `${draft.message} - held in ${watch.portfolio.name}` } : draft
+      );
+
+      // Score and bucket limits move with airline scores
+      if (watch.portfolio) {
+        drafts.push(...await evaluateWatchLimits(watch, watch.portfolio));
+      }
+
+      await raiseAlerts(watch, drafts, { airlineIcao: airline.icao, portfolioId: watch.portfolioId });
+      raised += drafts.length;
+    }
+
+    return raised;
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return 0;
+  }
+}
+
+/**
+ * Evaluate limit breach rules on a portfolio's watches after its exposures changed
+ * Never throws - alerting must not break the exposure change
+ * Returns the number of alerts raised
+ */
+export async function evaluatePortfolioAlerts(portfolioId: string): Promise<number> {
+  try {
+    const watches = await prisma.watch.findMany({
+      where: { portfolioId },
+      include: { portfolio: true },
+    });
+
+    let raised = 0;
+    for (const watch of watches) {
+      if (!watch.portfolio) continue;
+
+      const drafts = await evaluateWatchLimits(watch, watch.portfolio);
+      await raiseAlerts(watch, drafts, { airlineIcao: null, portfolioId });
+      raised += drafts.length;
+    }
+
+    return raised;
+  } catch (error) {
+    console.error('Error evaluating portfolio alerts:', error);
+    return 0;
+  }
+}
+
+/**
+ * Watches with their rules and channels parsed, newest first
+ */
+export async function getWatches() {
+  const watches = await prisma.watch.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: {
+      airline: { select: { icao: true, name: true } },
+      portfolio: { select: { id: true, name: true } },
+      _count: { select: { alerts: true } },
+    },
+  });
+
+  return watches.map(watch => ({
+    ...watch,
+    rules: JSON.parse(watch.rules) as AlertRule[],
+    channels: JSON.parse(watch.channels || '[]') as AlertChannelConfig[],
+  }));
+}
+
+/**
+ * Inbox - newest first
+ */
+export async function getAlerts(options: { unreadOnly?: boolean; take?: number } = {}) {
+  const alerts = await prisma.alert.findMany({
+    where: options.unreadOnly ? { readAt: null } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: options.take ?? 100,
+  });
+
+  return alerts.map(alert => ({
+    ...alert,
+    deliveries: alert.deliveries ? JSON.parse(alert.deliveries) : [],
+  }));
+}
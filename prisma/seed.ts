@@ -36,6 +36,30 @@ async function main() {
   });
   console.log('  ✓ Deleted existing demo airlines');
 
+  await prisma.airlineGroup.deleteMany({
+    where: { name: { in: ['International Airlines Group', 'Air France-KLM'] } }
+  });
+  console.log('  ✓ Deleted existing demo airline groups');
+
+  // Create Airline Groups - subsidiaries count as one obligor
+  console.log('\n🏢 Creating airline groups...');
+
+  const iag = await prisma.airlineGroup.create({
+    data: {
+      name: 'International Airlines Group',
+      ticker: 'IAG.L',
+      country: 'United Kingdom',
+    },
+  });
+  await prisma.airlineGroup.create({
+    data: {
+      name: 'Air France-KLM',
+      ticker: 'AF.PA',
+      country: 'France',
+    },
+  });
+  console.log('  ✓ Created International Airlines Group and Air France-KLM');
+
   // Create Airlines
   console.log('\n✈️  Creating airlines...');
   
@@ -59,6 +83,7 @@ async function main() {
       country: 'United Kingdom',
       active: true,
       fleetSize: 275,
+      groupId: iag.id,
     },
   });
   console.log('  ✓ Created British Airways');
@@ -191,7 +216,7 @@ async function main() {
   // Create Lease Exposures
   console.log('\n💼 Creating lease exposures...');
 
-  await prisma.leaseExposure.create({
+  const americanExposure = await prisma.leaseExposure.create({
     data: {
       portfolioId: portfolio.id,
       airlineId: americanAirlines.id,
@@ -203,7 +228,7 @@ async function main() {
   });
   console.log('  ✓ Created exposure: American Airlines - $45M USD');
 
-  await prisma.leaseExposure.create({
+  const britishExposure = await prisma.leaseExposure.create({
     data: {
       portfolioId: portfolio.id,
       airlineId: britishAirways.id,
@@ -239,12 +264,82 @@ async function main() {
   });
   console.log('  ✓ Created exposure: Delta Air Lines - $52M USD');
 
+  // Create Aircraft Register entries
+  console.log('\n🛩️  Registering aircraft...');
+
+  await prisma.aircraft.createMany({
+    data: [
+      {
+        exposureId: americanExposure.id,
+        msn: '7845',
+        registration: 'N401AN',
+        aircraftType: 'A321',
+        variant: '200',
+        engineType: 'IAE V2533-A5',
+        yearOfManufacture: 2017,
+        appraisedValue: 38500000,
+      },
+      {
+        exposureId: americanExposure.id,
+        msn: '8112',
+        registration: 'N402AN',
+        aircraftType: 'A321',
+        variant: '200',
+        engineType: 'IAE V2533-A5',
+        yearOfManufacture: 2018,
+        appraisedValue: 40200000,
+      },
+      {
+        exposureId: britishExposure.id,
+        msn: '38615',
+        registration: 'G-ZBJA',
+        aircraftType: 'B787',
+        variant: '8',
+        engineType: 'RR Trent 1000',
+        yearOfManufacture: 2013,
+        appraisedValue: 52000000,
+      },
+    ],
+  });
+  console.log('  ✓ Registered 3 aircraft (2 × A321-200, 1 × B787-8)');
+
+  // Create Lease Contracts
+  console.log('\n📄 Creating lease contracts...');
+
+  await prisma.leaseContract.createMany({
+    data: [
+      {
+        exposureId: americanExposure.id,
+        startDate: new Date('2019-03-01'),
+        expiryDate: new Date('2027-02-28'),
+        monthlyRent: 345000,
+        rentCurrency: 'USD',
+        securityDeposit: 690000,
+        maintenanceReserveBalance: 4200000,
+        extensionOptionMonths: 24,
+      },
+      {
+        exposureId: britishExposure.id,
+        startDate: new Date('2014-05-01'),
+        expiryDate: new Date('2026-04-30'),
+        monthlyRent: 610000,
+        rentCurrency: 'GBP',
+        letterOfCredit: 1830000,
+        maintenanceReserveBalance: 9800000,
+      },
+    ],
+  });
+  console.log('  ✓ Created 2 lease contracts');
+
   console.log('\n✅ Seeding completed successfully!');
   console.log('\n📊 Summary:');
+  console.log('  • 2 airline groups created');
   console.log('  • 4 airlines created');
   console.log('  • 4 risk snapshots created');
   console.log('  • 1 portfolio created');
   console.log('  • 4 lease exposures created');
+  console.log('  • 3 aircraft registered');
+  console.log('  • 2 lease contracts created');
   console.log('  • Total exposure value: ~$160M equivalent across USD, EUR, GBP\n');
 }
 
@@ -0,0 +1,26 @@
+// Flight activity ingestion - poll OpenSky once, or replay a capture file
+// Usage: npm run activity:ingest, or npm run activity:ingest -- data/opensky-capture.jsonl
+
+import prisma from '../lib/db';
+import { ingestCaptureFile, ingestLiveActivity } from '../lib/airline-activity';
+
+async function main() {
+  const capturePath = process.argv[2];
+
+  console.log(capturePath ? `📼 Replaying ${capturePath}...` : '🛰️  Polling OpenSky state vectors...');
+
+  const result = capturePath ? await ingestCaptureFile(capturePath) : await ingestLiveActivity();
+
+  console.log(
+    `✅ ${result.snapshots} snapshots: ${result.flights} flights observed across ${result.airlines} airlines on ${result.days} day(s)`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Activity ingestion failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
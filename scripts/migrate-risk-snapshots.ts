@@ -0,0 +1,26 @@
+// Rewrite airline risk snapshots stored in older formats into the current one
+// Usage: npm run db:migrate-snapshots (safe to re-run)
+
+import prisma from '../lib/db';
+import { migrateStoredSnapshots, SNAPSHOT_MIGRATIONS } from '../lib/risk-snapshots';
+
+async function main() {
+  console.log('🔄 Migrating stored airline risk snapshots...');
+
+  const counts = await migrateStoredSnapshots();
+
+  for (const migration of SNAPSHOT_MIGRATIONS) {
+    console.log(`  ${counts[migration.id] > 0 ? '✓' : '·'} ${migration.id}: ${counts[migration.id]} snapshots - ${migration.description}`);
+  }
+
+  console.log('✅ Snapshot migration complete');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Snapshot migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
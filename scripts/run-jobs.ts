@@ -0,0 +1,48 @@
+// Background job runner - runs every job whose interval has elapsed
+// Usage: npm run jobs:run (e.g. hourly from cron), or npm run jobs:run -- --watch to keep running
+
+import prisma from '../lib/db';
+import { runDueJobs } from '../lib/jobs';
+
+const WATCH_INTERVAL_MS = 15 * 60 * 1000;
+
+async function runOnce() {
+  const results = await runDueJobs();
+
+  if (results.length === 0) {
+    console.log('⏭️  No jobs due');
+  }
+
+  for (const result of results) {
+    const icon = result.status === 'succeeded' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+    console.log(`${icon} ${result.job}: ${result.status}`);
+  }
+
+  return results.every(result => result.status === 'succeeded' || result.status === 'skipped');
+}
+
+async function main() {
+  if (!process.argv.includes('--watch')) {
+    if (!(await runOnce())) process.exitCode = 1;
+    return;
+  }
+
+  console.log(`⏱️  Checking for due jobs every ${WATCH_INTERVAL_MS / 60000} minutes (Ctrl+C to stop)`);
+  while (true) {
+    try {
+      await runOnce();
+    } catch (error) {
+      console.error('❌ Job check failed:', error);
+    }
+    await new Promise(resolve => setTimeout(resolve, WATCH_INTERVAL_MS));
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Job run failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,19 @@
+// Local SMTP sink - prints alert emails instead of sending them, for development
+// Usage: npm run smtp:sink, with SMTP_HOST=127.0.0.1 and SMTP_PORT=2525 in .env
+
+import { startSmtpSink } from '../lib/smtp';
+
+async function main() {
+  const sink = await startSmtpSink(parseInt(process.env.SMTP_PORT || '2525'), mail => {
+    console.log(`📧 ${mail.from} → ${mail.to.join(', ')}`);
+    console.log(mail.data);
+    console.log('');
+  });
+
+  console.log(`📬 SMTP sink listening on 127.0.0.1:${sink.port} (Ctrl+C to stop)`);
+}
+
+main().catch((error) => {
+  console.error('❌ SMTP sink failed:', error);
+  process.exitCode = 1;
+});
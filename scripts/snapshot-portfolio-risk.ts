@@ -0,0 +1,27 @@
+// Scheduled portfolio risk snapshot - run daily from cron or a platform scheduler
+// Usage: npm run risk:snapshot
+
+import prisma from '../lib/db';
+import { recordAllPortfolioRiskSnapshots } from '../lib/portfolio-history';
+
+async function main() {
+  console.log('📸 Recording portfolio risk snapshots...');
+
+  const result = await recordAllPortfolioRiskSnapshots('scheduled');
+
+  console.log(`✅ ${result.snapshots} snapshots written for ${result.portfolios} portfolios`);
+
+  if (result.failed.length > 0) {
+    console.error(`❌ Failed portfolios: ${result.failed.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Snapshot run failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });